@@ -1,5 +1,5 @@
-import React, { useState } from 'react';
-import { KnowledgeBaseProvider } from './contexts/KnowledgeBaseContext';
+import React, { ReactNode, useState } from 'react';
+import { DEFAULT_COLLECTIONS, KnowledgeBaseProvider, useKnowledgeBase } from './contexts/KnowledgeBaseContext';
 import KnowledgeList from './components/KnowledgeList';
 import ColdStart from './components/ColdStart';
 import ChatInterface from './components/ChatInterface';
@@ -8,16 +8,49 @@ import ConversationLearning from './components/ConversationLearning';
 import RobotManagement from './components/RobotManagement';
 import EntityManagement from './components/EntityManagement';
 import IntentManagement from './components/IntentManagement';
-import { BrainIcon, ChatIcon, RocketIcon, GearIcon, ClipboardListIcon, RobotIcon, TagIcon, LightbulbIcon } from './components/ui/Icons';
+import UserManagement from './components/UserManagement';
+import ReviewQueue from './components/ReviewQueue';
+import OrganizationSwitcher from './components/OrganizationSwitcher';
+import AgentConsole from './components/AgentConsole';
+import { BrainIcon, ChatIcon, RocketIcon, GearIcon, ClipboardListIcon, RobotIcon, TagIcon, LightbulbIcon, UsersIcon, LogoutIcon, CheckIcon, SupportIcon } from './components/ui/Icons';
 import { ToastProvider } from './contexts/ToastContext';
+import { AuthContextProvider, useAuth } from './contexts/AuthContext';
+import { StorageProvider } from './contexts/StorageContext';
+import { Permission, ROLE_LABELS } from './services/auth';
 import ToastContainer from './components/ui/Toast';
 
-type View = 'knowledge_base' | 'cold_start' | 'chat' | 'settings' | 'conversation_learning' | 'robot_management' | 'entity_management' | 'intent_management';
+type View = 'knowledge_base' | 'review_queue' | 'cold_start' | 'chat' | 'agent_console' | 'settings' | 'conversation_learning' | 'robot_management' | 'entity_management' | 'intent_management' | 'user_management';
 
-const App: React.FC = () => {
-    const [view, setView] = useState<View>('knowledge_base');
+// The permission a role needs for a page to appear in the navigation.
+const VIEW_PERMISSIONS: Record<View, Permission> = {
+    knowledge_base: 'knowledge:view',
+    review_queue: 'knowledge:edit',
+    entity_management: 'nlu:edit',
+    intent_management: 'nlu:edit',
+    conversation_learning: 'conversations:manage',
+    cold_start: 'coldStart:manage',
+    chat: 'chat:use',
+    agent_console: 'handoff:handle',
+    robot_management: 'robot:edit',
+    user_management: 'users:manage',
+    settings: 'settings:manage',
+};
+
+// Pages hold state that belongs to one organization, such as the selected category or robot,
+// so they start over when another organization is chosen.
+const OrganizationPage: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { activeOrganizationId } = useKnowledgeBase();
+    return <React.Fragment key={activeOrganizationId}>{children}</React.Fragment>;
+};
+
+const AppShell: React.FC = () => {
+    const { currentUser, can, logout } = useAuth();
+    const [selectedView, setView] = useState<View>('knowledge_base');
+    // A role change can take away the page that was open.
+    const view = can(VIEW_PERMISSIONS[selectedView]) ? selectedView : 'knowledge_base';
 
     const NavItem = ({ currentView, targetView, icon, children, onClick }: { currentView: View, targetView: View, icon: React.ReactNode, children: React.ReactNode, onClick: (view: View) => void }) => {
+        if (!can(VIEW_PERMISSIONS[targetView])) return null;
         const isActive = currentView === targetView;
         return (
             <button
@@ -38,6 +71,8 @@ const App: React.FC = () => {
         switch (view) {
             case 'knowledge_base':
                 return <KnowledgeList />;
+            case 'review_queue':
+                return <ReviewQueue />;
             case 'cold_start':
                 return <ColdStart />;
             case 'entity_management':
@@ -46,10 +81,14 @@ const App: React.FC = () => {
                 return <IntentManagement />;
             case 'chat':
                 return <ChatInterface />;
+            case 'agent_console':
+                return <AgentConsole />;
             case 'conversation_learning':
                 return <ConversationLearning />;
             case 'robot_management':
                 return <RobotManagement />;
+            case 'user_management':
+                return <UserManagement />;
             case 'settings':
                 return <SettingsPage />;
             default:
@@ -59,48 +98,75 @@ const App: React.FC = () => {
 
     return (
         <KnowledgeBaseProvider>
-            <ToastProvider>
-                <div className="flex h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
-                    <aside className="w-64 flex-shrink-0 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
-                        <div className="h-16 flex items-center justify-center border-b border-gray-200 dark:border-gray-700">
-                            <BrainIcon className="h-8 w-8 text-blue-600" />
-                            <h1 className="ml-2 text-xl font-bold">智能知识库</h1>
+            <div className="flex h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+                <aside className="w-64 flex-shrink-0 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
+                    <div className="h-16 flex items-center justify-center border-b border-gray-200 dark:border-gray-700">
+                        <BrainIcon className="h-8 w-8 text-blue-600" />
+                        <h1 className="ml-2 text-xl font-bold">智能知识库</h1>
+                    </div>
+                    <OrganizationSwitcher />
+                    <nav className="flex-1 p-4 space-y-2">
+                        <NavItem currentView={view} targetView="knowledge_base" icon={<BrainIcon className="h-5 w-5" />} onClick={setView}>
+                            知识库
+                        </NavItem>
+                        <NavItem currentView={view} targetView="review_queue" icon={<CheckIcon className="h-5 w-5" />} onClick={setView}>
+                            待审核
+                        </NavItem>
+                        <NavItem currentView={view} targetView="entity_management" icon={<TagIcon className="h-5 w-5" />} onClick={setView}>
+                            实体管理
+                        </NavItem>
+                         <NavItem currentView={view} targetView="intent_management" icon={<LightbulbIcon className="h-5 w-5" />} onClick={setView}>
+                            意图管理
+                        </NavItem>
+                         <NavItem currentView={view} targetView="conversation_learning" icon={<ClipboardListIcon className="h-5 w-5" />} onClick={setView}>
+                            会话学习
+                        </NavItem>
+                        <NavItem currentView={view} targetView="cold_start" icon={<RocketIcon className="h-5 w-5" />} onClick={setView}>
+                            冷启动
+                        </NavItem>
+                        <NavItem currentView={view} targetView="chat" icon={<ChatIcon className="h-5 w-5" />} onClick={setView}>
+                            聊天机器人
+                        </NavItem>
+                        <NavItem currentView={view} targetView="agent_console" icon={<SupportIcon className="h-5 w-5" />} onClick={setView}>
+                            人工客服
+                        </NavItem>
+                        <NavItem currentView={view} targetView="robot_management" icon={<RobotIcon className="h-5 w-5" />} onClick={setView}>
+                            机器人管理
+                        </NavItem>
+                        <NavItem currentView={view} targetView="user_management" icon={<UsersIcon className="h-5 w-5" />} onClick={setView}>
+                            用户管理
+                        </NavItem>
+                         <NavItem currentView={view} targetView="settings" icon={<GearIcon className="h-5 w-5" />} onClick={setView}>
+                            设置
+                        </NavItem>
+                    </nav>
+                    <div className="p-4 border-t border-gray-200 dark:border-gray-700 flex items-center">
+                        <div className="flex-grow min-w-0">
+                            <p className="text-sm font-medium truncate">{currentUser.displayName}</p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">{ROLE_LABELS[currentUser.role]}</p>
                         </div>
-                        <nav className="flex-1 p-4 space-y-2">
-                            <NavItem currentView={view} targetView="knowledge_base" icon={<BrainIcon className="h-5 w-5" />} onClick={setView}>
-                                知识库
-                            </NavItem>
-                            <NavItem currentView={view} targetView="entity_management" icon={<TagIcon className="h-5 w-5" />} onClick={setView}>
-                                实体管理
-                            </NavItem>
-                             <NavItem currentView={view} targetView="intent_management" icon={<LightbulbIcon className="h-5 w-5" />} onClick={setView}>
-                                意图管理
-                            </NavItem>
-                             <NavItem currentView={view} targetView="conversation_learning" icon={<ClipboardListIcon className="h-5 w-5" />} onClick={setView}>
-                                会话学习
-                            </NavItem>
-                            <NavItem currentView={view} targetView="cold_start" icon={<RocketIcon className="h-5 w-5" />} onClick={setView}>
-                                冷启动
-                            </NavItem>
-                            <NavItem currentView={view} targetView="chat" icon={<ChatIcon className="h-5 w-5" />} onClick={setView}>
-                                聊天机器人
-                            </NavItem>
-                            <NavItem currentView={view} targetView="robot_management" icon={<RobotIcon className="h-5 w-5" />} onClick={setView}>
-                                机器人管理
-                            </NavItem>
-                             <NavItem currentView={view} targetView="settings" icon={<GearIcon className="h-5 w-5" />} onClick={setView}>
-                                设置
-                            </NavItem>
-                        </nav>
-                    </aside>
-                    <main className="flex-1 flex flex-col overflow-hidden">
-                        {renderView()}
-                    </main>
-                </div>
-                <ToastContainer />
-            </ToastProvider>
+                        <button onClick={logout} className="p-2 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700" title="退出登录" aria-label="退出登录">
+                            <LogoutIcon className="h-5 w-5" />
+                        </button>
+                    </div>
+                </aside>
+                <main className="flex-1 flex flex-col overflow-hidden">
+                    <OrganizationPage>{renderView()}</OrganizationPage>
+                </main>
+            </div>
         </KnowledgeBaseProvider>
     );
 };
 
+const App: React.FC = () => (
+    <ToastProvider>
+        <StorageProvider defaults={DEFAULT_COLLECTIONS}>
+            <AuthContextProvider>
+                <AppShell />
+            </AuthContextProvider>
+        </StorageProvider>
+        <ToastContainer />
+    </ToastProvider>
+);
+
 export default App;
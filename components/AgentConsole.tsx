@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { ChatMessage, ChatSession } from '../types';
+import Button from './ui/Button';
+import { SendIcon, SupportIcon } from './ui/Icons';
+import { getHandoffQueue, getMessageBus, HANDOFF_REASON_LABELS } from '../services/handoff';
+
+const RECENTLY_CLOSED_LIMIT = 10;
+
+const formatWaitTime = (since: string, now: number): string => {
+    const minutes = Math.max(0, Math.floor((now - new Date(since).getTime()) / 60000));
+    return minutes < 1 ? '刚刚' : minutes < 60 ? `${minutes} 分钟` : `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分钟`;
+};
+
+const AgentConsole: React.FC = () => {
+    const { chatSessions, robots, getKnowledgePointById, takeOverSession, replyAsAgent, closeHandoff } = useKnowledgeBase();
+    const { currentUser } = useAuth();
+    const { addToast } = useToast();
+    const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+    const [reply, setReply] = useState('');
+    const [now, setNow] = useState(() => Date.now());
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+
+    // Keeps the waiting times current.
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 30000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // New requests are announced even while the agent is looking at another session.
+    useEffect(() => getMessageBus().subscribe(event => {
+        if (event.type === 'handoff' && event.handoff.status === 'waiting') {
+            addToast(`有新的转人工请求：${HANDOFF_REASON_LABELS[event.handoff.reason]}`, 'info');
+        }
+    }), [addToast]);
+
+    const queue = useMemo(() => getHandoffQueue(chatSessions), [chatSessions]);
+    const activeSessions = useMemo(() => chatSessions
+        .filter(s => s.handoff?.status === 'active')
+        .sort((a, b) => (a.handoff!.agentId === currentUser.id ? 0 : 1) - (b.handoff!.agentId === currentUser.id ? 0 : 1)), [chatSessions, currentUser.id]);
+    const closedSessions = useMemo(() => chatSessions
+        .filter(s => s.handoff?.status === 'closed' && s.handoff.closedAt)
+        .sort((a, b) => b.handoff!.closedAt!.localeCompare(a.handoff!.closedAt!))
+        .slice(0, RECENTLY_CLOSED_LIMIT), [chatSessions]);
+    const selectedSession = chatSessions.find(s => s.id === selectedSessionId) ?? null;
+    const isMine = selectedSession?.handoff?.status === 'active' && selectedSession.handoff.agentId === currentUser.id;
+
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+    }, [selectedSession?.messages.length]);
+
+    const getRobotName = (session: ChatSession) => robots.find(r => r.id === session.robotId)?.name || 'N/A';
+
+    const handleSend = () => {
+        if (!selectedSession || !reply.trim()) return;
+        replyAsAgent(selectedSession.id, reply.trim());
+        setReply('');
+    };
+
+    const handleClose = () => {
+        if (!selectedSession) return;
+        if (window.confirm('结束人工服务后，该会话将交还给机器人。确定结束吗？')) {
+            closeHandoff(selectedSession.id);
+        }
+    };
+
+    const renderSessionItem = (session: ChatSession, detail: string) => (
+        <button
+            key={session.id}
+            onClick={() => setSelectedSessionId(session.id)}
+            className={`w-full text-left px-4 py-3 border-b border-gray-200 dark:border-gray-700 ${session.id === selectedSessionId ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+        >
+            <div className="flex justify-between text-sm font-medium">
+                <span className="truncate">{session.userId}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">{getRobotName(session)}</span>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>
+        </button>
+    );
+
+    // Bot replies show what they were based on, so the agent can see where the bot went wrong.
+    const renderMessageDetails = (msg: ChatMessage) => {
+        const details: string[] = [];
+        if (msg.knowledgePointId) {
+            const point = getKnowledgePointById(msg.knowledgePointId);
+            details.push(`知识点：${point ? point.standardQuestion : `${msg.knowledgePointId}（已删除）`}`);
+        }
+        if (msg.citedKnowledgePointIds && msg.citedKnowledgePointIds.length > 0) details.push(`引用 ${msg.citedKnowledgePointIds.join('、')}`);
+        if (msg.unanswered) details.push('未能回答');
+        if (msg.feedback) details.push(msg.feedback === 'helpful' ? '用户评价：有帮助' : '用户评价：没有帮助');
+        if (details.length === 0) return null;
+        return <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 font-mono">{details.join(' · ')}</p>;
+    };
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <h1 className="text-2xl font-bold mb-2">人工客服</h1>
+            <p className="mb-6 text-gray-600 dark:text-gray-400">
+                用户要求转人工，或机器人按转人工规则移交的会话会在这里排队。接入后，您的回复会直接显示在用户的聊天窗口中。
+            </p>
+
+            <div className="flex-grow flex min-h-0 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+                <aside className="w-72 flex-shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+                    <h2 className="px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase bg-gray-50 dark:bg-gray-800">等待接入 ({queue.length})</h2>
+                    {queue.map(s => renderSessionItem(s, `${HANDOFF_REASON_LABELS[s.handoff!.reason]} · 已等待 ${formatWaitTime(s.handoff!.requestedAt, now)}`))}
+                    {queue.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">没有等待中的会话。</p>}
+                    <h2 className="px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase bg-gray-50 dark:bg-gray-800">服务中 ({activeSessions.length})</h2>
+                    {activeSessions.map(s => renderSessionItem(s, s.handoff!.agentId === currentUser.id ? '由您接待' : `由 ${s.handoff!.agentName} 接待`))}
+                    {activeSessions.length === 0 && <p className="px-4 py-3 text-sm text-gray-500">没有服务中的会话。</p>}
+                    {closedSessions.length > 0 && (
+                        <>
+                            <h2 className="px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-300 uppercase bg-gray-50 dark:bg-gray-800">最近结束</h2>
+                            {closedSessions.map(s => renderSessionItem(s, `${s.handoff!.agentName ? `${s.handoff!.agentName} 接待` : '用户已取消'} · ${new Date(s.handoff!.closedAt!).toLocaleString()}`))}
+                        </>
+                    )}
+                </aside>
+
+                <section className="flex-1 flex flex-col min-w-0 bg-gray-50 dark:bg-gray-800">
+                    {!selectedSession ? (
+                        <div className="flex flex-col items-center justify-center h-full text-gray-500">
+                            <SupportIcon className="h-16 w-16 mb-4" />
+                            <p>从左侧选择一个会话。</p>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="px-4 py-3 flex items-center justify-between border-b border-gray-200 dark:border-gray-700">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium truncate">{selectedSession.userId} · {getRobotName(selectedSession)}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                                        开始于 {new Date(selectedSession.startTime).toLocaleString()}
+                                        {selectedSession.handoff && ` · ${HANDOFF_REASON_LABELS[selectedSession.handoff.reason]}`}
+                                    </p>
+                                </div>
+                                <div className="flex space-x-2 flex-shrink-0">
+                                    {selectedSession.handoff?.status === 'waiting' && <Button size="sm" onClick={() => takeOverSession(selectedSession.id)}>接入会话</Button>}
+                                    {isMine && <Button variant="secondary" size="sm" onClick={handleClose}>结束人工服务</Button>}
+                                </div>
+                            </div>
+
+                            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                                {selectedSession.messages.map(msg => (
+                                    <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-start' : 'justify-end'}`}>
+                                        <div className="max-w-lg">
+                                            <p className={`text-xs text-gray-500 dark:text-gray-400 mb-1 ${msg.sender === 'user' ? '' : 'text-right'}`}>
+                                                {msg.sender === 'user' ? '用户' : msg.sender === 'agent' ? `人工客服 ${msg.senderName}` : '机器人'}
+                                            </p>
+                                            <div className={`p-3 rounded-lg ${msg.sender === 'user' ? 'bg-white dark:bg-gray-900' : msg.sender === 'agent' ? 'bg-green-100 dark:bg-green-900' : 'bg-gray-200 dark:bg-gray-700'}`}>
+                                                {msg.sender === 'user'
+                                                    ? <p className="text-sm">{msg.text}</p>
+                                                    : <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: msg.text }} />}
+                                            </div>
+                                            {renderMessageDetails(msg)}
+                                        </div>
+                                    </div>
+                                ))}
+                                <div ref={messagesEndRef} />
+                            </div>
+
+                            <div className="p-4 flex items-center border-t border-gray-200 dark:border-gray-700">
+                                <input
+                                    type="text"
+                                    value={reply}
+                                    onChange={(e) => setReply(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                                    placeholder={isMine ? '输入回复...' : selectedSession.handoff?.status === 'waiting' ? '请先接入会话' : '该会话不由您接待'}
+                                    className="flex-1 px-4 py-2 border rounded-l-lg dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    disabled={!isMine}
+                                />
+                                <Button onClick={handleSend} className="rounded-l-none" disabled={!isMine || !reply.trim()}>
+                                    <SendIcon className="w-5 h-5" />
+                                </Button>
+                            </div>
+                        </>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default AgentConsole;
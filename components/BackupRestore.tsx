@@ -0,0 +1,187 @@
+import React, { useState, useMemo } from 'react';
+import Button from './ui/Button';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useToast } from '../contexts/ToastContext';
+import { getLlmConfig, setLlmConfig } from '../services/geminiService';
+import { MigrationError } from '../services/migrations';
+import { COLLECTION_NAMES, CollectionName } from '../services/storage';
+import { BackupCollections, COLLECTION_LABELS, RestorableBackup, checkIntegrity, createBackup, readBackup } from '../services/backup';
+
+interface BackupRestoreProps {
+    onLlmConfigRestored: () => void;
+}
+
+type RestoreMode = 'replace' | 'selective';
+
+const pickCollections = (collections: BackupCollections, names: CollectionName[]): Partial<BackupCollections> =>
+    Object.fromEntries(names.map(name => [name, collections[name]]));
+
+const BackupRestore: React.FC<BackupRestoreProps> = ({ onLlmConfigRestored }) => {
+    const { allCollections: current, restoreCollections } = useKnowledgeBase();
+    const { addToast } = useToast();
+    const [includeApiKey, setIncludeApiKey] = useState(false);
+    const [pending, setPending] = useState<{ fileName: string; backup: RestorableBackup } | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('replace');
+    const [selected, setSelected] = useState<Set<CollectionName>>(new Set());
+    const [restoreLlmConfig, setRestoreLlmConfig] = useState(true);
+
+    const restoredNames = mode === 'replace' ? [...COLLECTION_NAMES] : COLLECTION_NAMES.filter(name => selected.has(name));
+    const willRestoreConfig = !!pending?.backup.llmConfig && (mode === 'replace' || restoreLlmConfig);
+
+    // Checked against what the knowledge base would hold afterwards, so that a selective restore
+    // also reports references into the collections that are kept.
+    const issues = useMemo(() => {
+        if (!pending) return [];
+        return checkIntegrity({ ...current, ...pickCollections(pending.backup.collections, restoredNames) });
+    }, [pending, mode, selected, current]);
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+
+    const handleDownload = () => {
+        const backup = createBackup(current, getLlmConfig(), includeApiKey);
+        const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `knowledge_base_backup_${backup.createdAt.slice(0, 10)}.json`;
+        a.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const backup = readBackup(JSON.parse(await file.text()));
+            setPending({ fileName: file.name, backup });
+            setMode('replace');
+            setSelected(new Set(COLLECTION_NAMES.filter(name => !backup.missingCollections.includes(name))));
+            setRestoreLlmConfig(!!backup.llmConfig);
+        } catch (error) {
+            console.error("Backup read error:", error);
+            if (error instanceof MigrationError) {
+                addToast(`无法读取备份：${error.message}${error.errors.length > 0 ? ` ${error.errors.slice(0, 3).join('；')}` : ''}`, 'error');
+            } else {
+                addToast('无法读取备份，请检查文件格式。', 'error');
+            }
+        }
+    };
+
+    const toggleCollection = (name: CollectionName) => {
+        const next = new Set(selected);
+        if (next.has(name)) next.delete(name); else next.add(name);
+        setSelected(next);
+    };
+
+    const handleRestore = () => {
+        if (!pending) return;
+        if (!window.confirm('恢复会用备份覆盖所选数据的当前内容，且无法撤销。建议先下载一份当前数据的备份。确定继续吗？')) return;
+        restoreCollections(pickCollections(pending.backup.collections, restoredNames));
+        if (willRestoreConfig && pending.backup.llmConfig) {
+            // A backup made without the API key keeps the key that is configured now.
+            setLlmConfig(pending.backup.llmConfig);
+            onLlmConfigRestored();
+        }
+        addToast(`已从备份恢复${restoredNames.map(name => COLLECTION_LABELS[name]).join('、')}${willRestoreConfig ? '及 AI 服务配置' : ''}。`, 'success');
+        setPending(null);
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-md">
+            <h2 className="text-xl font-semibold mb-4 border-b pb-3 dark:border-gray-700">备份与恢复</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                备份包含所有组织的分类、知识点、修订历史、冷启动条目、会话记录、未解决问题、机器人、实体、意图以及 AI 服务配置。
+            </p>
+            <div className="flex items-center space-x-4">
+                <Button onClick={handleDownload}>下载备份</Button>
+                <label className="inline-flex items-center text-sm">
+                    <input type="checkbox" checked={includeApiKey} onChange={e => setIncludeApiKey(e.target.checked)} className="mr-2 rounded" />
+                    包含 API Key
+                </label>
+                <label className="inline-flex items-center">
+                    <Button as="span" variant="secondary" className="cursor-pointer">从备份恢复</Button>
+                    <input type="file" className="hidden" accept=".json" onChange={handleFileChange} />
+                </label>
+            </div>
+            {includeApiKey && <p className="mt-2 text-xs text-yellow-600 dark:text-yellow-400">备份文件将以明文保存 API Key，请妥善保管。</p>}
+
+            {pending && (
+                <div className="mt-6 border-t pt-4 dark:border-gray-700 space-y-4">
+                    <div className="flex justify-between items-center">
+                        <h3 className="font-semibold">
+                            {pending.fileName}
+                            {pending.backup.createdAt && <span className="ml-2 text-sm font-normal text-gray-500">备份于 {new Date(pending.backup.createdAt).toLocaleString()}</span>}
+                        </h3>
+                        <div className="flex items-center space-x-2">
+                            <Button size="sm" variant="secondary" onClick={() => setPending(null)}>取消</Button>
+                            <Button size="sm" variant="danger" onClick={handleRestore} disabled={hasErrors || (restoredNames.length === 0 && !willRestoreConfig)}>恢复</Button>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center space-x-6 text-sm">
+                        <label className="inline-flex items-center">
+                            <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mr-2" />
+                            完全替换
+                        </label>
+                        <label className="inline-flex items-center">
+                            <input type="radio" name="restore-mode" checked={mode === 'selective'} onChange={() => setMode('selective')} className="mr-2" />
+                            按数据类型恢复
+                        </label>
+                    </div>
+
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 w-10">恢复</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">数据</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">备份中</th>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">当前</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                            {COLLECTION_NAMES.map(name => {
+                                const missing = pending.backup.missingCollections.includes(name);
+                                return (
+                                    <tr key={name}>
+                                        <td className="px-3 py-2">
+                                            <input type="checkbox" className="rounded" aria-label={`恢复${COLLECTION_LABELS[name]}`}
+                                                checked={restoredNames.includes(name)} disabled={mode === 'replace'} onChange={() => toggleCollection(name)} />
+                                        </td>
+                                        <td className="px-3 py-2">{COLLECTION_LABELS[name]}</td>
+                                        <td className="px-3 py-2">{missing ? <span className="text-yellow-600 dark:text-yellow-400">无（恢复后为空）</span> : pending.backup.collections[name].length}</td>
+                                        <td className="px-3 py-2 text-gray-500">{current[name].length}</td>
+                                    </tr>
+                                );
+                            })}
+                            <tr>
+                                <td className="px-3 py-2">
+                                    <input type="checkbox" className="rounded" aria-label="恢复 AI 服务配置"
+                                        checked={willRestoreConfig} disabled={mode === 'replace' || !pending.backup.llmConfig} onChange={e => setRestoreLlmConfig(e.target.checked)} />
+                                </td>
+                                <td className="px-3 py-2">AI 服务配置</td>
+                                <td className="px-3 py-2" colSpan={2}>
+                                    {!pending.backup.llmConfig ? '无' : pending.backup.llmConfig.apiKey === undefined ? '不含 API Key，恢复后保留当前的 Key' : '包含 API Key'}
+                                </td>
+                            </tr>
+                        </tbody>
+                    </table>
+
+                    {issues.length === 0 ? (
+                        <p className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">完整性检查通过。</p>
+                    ) : (
+                        <div className={`p-3 rounded-md text-sm ${hasErrors ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300' : 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'}`}>
+                            <p className="font-semibold mb-1">{hasErrors ? '完整性检查未通过，无法恢复：' : '完整性检查发现以下问题，恢复后这些引用将失效：'}</p>
+                            <ul className="list-disc pl-5 space-y-1">
+                                {issues.map((issue, i) => (
+                                    <li key={i} className={issue.severity === 'error' ? 'font-medium' : ''}>{COLLECTION_LABELS[issue.collection]}：{issue.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BackupRestore;
@@ -4,6 +4,7 @@ import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
 import { Category } from '../types';
 import { PlusIcon, EditIcon, TrashIcon, FolderIcon, ChevronDownIcon, ChevronRightIcon } from './ui/Icons';
 import Modal from './ui/Modal';
+import { useAuth } from '../contexts/AuthContext';
 import Button from './ui/Button';
 
 interface CategoryTreeProps {
@@ -13,6 +14,7 @@ interface CategoryTreeProps {
 
 const CategoryTree: React.FC<CategoryTreeProps> = ({ selectedCategoryId, onSelectCategory }) => {
     const { categories, addCategory, updateCategory, deleteCategory } = useKnowledgeBase();
+    const { can } = useAuth();
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingCategory, setEditingCategory] = useState<Category | { parentId: string | null } | null>(null);
     const [categoryName, setCategoryName] = useState('');
@@ -82,9 +84,9 @@ const CategoryTree: React.FC<CategoryTreeProps> = ({ selectedCategoryId, onSelec
                     <span className="flex-grow" onClick={() => onSelectCategory(category.id)}>{category.name}</span>
                     
                     <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button onClick={onAddSub} className="p-1 hover:text-blue-500" aria-label="添加子分类"><PlusIcon className="w-4 h-4"/></button>
-                        <button onClick={onEdit} className="p-1 hover:text-green-500" aria-label="编辑分类"><EditIcon className="w-4 h-4"/></button>
-                        <button onClick={onDelete} className="p-1 hover:text-red-500" aria-label="删除分类"><TrashIcon className="w-4 h-4"/></button>
+                        {can('category:edit') && <button onClick={onAddSub} className="p-1 hover:text-blue-500" aria-label="添加子分类"><PlusIcon className="w-4 h-4"/></button>}
+                        {can('category:edit') && <button onClick={onEdit} className="p-1 hover:text-green-500" aria-label="编辑分类"><EditIcon className="w-4 h-4"/></button>}
+                        {can('category:delete') && <button onClick={onDelete} className="p-1 hover:text-red-500" aria-label="删除分类"><TrashIcon className="w-4 h-4"/></button>}
                     </div>
                 </div>
                 {isExpanded && hasChildren && renderTree(category.id)}
@@ -96,9 +98,11 @@ const CategoryTree: React.FC<CategoryTreeProps> = ({ selectedCategoryId, onSelec
         <div className="p-4 h-full flex flex-col">
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-lg font-semibold">分类管理</h2>
-                <Button size="sm" onClick={() => handleOpenModal(null)}>
-                    <PlusIcon className="w-4 h-4 mr-1" /> 新建
-                </Button>
+                {can('category:edit') && (
+                    <Button size="sm" onClick={() => handleOpenModal(null)}>
+                        <PlusIcon className="w-4 h-4 mr-1" /> 新建
+                    </Button>
+                )}
             </div>
             <div className="flex-grow overflow-y-auto">
                 <div onClick={() => onSelectCategory(null)} className={`flex items-center p-2 rounded-lg cursor-pointer group ${selectedCategoryId === null ? 'bg-blue-100 dark:bg-blue-900' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}>
@@ -1,147 +1,365 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
-import { ChatMessage, KnowledgePoint, ChatSession, Robot } from '../types';
-import { SendIcon, RobotIcon } from './ui/Icons';
+import { ChatMessage, KnowledgePoint, ChatSession, Robot, ClarificationOption, HandoffReason } from '../types';
+import { SendIcon, RobotIcon, ThumbUpIcon, ThumbDownIcon } from './ui/Icons';
 import Button from './ui/Button';
+import { createMatcher, resolveAnswer, MatchResult } from '../services/matcher';
+import { createNluEngine } from '../services/nlu';
+import { answerQueryWithFallback, answerWithDialogue, findRelatedQuestions, getPublishedKnowledgePoints, getNoAnswerText, getStarterQuestions, isPublishedNow, searchKnowledge, RobotKnowledge, CLARIFICATION_TEXT, DEFAULT_GOODBYE_MESSAGE, DEFAULT_HANDOFF_MESSAGE, DEFAULT_WELCOME_MESSAGE } from '../services/chatEngine';
+import { getFallbackChain, getRobotKnowledgePoints } from '../services/robotScope';
+import { getMessageBus, hasReachedNoAnswerLimit, isHandoffOpen, matchesHandoffKeyword, requestHandoff } from '../services/handoff';
+import useScheduleTick from '../hooks/useScheduleTick';
+import { generateGroundedAnswer } from '../services/geminiService';
+import { plainTextToHtml } from '../services/html';
+
+// How many retrieved knowledge points are offered to the LLM in 'rag' mode.
+const RAG_CONTEXT_LIMIT = 5;
 
 const ChatInterface: React.FC = () => {
-    const { knowledgePoints, getKnowledgePointById, addChatSession, updateChatSession, addUnansweredQuestion, robots } = useKnowledgeBase();
+    const { knowledgePoints, categories, chatSessions, getKnowledgePointById, addChatSession, updateChatSession, addUnansweredQuestion, robots, intents, entities } = useKnowledgeBase();
     const [currentSession, setCurrentSession] = useState<ChatSession | null>(null);
     const [selectedRobotId, setSelectedRobotId] = useState<string>(robots.length > 0 ? robots[0].id : '');
     const [selectedRobot, setSelectedRobot] = useState<Robot | null>(null);
     const [input, setInput] = useState('');
+    const [isGenerating, setIsGenerating] = useState(false);
+    // Bumped to start over with the same robot once a conversation has been ended.
+    const [sessionRound, setSessionRound] = useState(0);
+    const [isSessionEnded, setIsSessionEnded] = useState(false);
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    // Read when a conversation starts, without restarting it whenever a message is saved.
+    const chatSessionsRef = useRef(chatSessions);
+    chatSessionsRef.current = chatSessions;
 
     useEffect(() => {
         // Find the selected robot object
         const robot = robots.find(r => r.id === selectedRobotId) || null;
         setSelectedRobot(robot);
 
+        setIsSessionEnded(false);
         if (!robot) {
             setCurrentSession(null);
             return;
         };
 
-        const starterQuestions = knowledgePoints.slice(0, 3).map(kp => kp.standardQuestion);
+        // A conversation waiting for or with a human agent is picked up again rather than abandoned.
+        const handedOff = chatSessionsRef.current
+            .filter(s => s.robotId === robot.id && isHandoffOpen(s.handoff))
+            .sort((a, b) => b.startTime.localeCompare(a.startTime))[0];
+        if (handedOff) {
+            setCurrentSession(handedOff);
+            return;
+        }
+
         const newSession: ChatSession = {
             id: `session-${Date.now()}`,
             userId: `user-${Math.random().toString(36).substr(2, 9)}`,
             startTime: new Date().toISOString(),
             robotId: robot.id,
+            organizationId: robot.organizationId,
             messages: [
                 {
                     id: 'bot-init',
                     sender: 'bot',
-                    text: robot.welcomeMessage || '您好！我是您的智能客服助手。',
+                    text: robot.welcomeMessage || DEFAULT_WELCOME_MESSAGE,
                     senderAvatar: robot.avatar,
-                    suggestions: starterQuestions.length > 0 ? starterQuestions : ['退货政策是什么？', '如何更新账单信息？']
+                    suggestions: getStarterQuestions(robot, getPublishedKnowledgePoints(getRobotKnowledgePoints(robot, knowledgePoints, categories)))
                 }
             ]
         };
         setCurrentSession(newSession);
         addChatSession(newSession);
-    }, [selectedRobotId, robots, knowledgePoints, addChatSession]);
+    }, [selectedRobotId, sessionRound, robots, knowledgePoints, categories, addChatSession]);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [currentSession?.messages]);
-    
-    const findBestMatch = (query: string): KnowledgePoint | null => {
-        if (!query.trim()) return null;
-        
-        const lowerQuery = query.toLowerCase();
-        let bestMatch: KnowledgePoint | null = null;
-        let highestScore = 0;
-
-        knowledgePoints.forEach(kp => {
-            if (kp.status !== 'published') return; // Only match published KPs
-            let score = calculateScore(lowerQuery, kp.standardQuestion.toLowerCase());
-            if (score > highestScore) {
-                highestScore = score;
-                bestMatch = kp;
+
+    // The agent's side of a handoff arrives over the message bus. The agent console has already
+    // saved it, so it is only merged into this window.
+    const currentSessionId = currentSession?.id;
+    useEffect(() => {
+        if (!currentSessionId) return;
+        return getMessageBus().subscribe(event => {
+            if (event.sessionId !== currentSessionId) return;
+            if (event.type === 'handoff') {
+                setCurrentSession(prev => (prev ? { ...prev, handoff: event.handoff } : null));
+            } else if (event.message.sender === 'agent') {
+                setCurrentSession(prev => (prev && !prev.messages.some(m => m.id === event.message.id) ? { ...prev, messages: [...prev.messages, event.message] } : prev));
             }
-            kp.similarQuestions.forEach(sq => {
-                score = calculateScore(lowerQuery, sq.toLowerCase());
-                if (score > highestScore) {
-                    highestScore = score;
-                    bestMatch = kp;
-                }
+        });
+    }, [currentSessionId]);
+    
+    // The robot answers only from its scope, and only from points that are published and in their effective period.
+    const robotKnowledgePoints = useMemo(
+        () => (selectedRobot ? getRobotKnowledgePoints(selectedRobot, knowledgePoints, categories) : knowledgePoints),
+        [selectedRobot, knowledgePoints, categories]
+    );
+    const scheduleTick = useScheduleTick(knowledgePoints);
+    const publishedKnowledgePoints = useMemo(() => getPublishedKnowledgePoints(robotKnowledgePoints), [robotKnowledgePoints, scheduleTick]);
+    const nlu = useMemo(() => createNluEngine(intents, entities), [intents, entities]);
+    const matcher = useMemo(
+        () => createMatcher(publishedKnowledgePoints, selectedRobot?.matcherType, nlu.normalizeSynonyms),
+        [publishedKnowledgePoints, selectedRobot?.matcherType, nlu]
+    );
+
+    const buildAnswerMessage = (kp: KnowledgePoint, avatar: string, relatedQuestions = findRelatedQuestions(kp, robotKnowledgePoints)): ChatMessage => ({
+        id: `bot-${Date.now()}`,
+        text: kp.answer,
+        sender: 'bot',
+        senderAvatar: avatar,
+        knowledgePointId: kp.id,
+        relatedQuestions: relatedQuestions
+    });
+
+    const appendBotMessage = (botMessage: ChatMessage) => {
+        setTimeout(() => {
+            setCurrentSession(prevSession => {
+                if (!prevSession) return null;
+                const finalSession = { ...prevSession, messages: [...prevSession.messages, botMessage] };
+                updateChatSession(finalSession);
+                return finalSession;
             });
+        }, 500);
+    };
+
+    const patchBotMessage = (messageId: string, patch: Partial<ChatMessage>, persist: boolean) => {
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            const finalSession = { ...prevSession, messages: prevSession.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) };
+            if (persist) updateChatSession(finalSession);
+            return finalSession;
         });
-        
-        return highestScore > 0.5 ? bestMatch : null;
     };
-    
-    const calculateScore = (query: string, question: string): number => {
-        const queryWords = new Set(query.split(' '));
-        const questionWords = new Set(question.split(' '));
-        if (questionWords.size === 0) return 0;
-        let intersectionSize = 0;
-        queryWords.forEach(word => {
-            if (questionWords.has(word)) {
-                intersectionSize++;
-            }
+
+    // Called while answering a message, before it has been added to the session.
+    const buildNoAnswerMessage = (robot: Robot): ChatMessage => ({
+        id: `bot-${Date.now()}`,
+        text: getNoAnswerText(robot, (currentSession?.messages.filter(m => m.sender === 'user').length ?? 0) + 1),
+        sender: 'bot',
+        senderAvatar: robot.avatar,
+        unanswered: true,
+    });
+
+    // The bot stays silent from now on; the session waits in the agents' queue.
+    const startHandoff = (robot: Robot, reason: HandoffReason) => {
+        if (!currentSession) return;
+        const handoff = requestHandoff(reason);
+        setCurrentSession(prevSession => (prevSession ? { ...prevSession, handoff } : null));
+        appendBotMessage({
+            id: `bot-${Date.now()}-handoff`,
+            text: plainTextToHtml(robot.handoffMessage.trim() || DEFAULT_HANDOFF_MESSAGE),
+            sender: 'bot',
+            senderAvatar: robot.avatar,
         });
-        return intersectionSize / questionWords.size;
+        getMessageBus().publish({ type: 'handoff', sessionId: currentSession.id, handoff });
     };
 
-    const processQuery = (query: string) => {
-        if (!currentSession || !selectedRobot) return;
-        const { id: sessionId, userId, robotId } = currentSession;
+    // Called with the reply that just failed to answer, before it has been added to the session.
+    const checkNoAnswerLimit = (robot: Robot, reply: Pick<ChatMessage, 'sender' | 'unanswered'>) => {
+        if (currentSession && hasReachedNoAnswerLimit(robot.handoffRules, [...currentSession.messages, reply])) {
+            startHandoff(robot, 'noAnswers');
+        }
+    };
 
-        const userMessage: ChatMessage = { id: `user-${Date.now()}`, text: query, sender: 'user' };
-        
+    const logUnansweredQuestion = (query: string) => {
+        if (!currentSession) return;
+        addUnansweredQuestion({
+            question: query,
+            sessionId: currentSession.id,
+            userId: currentSession.userId,
+            robotId: currentSession.robotId,
+            organizationId: currentSession.organizationId,
+            timestamp: new Date().toISOString()
+        });
+    };
+
+    const generateRagAnswer = async (query: string, relevant: MatchResult[], robot: Robot) => {
+        const botMessageId = `bot-${Date.now()}`;
         setCurrentSession(prevSession => {
             if (!prevSession) return null;
-            return { ...prevSession, messages: [...prevSession.messages, userMessage] };
+            return { ...prevSession, messages: [...prevSession.messages, { id: botMessageId, text: '', sender: 'bot', senderAvatar: robot.avatar }] };
         });
+        setIsGenerating(true);
 
-        const match = findBestMatch(query);
-        
-        setTimeout(() => {
-            let botMessage: ChatMessage;
-
-            if (match) {
-                const relatedQuestions = match.relatedQuestionIds
-                    .map(id => getKnowledgePointById(id))
-                    .filter((kp): kp is KnowledgePoint => !!kp && kp.status === 'published');
-
-                botMessage = {
-                    id: `bot-${Date.now()}`,
-                    text: match.answer,
-                    sender: 'bot',
-                    senderAvatar: selectedRobot.avatar,
-                    relatedQuestions: relatedQuestions
-                };
+        let streamed = '';
+        try {
+            const { text, citedIds } = await generateGroundedAnswer(query, relevant.map(r => r.knowledgePoint), (delta) => {
+                streamed += delta;
+                patchBotMessage(botMessageId, { text: plainTextToHtml(streamed) }, false);
+            }, robot.systemPrompt);
+            // An answer that cites nothing means the model declined, so the gap still needs a knowledge point.
+            const declined = citedIds.length === 0;
+            if (declined) logUnansweredQuestion(query);
+            const patch: Partial<ChatMessage> = { text: plainTextToHtml(text), citedKnowledgePointIds: citedIds, ...(declined ? { unanswered: true } : {}) };
+            patchBotMessage(botMessageId, patch, true);
+            if (declined) checkNoAnswerLimit(robot, { sender: 'bot', unanswered: true });
+        } catch (error) {
+            console.error("RAG answer generation failed, falling back to retrieval:", error);
+            const decision = resolveAnswer(relevant, robot.answerThresholds);
+            if (decision.type === 'answer') {
+                const { id, ...answer } = buildAnswerMessage(decision.match.knowledgePoint, robot.avatar);
+                patchBotMessage(botMessageId, answer, true);
             } else {
-                botMessage = {
-                    id: `bot-${Date.now()}`,
-                    text: "抱歉，我找不到您问题的答案。请尝试换一种问法。",
-                    sender: 'bot',
-                    senderAvatar: selectedRobot.avatar,
-                };
-                addUnansweredQuestion({
-                    question: query,
-                    sessionId: sessionId,
-                    userId: userId,
-                    robotId: robotId,
-                    timestamp: new Date().toISOString()
-                });
+                const { id, ...noAnswer } = buildNoAnswerMessage(robot);
+                logUnansweredQuestion(query);
+                patchBotMessage(botMessageId, noAnswer, true);
+                checkNoAnswerLimit(robot, noAnswer);
             }
-            
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const processQuery = async (query: string) => {
+        if (!currentSession || !selectedRobot || isGenerating || isSessionEnded) return;
+
+        const userMessage: ChatMessage = { id: `user-${Date.now()}`, text: query, sender: 'user' };
+
+        // While the session is with a human, or waiting for one, messages go to the agent instead of the bot.
+        if (isHandoffOpen(currentSession.handoff)) {
             setCurrentSession(prevSession => {
                 if (!prevSession) return null;
-                const finalSession = { ...prevSession, messages: [...prevSession.messages, botMessage] };
+                const finalSession = { ...prevSession, messages: [...prevSession.messages, userMessage] };
                 updateChatSession(finalSession);
                 return finalSession;
             });
+            setInput('');
+            getMessageBus().publish({ type: 'message', sessionId: currentSession.id, message: userMessage });
+            return;
+        }
+        if (matchesHandoffKeyword(selectedRobot.handoffRules, query)) {
+            setCurrentSession(prevSession => (prevSession ? { ...prevSession, messages: [...prevSession.messages, userMessage], dialogueState: null } : null));
+            setInput('');
+            startHandoff(selectedRobot, 'keyword');
+            return;
+        }
 
-        }, 500);
-
+        // Intents with slots take precedence over retrieval, in both answer modes.
+        const dialogue = answerWithDialogue(query, nlu, currentSession.dialogueState ?? null, robotKnowledgePoints);
+        
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            return { ...prevSession, messages: [...prevSession.messages, userMessage], dialogueState: dialogue.dialogueState };
+        });
         setInput('');
+
+        if (dialogue.reply?.type === 'answer') {
+            appendBotMessage({ ...buildAnswerMessage(dialogue.reply.knowledgePoint, selectedRobot.avatar, dialogue.reply.relatedQuestions), text: dialogue.reply.text });
+            return;
+        }
+        if (dialogue.reply?.type === 'prompt') {
+            appendBotMessage({
+                id: `bot-${Date.now()}`,
+                text: dialogue.reply.text,
+                sender: 'bot',
+                senderAvatar: selectedRobot.avatar,
+                // An empty list would still draw the divider above the chips.
+                suggestions: dialogue.reply.suggestions.length > 0 ? dialogue.reply.suggestions : undefined,
+            });
+            return;
+        }
+
+        const thresholds = selectedRobot.answerThresholds;
+        if (selectedRobot.answerMode === 'rag') {
+            const relevant = (await searchKnowledge(matcher, publishedKnowledgePoints, query, RAG_CONTEXT_LIMIT)).filter(r => r.score >= thresholds.clarify);
+            if (relevant.length > 0) {
+                generateRagAnswer(query, relevant, selectedRobot);
+                return;
+            }
+            // Nothing relevant was retrieved: fall through so the bot declines instead of letting the LLM guess.
+        }
+
+        // Fallback robots are only asked when the robot finds nothing, so their matchers are built then.
+        const chain: RobotKnowledge[] = getFallbackChain(selectedRobot, robots).map((robot, index) => {
+            if (index === 0) return { robot, knowledgePoints: robotKnowledgePoints, getMatcher: () => matcher };
+            const scoped = getRobotKnowledgePoints(robot, knowledgePoints, categories);
+            return { robot, knowledgePoints: scoped, getMatcher: () => createMatcher(getPublishedKnowledgePoints(scoped), robot.matcherType, nlu.normalizeSynonyms) };
+        });
+        const reply = await answerQueryWithFallback(query, chain);
+        let botMessage: ChatMessage;
+
+        if (reply.type === 'answer') {
+            botMessage = buildAnswerMessage(reply.knowledgePoint, selectedRobot.avatar, reply.relatedQuestions);
+        } else if (reply.type === 'clarify') {
+            botMessage = {
+                id: `bot-${Date.now()}`,
+                text: CLARIFICATION_TEXT,
+                sender: 'bot',
+                senderAvatar: selectedRobot.avatar,
+                clarificationOptions: reply.options,
+            };
+        } else {
+            botMessage = buildNoAnswerMessage(selectedRobot);
+            logUnansweredQuestion(query);
+        }
+
+        appendBotMessage(botMessage);
+        if (botMessage.unanswered) checkNoAnswerLimit(selectedRobot, botMessage);
+    };
+
+    const handleClarificationSelect = (messageId: string, option: ClarificationOption) => {
+        if (!currentSession || !selectedRobot) return;
+        const kp = getKnowledgePointById(option.knowledgePointId);
+
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            const messages = prevSession.messages.map(m => m.id === messageId ? { ...m, selectedClarificationId: option.knowledgePointId } : m);
+            return { ...prevSession, messages };
+        });
+
+        // The point may have been unpublished, expired or deleted since the options were offered.
+        if (!kp || !isPublishedNow(kp)) {
+            processQuery(option.standardQuestion);
+            return;
+        }
+
+        const userMessage: ChatMessage = { id: `user-${Date.now()}`, text: option.standardQuestion, sender: 'user' };
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            return { ...prevSession, messages: [...prevSession.messages, userMessage] };
+        });
+        appendBotMessage(buildAnswerMessage(kp, selectedRobot.avatar));
     };
     
+    const handleFeedback = (messageId: string, feedback: NonNullable<ChatMessage['feedback']>) => {
+        if (!currentSession || !selectedRobot) return;
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            const finalSession = { ...prevSession, messages: prevSession.messages.map(m => m.id === messageId ? { ...m, feedback } : m) };
+            updateChatSession(finalSession);
+            return finalSession;
+        });
+        if (feedback === 'unhelpful' && selectedRobot.handoffRules.onNegativeFeedback && !isHandoffOpen(currentSession.handoff)) {
+            startHandoff(selectedRobot, 'negativeFeedback');
+        }
+    };
+
+    // The customer stops waiting; the bot answers again.
+    const handleCancelHandoff = () => {
+        if (!currentSession || !isHandoffOpen(currentSession.handoff)) return;
+        const handoff = { ...currentSession.handoff, status: 'closed' as const, closedAt: new Date().toISOString() };
+        setCurrentSession(prevSession => {
+            if (!prevSession) return null;
+            const finalSession = { ...prevSession, handoff };
+            updateChatSession(finalSession);
+            return finalSession;
+        });
+        getMessageBus().publish({ type: 'handoff', sessionId: currentSession.id, handoff });
+    };
+
+    const handleEndSession = () => {
+        if (!currentSession || !selectedRobot || isGenerating) return;
+        if (isHandoffOpen(currentSession.handoff)) handleCancelHandoff();
+        appendBotMessage({
+            id: `bot-${Date.now()}`,
+            text: plainTextToHtml(selectedRobot.goodbyeMessage.trim() || DEFAULT_GOODBYE_MESSAGE),
+            sender: 'bot',
+            senderAvatar: selectedRobot.avatar,
+        });
+        setIsSessionEnded(true);
+    };
+
     const handleSend = () => {
         if (!input.trim()) return;
         processQuery(input);
@@ -156,7 +374,54 @@ const ChatInterface: React.FC = () => {
          <div className="flex items-end space-x-3">
             <img src={msg.senderAvatar} alt="Bot Avatar" className="h-8 w-8 rounded-full" />
             <div className="max-w-lg p-3 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-gray-100">
-                <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: msg.text }} />
+                {msg.text ? (
+                    <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: msg.text }} />
+                ) : (
+                    <div className="flex items-center space-x-2 py-1">
+                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse"></div>
+                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-75"></div>
+                        <div className="w-2 h-2 bg-gray-500 rounded-full animate-pulse delay-150"></div>
+                    </div>
+                )}
+                {msg.citedKnowledgePointIds && msg.citedKnowledgePointIds.length > 0 && (
+                    <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        <span className="font-semibold">参考知识点：</span>
+                        {msg.citedKnowledgePointIds.map(id => (
+                            <span key={id} className="inline-block mr-2 font-mono" title={getKnowledgePointById(id)?.standardQuestion}>[{id}]</span>
+                        ))}
+                    </div>
+                )}
+                {(msg.knowledgePointId || (msg.citedKnowledgePointIds && msg.citedKnowledgePointIds.length > 0)) && (
+                    <div className="mt-2 flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400">
+                        {msg.feedback ? (
+                            <span>{msg.feedback === 'helpful' ? '感谢您的反馈！' : '抱歉没能帮到您。'}</span>
+                        ) : (
+                            <>
+                                <span className="mr-1">这个回答有帮助吗？</span>
+                                <button onClick={() => handleFeedback(msg.id, 'helpful')} className="p-1 rounded hover:bg-gray-300 dark:hover:bg-gray-600" title="有帮助" aria-label="有帮助"><ThumbUpIcon className="h-4 w-4" /></button>
+                                <button onClick={() => handleFeedback(msg.id, 'unhelpful')} className="p-1 rounded hover:bg-gray-300 dark:hover:bg-gray-600" title="没有帮助" aria-label="没有帮助"><ThumbDownIcon className="h-4 w-4" /></button>
+                            </>
+                        )}
+                    </div>
+                )}
+                {msg.clarificationOptions && msg.clarificationOptions.length > 0 && (
+                    <div className="mt-2 flex flex-col items-start gap-2">
+                        {msg.clarificationOptions.map(option => (
+                            <button
+                                key={option.knowledgePointId}
+                                onClick={() => handleClarificationSelect(msg.id, option)}
+                                disabled={!!msg.selectedClarificationId}
+                                className={`text-sm text-left px-3 py-1.5 rounded-md border disabled:cursor-default ${
+                                    msg.selectedClarificationId === option.knowledgePointId
+                                        ? 'bg-blue-600 text-white border-blue-600'
+                                        : 'bg-white text-blue-700 border-blue-300 hover:bg-blue-50 dark:bg-gray-800 dark:text-blue-300 dark:border-blue-700 disabled:opacity-60'
+                                }`}
+                            >
+                                {option.standardQuestion}
+                            </button>
+                        ))}
+                    </div>
+                )}
                  {(msg.relatedQuestions || msg.suggestions) && (
                     <div className="mt-3 pt-3 border-t border-gray-300 dark:border-gray-600">
                         {(msg.relatedQuestions && msg.relatedQuestions.length > 0) && (
@@ -202,6 +467,11 @@ const ChatInterface: React.FC = () => {
                             <option key={robot.id} value={robot.id}>{robot.name}</option>
                          ))}
                     </select>
+                    {isSessionEnded ? (
+                        <Button variant="secondary" onClick={() => setSessionRound(round => round + 1)}>开始新会话</Button>
+                    ) : (
+                        <Button variant="secondary" onClick={handleEndSession} disabled={!selectedRobot || isGenerating}>结束会话</Button>
+                    )}
                  </div>
             </div>
             
@@ -214,7 +484,14 @@ const ChatInterface: React.FC = () => {
                     </div>
                 ) : currentSession?.messages.map(msg => (
                     <div key={msg.id} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                       {msg.sender === 'bot' ? <BotMessage msg={msg} /> : (
+                       {msg.sender === 'bot' ? <BotMessage msg={msg} /> : msg.sender === 'agent' ? (
+                            <div className="max-w-lg">
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">人工客服 {msg.senderName}</p>
+                                <div className="p-3 rounded-lg bg-green-100 text-gray-900 dark:bg-green-900 dark:text-gray-100">
+                                    <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: msg.text }} />
+                                </div>
+                            </div>
+                        ) : (
                             <div className="max-w-lg p-3 rounded-lg bg-blue-500 text-white">
                                  <p>{msg.text}</p>
                             </div>
@@ -224,17 +501,30 @@ const ChatInterface: React.FC = () => {
                  <div ref={messagesEndRef} />
             </div>
 
+            {isHandoffOpen(currentSession?.handoff) && (
+                <div className="mt-4 px-4 py-2 flex items-center justify-between rounded-lg bg-yellow-50 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-200 text-sm">
+                    <span>
+                        {currentSession!.handoff!.status === 'waiting'
+                            ? '正在为您转接人工客服，请稍候…'
+                            : `人工客服 ${currentSession!.handoff!.agentName} 正在为您服务`}
+                    </span>
+                    {currentSession!.handoff!.status === 'waiting' && (
+                        <Button variant="secondary" size="sm" onClick={handleCancelHandoff}>取消转人工</Button>
+                    )}
+                </div>
+            )}
+
             <div className="mt-4 flex items-center">
                 <input
                     type="text"
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                    placeholder={selectedRobot ? "请输入您的问题..." : "请先选择一个机器人"}
+                    placeholder={!selectedRobot ? "请先选择一个机器人" : isSessionEnded ? "会话已结束" : "请输入您的问题..."}
                     className="flex-1 px-4 py-2 border rounded-l-lg dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    disabled={!selectedRobot}
+                    disabled={!selectedRobot || isSessionEnded}
                 />
-                <Button onClick={handleSend} className="rounded-l-none" disabled={!selectedRobot}>
+                <Button onClick={handleSend} className="rounded-l-none" disabled={!selectedRobot || isGenerating || isSessionEnded}>
                     <SendIcon className="w-5 h-5" />
                 </Button>
             </div>
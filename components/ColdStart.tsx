@@ -62,12 +62,12 @@ const ColdStart: React.FC = () => {
             categoryId: edited ? edited.catId : (categories.length > 0 ? categories[0].id : ''),
             similarQuestions: [],
             relatedQuestionIds: [],
-            // FIX: Add missing 'status' property to align with the KnowledgePoint type.
-            status: 'published' as const,
+            // AI output is never published directly; a reviewer approves it from the review queue.
+            status: 'draft' as const,
         };
-        addKnowledgePoint(newKp);
+        addKnowledgePoint(newKp, true);
         deleteColdStartItem(item.id);
-        addToast('知识点已通过并加入知识库！', 'success');
+        addToast('知识点已作为草稿加入知识库，并已提交审核。', 'success');
     };
     
     const handleEdit = (id: string, field: 'q' | 'a' | 'catId', value: string) => {
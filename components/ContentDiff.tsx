@@ -0,0 +1,66 @@
+import React from 'react';
+import { KnowledgePointContent } from '../types';
+import { DiffPart, diffLists, diffText } from '../services/diff';
+
+// One side of a side-by-side diff: the left shows removals, the right shows additions.
+const DiffSide: React.FC<{ parts: DiffPart[]; side: 'before' | 'after'; mono?: boolean }> = ({ parts, side, mono }) => (
+    <div className={`p-2 rounded bg-gray-50 dark:bg-gray-800 whitespace-pre-wrap break-all text-sm ${mono ? 'font-mono text-xs' : ''}`}>
+        {parts.filter(part => part.type !== (side === 'before' ? 'added' : 'removed')).map((part, i) => (
+            part.type === 'equal'
+                ? <span key={i}>{part.value}</span>
+                : <span key={i} className={part.type === 'removed' ? 'bg-red-200 dark:bg-red-900 line-through' : 'bg-green-200 dark:bg-green-900'}>{part.value}</span>
+        ))}
+    </div>
+);
+
+export const DiffRow: React.FC<{ label: string; children: [React.ReactNode, React.ReactNode] }> = ({ label, children }) => (
+    <div>
+        <h4 className="text-sm font-medium mb-1">{label}</h4>
+        <div className="grid grid-cols-2 gap-4">
+            {children[0]}
+            {children[1]}
+        </div>
+    </div>
+);
+
+const SimilarQuestionsDiff: React.FC<{ before: string[]; after: string[] }> = ({ before, after }) => {
+    const { removed, added } = diffLists(before, after);
+    const renderList = (items: string[], changed: string[], changedClass: string) => (
+        <ul className="p-2 rounded bg-gray-50 dark:bg-gray-800 text-sm space-y-1">
+            {items.length === 0 && <li className="text-gray-400">（无）</li>}
+            {items.map((item, i) => <li key={i} className={changed.includes(item) ? changedClass : ''}>{item}</li>)}
+        </ul>
+    );
+    return (
+        <DiffRow label="相似问题">
+            {renderList(before, removed, 'bg-red-200 dark:bg-red-900 line-through')}
+            {renderList(after, added, 'bg-green-200 dark:bg-green-900')}
+        </DiffRow>
+    );
+};
+
+interface ContentDiffProps {
+    before: KnowledgePointContent;
+    after: KnowledgePointContent;
+}
+
+// Side-by-side comparison of the question, similar questions and answer source of two versions.
+const ContentDiff: React.FC<ContentDiffProps> = ({ before, after }) => {
+    const questionDiff = diffText(before.standardQuestion, after.standardQuestion);
+    const answerDiff = diffText(before.answer, after.answer);
+    return (
+        <>
+            <DiffRow label="标准问题">
+                <DiffSide parts={questionDiff} side="before" />
+                <DiffSide parts={questionDiff} side="after" />
+            </DiffRow>
+            <SimilarQuestionsDiff before={before.similarQuestions} after={after.similarQuestions} />
+            <DiffRow label="答案（HTML）">
+                <DiffSide parts={answerDiff} side="before" mono />
+                <DiffSide parts={answerDiff} side="after" mono />
+            </DiffRow>
+        </>
+    );
+};
+
+export default ContentDiff;
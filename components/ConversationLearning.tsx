@@ -5,6 +5,10 @@ import Button from './ui/Button';
 import Modal from './ui/Modal';
 import { useToast } from '../contexts/ToastContext';
 import { CopyIcon, PlusIcon, SearchIcon, TrashIcon } from './ui/Icons';
+import { createMatcher, MatchResult } from '../services/matcher';
+import { MigrationError, migrateImport } from '../services/migrations';
+import { isPublishedNow } from '../services/chatEngine';
+import { getRobotKnowledgePoints } from '../services/robotScope';
 
 type View = 'unanswered' | 'silent' | 'history';
 
@@ -27,6 +31,7 @@ const UnansweredQuestionsView: React.FC = () => {
     const [isAddToSimilarModalOpen, setIsAddToSimilarModalOpen] = useState(false);
     const [targetKnowledgePointId, setTargetKnowledgePointId] = useState<string>('');
     const [questionsToProcess, setQuestionsToProcess] = useState<UnansweredQuestion[]>([]);
+    const [suggestedMatches, setSuggestedMatches] = useState<MatchResult[]>([]);
     
     const [searchTerm, setSearchTerm] = useState('');
     const [dateFilter, setDateFilter] = useState({ start: '', end: '' });
@@ -48,6 +53,26 @@ const UnansweredQuestionsView: React.FC = () => {
             .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     }, [unansweredQuestions, searchTerm, dateFilter, robotFilter]);
 
+    // Drafts are included so a question can be attached to a point that is still being written.
+    const [useSemanticMatch, setUseSemanticMatch] = useState(false);
+    const matcher = useMemo(() => createMatcher(knowledgePoints, useSemanticMatch ? 'vector' : 'bm25'), [knowledgePoints, useSemanticMatch]);
+
+    useEffect(() => {
+        if (!isAddToSimilarModalOpen || questionsToProcess.length === 0) return;
+        let cancelled = false;
+        matcher.search(questionsToProcess.map(q => q.question).join(' '), 3)
+            .then(suggestions => {
+                if (cancelled) return;
+                setSuggestedMatches(suggestions);
+                if (suggestions.length > 0) setTargetKnowledgePointId(suggestions[0].knowledgePoint.id);
+            })
+            .catch(error => {
+                console.error("Failed to rank knowledge points:", error);
+                if (!cancelled) setSuggestedMatches([]);
+            });
+        return () => { cancelled = true; };
+    }, [matcher, isAddToSimilarModalOpen, questionsToProcess]);
+
     const handleSelect = (id: string) => {
         const newSelection = new Set(selectedIds);
         if (newSelection.has(id)) newSelection.delete(id); else newSelection.add(id);
@@ -86,6 +111,7 @@ const UnansweredQuestionsView: React.FC = () => {
             return;
         }
         setQuestionsToProcess(questions);
+        setSuggestedMatches([]);
         setTargetKnowledgePointId(knowledgePoints[0].id);
         setIsAddToSimilarModalOpen(true);
     };
@@ -172,7 +198,20 @@ const UnansweredQuestionsView: React.FC = () => {
             </Modal>
              <Modal isOpen={isAddToSimilarModalOpen} onClose={() => setIsAddToSimilarModalOpen(false)} title="添加到相似问法">
                 <p className="mb-2">将 {questionsToProcess.length} 个问题添加到以下知识点的相似问法中：</p>
-                 <select value={targetKnowledgePointId} onChange={e => setTargetKnowledgePointId(e.target.value)} className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500">{knowledgePoints.map(kp => <option key={kp.id} value={kp.id}>{kp.standardQuestion}</option>)}</select>
+                <label className="inline-flex items-center text-sm text-gray-600 dark:text-gray-400">
+                    <input type="checkbox" checked={useSemanticMatch} onChange={e => setUseSemanticMatch(e.target.checked)} className="mr-2 rounded" />
+                    按语义相似度推荐
+                </label>
+                 <select value={targetKnowledgePointId} onChange={e => setTargetKnowledgePointId(e.target.value)} className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500">
+                    {suggestedMatches.length > 0 && (
+                        <optgroup label="推荐">
+                            {suggestedMatches.map(m => <option key={`suggested-${m.knowledgePoint.id}`} value={m.knowledgePoint.id}>{m.knowledgePoint.standardQuestion} ({Math.round(m.score * 100)}%)</option>)}
+                        </optgroup>
+                    )}
+                    <optgroup label="全部知识点">
+                        {knowledgePoints.map(kp => <option key={kp.id} value={kp.id}>{kp.standardQuestion}</option>)}
+                    </optgroup>
+                </select>
                 <div className="mt-4 flex justify-end space-x-2"><Button variant="secondary" onClick={() => setIsAddToSimilarModalOpen(false)}>取消</Button><Button onClick={handleConfirmAddToSimilar}>确认添加</Button></div>
             </Modal>
         </>
@@ -216,8 +255,14 @@ const SilentQuestionsView: React.FC = () => {
             });
         });
 
-        return knowledgePoints.filter(kp => {
-            if (kp.status === 'published' && !usedAnswers.has(kp.answer)) {
+        // A robot can only be silent on the points it may answer from.
+        const selectedRobot = robots.find(r => r.id === robotFilter);
+        const candidates = selectedRobot ? getRobotKnowledgePoints(selectedRobot, knowledgePoints, categories) : knowledgePoints;
+
+        // A point that only took effect within the window has not had the whole window to be used.
+        return candidates.filter(kp => {
+            const effectiveForWholeWindow = !kp.effectiveFrom || new Date(kp.effectiveFrom) <= thresholdDate;
+            if (isPublishedNow(kp) && effectiveForWholeWindow && !usedAnswers.has(kp.answer)) {
                  if (searchTerm && !kp.standardQuestion.toLowerCase().includes(searchTerm.toLowerCase())) {
                     return false;
                 }
@@ -225,7 +270,7 @@ const SilentQuestionsView: React.FC = () => {
             }
             return false;
         });
-    }, [knowledgePoints, chatSessions, silenceDays, searchTerm, robotFilter]);
+    }, [knowledgePoints, categories, robots, chatSessions, silenceDays, searchTerm, robotFilter]);
     
     const getCategoryName = (id: string) => categories.find(c => c.id === id)?.name || 'N/A';
 
@@ -382,6 +427,32 @@ const AllHistoryView: React.FC = () => {
 
 const ConversationLearning: React.FC = () => {
     const [view, setView] = useState<View>('unanswered');
+    const { importConversations } = useKnowledgeBase();
+    const { addToast } = useToast();
+
+    // Accepts the chat server's conversation log as well as session exports from this page.
+    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        event.target.value = '';
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const parsed = JSON.parse(e.target?.result as string);
+                const data = migrateImport(Array.isArray(parsed) ? { chatSessions: parsed } : parsed, ['chatSessions', 'unansweredQuestions']);
+                const imported = importConversations((data.chatSessions ?? []) as ChatSession[], (data.unansweredQuestions ?? []) as UnansweredQuestion[]);
+                addToast(`成功导入 ${imported.sessions} 条会话和 ${imported.questions} 个未知问题。`, 'success');
+            } catch (error) {
+                console.error("Conversation import error:", error);
+                if (error instanceof MigrationError) {
+                    addToast(`导入失败：${error.message}${error.errors.length > 0 ? ` ${error.errors.slice(0, 3).join('；')}` : ''}`, 'error');
+                } else {
+                    addToast('导入文件失败，请检查文件格式。', 'error');
+                }
+            }
+        };
+        reader.readAsText(file);
+    };
     
     const renderView = () => {
         switch(view) {
@@ -403,7 +474,13 @@ const ConversationLearning: React.FC = () => {
 
     return (
         <div className="p-6 h-full flex flex-col">
-            <h1 className="text-2xl font-bold mb-2">会话学习</h1>
+            <div className="flex justify-between items-center mb-2">
+                <h1 className="text-2xl font-bold">会话学习</h1>
+                <label className="inline-flex items-center">
+                    <Button as="span" variant="secondary" className="cursor-pointer">导入会话记录</Button>
+                    <input type="file" className="hidden" accept=".json" onChange={handleImport} />
+                </label>
+            </div>
             <p className="mb-4 text-gray-600 dark:text-gray-400">
                 分析聊天数据，发现未知问题和沉寂知识点，持续优化机器人性能。
             </p>
@@ -1,30 +1,64 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
 import { Entity, EntityMember } from '../types';
+import { createEntityExtractor, withSystemEntities, SYSTEM_ENTITIES, SYSTEM_ENTITY_EXAMPLES } from '../services/nlu';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import { PlusIcon, EditIcon, TrashIcon } from './ui/Icons';
 import { useToast } from '../contexts/ToastContext';
 
+const emptyEntity: Omit<Entity, 'id' | 'organizationId'> = {
+    name: '', description: '', type: 'enum', members: [], regex: null, normalization: { ignoreCase: true, foldWidth: true },
+};
+
+const splitAliases = (text: string): string[] => text.split(/[,，\t]/).map(alias => alias.trim()).filter(Boolean);
+
+// One member per line: the value first, then its synonyms, separated by commas or tabs (as pasted from a spreadsheet).
+const formatMemberLines = (members: EntityMember[]): string =>
+    members.map(member => [member.value, ...member.synonyms].join(', ')).join('\n');
+
+/**
+ * Parses the bulk editor. Lines whose value matches an existing member keep that member's
+ * ID and canonical value; lines repeating a value are merged into the first.
+ */
+const parseMemberLines = (text: string, existing: EntityMember[]): EntityMember[] => {
+    const byValue = new Map(existing.map(member => [member.value, member]));
+    const parsed = new Map<string, EntityMember>();
+    text.split('\n').forEach((line, index) => {
+        const [value, ...synonyms] = splitAliases(line);
+        if (!value) return;
+        const member = parsed.get(value) ?? { id: byValue.get(value)?.id ?? `mem-${Date.now()}-${index}`, value, synonyms: [], canonicalValue: byValue.get(value)?.canonicalValue ?? null };
+        member.synonyms = Array.from(new Set([...member.synonyms, ...synonyms])).filter(synonym => synonym !== value);
+        parsed.set(value, member);
+    });
+    return Array.from(parsed.values());
+};
+
 const EntityManagement: React.FC = () => {
     const { entities, addEntity, updateEntity, deleteEntity } = useKnowledgeBase();
     const { addToast } = useToast();
     
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingEntity, setEditingEntity] = useState<Entity | null>(null);
-    const [formState, setFormState] = useState<Omit<Entity, 'id'>>({
-        name: '', description: '', type: 'enum', members: [], regex: null
-    });
+    const [formState, setFormState] = useState<Omit<Entity, 'id' | 'organizationId'>>(emptyEntity);
     const [newMember, setNewMember] = useState('');
+    const [bulkText, setBulkText] = useState<string | null>(null); // Non-null while the bulk editor is open
+    const [testText, setTestText] = useState('');
 
     useEffect(() => {
         if (isModalOpen && editingEntity) {
             setFormState(editingEntity);
         } else {
-            setFormState({ name: '', description: '', type: 'enum', members: [], regex: null });
+            setFormState(emptyEntity);
         }
+        setBulkText(null);
     }, [isModalOpen, editingEntity]);
 
+    const allEntities = useMemo(() => withSystemEntities(entities), [entities]);
+    const extractEntities = useMemo(() => createEntityExtractor(allEntities), [allEntities]);
+    const testMatches = useMemo(() => extractEntities(testText), [extractEntities, testText]);
+    const entityName = (id: string) => allEntities.find(e => e.id === id)?.name ?? '';
+
     const handleOpenModal = (entity: Entity | null = null) => {
         setEditingEntity(entity);
         setIsModalOpen(true);
@@ -37,23 +71,47 @@ const EntityManagement: React.FC = () => {
         setFormState(prev => ({ ...prev, [name]: value }));
     };
     
+    const handleNormalizationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, checked } = e.target;
+        setFormState(prev => ({ ...prev, normalization: { ...prev.normalization, [name]: checked } }));
+    };
+
     const handleAddMember = () => {
-        if (newMember.trim()) {
-            const member: EntityMember = { id: `mem-${Date.now()}`, value: newMember.trim() };
+        const [value, ...synonyms] = splitAliases(newMember);
+        if (value && !formState.members.some(m => m.value === value)) {
+            const member: EntityMember = { id: `mem-${Date.now()}`, value, synonyms: synonyms.filter(synonym => synonym !== value), canonicalValue: null };
             setFormState(prev => ({ ...prev, members: [...prev.members, member] }));
             setNewMember('');
         }
     };
     
+    const handleMemberChange = (memberId: string, update: Partial<EntityMember>) => {
+        setFormState(prev => ({ ...prev, members: prev.members.map(m => m.id === memberId ? { ...m, ...update } : m) }));
+    };
+
     const handleDeleteMember = (memberId: string) => {
         setFormState(prev => ({ ...prev, members: prev.members.filter(m => m.id !== memberId) }));
     };
 
+    const handleApplyBulkText = () => {
+        if (bulkText === null) return;
+        setFormState(prev => ({ ...prev, members: parseMemberLines(bulkText, prev.members) }));
+        setBulkText(null);
+    };
+
     const handleSave = () => {
         if (!/^[a-zA-Z0-9_]+$/.test(formState.name)) {
             addToast('实体名称只能包含英文字符、数字和下划线。', 'error');
             return;
         }
+        if (formState.name.startsWith('sys_')) {
+            addToast('以 sys_ 开头的名称保留给系统实体。', 'error');
+            return;
+        }
+        if (bulkText !== null) {
+            addToast('请先应用或取消批量编辑。', 'error');
+            return;
+        }
         if (editingEntity) {
             updateEntity(editingEntity.id, formState);
             addToast('实体已更新', 'success');
@@ -83,6 +141,38 @@ const EntityManagement: React.FC = () => {
                 管理对话中具有特定含义的信息单元，如时间、地点、产品名称等。
             </p>
 
+            <div className="mb-4 bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+                <label htmlFor="entity-test" className="block text-sm font-medium mb-1">测试文本</label>
+                <input id="entity-test" type="text" value={testText} onChange={e => setTestText(e.target.value)} placeholder="输入一句用户可能会说的话，查看能识别出哪些实体..."
+                    className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600" />
+                {testText && (
+                    <div className="mt-3 space-y-2">
+                        <p className="text-sm leading-7">
+                            {testMatches.reduce<{ nodes: React.ReactNode[]; position: number }>((acc, match, index) => {
+                                acc.nodes.push(testText.slice(acc.position, match.start));
+                                acc.nodes.push(
+                                    <mark key={index} title={`${entityName(match.entityId)} → ${match.value}`} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded px-0.5">
+                                        {match.text}<sub className="ml-0.5 text-[10px] font-mono text-gray-600 dark:text-gray-300">{entityName(match.entityId)}</sub>
+                                    </mark>
+                                );
+                                acc.position = match.end;
+                                return acc;
+                            }, { nodes: [], position: 0 }).nodes}
+                            {testText.slice(testMatches.length > 0 ? testMatches[testMatches.length - 1].end : 0)}
+                        </p>
+                        {testMatches.length > 0 ? (
+                            <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                                {testMatches.map((match, index) => (
+                                    <li key={index}><span className="font-mono">{entityName(match.entityId)}</span>：“{match.text}” → {match.value}</li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-xs text-gray-500">没有识别到实体。</p>
+                        )}
+                    </div>
+                )}
+            </div>
+
             <div className="flex-grow overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
                 <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                     <thead className="bg-gray-50 dark:bg-gray-800">
@@ -100,7 +190,12 @@ const EntityManagement: React.FC = () => {
                                 <td className="px-6 py-4 font-mono text-sm">{entity.name}</td>
                                 <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-sm truncate">{entity.description}</td>
                                 <td className="px-6 py-4 text-sm">{entity.type === 'enum' ? '枚举' : '正则'}</td>
-                                <td className="px-6 py-4 text-sm">{entity.type === 'enum' ? entity.members.length : 1}</td>
+                                <td className="px-6 py-4 text-sm">
+                                    {entity.type === 'enum' ? entity.members.length : 1}
+                                    {entity.type === 'enum' && entity.members.some(m => m.synonyms.length > 0) && (
+                                        <span className="ml-1 text-xs text-gray-500">（同义词 {entity.members.reduce((sum, m) => sum + m.synonyms.length, 0)}）</span>
+                                    )}
+                                </td>
                                 <td className="px-6 py-4 text-right space-x-2">
                                     <Button variant="ghost" size="sm" onClick={() => handleOpenModal(entity)}><EditIcon className="w-4 h-4" /></Button>
                                     <Button variant="ghost" size="sm" onClick={() => handleDelete(entity.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>
@@ -110,6 +205,31 @@ const EntityManagement: React.FC = () => {
                     </tbody>
                 </table>
                  {entities.length === 0 && (<div className="text-center py-12 text-gray-500"><p>还没有实体。点击“新建实体”开始吧！</p></div>)}
+
+                <h2 className="px-6 pt-6 pb-2 text-sm font-semibold text-gray-600 dark:text-gray-300">系统实体</h2>
+                <p className="px-6 pb-2 text-xs text-gray-500 dark:text-gray-400">内置实体会把识别到的值统一为标准格式，可直接在意图槽位中使用，不能修改。</p>
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">名称</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">描述</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">示例</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                        {SYSTEM_ENTITIES.map(entity => (
+                            <tr key={entity.id}>
+                                <td className="px-6 py-4 font-mono text-sm">{entity.name}</td>
+                                <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">{entity.description}</td>
+                                <td className="px-6 py-4 text-sm">
+                                    <button onClick={() => setTestText(SYSTEM_ENTITY_EXAMPLES[entity.id])} className="text-blue-600 dark:text-blue-400 hover:underline" title="放入测试文本">
+                                        {SYSTEM_ENTITY_EXAMPLES[entity.id]}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
             </div>
 
             <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingEntity ? '编辑实体' : '新建实体'} size="lg">
@@ -130,21 +250,65 @@ const EntityManagement: React.FC = () => {
                             <label><input type="radio" name="type" value="regex" checked={formState.type === 'regex'} onChange={handleFormChange} /> 正则</label>
                         </div>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium">匹配规则</label>
+                        <div className="flex items-center space-x-4 mt-1 text-sm">
+                            <label><input type="checkbox" name="ignoreCase" checked={formState.normalization.ignoreCase} onChange={handleNormalizationChange} /> 忽略大小写</label>
+                            <label><input type="checkbox" name="foldWidth" checked={formState.normalization.foldWidth} onChange={handleNormalizationChange} /> 全角与半角视为相同</label>
+                        </div>
+                    </div>
                     {formState.type === 'enum' ? (
                         <div>
-                            <label className="block text-sm font-medium">枚举成员</label>
-                            <div className="mt-1 max-h-48 overflow-y-auto border rounded p-2 space-y-2">
-                                {formState.members.map(member => (
-                                    <div key={member.id} className="flex items-center justify-between bg-gray-100 dark:bg-gray-800 p-2 rounded">
-                                        <span>{member.value}</span>
-                                        <button onClick={() => handleDeleteMember(member.id)}><TrashIcon className="w-4 h-4 text-red-500" /></button>
+                            <div className="flex justify-between items-center">
+                                <label className="block text-sm font-medium">枚举成员</label>
+                                {bulkText === null ? (
+                                    <Button variant="ghost" size="sm" onClick={() => setBulkText(formatMemberLines(formState.members))}>批量编辑</Button>
+                                ) : (
+                                    <div className="space-x-2">
+                                        <Button variant="ghost" size="sm" onClick={() => setBulkText(null)}>取消</Button>
+                                        <Button variant="secondary" size="sm" onClick={handleApplyBulkText}>应用</Button>
                                     </div>
-                                ))}
-                            </div>
-                            <div className="flex items-center space-x-2 mt-2">
-                                <input type="text" value={newMember} onChange={e => setNewMember(e.target.value)} placeholder="添加新成员" className="flex-grow p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
-                                <Button variant="secondary" onClick={handleAddMember}>添加</Button>
+                                )}
                             </div>
+                            {bulkText !== null ? (
+                                <>
+                                    <textarea value={bulkText} onChange={e => setBulkText(e.target.value)} rows={10}
+                                        placeholder={'iPhone15, 苹果15, ip15\n华为Mate60, mate60'}
+                                        className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 font-mono text-sm" />
+                                    <p className="text-xs text-gray-500 mt-1">每行一个成员：先写成员值，后面是同义词，用逗号或制表符分隔。可直接从表格中粘贴。</p>
+                                </>
+                            ) : (
+                                <>
+                                    <div className="mt-1 max-h-64 overflow-y-auto border rounded p-2 space-y-2">
+                                        {formState.members.map(member => (
+                                            <div key={member.id} className="grid grid-cols-12 gap-2 items-center bg-gray-100 dark:bg-gray-800 p-2 rounded">
+                                                <span className="col-span-3 text-sm truncate" title={member.value}>{member.value}</span>
+                                                <input
+                                                    key={member.synonyms.join('\n')}
+                                                    type="text"
+                                                    defaultValue={member.synonyms.join(', ')}
+                                                    onBlur={e => handleMemberChange(member.id, { synonyms: splitAliases(e.target.value).filter(synonym => synonym !== member.value) })}
+                                                    placeholder="同义词，用逗号分隔"
+                                                    className="col-span-5 p-1 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                />
+                                                <input
+                                                    type="text"
+                                                    value={member.canonicalValue ?? ''}
+                                                    onChange={e => handleMemberChange(member.id, { canonicalValue: e.target.value || null })}
+                                                    placeholder="规范值（可选）"
+                                                    className="col-span-3 p-1 text-sm border rounded dark:bg-gray-700 dark:border-gray-600"
+                                                />
+                                                <button onClick={() => handleDeleteMember(member.id)} className="col-span-1 justify-self-end"><TrashIcon className="w-4 h-4 text-red-500" /></button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center space-x-2 mt-2">
+                                        <input type="text" value={newMember} onChange={e => setNewMember(e.target.value)} placeholder="添加新成员，可在逗号后附上同义词" className="flex-grow p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                                        <Button variant="secondary" onClick={handleAddMember}>添加</Button>
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-1">识别到成员值或任一同义词时，槽位取值和知识检索都会使用规范值；未填写规范值时使用成员值。</p>
+                                </>
+                            )}
                         </div>
                     ) : (
                         <div>
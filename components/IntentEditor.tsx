@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
-import { Intent } from '../types';
+import { IntentSlot, IntentUtterance } from '../types';
 import Button from './ui/Button';
 import { useToast } from '../contexts/ToastContext';
-import { TrashIcon } from './ui/Icons';
+import { PlusIcon, TrashIcon } from './ui/Icons';
+import UtteranceAnnotator from './UtteranceAnnotator';
+import { createEntityExtractor, findMisalignedAnnotations, suggestAnnotations, withSystemEntities, SYSTEM_ENTITIES } from '../services/nlu';
 
 interface IntentEditorProps {
     intentId: string | 'new';
@@ -11,13 +13,15 @@ interface IntentEditorProps {
 }
 
 const IntentEditor: React.FC<IntentEditorProps> = ({ intentId, onClose }) => {
-    const { intents, addIntent, updateIntent } = useKnowledgeBase();
+    const { intents, entities, knowledgePoints, addIntent, updateIntent } = useKnowledgeBase();
     const { addToast } = useToast();
 
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
-    const [utterances, setUtterances] = useState<string[]>([]);
+    const [utterances, setUtterances] = useState<IntentUtterance[]>([]);
     const [newUtterance, setNewUtterance] = useState('');
+    const [slots, setSlots] = useState<IntentSlot[]>([]);
+    const [knowledgePointId, setKnowledgePointId] = useState<string | null>(null);
 
     useEffect(() => {
         if (intentId !== 'new') {
@@ -26,13 +30,24 @@ const IntentEditor: React.FC<IntentEditorProps> = ({ intentId, onClose }) => {
                 setName(intent.name);
                 setDescription(intent.description);
                 setUtterances(intent.utterances);
+                setSlots(intent.slots);
+                setKnowledgePointId(intent.knowledgePointId);
             }
         }
     }, [intentId, intents]);
 
+    const allEntities = useMemo(() => withSystemEntities(entities), [entities]);
+    const extractEntities = useMemo(() => createEntityExtractor(allEntities), [allEntities]);
+    const suggestions = useMemo(
+        () => utterances.map(utterance => suggestAnnotations(utterance, extractEntities)),
+        [utterances, extractEntities]
+    );
+    const suggestionCount = suggestions.reduce((sum, list) => sum + list.length, 0);
+
     const handleAddUtterance = () => {
-        if (newUtterance.trim() && !utterances.includes(newUtterance.trim())) {
-            setUtterances([...utterances, newUtterance.trim()]);
+        const text = newUtterance.trim();
+        if (text && !utterances.some(u => u.text === text)) {
+            setUtterances([...utterances, { text, entities: [] }]);
             setNewUtterance('');
         }
     };
@@ -41,12 +56,76 @@ const IntentEditor: React.FC<IntentEditorProps> = ({ intentId, onClose }) => {
         setUtterances(utterances.filter((_, i) => i !== index));
     };
 
+    const handleUtteranceChange = (index: number, utterance: IntentUtterance) => {
+        if (utterances.some((u, i) => i !== index && u.text === utterance.text)) {
+            addToast('已存在相同的语料。', 'error');
+            return;
+        }
+        setUtterances(utterances.map((u, i) => i === index ? utterance : u));
+    };
+
+    const handleAcceptAllSuggestions = () => {
+        setUtterances(utterances.map((utterance, i) => ({
+            ...utterance,
+            entities: [...utterance.entities, ...suggestions[i]].sort((a, b) => a.start - b.start),
+        })));
+        addToast(`已采纳 ${suggestionCount} 个建议标注。`, 'success');
+    };
+
+    const handleAddSlot = () => {
+        // Offer the first annotated entity that no slot collects yet.
+        const annotated = utterances.flatMap(u => u.entities.map(a => a.entityId))
+            .find(id => !slots.some(slot => slot.entityId === id) && allEntities.some(e => e.id === id));
+        const entity = allEntities.find(e => e.id === annotated) ?? allEntities[0];
+        setSlots([...slots, { id: `slot-${Date.now()}`, name: entity.name, entityId: entity.id, required: true, prompt: '' }]);
+    };
+
+    const handleSlotChange = (slotId: string, update: Partial<IntentSlot>) => {
+        setSlots(slots.map(slot => slot.id === slotId ? { ...slot, ...update } : slot));
+    };
+
+    const handleDeleteSlot = (slotId: string) => {
+        setSlots(slots.filter(slot => slot.id !== slotId));
+    };
+
+    const validateSlots = (): string | null => {
+        if (slots.length > 0 && !knowledgePointId) return '设置槽位时需要关联一个用于回答的知识点。';
+        const names = new Set<string>();
+        for (const slot of slots) {
+            if (!/^[a-zA-Z0-9_]+$/.test(slot.name)) return `槽位名称 “${slot.name}” 只能包含英文字符、数字和下划线。`;
+            if (names.has(slot.name)) return `槽位名称 “${slot.name}” 重复。`;
+            names.add(slot.name);
+            if (!allEntities.some(e => e.id === slot.entityId)) return `槽位 “${slot.name}” 的实体不存在，请重新选择。`;
+            if (slot.required && !slot.prompt.trim()) return `必填槽位 “${slot.name}” 需要填写追问话术。`;
+        }
+        return null;
+    };
+
+    const validateAnnotations = (): string | null => {
+        for (const utterance of utterances) {
+            if (findMisalignedAnnotations(utterance).length > 0) return `语料 “${utterance.text}” 的实体标注与文本不一致，请移除后重新标注。`;
+            const missing = utterance.entities.find(a => !allEntities.some(e => e.id === a.entityId));
+            if (missing) return `语料 “${utterance.text}” 中 “${missing.text}” 标注的实体已被删除，请重新标注。`;
+        }
+        return null;
+    };
+
     const handleSave = () => {
         if (!name.trim()) {
             addToast('意图名称是必填项。', 'error');
             return;
         }
-        const intentData = { name, description, utterances };
+        const annotationError = validateAnnotations();
+        if (annotationError) {
+            addToast(annotationError, 'error');
+            return;
+        }
+        const slotError = validateSlots();
+        if (slotError) {
+            addToast(slotError, 'error');
+            return;
+        }
+        const intentData = { name, description, utterances, slots: slots.map(slot => ({ ...slot, prompt: slot.prompt.trim() })), knowledgePointId };
         if (intentId === 'new') {
             addIntent(intentData);
             addToast('意图已创建', 'success');
@@ -84,7 +163,15 @@ const IntentEditor: React.FC<IntentEditorProps> = ({ intentId, onClose }) => {
                 </div>
 
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
-                     <h2 className="text-lg font-semibold mb-4">语料管理</h2>
+                     <div className="flex justify-between items-center mb-2">
+                        <h2 className="text-lg font-semibold">语料管理</h2>
+                        <Button variant="secondary" size="sm" onClick={handleAcceptAllSuggestions} disabled={suggestionCount === 0}>
+                            采纳全部建议标注{suggestionCount > 0 ? `（${suggestionCount}）` : ''}
+                        </Button>
+                     </div>
+                     <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                        选中语料中的文字可将其标注为实体的值，虚线标出的是根据实体成员和正则识别出的建议标注，点击即可采纳。意图识别会忽略标注的值，只学习它们出现的位置。
+                     </p>
                      <div className="flex items-center space-x-2 mb-4">
                         <input type="text" value={newUtterance} onChange={e => setNewUtterance(e.target.value)}
                             onKeyDown={e => e.key === 'Enter' && handleAddUtterance()}
@@ -95,14 +182,64 @@ const IntentEditor: React.FC<IntentEditorProps> = ({ intentId, onClose }) => {
                     
                     <div className="space-y-2">
                         {utterances.map((utterance, index) => (
-                            <div key={index} className="flex items-center justify-between bg-gray-100 dark:bg-gray-700/50 p-3 rounded-md">
-                                <p className="text-sm">{utterance}</p>
-                                <button onClick={() => handleDeleteUtterance(index)} className="p-1 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full">
+                            <UtteranceAnnotator key={utterance.text} utterance={utterance} suggestions={suggestions[index]} entities={allEntities}
+                                onChange={updated => handleUtteranceChange(index, updated)}
+                                onDelete={() => handleDeleteUtterance(index)} />
+                        ))}
+                         {utterances.length === 0 && <p className="text-sm text-gray-500 text-center py-4">暂无语料。请添加一些用户可能会说的例子。</p>}
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                    <div className="flex justify-between items-center mb-2">
+                        <h2 className="text-lg font-semibold">槽位与回答</h2>
+                        <Button variant="secondary" size="sm" onClick={handleAddSlot}>
+                            <PlusIcon className="w-4 h-4 mr-1" /> 添加槽位
+                        </Button>
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                        聊天中识别到此意图后，机器人会依次追问缺少的必填槽位，全部填写后用关联的知识点回答。在知识点答案中使用 {'{槽位名称}'} 插入用户提供的值。
+                    </p>
+                    <div className="mb-4">
+                        <label htmlFor="intent-kp" className="block text-sm font-medium mb-1">关联知识点</label>
+                        <select id="intent-kp" value={knowledgePointId ?? ''} onChange={e => setKnowledgePointId(e.target.value || null)}
+                            className="w-full p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">不关联（此意图不参与聊天回答）</option>
+                            {knowledgePoints.map(kp => (
+                                <option key={kp.id} value={kp.id}>{kp.standardQuestion}{kp.status !== 'published' ? '（未发布）' : ''}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="space-y-2">
+                        {slots.map(slot => (
+                            <div key={slot.id} className="grid grid-cols-12 gap-2 items-center bg-gray-100 dark:bg-gray-700/50 p-3 rounded-md">
+                                <input type="text" value={slot.name} onChange={e => handleSlotChange(slot.id, { name: e.target.value })} placeholder="槽位名称"
+                                    className="col-span-2 p-2 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600" />
+                                <select value={slot.entityId} onChange={e => handleSlotChange(slot.id, { entityId: e.target.value })}
+                                    className="col-span-3 p-2 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600">
+                                    {!allEntities.some(e => e.id === slot.entityId) && <option value={slot.entityId}>（已删除的实体）</option>}
+                                    {entities.length > 0 && (
+                                        <optgroup label="自定义实体">
+                                            {entities.map(entity => <option key={entity.id} value={entity.id}>{entity.name}</option>)}
+                                        </optgroup>
+                                    )}
+                                    <optgroup label="系统实体">
+                                        {SYSTEM_ENTITIES.map(entity => <option key={entity.id} value={entity.id}>{entity.name}</option>)}
+                                    </optgroup>
+                                </select>
+                                <input type="text" value={slot.prompt} onChange={e => handleSlotChange(slot.id, { prompt: e.target.value })} placeholder="追问话术，例如：请问您要查询哪个城市？"
+                                    className="col-span-5 p-2 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600" />
+                                <label className="col-span-1 flex items-center text-sm">
+                                    <input type="checkbox" checked={slot.required} onChange={e => handleSlotChange(slot.id, { required: e.target.checked })} className="mr-1" />
+                                    必填
+                                </label>
+                                <button onClick={() => handleDeleteSlot(slot.id)} className="col-span-1 justify-self-end p-1 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full">
                                     <TrashIcon className="w-4 h-4 text-red-500" />
                                 </button>
                             </div>
                         ))}
-                         {utterances.length === 0 && <p className="text-sm text-gray-500 text-center py-4">暂无语料。请添加一些用户可能会说的例子。</p>}
+                        {slots.length === 0 && <p className="text-sm text-gray-500 text-center py-4">暂无槽位。不设置槽位时，识别到意图即直接用关联的知识点回答。</p>}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,166 @@
+import React, { useState, useMemo } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import Button from './ui/Button';
+import { InfoIcon } from './ui/Icons';
+import { createEntityExtractor, crossValidateIntents, withSystemEntities, DEFAULT_FOLDS, INTENT_CONFIDENCE_THRESHOLD } from '../services/nlu';
+
+interface IntentEvaluationReportProps {
+    onEditIntent: (intentId: string) => void;
+    onClose: () => void;
+}
+
+const FOLD_OPTIONS = [3, 5, 10];
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const IntentEvaluationReport: React.FC<IntentEvaluationReportProps> = ({ onEditIntent, onClose }) => {
+    const { intents, entities } = useKnowledgeBase();
+    const [folds, setFolds] = useState(DEFAULT_FOLDS);
+
+    const report = useMemo(() => {
+        const extract = createEntityExtractor(withSystemEntities(entities));
+        return crossValidateIntents(intents, extract, folds);
+    }, [intents, entities, folds]);
+
+    const intentName = (id: string) => intents.find(intent => intent.id === id)?.name ?? id;
+
+    const headerCell = "px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider";
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">意图识别评估</h1>
+                <div className="flex items-center space-x-2">
+                    <label htmlFor="eval-folds" className="text-sm">交叉验证折数</label>
+                    <select id="eval-folds" value={folds} onChange={e => setFolds(Number(e.target.value))}
+                        className="p-2 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                        {FOLD_OPTIONS.map(n => <option key={n} value={n}>{n} 折</option>)}
+                    </select>
+                    <Button variant="secondary" onClick={onClose}>返回列表</Button>
+                </div>
+            </div>
+            <p className="mb-6 text-gray-600 dark:text-gray-400">
+                将每个意图的语料轮流分成 {folds} 份，每次用其余语料训练分类器并识别留出的一份。得分低于 {INTENT_CONFIDENCE_THRESHOLD} 的语料计为“未识别”。
+            </p>
+
+            {!report ? (
+                <div className="text-center py-12 text-gray-500"><p>至少需要两个带语料的意图才能评估。</p></div>
+            ) : (
+                <div className="flex-grow overflow-y-auto space-y-6">
+                    <div className="grid grid-cols-3 gap-4">
+                        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">评估语料</p>
+                            <p className="text-2xl font-bold">{report.total}</p>
+                        </div>
+                        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">准确率</p>
+                            <p className="text-2xl font-bold">{percent(report.accuracy)}</p>
+                        </div>
+                        <div className="bg-white dark:bg-gray-800 p-4 rounded-lg shadow-sm">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">宏平均 F1</p>
+                            <p className="text-2xl font-bold">{percent(report.macroF1)}</p>
+                        </div>
+                    </div>
+
+                    {report.sparseIntentIds.length > 0 && (
+                        <div className="flex items-start p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                            <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                            <span>以下意图的语料少于 {folds} 条，评估结果仅供参考：{report.sparseIntentIds.map(intentName).join('、')}</span>
+                        </div>
+                    )}
+
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                        <h2 className="text-lg font-semibold mb-4">各意图指标</h2>
+                        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                            <thead className="bg-gray-50 dark:bg-gray-700">
+                                <tr>
+                                    <th className={headerCell}>意图</th>
+                                    <th className={headerCell}>语料数</th>
+                                    <th className={headerCell}>精确率</th>
+                                    <th className={headerCell}>召回率</th>
+                                    <th className={headerCell}>F1</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                {report.perIntent.map(metrics => (
+                                    <tr key={metrics.intentId}>
+                                        <td className="px-3 py-2 text-sm font-medium">{intentName(metrics.intentId)}</td>
+                                        <td className="px-3 py-2 text-sm">{metrics.support}</td>
+                                        <td className="px-3 py-2 text-sm">{percent(metrics.precision)}</td>
+                                        <td className="px-3 py-2 text-sm">{percent(metrics.recall)}</td>
+                                        <td className="px-3 py-2 text-sm">{percent(metrics.f1)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                        <h2 className="text-lg font-semibold mb-1">混淆矩阵</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">行为标注的意图，列为识别出的意图。</p>
+                        <div className="overflow-x-auto">
+                            <table className="text-sm border-collapse">
+                                <thead>
+                                    <tr>
+                                        <th className="p-2"></th>
+                                        {report.intentIds.map(id => <th key={id} className="p-2 font-medium text-left whitespace-nowrap">{intentName(id)}</th>)}
+                                        <th className="p-2 font-medium text-left text-gray-500">未识别</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.confusion.map((row, actual) => (
+                                        <tr key={report.intentIds[actual]}>
+                                            <th className="p-2 font-medium text-left whitespace-nowrap">{intentName(report.intentIds[actual])}</th>
+                                            {row.map((count, predicted) => (
+                                                <td key={predicted} className={`p-2 text-center border dark:border-gray-700 ${
+                                                    count === 0 ? 'text-gray-400'
+                                                        : predicted === actual ? 'bg-green-100 dark:bg-green-900/40 font-semibold'
+                                                        : 'bg-red-100 dark:bg-red-900/40 font-semibold'
+                                                }`}>{count}</td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                        <h2 className="text-lg font-semibold mb-1">疑似标注错误的语料</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">这些语料被明显地识别为其他意图，请检查它们是否归错了意图。</p>
+                        {report.suspects.length === 0 ? (
+                            <p className="text-sm text-gray-500">没有发现疑似标注错误的语料。</p>
+                        ) : (
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                                <thead className="bg-gray-50 dark:bg-gray-700">
+                                    <tr>
+                                        <th className={headerCell}>语料</th>
+                                        <th className={headerCell}>标注意图</th>
+                                        <th className={headerCell}>识别为</th>
+                                        <th className={headerCell}>得分</th>
+                                        <th className={headerCell}></th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {report.suspects.map((suspect, i) => (
+                                        <tr key={i}>
+                                            <td className="px-3 py-2 text-sm">{suspect.utterance}</td>
+                                            <td className="px-3 py-2 text-sm">{intentName(suspect.intentId)}</td>
+                                            <td className="px-3 py-2 text-sm">{intentName(suspect.predictedIntentId)}</td>
+                                            <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{suspect.predictedScore.toFixed(2)} / {suspect.labeledScore.toFixed(2)}</td>
+                                            <td className="px-3 py-2 text-right">
+                                                <Button variant="ghost" size="sm" onClick={() => onEditIntent(suspect.intentId)}>编辑意图</Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default IntentEvaluationReport;
@@ -4,14 +4,32 @@ import { Intent } from '../types';
 import Button from './ui/Button';
 import { PlusIcon, EditIcon, TrashIcon, SearchIcon } from './ui/Icons';
 import IntentEditor from './IntentEditor';
+import IntentEvaluationReport from './IntentEvaluationReport';
 import { useToast } from '../contexts/ToastContext';
+import { DATA_VERSION } from '../services/migrations';
+import NluImportPreview from './NluImportPreview';
+import { formatDialogflowAgent, formatRasaNlu, getPlannedRecords, parseDialogflowAgent, parseRasaNlu, planNluImport, ImportPlan } from '../services/nluFormats';
+
+type ExportFormat = 'json' | 'rasa' | 'dialogflow';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
 
 const IntentManagement: React.FC = () => {
-    const { intents, deleteIntent } = useKnowledgeBase();
+    const { intents, entities, knowledgePoints, deleteIntent, importNluData } = useKnowledgeBase();
     const { addToast } = useToast();
     
     const [editingIntentId, setEditingIntentId] = useState<string | 'new' | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [isEvaluating, setIsEvaluating] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+    const [pendingImport, setPendingImport] = useState<{ plan: ImportPlan; sourceName: string } | null>(null);
 
     const filteredIntents = useMemo(() => {
         if (!searchTerm) return intents;
@@ -31,17 +49,82 @@ const IntentManagement: React.FC = () => {
         }
     };
 
+    // The chat server loads the JSON file next to the knowledge base and robot exports.
+    const handleExport = () => {
+        if (exportFormat === 'rasa') {
+            downloadBlob(new Blob([formatRasaNlu(intents, entities)], { type: 'text/yaml' }), 'nlu.yml');
+        } else if (exportFormat === 'dialogflow') {
+            downloadBlob(formatDialogflowAgent(intents, entities), 'dialogflow_agent.zip');
+        } else {
+            const dataToExport = { schemaVersion: DATA_VERSION, entities, intents };
+            downloadBlob(new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' }), 'intents_export.json');
+        }
+        addToast(`成功导出 ${intents.length} 个意图和 ${entities.length} 个实体。`, 'success');
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const dataset = /\.zip$/i.test(file.name)
+                ? await parseDialogflowAgent(await file.arrayBuffer())
+                : parseRasaNlu(await file.text());
+            setPendingImport({ plan: planNluImport(dataset, { intents, entities }), sourceName: file.name });
+        } catch (error) {
+            console.error('Failed to read NLU training data:', error);
+            addToast(`导入失败：${error instanceof Error ? error.message : '请检查文件格式。'}`, 'error');
+        }
+    };
+
+    const handleConfirmImport = () => {
+        if (!pendingImport) return;
+        const records = getPlannedRecords(pendingImport.plan);
+        importNluData(records.entities, records.intents);
+        addToast(`成功导入 ${records.intents.length} 个意图和 ${records.entities.length} 个实体。`, 'success');
+        setPendingImport(null);
+    };
+
+    const linkedQuestion = (kpId: string | null) => kpId ? knowledgePoints.find(kp => kp.id === kpId)?.standardQuestion ?? '（已删除的知识点）' : '—';
+
     if (editingIntentId !== null) {
         return <IntentEditor intentId={editingIntentId} onClose={handleCloseEditor} />;
     }
 
+    if (pendingImport) {
+        return <NluImportPreview plan={pendingImport.plan} sourceName={pendingImport.sourceName} onConfirm={handleConfirmImport} onCancel={() => setPendingImport(null)} />;
+    }
+
+    if (isEvaluating) {
+        return (
+            <IntentEvaluationReport
+                onEditIntent={id => { setIsEvaluating(false); handleEdit(id); }}
+                onClose={() => setIsEvaluating(false)}
+            />
+        );
+    }
+
     return (
         <div className="p-6 h-full flex flex-col">
             <div className="flex justify-between items-center mb-4">
                 <h1 className="text-2xl font-bold">意图管理</h1>
-                <Button onClick={handleCreate}>
-                    <PlusIcon className="w-5 h-5 mr-2" /> 新建意图
-                </Button>
+                <div className="flex items-center space-x-2">
+                    <Button variant="secondary" onClick={() => setIsEvaluating(true)} disabled={intents.length < 2}>评估</Button>
+                    <label title="支持 Rasa nlu.yml 和 Dialogflow 代理导出的 ZIP 文件">
+                        <Button as="span" variant="secondary" className="cursor-pointer">导入</Button>
+                        <input type="file" className="hidden" accept=".yml,.yaml,.zip" onChange={handleImport} />
+                    </label>
+                    <select value={exportFormat} onChange={e => setExportFormat(e.target.value as ExportFormat)} aria-label="导出格式"
+                        className="p-2 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600">
+                        <option value="json">本系统 JSON</option>
+                        <option value="rasa">Rasa nlu.yml</option>
+                        <option value="dialogflow">Dialogflow 代理 ZIP</option>
+                    </select>
+                    <Button variant="secondary" onClick={handleExport} disabled={intents.length === 0}>导出</Button>
+                    <Button onClick={handleCreate}>
+                        <PlusIcon className="w-5 h-5 mr-2" /> 新建意图
+                    </Button>
+                </div>
             </div>
             <p className="mb-6 text-gray-600 dark:text-gray-400">
                 管理用户在对话中要表达的目的或意图，例如查询信息、请求帮助等。
@@ -61,6 +144,8 @@ const IntentManagement: React.FC = () => {
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">意图名称</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">描述</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">语料数</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">槽位数</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">关联知识点</th>
                             <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">操作</th>
                         </tr>
                     </thead>
@@ -70,6 +155,8 @@ const IntentManagement: React.FC = () => {
                                 <td className="px-6 py-4 font-medium text-sm">{intent.name}</td>
                                 <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-sm truncate">{intent.description}</td>
                                 <td className="px-6 py-4 text-sm">{intent.utterances.length}</td>
+                                <td className="px-6 py-4 text-sm">{intent.slots.length}</td>
+                                <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">{linkedQuestion(intent.knowledgePointId)}</td>
                                 <td className="px-6 py-4 text-right space-x-2">
                                     <Button variant="ghost" size="sm" onClick={() => handleEdit(intent.id)}><EditIcon className="w-4 h-4" /></Button>
                                     <Button variant="ghost" size="sm" onClick={() => handleDelete(intent.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>
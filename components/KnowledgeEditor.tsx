@@ -1,38 +1,68 @@
 import React, { useState, useEffect } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
-import { KnowledgePoint } from '../types';
+import { KnowledgePoint, KnowledgePointContent } from '../types';
 import Button from './ui/Button';
 import RichTextEditor from './ui/RichTextEditor';
-import { SparklesIcon, XIcon, FullscreenEnterIcon, FullscreenExitIcon } from './ui/Icons';
+import KnowledgeHistory from './KnowledgeHistory';
+import { SparklesIcon, XIcon, FullscreenEnterIcon, FullscreenExitIcon, HistoryIcon } from './ui/Icons';
 import { generateSimilarQuestions } from '../services/geminiService';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { parseTags } from '../services/robotScope';
 
 interface KnowledgeEditorProps {
     kp: KnowledgePoint | null;
     onClose: () => void;
 }
 
+// <input type="datetime-local"> works with local times without a zone, while points store ISO strings.
+const toLocalInputValue = (iso?: string): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string): string | undefined => value ? new Date(value).toISOString() : undefined;
+
 const KnowledgeEditor: React.FC<KnowledgeEditorProps> = ({ kp, onClose }) => {
-    const { addKnowledgePoint, updateKnowledgePoint, categories, knowledgePoints } = useKnowledgeBase();
+    const { addKnowledgePoint, updateKnowledgePoint, submitForReview, getKnowledgePointById, categories, knowledgePoints } = useKnowledgeBase();
     const { addToast } = useToast();
+    const { can } = useAuth();
+    const canPublish = can('knowledge:publish');
     const [standardQuestion, setStandardQuestion] = useState('');
     const [similarQuestions, setSimilarQuestions] = useState<string[]>([]);
     const [currentSimilar, setCurrentSimilar] = useState('');
     const [answer, setAnswer] = useState('');
     const [categoryId, setCategoryId] = useState('');
     const [relatedQuestionIds, setRelatedQuestionIds] = useState<string[]>([]);
-    const [status, setStatus] = useState<KnowledgePoint['status']>('published');
+    const [status, setStatus] = useState<KnowledgePoint['status']>(canPublish ? 'published' : 'draft');
     const [isGenerating, setIsGenerating] = useState(false);
     const [isFullScreen, setIsFullScreen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [effectiveFrom, setEffectiveFrom] = useState('');
+    const [expireAt, setExpireAt] = useState('');
+    const [tagsText, setTagsText] = useState('');
+
+    // The stored point, which may have changed (e.g. been reviewed) since the editor was opened.
+    const proposal = kp ? getKnowledgePointById(kp.id)?.pendingRevision : undefined;
+    const isPublished = kp?.status === 'published';
+
+    const loadForm = (content: KnowledgePointContent, pointStatus: KnowledgePoint['status']) => {
+        setStandardQuestion(content.standardQuestion);
+        setSimilarQuestions(content.similarQuestions);
+        setAnswer(content.answer);
+        setCategoryId(content.categoryId);
+        setRelatedQuestionIds(content.relatedQuestionIds);
+        setStatus(pointStatus);
+    };
 
     useEffect(() => {
         if (kp) {
-            setStandardQuestion(kp.standardQuestion);
-            setSimilarQuestions(kp.similarQuestions);
-            setAnswer(kp.answer);
-            setCategoryId(kp.categoryId);
-            setRelatedQuestionIds(kp.relatedQuestionIds);
-            setStatus(kp.status);
+            // Editors continue from their proposal; reviewers edit the live version directly.
+            loadForm(kp.pendingRevision && !canPublish ? kp.pendingRevision.content : kp, kp.status);
+            setEffectiveFrom(toLocalInputValue(kp.effectiveFrom));
+            setExpireAt(toLocalInputValue(kp.expireAt));
+            setTagsText((kp.tags ?? []).join(', '));
         } else {
             if (categories.length > 0) {
                 setCategoryId(categories[0].id);
@@ -40,18 +70,41 @@ const KnowledgeEditor: React.FC<KnowledgeEditorProps> = ({ kp, onClose }) => {
         }
     }, [kp, categories]);
 
-    const handleSave = () => {
+    const handleSave = (submit = false) => {
         if (!standardQuestion.trim() || !categoryId) {
             addToast('标准问题和分类是必填项。', 'error');
             return;
         }
-        const data = { standardQuestion, similarQuestions, answer, categoryId, relatedQuestionIds, status };
-        if (kp) {
-            updateKnowledgePoint(kp.id, data);
+        const schedule = {
+            effectiveFrom: fromLocalInputValue(effectiveFrom),
+            expireAt: fromLocalInputValue(expireAt),
+            tags: parseTags(tagsText),
+        };
+        if (schedule.effectiveFrom && schedule.expireAt && schedule.expireAt <= schedule.effectiveFrom) {
+            addToast('到期时间必须晚于生效时间。', 'error');
+            return;
+        }
+        // The scheduler would archive it again right away.
+        if (!submit && status === 'published' && schedule.expireAt && new Date(schedule.expireAt).getTime() <= Date.now()) {
+            addToast('到期时间已过，无法发布。请修改或清空到期时间。', 'error');
+            return;
+        }
+        const content = { standardQuestion, similarQuestions, answer, categoryId, relatedQuestionIds };
+        if (submit) {
+            if (kp) {
+                submitForReview(kp.id, content, schedule);
+            } else {
+                addKnowledgePoint({ ...content, ...schedule, status: 'draft' }, true);
+            }
+            addToast(isPublished ? '修改已提交审核，审核通过前将继续使用已发布的版本。' : '知识点已提交审核。', 'success');
         } else {
-            addKnowledgePoint(data);
+            if (kp) {
+                updateKnowledgePoint(kp.id, { ...content, ...schedule, status });
+            } else {
+                addKnowledgePoint({ ...content, ...schedule, status });
+            }
+            addToast('知识点已保存！', 'success');
         }
-        addToast('知识点已保存！', 'success');
         onClose();
     };
 
@@ -66,6 +119,12 @@ const KnowledgeEditor: React.FC<KnowledgeEditorProps> = ({ kp, onClose }) => {
         setSimilarQuestions(similarQuestions.filter((_, i) => i !== index));
     };
 
+    // The restore is already saved, so the form is reloaded with the restored content.
+    const handleRestored = (restored: KnowledgePoint) => {
+        loadForm(restored, restored.status);
+        setIsHistoryOpen(false);
+    };
+
     const handleGenerateSimilar = async () => {
         if (!standardQuestion.trim()) {
             addToast('请先输入标准问题。', 'info');
@@ -119,98 +178,166 @@ const KnowledgeEditor: React.FC<KnowledgeEditorProps> = ({ kp, onClose }) => {
                     <button onClick={() => setIsFullScreen(!isFullScreen)} className="p-2 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700" aria-label={isFullScreen ? '退出全屏' : '进入全屏'}>
                         {isFullScreen ? <FullscreenExitIcon /> : <FullscreenEnterIcon />}
                     </button>
+                    {kp && (
+                        <Button variant={isHistoryOpen ? 'primary' : 'ghost'} onClick={() => setIsHistoryOpen(!isHistoryOpen)}>
+                            <HistoryIcon className="w-5 h-5 mr-2" /> 历史版本
+                        </Button>
+                    )}
                     <Button variant="secondary" onClick={onClose}>关闭</Button>
-                    <Button onClick={handleSave}>保存</Button>
+                    {canPublish ? (
+                        <Button onClick={() => handleSave()} disabled={isHistoryOpen}>保存</Button>
+                    ) : (
+                        <>
+                            {/* The live version of a published point can only change through review. */}
+                            {!isPublished && <Button variant="secondary" onClick={() => handleSave()} disabled={isHistoryOpen}>保存草稿</Button>}
+                            <Button onClick={() => handleSave(true)} disabled={isHistoryOpen}>提交审核</Button>
+                        </>
+                    )}
                 </div>
             </div>
 
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-                {/* Left Column */}
-                <div className="lg:col-span-2 space-y-6">
-                    <div>
-                        <label className="block text-sm font-medium mb-1">标准问题</label>
-                        <input
-                            type="text"
-                            value={standardQuestion}
-                            onChange={(e) => setStandardQuestion(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        />
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">相似问题</label>
-                        <div className="space-y-2">
-                            {similarQuestions.map((q, i) => (
-                                <div key={i} className="flex items-center bg-gray-100 dark:bg-gray-800 p-2 rounded">
-                                    <span className="flex-grow">{q}</span>
-                                    <button onClick={() => handleRemoveSimilar(i)} className="p-1"><XIcon className="w-4 h-4" /></button>
-                                </div>
-                            ))}
-                        </div>
-                        <div className="flex items-center mt-2 space-x-2">
+            {proposal?.state === 'pending' && (
+                <div className="mb-4 p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                    {proposal.submittedBy} 于 {new Date(proposal.submittedAt).toLocaleString()} 提交的修改正在等待审核。
+                    {isPublished && (canPublish ? '此处显示的是已发布的版本，请在“待审核”页面处理提交的修改。' : '审核通过前，机器人将继续使用已发布的版本。')}
+                </div>
+            )}
+            {proposal?.state === 'rejected' && (
+                <div className="mb-4 p-3 rounded-md bg-red-50 dark:bg-red-900/30 text-sm text-red-800 dark:text-red-200">
+                    {proposal.reviewedBy} 驳回了 {proposal.submittedBy} 提交的修改：{proposal.reviewComment}
+                    {!canPublish && ' 修改后可以重新提交审核。'}
+                </div>
+            )}
+
+            {kp && isHistoryOpen ? (
+                <KnowledgeHistory kpId={kp.id} onRestore={handleRestored} onClose={() => setIsHistoryOpen(false)} />
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    {/* Left Column */}
+                    <div className="lg:col-span-2 space-y-6">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">标准问题</label>
                             <input
                                 type="text"
-                                placeholder="添加相似问题"
-                                value={currentSimilar}
-                                onChange={(e) => setCurrentSimilar(e.target.value)}
-                                onKeyDown={(e) => e.key === 'Enter' && handleAddSimilar()}
-                                className="flex-grow px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
+                                value={standardQuestion}
+                                onChange={(e) => setStandardQuestion(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                             />
-                            <Button variant="secondary" onClick={handleAddSimilar}>添加</Button>
                         </div>
-                        <Button variant="ghost" className="mt-2" onClick={handleGenerateSimilar} disabled={isGenerating}>
-                            <SparklesIcon className={`w-5 h-5 mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
-                            {isGenerating ? '生成中...' : 'AI 生成'}
-                        </Button>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">答案</label>
-                        <RichTextEditor value={answer} onChange={setAnswer} />
+                        <div>
+                            <label className="block text-sm font-medium mb-1">相似问题</label>
+                            <div className="space-y-2">
+                                {similarQuestions.map((q, i) => (
+                                    <div key={i} className="flex items-center bg-gray-100 dark:bg-gray-800 p-2 rounded">
+                                        <span className="flex-grow">{q}</span>
+                                        <button onClick={() => handleRemoveSimilar(i)} className="p-1"><XIcon className="w-4 h-4" /></button>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex items-center mt-2 space-x-2">
+                                <input
+                                    type="text"
+                                    placeholder="添加相似问题"
+                                    value={currentSimilar}
+                                    onChange={(e) => setCurrentSimilar(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddSimilar()}
+                                    className="flex-grow px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
+                                />
+                                <Button variant="secondary" onClick={handleAddSimilar}>添加</Button>
+                            </div>
+                            <Button variant="ghost" className="mt-2" onClick={handleGenerateSimilar} disabled={isGenerating}>
+                                <SparklesIcon className={`w-5 h-5 mr-2 ${isGenerating ? 'animate-spin' : ''}`} />
+                                {isGenerating ? '生成中...' : 'AI 生成'}
+                            </Button>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">答案</label>
+                            <RichTextEditor value={answer} onChange={setAnswer} />
+                        </div>
                     </div>
-                </div>
 
-                {/* Right Column */}
-                <div className="lg:col-span-1 space-y-6">
-                    <div>
-                        <label className="block text-sm font-medium mb-1">分类</label>
-                        <select
-                            value={categoryId}
-                            onChange={(e) => setCategoryId(e.target.value)}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
-                        >
-                            {renderCategoryOptions(null)}
-                        </select>
-                    </div>
-                     <div>
-                        <label className="block text-sm font-medium mb-1">状态</label>
-                        <select
-                            value={status}
-                            onChange={(e) => setStatus(e.target.value as KnowledgePoint['status'])}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
-                        >
-                            <option value="published">已发布</option>
-                            <option value="draft">草稿</option>
-                            <option value="archived">已归档</option>
-                        </select>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1">关联问题</label>
-                        <div className="h-64 border rounded-md overflow-y-auto p-2 bg-gray-50 dark:bg-gray-800">
-                            {knowledgePoints.filter(p => p.id !== kp?.id).map(p => (
-                                <div key={p.id} className="flex items-center p-1">
-                                    <input
-                                        type="checkbox"
-                                        id={`related-${p.id}`}
-                                        checked={relatedQuestionIds.includes(p.id)}
-                                        onChange={() => toggleRelatedQuestion(p.id)}
-                                        className="mr-2 rounded"
-                                    />
-                                    <label htmlFor={`related-${p.id}`} className="text-sm">{p.standardQuestion}</label>
-                                </div>
-                            ))}
+                    {/* Right Column */}
+                    <div className="lg:col-span-1 space-y-6">
+                        <div>
+                            <label className="block text-sm font-medium mb-1">分类</label>
+                            <select
+                                value={categoryId}
+                                onChange={(e) => setCategoryId(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600"
+                            >
+                                {renderCategoryOptions(null)}
+                            </select>
+                        </div>
+                         <div>
+                            <label className="block text-sm font-medium mb-1">状态</label>
+                            <select
+                                value={status}
+                                onChange={(e) => setStatus(e.target.value as KnowledgePoint['status'])}
+                                disabled={!canPublish && kp?.status === 'published'}
+                                title={canPublish ? undefined : '只有审核员可以发布或下线知识点'}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+                            >
+                                <option value="published" disabled={!canPublish}>已发布</option>
+                                <option value="draft">草稿</option>
+                                <option value="archived">已归档</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">生效时间</label>
+                            <input
+                                type="datetime-local"
+                                value={effectiveFrom}
+                                onChange={(e) => setEffectiveFrom(e.target.value)}
+                                disabled={!canPublish && isPublished}
+                                title={!canPublish && isPublished ? '只有审核员可以修改已发布知识点的生效和到期时间' : undefined}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">到期时间</label>
+                            <input
+                                type="datetime-local"
+                                value={expireAt}
+                                onChange={(e) => setExpireAt(e.target.value)}
+                                disabled={!canPublish && isPublished}
+                                title={!canPublish && isPublished ? '只有审核员可以修改已发布知识点的生效和到期时间' : undefined}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">留空表示不限。已发布的知识点在生效时间之前不会用于回答，到期后将自动归档。</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">标签</label>
+                            <input
+                                type="text"
+                                value={tagsText}
+                                onChange={(e) => setTagsText(e.target.value)}
+                                disabled={!canPublish && isPublished}
+                                title={!canPublish && isPublished ? '只有审核员可以修改已发布知识点的标签' : undefined}
+                                placeholder="例如：售后, VIP"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">用逗号分隔。机器人可以按标签限定知识范围。</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-1">关联问题</label>
+                            <div className="h-64 border rounded-md overflow-y-auto p-2 bg-gray-50 dark:bg-gray-800">
+                                {knowledgePoints.filter(p => p.id !== kp?.id).map(p => (
+                                    <div key={p.id} className="flex items-center p-1">
+                                        <input
+                                            type="checkbox"
+                                            id={`related-${p.id}`}
+                                            checked={relatedQuestionIds.includes(p.id)}
+                                            onChange={() => toggleRelatedQuestion(p.id)}
+                                            className="mr-2 rounded"
+                                        />
+                                        <label htmlFor={`related-${p.id}`} className="text-sm">{p.standardQuestion}</label>
+                                    </div>
+                                ))}
+                            </div>
                         </div>
                     </div>
                 </div>
-            </div>
+            )}
         </div>
     );
 };
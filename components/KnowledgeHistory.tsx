@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { KnowledgePoint, KnowledgePointSnapshot } from '../types';
+import { REVISION_ACTION_LABELS, snapshotsEqual, takeSnapshot } from '../services/revisions';
+import ContentDiff, { DiffRow } from './ContentDiff';
+import Button from './ui/Button';
+
+interface KnowledgeHistoryProps {
+    kpId: string;
+    onRestore: (restored: KnowledgePoint) => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<KnowledgePoint['status'], string> = {
+    published: '已发布',
+    draft: '草稿',
+    archived: '已归档',
+};
+
+const KnowledgeHistory: React.FC<KnowledgeHistoryProps> = ({ kpId, onRestore, onClose }) => {
+    const { getKnowledgePointRevisions, restoreKnowledgePointRevision, getKnowledgePointById, categories } = useKnowledgeBase();
+    const { addToast } = useToast();
+    const { can } = useAuth();
+    const revisions = getKnowledgePointRevisions(kpId);
+    const current = getKnowledgePointById(kpId);
+    const [selectedId, setSelectedId] = useState<string | null>(revisions[0]?.id ?? null);
+    const selected = revisions.find(rev => rev.id === selectedId);
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name ?? '（已删除的分类）';
+
+    const handleRestore = () => {
+        if (!selected) return;
+        if (!window.confirm('确定要将知识点内容恢复到此版本吗？当前内容会保留在历史记录中。')) return;
+        const restored = restoreKnowledgePointRevision(selected.id);
+        if (restored) {
+            // Without publish rights, restoring a published point only proposes it; the context says so.
+            if (current?.status !== 'published' || can('knowledge:publish')) addToast('已恢复到所选版本。', 'success');
+            onRestore(restored);
+        }
+    };
+
+    if (!current) return null;
+    const currentSnapshot = takeSnapshot(current);
+
+    // Restoring keeps the current status, so a revision that only differs in status has nothing to restore.
+    const isSameAsCurrent = (snapshot: KnowledgePointSnapshot) => snapshotsEqual({ ...snapshot, status: currentSnapshot.status }, currentSnapshot);
+
+    return (
+        <div className="flex-1 flex min-h-0 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+            <div className="w-72 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+                {revisions.length === 0 && (
+                    <p className="p-4 text-sm text-gray-500 dark:text-gray-400">暂无历史版本。保存修改后，每次变更都会记录在这里。</p>
+                )}
+                {revisions.map(rev => (
+                    <button
+                        key={rev.id}
+                        onClick={() => setSelectedId(rev.id)}
+                        className={`w-full text-left p-3 border-b border-gray-200 dark:border-gray-700 ${rev.id === selectedId ? 'bg-blue-50 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-800'}`}
+                    >
+                        <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium">{REVISION_ACTION_LABELS[rev.action]}</span>
+                            <span className="text-xs text-gray-500">{STATUS_LABELS[rev.snapshot.status]}</span>
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{rev.author} · {new Date(rev.timestamp).toLocaleString()}</div>
+                        {rev.comment && <div className="text-xs text-gray-600 dark:text-gray-300 mt-1 truncate" title={rev.comment}>“{rev.comment}”</div>}
+                    </button>
+                ))}
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {selected ? (
+                    <>
+                        <div className="flex justify-between items-center">
+                            <div className="grid grid-cols-2 gap-4 flex-1 text-sm text-gray-500 dark:text-gray-400">
+                                <span>所选版本（{new Date(selected.timestamp).toLocaleString()}）</span>
+                                <span>当前版本</span>
+                            </div>
+                            <div className="flex space-x-2 ml-4">
+                                <Button variant="secondary" size="sm" onClick={onClose}>返回编辑</Button>
+                                {can('knowledge:edit') && (
+                                    <Button size="sm" onClick={handleRestore} disabled={isSameAsCurrent(selected.snapshot)}>恢复此版本</Button>
+                                )}
+                            </div>
+                        </div>
+                        <ContentDiff before={selected.snapshot} after={current} />
+                        <DiffRow label="分类与状态">
+                            <div className="p-2 text-sm">{categoryName(selected.snapshot.categoryId)} · {STATUS_LABELS[selected.snapshot.status]}</div>
+                            <div className="p-2 text-sm">{categoryName(current.categoryId)} · {STATUS_LABELS[current.status]}</div>
+                        </DiffRow>
+                    </>
+                ) : (
+                    <div className="flex justify-end">
+                        <Button variant="secondary" size="sm" onClick={onClose}>返回编辑</Button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default KnowledgeHistory;
@@ -0,0 +1,254 @@
+import React, { useState, useMemo } from 'react';
+import { Category, KnowledgePoint } from '../types';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useToast } from '../contexts/ToastContext';
+import Button from './ui/Button';
+import { InfoIcon } from './ui/Icons';
+import {
+    buildKnowledgeImport,
+    diffKnowledgeImport,
+    getDefaultResolution,
+    ImportDiffItem,
+    ImportItemStatus,
+    ImportResolution,
+    KnowledgeImportResolutions,
+} from '../services/knowledgeImport';
+
+interface KnowledgeImportWizardProps {
+    fileName: string;
+    categories: Category[]; // The records in the file
+    knowledgePoints: KnowledgePoint[];
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ImportItemStatus, { label: string; className: string }> = {
+    new: { label: '新增', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200' },
+    changed: { label: '有变更', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200' },
+    identical: { label: '相同', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+    orphaned: { label: '缺少分类', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200' },
+};
+
+// Items without a counterpart can only be imported or skipped.
+const resolutionOptions = (item: ImportDiffItem<Category | KnowledgePoint>): { value: ImportResolution; label: string }[] =>
+    item.existing
+        ? [{ value: 'keep', label: '保留现有' }, { value: 'overwrite', label: '覆盖' }, { value: 'duplicate', label: '另存为副本' }]
+        : [{ value: 'overwrite', label: '导入' }, { value: 'keep', label: '跳过' }];
+
+const DiffTable = <T extends Category | KnowledgePoint>({ title, items, describe, resolutions, onChange }: {
+    title: string;
+    items: ImportDiffItem<T>[];
+    describe: (record: T) => string;
+    resolutions: Record<string, ImportResolution>;
+    onChange: (id: string, resolution: ImportResolution) => void;
+}) => (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+        <h2 className="text-lg font-semibold mb-4">{title}（{items.length}）</h2>
+        {items.length === 0 ? <p className="text-sm text-gray-500">无</p> : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">名称</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">比对</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">说明</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">处理</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {items.map(item => (
+                        <tr key={item.incoming.id}>
+                            <td className="px-3 py-2 text-sm font-medium">{describe(item.incoming)}</td>
+                            <td className="px-3 py-2 text-sm">
+                                <span className={`px-2 py-0.5 rounded-full text-xs whitespace-nowrap ${STATUS_LABELS[item.status].className}`}>{STATUS_LABELS[item.status].label}</span>
+                            </td>
+                            <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{item.notes.join('；')}</td>
+                            <td className="px-3 py-2 text-sm">
+                                <select value={resolutions[item.incoming.id]} onChange={e => onChange(item.incoming.id, e.target.value as ImportResolution)}
+                                    aria-label={`${describe(item.incoming)} 的处理方式`}
+                                    className="p-1 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600">
+                                    {resolutionOptions(item).map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                                </select>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+const KnowledgeImportWizard: React.FC<KnowledgeImportWizardProps> = ({ fileName, categories: incomingCategories, knowledgePoints: incomingKps, onClose }) => {
+    const { categories, knowledgePoints, allCollections, activeOrganizationId, importKnowledgePoints } = useKnowledgeBase();
+    const { addToast } = useToast();
+
+    // The diff is taken once, against the knowledge base as it was when the file was opened.
+    const [current] = useState({ categories, knowledgePoints });
+    // Records of other organizations are not in the diff, but their ids cannot be reused.
+    const [reservedIds] = useState(() => new Set([...allCollections.categories, ...allCollections.knowledgePoints]
+        .filter(record => record.organizationId !== activeOrganizationId).map(record => record.id)));
+    const diff = useMemo(
+        () => diffKnowledgeImport({ categories: incomingCategories, knowledgePoints: incomingKps }, current),
+        [incomingCategories, incomingKps, current]
+    );
+    const [resolutions, setResolutions] = useState<KnowledgeImportResolutions>(() => ({
+        categories: Object.fromEntries(diff.categories.map(item => [item.incoming.id, getDefaultResolution(item)])),
+        knowledgePoints: Object.fromEntries(diff.knowledgePoints.map(item => [item.incoming.id, getDefaultResolution(item)])),
+    }));
+    const [fallbackCategoryId, setFallbackCategoryId] = useState('');
+    const [statusFilter, setStatusFilter] = useState<ImportItemStatus | ''>('');
+    const [isConfirming, setIsConfirming] = useState(false);
+
+    const result = useMemo(
+        () => buildKnowledgeImport(diff, resolutions, current, fallbackCategoryId || null, reservedIds),
+        [diff, resolutions, current, fallbackCategoryId, reservedIds]
+    );
+
+    const allItems = [...diff.categories, ...diff.knowledgePoints];
+    const countByStatus = (status: ImportItemStatus) => allItems.filter(item => item.status === status).length;
+    const matchesFilter = (item: ImportDiffItem<Category | KnowledgePoint>) => !statusFilter || item.status === statusFilter;
+
+    const setResolution = (collection: keyof KnowledgeImportResolutions) => (id: string, resolution: ImportResolution) =>
+        setResolutions(prev => ({ ...prev, [collection]: { ...prev[collection], [id]: resolution } }));
+
+    // Applies a resolution to every shown item that offers it.
+    const applyToShown = (resolution: ImportResolution) => {
+        const update = (items: ImportDiffItem<Category | KnowledgePoint>[], chosen: Record<string, ImportResolution>) => ({
+            ...chosen,
+            ...Object.fromEntries(items
+                .filter(item => matchesFilter(item) && resolutionOptions(item).some(option => option.value === resolution))
+                .map(item => [item.incoming.id, resolution])),
+        });
+        setResolutions(prev => ({
+            categories: update(diff.categories, prev.categories),
+            knowledgePoints: update(diff.knowledgePoints, prev.knowledgePoints),
+        }));
+    };
+
+    const existingCategoryIds = new Set(current.categories.map(c => c.id));
+    // Points lose their category when it is missing, or when it is new in the file and skipped.
+    const needsFallback = diff.knowledgePoints.some(item => item.status === 'orphaned'
+        || (!existingCategoryIds.has(item.incoming.categoryId) && resolutions.categories[item.incoming.categoryId] === 'keep'));
+    const addedCategories = result.categories.filter(c => !existingCategoryIds.has(c.id)).length;
+    const writes = result.categories.length + result.created.length + result.updated.length;
+
+    const handleConfirm = () => {
+        const counts = importKnowledgePoints(result.categories, result.created, result.updated);
+        const submitted = counts.submitted > 0 ? `，${counts.submitted} 个已发布的知识点的修改已提交审核` : '';
+        const scheduleKept = counts.scheduleKept > 0 ? `，${counts.scheduleKept} 个已发布的知识点的生效时间、失效时间或标签需要发布权限，未更改` : '';
+        addToast(`导入完成：新增 ${counts.created} 个、更新 ${counts.updated} 个知识点${submitted}${scheduleKept}。`, 'success');
+        onClose();
+    };
+
+    if (isConfirming) {
+        return (
+            <div className="p-6 h-full flex flex-col">
+                <div className="flex justify-between items-center mb-6">
+                    <h1 className="text-2xl font-bold">确认导入：{fileName}</h1>
+                    <div className="flex items-center space-x-2">
+                        <Button variant="secondary" onClick={() => setIsConfirming(false)}>上一步</Button>
+                        <Button onClick={handleConfirm} disabled={writes === 0}>确认导入</Button>
+                    </div>
+                </div>
+                <div className="flex-grow overflow-y-auto space-y-6">
+                    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                        <h2 className="text-lg font-semibold mb-2">导入后的变化</h2>
+                        <ul className="list-disc pl-5 text-sm space-y-1">
+                            <li>新增 {addedCategories} 个分类，覆盖 {result.categories.length - addedCategories} 个分类</li>
+                            <li>新增 {result.created.length} 个知识点，覆盖 {result.updated.length} 个知识点</li>
+                            <li>其余 {allItems.length - writes} 项保持现状</li>
+                        </ul>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">已发布知识点的修改仍按审核流程处理；没有发布权限时，新增的已发布知识点会保存为草稿。</p>
+                    </div>
+
+                    {result.remappedIds.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                            <h2 className="text-lg font-semibold mb-4">更换 ID（{result.remappedIds.length}）</h2>
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">另存为副本的条目，以及 ID 已被其他组织使用的条目，会使用新的 ID，文件中引用它们的分类和关联问题已随之更新。</p>
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                <thead className="bg-gray-50 dark:bg-gray-700">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">名称</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">原 ID</th>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">新 ID</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {result.remappedIds.map(({ from, to, name }) => (
+                                        <tr key={to}>
+                                            <td className="px-3 py-2">{name}</td>
+                                            <td className="px-3 py-2 font-mono text-gray-500">{from}</td>
+                                            <td className="px-3 py-2 font-mono">{to}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {result.adjustments.length > 0 && (
+                        <div className="flex items-start p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                            <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                            <ul className="list-disc pl-4">{result.adjustments.map((adjustment, i) => <li key={i}>{adjustment}</li>)}</ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">导入：{fileName}</h1>
+                <div className="flex items-center space-x-2">
+                    <Button variant="secondary" onClick={onClose}>取消</Button>
+                    <Button onClick={() => setIsConfirming(true)}>下一步</Button>
+                </div>
+            </div>
+            <p className="mb-4 text-gray-600 dark:text-gray-400">
+                按 ID 与当前知识库比对：新增 {countByStatus('new')} 项，有变更 {countByStatus('changed')} 项，相同 {countByStatus('identical')} 项，缺少分类 {countByStatus('orphaned')} 项。请为每一项选择处理方式，确认前不会写入任何数据。
+            </p>
+
+            <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+                <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as ImportItemStatus | '')} aria-label="按比对结果筛选"
+                    className="p-1.5 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                    <option value="">全部</option>
+                    {(Object.keys(STATUS_LABELS) as ImportItemStatus[]).map(status => <option key={status} value={status}>{STATUS_LABELS[status].label}</option>)}
+                </select>
+                <span className="text-gray-500 dark:text-gray-400">将显示的项目全部设为：</span>
+                <Button size="sm" variant="secondary" onClick={() => applyToShown('keep')}>保留现有/跳过</Button>
+                <Button size="sm" variant="secondary" onClick={() => applyToShown('overwrite')}>覆盖/导入</Button>
+                <Button size="sm" variant="secondary" onClick={() => applyToShown('duplicate')}>另存为副本</Button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto space-y-6">
+                {needsFallback && (
+                    <div className="flex items-center p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                        <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                        <label htmlFor="fallback-category" className="mr-2">分类不存在或未导入的知识点放入：</label>
+                        <select id="fallback-category" value={fallbackCategoryId} onChange={e => setFallbackCategoryId(e.target.value)}
+                            className="p-1 border rounded-md text-sm text-gray-900 dark:text-gray-100 dark:bg-gray-700 dark:border-gray-600">
+                            <option value="">不导入这些知识点</option>
+                            {current.categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </select>
+                    </div>
+                )}
+                <DiffTable
+                    title="分类"
+                    items={diff.categories.filter(matchesFilter)}
+                    describe={(c: Category) => c.name}
+                    resolutions={resolutions.categories}
+                    onChange={setResolution('categories')}
+                />
+                <DiffTable
+                    title="知识点"
+                    items={diff.knowledgePoints.filter(matchesFilter)}
+                    describe={(kp: KnowledgePoint) => kp.standardQuestion}
+                    resolutions={resolutions.knowledgePoints}
+                    onChange={setResolution('knowledgePoints')}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default KnowledgeImportWizard;
@@ -1,12 +1,36 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
-import { KnowledgePoint } from '../types';
+import { Category, KnowledgePoint } from '../types';
 import CategoryTree from './CategoryTree';
 import KnowledgeEditor from './KnowledgeEditor';
+import KnowledgeImportWizard from './KnowledgeImportWizard';
+import KnowledgeSpreadsheetImport from './KnowledgeSpreadsheetImport';
 import { PlusIcon, EditIcon, TrashIcon, SearchIcon } from './ui/Icons';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { createVectorMatcher } from '../services/matcher';
+import { DATA_VERSION, MigrationError, migrateImport } from '../services/migrations';
+import { isExpiringWithin, isWithinSchedule } from '../services/schedule';
+import { formatCsv, formatKnowledgeRows, parseCsv, readXlsx, writeXlsx } from '../services/spreadsheet';
+
+// Points expiring within this many days are flagged in the list.
+const EXPIRY_WARNING_DAYS = 7;
+
+// Semantic hits below this cosine similarity are treated as unrelated.
+const SEMANTIC_SEARCH_MIN_SCORE = 0.3;
+
+type ExportFormat = 'json' | 'csv' | 'xlsx';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
 
 interface AdvancedFilters {
     dateStart: string;
@@ -15,22 +39,33 @@ interface AdvancedFilters {
     minRelated: number | '';
     status: KnowledgePoint['status'] | '';
     createdBy: string;
+    expiringWithinDays: number | '';
 }
 
 const KnowledgeList: React.FC = () => {
-    const { knowledgePoints, deleteKnowledgePoint, categories, transferKnowledgePoints, setKnowledgePoints, setCategories } = useKnowledgeBase();
+    const { knowledgePoints, deleteKnowledgePoint, categories, transferKnowledgePoints, organizations, activeOrganizationId, intents, copyToOrganization } = useKnowledgeBase();
     const { addToast } = useToast();
+    const { can } = useAuth();
+    const canImport = can('knowledge:edit') && can('category:edit');
     const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
     const [editingKp, setEditingKp] = useState<KnowledgePoint | null>(null);
     const [isEditorOpen, setIsEditorOpen] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
+    const [isSemanticSearch, setIsSemanticSearch] = useState(false);
+    const [semanticScores, setSemanticScores] = useState<Map<string, number> | null>(null);
     const [selectedKps, setSelectedKps] = useState<Set<string>>(new Set());
     const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
     const [transferTargetCategory, setTransferTargetCategory] = useState('');
+    const [isCopyModalOpen, setIsCopyModalOpen] = useState(false);
+    const [copyTargetOrganization, setCopyTargetOrganization] = useState('');
+    const [copyIntents, setCopyIntents] = useState(true);
     const [includeSubcategories, setIncludeSubcategories] = useState(true);
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('json');
+    const [spreadsheetImport, setSpreadsheetImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+    const [jsonImport, setJsonImport] = useState<{ fileName: string; categories: Category[]; knowledgePoints: KnowledgePoint[] } | null>(null);
 
     const [isAdvancedSearchOpen, setIsAdvancedSearchOpen] = useState(false);
-    const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({ dateStart: '', dateEnd: '', minSimilar: '', minRelated: '', status: '', createdBy: '' });
+    const [advancedFilters, setAdvancedFilters] = useState<AdvancedFilters>({ dateStart: '', dateEnd: '', minSimilar: '', minRelated: '', status: '', createdBy: '', expiringWithinDays: '' });
 
     const getSubCategoryIds = useCallback((categoryId: string): string[] => {
         let ids: string[] = [categoryId];
@@ -41,6 +76,29 @@ const KnowledgeList: React.FC = () => {
         return ids;
     }, [categories]);
 
+    useEffect(() => {
+        if (!isSemanticSearch || !searchTerm.trim()) {
+            setSemanticScores(null);
+            return;
+        }
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            createVectorMatcher(knowledgePoints).search(searchTerm, knowledgePoints.length)
+                .then(results => {
+                    if (cancelled) return;
+                    setSemanticScores(new Map(results.filter(r => r.score >= SEMANTIC_SEARCH_MIN_SCORE).map(r => [r.knowledgePoint.id, r.score])));
+                })
+                .catch(error => {
+                    console.error("Semantic search failed:", error);
+                    if (!cancelled) addToast(error instanceof Error ? error.message : '语义搜索失败。', 'error');
+                });
+        }, 300);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [isSemanticSearch, searchTerm, knowledgePoints]);
+
     const filteredKnowledgePoints = useMemo(() => {
         let kps = knowledgePoints;
 
@@ -51,7 +109,11 @@ const KnowledgeList: React.FC = () => {
         }
 
         // Search term filtering
-        if (searchTerm) {
+        if (isSemanticSearch && semanticScores) {
+            kps = kps
+                .filter(kp => semanticScores.has(kp.id))
+                .sort((a, b) => (semanticScores.get(b.id) || 0) - (semanticScores.get(a.id) || 0));
+        } else if (searchTerm && !isSemanticSearch) {
             const lowercasedTerm = searchTerm.toLowerCase();
             kps = kps.filter(kp =>
                 kp.standardQuestion.toLowerCase().includes(lowercasedTerm) ||
@@ -86,9 +148,14 @@ const KnowledgeList: React.FC = () => {
             kps = kps.filter(kp => kp.createdBy.toLowerCase().includes(createdByLower));
         }
 
+        if (advancedFilters.expiringWithinDays !== '') {
+            const days = advancedFilters.expiringWithinDays;
+            kps = kps.filter(kp => isExpiringWithin(kp, days));
+        }
+
 
         return kps;
-    }, [knowledgePoints, selectedCategoryId, searchTerm, getSubCategoryIds, includeSubcategories, advancedFilters]);
+    }, [knowledgePoints, selectedCategoryId, searchTerm, getSubCategoryIds, includeSubcategories, advancedFilters, isSemanticSearch, semanticScores]);
 
     const handleAdvancedFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         setAdvancedFilters({ ...advancedFilters, [e.target.name]: e.target.type === 'number' ? (e.target.value === '' ? '' : parseInt(e.target.value)) : e.target.value });
@@ -129,44 +196,58 @@ const KnowledgeList: React.FC = () => {
     };
 
     const handleExport = () => {
-        const dataToExport = {
-            categories: categories,
-            knowledgePoints: knowledgePoints.filter(kp => selectedKps.has(kp.id)),
-        };
-        const blob = new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'knowledge_base_export.json';
-        a.click();
-        URL.revokeObjectURL(url);
+        const selected = knowledgePoints.filter(kp => selectedKps.has(kp.id));
+        if (exportFormat === 'csv') {
+            downloadBlob(new Blob([formatCsv(formatKnowledgeRows(selected, categories))], { type: 'text/csv' }), 'knowledge_base_export.csv');
+        } else if (exportFormat === 'xlsx') {
+            downloadBlob(writeXlsx(formatKnowledgeRows(selected, categories), '知识点'), 'knowledge_base_export.xlsx');
+        } else {
+            const dataToExport = {
+                schemaVersion: DATA_VERSION,
+                categories: categories,
+                knowledgePoints: selected,
+            };
+            downloadBlob(new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' }), 'knowledge_base_export.json');
+        }
+    };
+
+    const handleSpreadsheetImport = async (file: File) => {
+        try {
+            const rows = /\.xlsx$/i.test(file.name) ? await readXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+            if (rows.every(row => row.every(cell => cell.trim() === ''))) {
+                addToast('表格中没有数据。', 'error');
+                return;
+            }
+            setSpreadsheetImport({ fileName: file.name, rows });
+        } catch (error) {
+            console.error("Spreadsheet import error:", error);
+            addToast(error instanceof Error ? `读取表格失败：${error.message}` : '读取表格失败，请检查文件格式。', 'error');
+        }
     };
 
-    const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
+        event.target.value = '';
         if (!file) return;
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            try {
-                const text = e.target?.result;
-                const data = JSON.parse(text as string);
-                if (data.categories && data.knowledgePoints) {
-                    const existingCatIds = new Set(categories.map(c=>c.id));
-                    const newCategories = data.categories.filter((c:any) => !existingCatIds.has(c.id));
-                    
-                    const existingKpIds = new Set(knowledgePoints.map(kp=>kp.id));
-                    const newKnowledgePoints = data.knowledgePoints.filter((kp:any) => !existingKpIds.has(kp.id));
-
-                    setCategories([...categories, ...newCategories]);
-                    setKnowledgePoints([...knowledgePoints, ...newKnowledgePoints]);
-                    addToast('导入成功！', 'success');
-                }
-            } catch (error) {
-                console.error("Import error:", error);
+        if (/\.(csv|xlsx)$/i.test(file.name)) {
+            handleSpreadsheetImport(file);
+            return;
+        }
+        try {
+            const data = migrateImport(JSON.parse(await file.text()), ['categories', 'knowledgePoints']);
+            if (!data.categories && !data.knowledgePoints) {
+                addToast('文件中没有分类或知识点。', 'error');
+                return;
+            }
+            setJsonImport({ fileName: file.name, categories: data.categories ?? [], knowledgePoints: data.knowledgePoints ?? [] });
+        } catch (error) {
+            console.error("Import error:", error);
+            if (error instanceof MigrationError) {
+                addToast(`导入失败：${error.message}${error.errors.length > 0 ? ` ${error.errors.slice(0, 3).join('；')}` : ''}`, 'error');
+            } else {
                 addToast('导入文件失败，请检查文件格式。', 'error');
             }
-        };
-        reader.readAsText(file);
+        }
     };
     
     const handleOpenTransferModal = () => {
@@ -182,10 +263,37 @@ const KnowledgeList: React.FC = () => {
         setSelectedKps(new Set());
     };
 
+    const otherOrganizations = organizations.filter(o => o.id !== activeOrganizationId);
+    const linkedIntents = intents.filter(intent => intent.knowledgePointId !== null && selectedKps.has(intent.knowledgePointId));
+
+    const handleOpenCopyModal = () => {
+        setCopyTargetOrganization(otherOrganizations[0]?.id ?? '');
+        setCopyIntents(can('nlu:edit'));
+        setIsCopyModalOpen(true);
+    };
+
+    const handleConfirmCopy = () => {
+        if (!copyTargetOrganization) return;
+        const copied = copyToOrganization(copyTargetOrganization, Array.from(selectedKps), copyIntents ? linkedIntents.map(intent => intent.id) : []);
+        setIsCopyModalOpen(false);
+        if (copied.knowledgePoints === 0 && copied.intents === 0) return;
+        const targetName = organizations.find(o => o.id === copyTargetOrganization)?.name ?? '';
+        addToast(`已复制 ${copied.knowledgePoints} 个知识点${copied.intents > 0 ? `和 ${copied.intents} 个意图` : ''}到“${targetName}”。`, 'success');
+        setSelectedKps(new Set());
+    };
+
     if (isEditorOpen) {
         return <KnowledgeEditor kp={editingKp} onClose={() => setIsEditorOpen(false)} />;
     }
 
+    if (jsonImport) {
+        return <KnowledgeImportWizard {...jsonImport} onClose={() => setJsonImport(null)} />;
+    }
+
+    if (spreadsheetImport) {
+        return <KnowledgeSpreadsheetImport fileName={spreadsheetImport.fileName} rows={spreadsheetImport.rows} onClose={() => setSpreadsheetImport(null)} />;
+    }
+
     return (
         <div className="flex h-full">
             <aside className="w-1/4 min-w-[250px] bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700">
@@ -194,9 +302,11 @@ const KnowledgeList: React.FC = () => {
             <main className="flex-1 flex flex-col p-6 overflow-y-auto">
                 <div className="flex justify-between items-center mb-4">
                     <h1 className="text-2xl font-bold">知识点</h1>
-                    <Button onClick={handleAddNew}>
-                        <PlusIcon className="w-5 h-5 mr-2" /> 新增
-                    </Button>
+                    {can('knowledge:edit') && (
+                        <Button onClick={handleAddNew}>
+                            <PlusIcon className="w-5 h-5 mr-2" /> 新增
+                        </Button>
+                    )}
                 </div>
                 <div className="mb-4 flex items-center space-x-2">
                     <input
@@ -206,17 +316,30 @@ const KnowledgeList: React.FC = () => {
                         onChange={(e) => setSearchTerm(e.target.value)}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
+                    <label className="inline-flex items-center whitespace-nowrap text-sm" title="按问题的语义相似度排序，而不是关键词包含">
+                        <input type="checkbox" checked={isSemanticSearch} onChange={e => setIsSemanticSearch(e.target.checked)} className="mr-2 rounded" />
+                        语义搜索
+                    </label>
                      <Button variant="secondary" onClick={() => setIsAdvancedSearchOpen(true)}><SearchIcon className="w-5 h-5 mr-2" />高级搜索</Button>
                 </div>
 
                 <div className="mb-4 flex items-center justify-between">
                      <div className="flex items-center space-x-2">
-                        <Button size="sm" variant="secondary" onClick={handleOpenTransferModal} disabled={selectedKps.size === 0}>转移</Button>
+                        {can('knowledge:edit') && <Button size="sm" variant="secondary" onClick={handleOpenTransferModal} disabled={selectedKps.size === 0}>转移</Button>}
+                        {can('knowledge:edit') && otherOrganizations.length > 0 && <Button size="sm" variant="secondary" onClick={handleOpenCopyModal} disabled={selectedKps.size === 0}>复制到组织</Button>}
+                        <select value={exportFormat} onChange={e => setExportFormat(e.target.value as ExportFormat)} aria-label="导出格式"
+                            className="p-1.5 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600">
+                            <option value="json">JSON</option>
+                            <option value="csv">CSV</option>
+                            <option value="xlsx">Excel</option>
+                        </select>
                         <Button size="sm" variant="secondary" onClick={handleExport} disabled={selectedKps.size === 0}>导出</Button>
-                         <label className="inline-flex items-center">
-                            <Button as="span" size="sm" variant="secondary" className="cursor-pointer">导入</Button>
-                            <input type="file" className="hidden" accept=".json" onChange={handleImport} />
-                        </label>
+                        {canImport && (
+                            <label className="inline-flex items-center">
+                                <Button as="span" size="sm" variant="secondary" className="cursor-pointer">导入</Button>
+                                <input type="file" className="hidden" accept=".json,.csv,.xlsx" onChange={handleImport} />
+                            </label>
+                        )}
                     </div>
                     <div className="flex items-center">
                         <input type="checkbox" id="include-sub" checked={includeSubcategories} onChange={e => setIncludeSubcategories(e.target.checked)} className="mr-2 rounded"/>
@@ -246,15 +369,30 @@ const KnowledgeList: React.FC = () => {
                                     <td className="px-6 py-4">
                                         <input type="checkbox" checked={selectedKps.has(kp.id)} onChange={() => handleSelectKp(kp.id)} className="rounded" />
                                     </td>
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{kp.standardQuestion}</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                                        {kp.standardQuestion}
+                                        {kp.tags?.map(tag => <span key={tag} className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">{tag}</span>)}
+                                    </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{categories.find(c => c.id === kp.categoryId)?.name}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{kp.similarQuestions.length}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{kp.relatedQuestionIds.length}</td>
-                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{ {published: '已发布', draft: '草稿', archived: '已归档'}[kp.status] }</td>
+                                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{ {published: '已发布', draft: '草稿', archived: '已归档'}[kp.status] }
+                                        {kp.status === 'published' && !isWithinSchedule(kp) && (
+                                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800" title={kp.effectiveFrom && `生效时间：${new Date(kp.effectiveFrom).toLocaleString()}`}>待生效</span>
+                                        )}
+                                        {kp.expireAt && isExpiringWithin(kp, EXPIRY_WARNING_DAYS) && (
+                                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800" title={`到期时间：${new Date(kp.expireAt).toLocaleString()}`}>即将到期</span>
+                                        )}
+                                        {kp.pendingRevision && (
+                                            <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${kp.pendingRevision.state === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800'}`}>
+                                                {kp.pendingRevision.state === 'pending' ? '待审核' : '已驳回'}
+                                            </span>
+                                        )}
+                                    </td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{kp.createdBy}</td>
                                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right space-x-2">
-                                        <Button variant="ghost" size="sm" onClick={() => handleEdit(kp)}><EditIcon className="w-4 h-4" /></Button>
-                                        <Button variant="ghost" size="sm" onClick={() => handleDelete(kp.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>
+                                        {can('knowledge:edit') && <Button variant="ghost" size="sm" onClick={() => handleEdit(kp)}><EditIcon className="w-4 h-4" /></Button>}
+                                        {can('knowledge:delete') && <Button variant="ghost" size="sm" onClick={() => handleDelete(kp.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>}
                                     </td>
                                 </tr>
                             ))}
@@ -278,6 +416,30 @@ const KnowledgeList: React.FC = () => {
                 </div>
             </Modal>
 
+            <Modal isOpen={isCopyModalOpen} onClose={() => setIsCopyModalOpen(false)} title="复制到组织">
+                <p>将 {selectedKps.size} 个选定项目复制到：</p>
+                <select
+                    value={copyTargetOrganization}
+                    onChange={e => setCopyTargetOrganization(e.target.value)}
+                    className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {otherOrganizations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                </select>
+                {linkedIntents.length > 0 && can('nlu:edit') && (
+                    <label className="mt-3 flex items-center text-sm">
+                        <input type="checkbox" checked={copyIntents} onChange={e => setCopyIntents(e.target.checked)} className="mr-2 rounded" />
+                        同时复制回答这些知识点的 {linkedIntents.length} 个意图及其实体
+                    </label>
+                )}
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                    复制的知识点会放入目标组织中同名的分类，没有时自动创建；只保留一同复制的关联问题。{!can('knowledge:publish') && '没有发布权限时，已发布的知识点会复制为草稿。'}
+                </p>
+                <div className="mt-4 flex justify-end space-x-2">
+                    <Button variant="secondary" onClick={() => setIsCopyModalOpen(false)}>取消</Button>
+                    <Button onClick={handleConfirmCopy}>确认复制</Button>
+                </div>
+            </Modal>
+
             <Modal isOpen={isAdvancedSearchOpen} onClose={() => setIsAdvancedSearchOpen(false)} title="高级搜索">
                 <div className="grid grid-cols-2 gap-4">
                      <div>
@@ -309,6 +471,10 @@ const KnowledgeList: React.FC = () => {
                         <label className="block text-sm font-medium">创建人</label>
                         <input type="text" name="createdBy" placeholder="输入创建人" value={advancedFilters.createdBy} onChange={handleAdvancedFilterChange} className="w-full mt-1 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium">未来 N 天内到期</label>
+                        <input type="number" min="1" name="expiringWithinDays" placeholder="例如 7" value={advancedFilters.expiringWithinDays} onChange={handleAdvancedFilterChange} className="w-full mt-1 p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
                 </div>
                  <div className="mt-4 flex justify-end">
                     <Button onClick={() => setIsAdvancedSearchOpen(false)}>关闭</Button>
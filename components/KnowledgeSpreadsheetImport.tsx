@@ -0,0 +1,206 @@
+import React, { useState, useMemo } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useToast } from '../contexts/ToastContext';
+import Button from './ui/Button';
+import { InfoIcon } from './ui/Icons';
+import {
+    columnLetters,
+    guessColumnMapping,
+    parseKnowledgeRows,
+    planKnowledgeImport,
+    ColumnMapping,
+    DuplicateMode,
+    KnowledgeField,
+    CATEGORY_PATH_SEPARATOR,
+    DEFAULT_SIMILAR_QUESTION_DELIMITER,
+    KNOWLEDGE_FIELD_LABELS,
+} from '../services/spreadsheet';
+
+interface KnowledgeSpreadsheetImportProps {
+    fileName: string;
+    rows: string[][];
+    onClose: () => void;
+}
+
+const REQUIRED_FIELDS: KnowledgeField[] = ['categoryPath', 'standardQuestion', 'answer'];
+const PREVIEW_ROWS = 5;
+
+const DUPLICATE_MODES: { mode: DuplicateMode; label: string; description: string }[] = [
+    { mode: 'skip', label: '跳过', description: '保留现有知识点，不导入这些行' },
+    { mode: 'overwrite', label: '覆盖', description: '用表格中的分类、答案、相似问题和状态替换现有内容' },
+    { mode: 'merge', label: '合并', description: '保留现有内容，只追加表格中新的相似问题' },
+];
+
+// The preview shows answers as text; imported HTML is not rendered until it is saved and reviewed.
+const answerText = (html: string) => new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+
+const KnowledgeSpreadsheetImport: React.FC<KnowledgeSpreadsheetImportProps> = ({ fileName, rows, onClose }) => {
+    const { knowledgePoints, categories, importKnowledgePoints } = useKnowledgeBase();
+    const { addToast } = useToast();
+
+    const guessed = useMemo(() => guessColumnMapping(rows[0] ?? []), [rows]);
+    const [hasHeader, setHasHeader] = useState(guessed.standardQuestion !== null);
+    const [mapping, setMapping] = useState<ColumnMapping>(guessed);
+    const [delimiter, setDelimiter] = useState(DEFAULT_SIMILAR_QUESTION_DELIMITER);
+    const [duplicateMode, setDuplicateMode] = useState<DuplicateMode>('skip');
+
+    const columnCount = Math.max(0, ...rows.map(row => row.length));
+    const columnLabel = (index: number) => `${columnLetters(index)} 列${hasHeader && rows[0]?.[index] ? `：${rows[0][index]}` : ''}`;
+    const missingFields = REQUIRED_FIELDS.filter(field => mapping[field] === null);
+
+    const parsed = useMemo(
+        () => parseKnowledgeRows(rows, mapping, { hasHeader, similarQuestionDelimiter: delimiter }),
+        [rows, mapping, hasHeader, delimiter]
+    );
+    const plan = useMemo(
+        () => planKnowledgeImport(parsed.rows, knowledgePoints, categories, duplicateMode),
+        [parsed, knowledgePoints, categories, duplicateMode]
+    );
+    const duplicateCount = parsed.rows.filter(row => knowledgePoints.some(kp => kp.standardQuestion.trim() === row.standardQuestion)).length;
+
+    const handleConfirm = () => {
+        const result = importKnowledgePoints(
+            plan.newCategories,
+            plan.created.map(({ rowNumber, ...kp }) => kp),
+            plan.updated.map(({ id, update }) => ({ id, update }))
+        );
+        const submitted = result.submitted > 0 ? `，${result.submitted} 个已发布的知识点的修改已提交审核` : '';
+        const scheduleKept = result.scheduleKept > 0 ? `，${result.scheduleKept} 个已发布的知识点的生效时间、失效时间或标签需要发布权限，未更改` : '';
+        addToast(`导入完成：新增 ${result.created} 个、更新 ${result.updated} 个知识点${submitted}${scheduleKept}。`, 'success');
+        onClose();
+    };
+
+    const canImport = missingFields.length === 0 && plan.created.length + plan.updated.length > 0;
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">导入表格：{fileName}</h1>
+                <div className="flex items-center space-x-2">
+                    <Button variant="secondary" onClick={onClose}>取消</Button>
+                    <Button onClick={handleConfirm} disabled={!canImport}>确认导入</Button>
+                </div>
+            </div>
+
+            <div className="flex-grow overflow-y-auto space-y-6">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                    <h2 className="text-lg font-semibold mb-4">列对应关系</h2>
+                    <div className="flex items-center space-x-6 mb-4 text-sm">
+                        <label className="inline-flex items-center">
+                            <input type="checkbox" checked={hasHeader} onChange={e => setHasHeader(e.target.checked)} className="mr-2 rounded" />
+                            第一行是表头
+                        </label>
+                        <label className="inline-flex items-center">
+                            相似问题分隔符
+                            <input type="text" value={delimiter} onChange={e => setDelimiter(e.target.value)}
+                                className="ml-2 w-16 p-1 border rounded-md text-center dark:bg-gray-700 dark:border-gray-600" />
+                        </label>
+                    </div>
+                    <div className="grid grid-cols-5 gap-4">
+                        {(Object.keys(KNOWLEDGE_FIELD_LABELS) as KnowledgeField[]).map(field => (
+                            <div key={field}>
+                                <label htmlFor={`map-${field}`} className="block text-sm font-medium mb-1">
+                                    {KNOWLEDGE_FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                                </label>
+                                <select id={`map-${field}`} value={mapping[field] ?? ''}
+                                    onChange={e => setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })}
+                                    className="w-full p-2 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600">
+                                    <option value="">{REQUIRED_FIELDS.includes(field) ? '请选择列' : '不导入'}</option>
+                                    {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                        分类按路径填写，如 “账单{CATEGORY_PATH_SEPARATOR}订阅”，不存在的分类会自动创建。状态可填 已发布、草稿 或 已归档，留空为草稿。答案可以是纯文本或 HTML。
+                    </p>
+                </div>
+
+                {missingFields.length > 0 ? (
+                    <div className="flex items-start p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                        <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                        <span>请为 {missingFields.map(field => KNOWLEDGE_FIELD_LABELS[field]).join('、')} 选择对应的列。</span>
+                    </div>
+                ) : (
+                    <>
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm overflow-x-auto">
+                            <h2 className="text-lg font-semibold mb-4">数据预览（前 {PREVIEW_ROWS} 行）</h2>
+                            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                                <thead className="bg-gray-50 dark:bg-gray-700">
+                                    <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">行</th>
+                                        {(Object.keys(KNOWLEDGE_FIELD_LABELS) as KnowledgeField[]).map(field => (
+                                            <th key={field} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">{KNOWLEDGE_FIELD_LABELS[field]}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                    {parsed.rows.slice(0, PREVIEW_ROWS).map(row => (
+                                        <tr key={row.rowNumber}>
+                                            <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                                            <td className="px-3 py-2">{row.categoryPath.join(CATEGORY_PATH_SEPARATOR)}</td>
+                                            <td className="px-3 py-2">{row.standardQuestion}</td>
+                                            <td className="px-3 py-2">{row.similarQuestions.join('；')}</td>
+                                            <td className="px-3 py-2 max-w-xs truncate">{answerText(row.answer)}</td>
+                                            <td className="px-3 py-2">{row.status ? { published: '已发布', draft: '草稿', archived: '已归档' }[row.status] : ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {duplicateCount > 0 && (
+                            <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                                <h2 className="text-lg font-semibold mb-2">已存在的问题</h2>
+                                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">有 {duplicateCount} 行的标准问题与现有知识点相同，请选择处理方式：</p>
+                                <div className="space-y-2">
+                                    {DUPLICATE_MODES.map(({ mode, label, description }) => (
+                                        <label key={mode} className="flex items-center text-sm">
+                                            <input type="radio" name="duplicate-mode" checked={duplicateMode === mode} onChange={() => setDuplicateMode(mode)} className="mr-2" />
+                                            <span className="font-medium mr-2">{label}</span>
+                                            <span className="text-gray-500 dark:text-gray-400">{description}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+                            <h2 className="text-lg font-semibold mb-2">导入结果预览</h2>
+                            <p className="text-sm mb-2">
+                                新增 {plan.created.length} 个，更新 {plan.updated.length} 个，跳过 {plan.skipped.length} 行，有错误 {parsed.errors.length} 行。
+                            </p>
+                            {plan.newCategories.length > 0 && (
+                                <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                                    将创建分类：{plan.newCategories.map(c => c.name).join('、')}
+                                </p>
+                            )}
+                            {parsed.errors.length + plan.skipped.length > 0 && (
+                                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm mt-4">
+                                    <thead className="bg-gray-50 dark:bg-gray-700">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 w-16">行</th>
+                                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300">说明</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                                        {[...parsed.errors.map(e => ({ ...e, isError: true })), ...plan.skipped.map(e => ({ ...e, isError: false }))]
+                                            .sort((a, b) => a.rowNumber - b.rowNumber)
+                                            .map(entry => (
+                                                <tr key={entry.rowNumber}>
+                                                    <td className="px-3 py-2 text-gray-500">{entry.rowNumber}</td>
+                                                    <td className={`px-3 py-2 ${entry.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>{entry.message}</td>
+                                                </tr>
+                                            ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default KnowledgeSpreadsheetImport;
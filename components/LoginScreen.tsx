@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { User } from '../types';
+import { AuthError, AuthProvider } from '../services/auth';
+import { BrainIcon } from './ui/Icons';
+import Button from './ui/Button';
+
+interface LoginScreenProps {
+    provider: AuthProvider;
+    onLogin: (user: User) => void;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ provider, onLogin }) => {
+    // A local user store starts empty, so the first visitor sets up the admin account.
+    const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+    const [form, setForm] = useState({ username: '', displayName: '', password: '', confirmPassword: '' });
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        if (!provider.users) {
+            setNeedsSetup(false);
+            return;
+        }
+        provider.users.list()
+            .then(users => setNeedsSetup(users.length === 0))
+            .catch(err => {
+                console.error("Failed to read users:", err);
+                setNeedsSetup(false);
+            });
+    }, [provider]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        if (needsSetup && form.password !== form.confirmPassword) {
+            setError('两次输入的密码不一致。');
+            return;
+        }
+        setIsSubmitting(true);
+        try {
+            if (needsSetup && provider.users) {
+                onLogin(await provider.users.create({ username: form.username, displayName: form.displayName, role: 'admin', password: form.password }));
+            } else {
+                onLogin(await provider.authenticate(form.username, form.password));
+            }
+        } catch (err) {
+            console.error("Login failed:", err);
+            setError(err instanceof AuthError ? err.message : '登录失败，请稍后重试。');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (needsSetup === null) {
+        return <div className="flex h-screen items-center justify-center text-gray-500 dark:text-gray-400">正在加载...</div>;
+    }
+
+    const inputClass = "mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600";
+
+    return (
+        <div className="flex h-screen items-center justify-center bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 space-y-4">
+                <div className="flex items-center justify-center mb-2">
+                    <BrainIcon className="h-8 w-8 text-blue-600" />
+                    <h1 className="ml-2 text-xl font-bold">智能知识库</h1>
+                </div>
+                {needsSetup && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        这是首次使用，请创建管理员账户。之后可以在“用户管理”页面添加其他用户。
+                    </p>
+                )}
+                <div>
+                    <label htmlFor="username" className="block text-sm font-medium">用户名</label>
+                    <input id="username" name="username" value={form.username} onChange={handleChange} autoComplete="username" required className={inputClass}/>
+                </div>
+                {needsSetup && (
+                    <div>
+                        <label htmlFor="displayName" className="block text-sm font-medium">显示名称</label>
+                        <input id="displayName" name="displayName" value={form.displayName} onChange={handleChange} placeholder="默认与用户名相同" className={inputClass}/>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="password" className="block text-sm font-medium">密码</label>
+                    <input id="password" name="password" type="password" value={form.password} onChange={handleChange} autoComplete={needsSetup ? 'new-password' : 'current-password'} required className={inputClass}/>
+                </div>
+                {needsSetup && (
+                    <div>
+                        <label htmlFor="confirmPassword" className="block text-sm font-medium">确认密码</label>
+                        <input id="confirmPassword" name="confirmPassword" type="password" value={form.confirmPassword} onChange={handleChange} autoComplete="new-password" required className={inputClass}/>
+                    </div>
+                )}
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                    {isSubmitting ? '请稍候...' : (needsSetup ? '创建并登录' : '登录')}
+                </Button>
+            </form>
+        </div>
+    );
+};
+
+export default LoginScreen;
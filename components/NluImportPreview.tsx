@@ -0,0 +1,89 @@
+import React from 'react';
+import { Entity, Intent, Unscoped } from '../types';
+import Button from './ui/Button';
+import { InfoIcon } from './ui/Icons';
+import { ImportAction, ImportItem, ImportPlan } from '../services/nluFormats';
+
+interface NluImportPreviewProps {
+    plan: ImportPlan;
+    sourceName: string; // The imported file, shown in the title
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, { label: string; className: string }> = {
+    create: { label: '新建', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200' },
+    merge: { label: '合并', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200' },
+    unchanged: { label: '无变化', className: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+    conflict: { label: '冲突', className: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200' },
+};
+
+const describeEntity = (entity: Unscoped<Entity>) =>
+    entity.type === 'regex' ? `正则：${entity.regex}` : `${entity.members.length} 个成员`;
+
+const describeIntent = (intent: Unscoped<Intent>) =>
+    `${intent.utterances.length} 条语料${intent.slots.length > 0 ? `，${intent.slots.length} 个槽位` : ''}`;
+
+const PlanTable = <T extends Unscoped<Entity> | Unscoped<Intent>>({ title, items, describe }: { title: string; items: ImportItem<T>[]; describe: (record: T) => string }) => (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm">
+        <h2 className="text-lg font-semibold mb-4">{title}（{items.length}）</h2>
+        {items.length === 0 ? <p className="text-sm text-gray-500">无</p> : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">名称</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">导入内容</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">处理</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">说明</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {items.map(item => (
+                        <tr key={item.incoming.id}>
+                            <td className="px-3 py-2 text-sm font-medium">{item.incoming.name}</td>
+                            <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{describe(item.incoming)}</td>
+                            <td className="px-3 py-2 text-sm">
+                                <span className={`px-2 py-0.5 rounded-full text-xs ${ACTION_LABELS[item.action].className}`}>{ACTION_LABELS[item.action].label}</span>
+                            </td>
+                            <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{item.notes.join('；')}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+const NluImportPreview: React.FC<NluImportPreviewProps> = ({ plan, sourceName, onConfirm, onCancel }) => {
+    const items = [...plan.entities, ...plan.intents];
+    const count = (action: ImportAction) => items.filter(item => item.action === action).length;
+    const writes = count('create') + count('merge');
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-2xl font-bold">导入预览：{sourceName}</h1>
+                <div className="flex items-center space-x-2">
+                    <Button variant="secondary" onClick={onCancel}>取消</Button>
+                    <Button onClick={onConfirm} disabled={writes === 0}>确认导入</Button>
+                </div>
+            </div>
+            <p className="mb-6 text-gray-600 dark:text-gray-400">
+                按名称与现有意图和实体比对：将新建 {count('create')} 项、合并 {count('merge')} 项，{count('unchanged')} 项无变化。{count('conflict') > 0 && `有 ${count('conflict')} 项冲突，将保持现状不导入。`}确认前不会写入任何数据。
+            </p>
+
+            <div className="flex-grow overflow-y-auto space-y-6">
+                {plan.warnings.length > 0 && (
+                    <div className="flex items-start p-3 rounded-md bg-yellow-50 dark:bg-yellow-900/30 text-sm text-yellow-800 dark:text-yellow-200">
+                        <InfoIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                        <ul className="list-disc pl-4">{plan.warnings.map((warning, i) => <li key={i}>{warning}</li>)}</ul>
+                    </div>
+                )}
+                <PlanTable title="实体" items={plan.entities} describe={describeEntity} />
+                <PlanTable title="意图" items={plan.intents} describe={describeIntent} />
+            </div>
+        </div>
+    );
+};
+
+export default NluImportPreview;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useAuth } from '../contexts/AuthContext';
+import { Organization } from '../types';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import { PlusIcon, EditIcon, TrashIcon } from './ui/Icons';
+
+const OrganizationSwitcher: React.FC = () => {
+    const { organizations, activeOrganizationId, setActiveOrganizationId, addOrganization, renameOrganization, deleteOrganization } = useKnowledgeBase();
+    const { can } = useAuth();
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingOrganization, setEditingOrganization] = useState<Organization | null>(null);
+    const [organizationName, setOrganizationName] = useState('');
+
+    const activeOrganization = organizations.find(o => o.id === activeOrganizationId);
+
+    const handleOpenModal = (organization: Organization | null) => {
+        setEditingOrganization(organization);
+        setOrganizationName(organization?.name ?? '');
+        setIsModalOpen(true);
+    };
+
+    const handleCloseModal = () => {
+        setIsModalOpen(false);
+        setEditingOrganization(null);
+        setOrganizationName('');
+    };
+
+    const handleSave = () => {
+        if (!organizationName.trim()) return;
+        if (editingOrganization) {
+            renameOrganization(editingOrganization.id, organizationName.trim());
+        } else {
+            const organization = addOrganization(organizationName.trim());
+            if (organization) setActiveOrganizationId(organization.id);
+        }
+        handleCloseModal();
+    };
+
+    const handleDelete = () => {
+        if (!activeOrganization) return;
+        if (window.confirm(`您确定要删除组织“${activeOrganization.name}”吗？该组织的会话记录和未解决问题将一并删除。`)) {
+            deleteOrganization(activeOrganization.id);
+        }
+    };
+
+    return (
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+            <label htmlFor="active-organization" className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">当前组织</label>
+            <div className="flex items-center space-x-1">
+                <select
+                    id="active-organization"
+                    value={activeOrganizationId}
+                    onChange={e => setActiveOrganizationId(e.target.value)}
+                    className="flex-grow min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    {organizations.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                </select>
+                {can('organizations:manage') && (
+                    <>
+                        <button onClick={() => handleOpenModal(null)} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700" title="新建组织" aria-label="新建组织">
+                            <PlusIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => activeOrganization && handleOpenModal(activeOrganization)} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700" title="重命名组织" aria-label="重命名组织">
+                            <EditIcon className="h-4 w-4" />
+                        </button>
+                        <button onClick={handleDelete} disabled={organizations.length <= 1} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40" title="删除组织" aria-label="删除组织">
+                            <TrashIcon className="h-4 w-4" />
+                        </button>
+                    </>
+                )}
+            </div>
+
+            <Modal isOpen={isModalOpen} onClose={handleCloseModal} title={editingOrganization ? '重命名组织' : '新建组织'}>
+                <div className="space-y-2">
+                    <label htmlFor="organization-name" className="block text-sm font-medium">组织名称</label>
+                    <input
+                        id="organization-name"
+                        type="text"
+                        value={organizationName}
+                        onChange={(e) => setOrganizationName(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md dark:bg-gray-700 dark:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {!editingOrganization && <p className="text-xs text-gray-500 dark:text-gray-400">新组织的知识库、机器人、实体和意图都是空的，可以从其他组织复制知识点过来。</p>}
+                </div>
+                <div className="mt-4 flex justify-end space-x-2">
+                    <Button variant="secondary" onClick={handleCloseModal}>取消</Button>
+                    <Button onClick={handleSave}>保存</Button>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default OrganizationSwitcher;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { KnowledgePoint, PendingRevision } from '../types';
+import ContentDiff from './ContentDiff';
+import Button from './ui/Button';
+import { CheckIcon, XIcon } from './ui/Icons';
+
+type ReviewState = PendingRevision['state'];
+
+const ReviewQueue: React.FC = () => {
+    const { knowledgePoints, categories, approveReview, rejectReview, withdrawReview } = useKnowledgeBase();
+    const { can } = useAuth();
+    const { addToast } = useToast();
+    const canReview = can('knowledge:publish');
+    const [stateFilter, setStateFilter] = useState<ReviewState>('pending');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [comments, setComments] = useState<Record<string, string>>({});
+
+    // Oldest submissions first, so nothing waits indefinitely.
+    const items = knowledgePoints
+        .filter((kp): kp is KnowledgePoint & { pendingRevision: PendingRevision } => kp.pendingRevision?.state === stateFilter)
+        .sort((a, b) => a.pendingRevision.submittedAt.localeCompare(b.pendingRevision.submittedAt));
+    const pendingCount = knowledgePoints.filter(kp => kp.pendingRevision?.state === 'pending').length;
+
+    const categoryName = (id: string) => categories.find(c => c.id === id)?.name ?? '（已删除的分类）';
+
+    const handleApprove = (kp: KnowledgePoint) => {
+        approveReview(kp.id, comments[kp.id]);
+        addToast(`“${kp.pendingRevision?.content.standardQuestion}” 已审核通过并发布。`, 'success');
+        setExpandedId(null);
+    };
+
+    const handleReject = (kp: KnowledgePoint) => {
+        const comment = comments[kp.id]?.trim();
+        if (!comment) {
+            addToast('驳回时请填写原因。', 'error');
+            return;
+        }
+        rejectReview(kp.id, comment);
+        addToast('已驳回，提交人可以修改后重新提交。', 'info');
+        setExpandedId(null);
+    };
+
+    const handleWithdraw = (kp: KnowledgePoint) => {
+        if (!window.confirm('确定要撤回这次提交吗？提交的修改将被丢弃。')) return;
+        withdrawReview(kp.id);
+        addToast('已撤回提交。', 'info');
+    };
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <h1 className="text-2xl font-bold mb-4">待审核</h1>
+            <p className="mb-4 text-gray-600 dark:text-gray-400">
+                编辑提交的新知识点和对已发布知识点的修改会在这里等待审核。已发布的知识点在修改审核通过前，机器人将继续使用原来的版本。
+            </p>
+            <div className="mb-4 flex space-x-2">
+                <Button size="sm" variant={stateFilter === 'pending' ? 'primary' : 'secondary'} onClick={() => setStateFilter('pending')}>
+                    待审核（{pendingCount}）
+                </Button>
+                <Button size="sm" variant={stateFilter === 'rejected' ? 'primary' : 'secondary'} onClick={() => setStateFilter('rejected')}>
+                    已驳回
+                </Button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto space-y-3">
+                {items.length === 0 && (
+                    <p className="text-center text-gray-500 dark:text-gray-400 py-10">
+                        {stateFilter === 'pending' ? '没有等待审核的提交。' : '没有被驳回的提交。'}
+                    </p>
+                )}
+                {items.map(kp => {
+                    const { pendingRevision: proposal } = kp;
+                    const isExpanded = expandedId === kp.id;
+                    return (
+                        <div key={kp.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-md">
+                            <button onClick={() => setExpandedId(isExpanded ? null : kp.id)} className="w-full text-left p-4 flex justify-between items-center">
+                                <div>
+                                    <p className="font-medium">{proposal.content.standardQuestion}</p>
+                                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                        {kp.status === 'published' ? '修改已发布的知识点' : '新知识点'} · {categoryName(proposal.content.categoryId)} · {proposal.submittedBy} 提交于 {new Date(proposal.submittedAt).toLocaleString()}
+                                    </p>
+                                    {proposal.state === 'rejected' && (
+                                        <p className="text-sm text-red-600 dark:text-red-400 mt-1">{proposal.reviewedBy} 驳回：{proposal.reviewComment}</p>
+                                    )}
+                                </div>
+                                <span className="text-sm text-blue-600 ml-4 whitespace-nowrap">{isExpanded ? '收起' : '查看'}</span>
+                            </button>
+                            {isExpanded && (
+                                <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                                    {kp.status === 'published' ? (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-4 text-sm text-gray-500 dark:text-gray-400">
+                                                <span>当前发布的版本</span>
+                                                <span>提交的修改</span>
+                                            </div>
+                                            <ContentDiff before={kp} after={proposal.content} />
+                                        </>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            {proposal.content.similarQuestions.length > 0 && (
+                                                <p className="text-sm text-gray-600 dark:text-gray-400">相似问题：{proposal.content.similarQuestions.join('、')}</p>
+                                            )}
+                                            <div className="prose prose-sm dark:prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: proposal.content.answer }} />
+                                        </div>
+                                    )}
+                                    {proposal.state === 'pending' && canReview && (
+                                        <div className="space-y-2">
+                                            <textarea
+                                                value={comments[kp.id] || ''}
+                                                onChange={e => setComments(prev => ({ ...prev, [kp.id]: e.target.value }))}
+                                                placeholder="审核意见（驳回时必填）"
+                                                rows={2}
+                                                className="w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 text-sm"
+                                            />
+                                            <div className="flex justify-end space-x-2">
+                                                <Button variant="danger" size="sm" onClick={() => handleReject(kp)}>
+                                                    <XIcon className="w-4 h-4 mr-1" /> 驳回
+                                                </Button>
+                                                <Button size="sm" onClick={() => handleApprove(kp)}>
+                                                    <CheckIcon className="w-4 h-4 mr-1" /> 通过并发布
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {(proposal.state === 'rejected' || !canReview) && (
+                                        <div className="flex justify-end">
+                                            <Button variant="secondary" size="sm" onClick={() => handleWithdraw(kp)}>撤回提交</Button>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ReviewQueue;
@@ -1,34 +1,70 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useKnowledgeBase } from '../contexts/KnowledgeBaseContext';
-import { Robot } from '../types';
+import { AnswerThresholds, HandoffRules, Robot } from '../types';
 import Button from './ui/Button';
 import Modal from './ui/Modal';
-import { PlusIcon, EditIcon, TrashIcon, RobotIcon, InfoIcon } from './ui/Icons';
+import { PlusIcon, EditIcon, TrashIcon, RobotIcon, InfoIcon, CodeIcon, CopyIcon } from './ui/Icons';
 import { useToast } from '../contexts/ToastContext';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_ANSWER_THRESHOLDS } from '../services/matcher';
+import { DATA_VERSION } from '../services/migrations';
+import { getPublishedKnowledgePoints, DEFAULT_GOODBYE_MESSAGE, DEFAULT_HANDOFF_MESSAGE, NO_ANSWER_TEXT } from '../services/chatEngine';
+import { createsFallbackCycle, getFallbackChain, getRobotKnowledgePoints, parseTags } from '../services/robotScope';
+
+const WIDGET_ENDPOINT_KEY = 'widget_endpoint';
+
+const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// The widget script is served by the chat server itself, so one URL configures both.
+const buildEmbedSnippet = (robot: Robot, endpoint: string): string => {
+    const base = escapeAttribute(endpoint.trim().replace(/\/+$/, ''));
+    return `<script src="${base}/widget.js" data-robot="${escapeAttribute(robot.apiIdentifier)}" data-endpoint="${base}" async></script>`;
+};
+
+type RobotForm = Omit<Robot, 'id' | 'organizationId'>;
+
+const EMPTY_ROBOT_FORM: RobotForm = {
+    name: '',
+    avatar: '',
+    welcomeMessage: '',
+    goodbyeMessage: '',
+    handoffMessage: '',
+    fallbackMessages: [],
+    starterQuestions: [],
+    systemPrompt: '',
+    apiIdentifier: '',
+    silenceThresholdDays: 30,
+    answerThresholds: DEFAULT_ANSWER_THRESHOLDS,
+    answerMode: 'retrieval',
+    matcherType: 'bm25',
+    knowledgeScope: { categoryIds: [], tags: [] },
+    fallbackRobotId: null,
+    handoffRules: { consecutiveNoAnswers: 3, keywords: ['转人工', '人工客服'], onNegativeFeedback: true },
+};
 
 const RobotManagement: React.FC = () => {
-    const { robots, addRobot, updateRobot, deleteRobot } = useKnowledgeBase();
+    const { robots, categories, knowledgePoints, addRobot, updateRobot, deleteRobot } = useKnowledgeBase();
     const { addToast } = useToast();
+    const { can } = useAuth();
 
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingRobot, setEditingRobot] = useState<Robot | null>(null);
-    const [robotForm, setRobotForm] = useState<Omit<Robot, 'id'>>({
-        name: '',
-        avatar: '',
-        welcomeMessage: '',
-        apiIdentifier: '',
-        silenceThresholdDays: 30,
-    });
+    const [robotForm, setRobotForm] = useState<RobotForm>(EMPTY_ROBOT_FORM);
+    const [tagsText, setTagsText] = useState('');
     const [isGuideModalOpen, setIsGuideModalOpen] = useState(false);
+    const [embedRobot, setEmbedRobot] = useState<Robot | null>(null);
+    const [widgetEndpoint, setWidgetEndpoint] = useState(() => localStorage.getItem(WIDGET_ENDPOINT_KEY) || 'https://your-api-server.com');
 
 
     const handleOpenModal = (robot: Robot | null = null) => {
         if (robot) {
             setEditingRobot(robot);
             setRobotForm(robot);
+            setTagsText(robot.knowledgeScope.tags.join(', '));
         } else {
             setEditingRobot(null);
-            setRobotForm({ name: '', avatar: '', welcomeMessage: '', apiIdentifier: '', silenceThresholdDays: 30 });
+            setRobotForm(EMPTY_ROBOT_FORM);
+            setTagsText('');
         }
         setIsModalOpen(true);
     };
@@ -38,7 +74,7 @@ const RobotManagement: React.FC = () => {
         setEditingRobot(null);
     };
 
-    const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
         setRobotForm(prev => ({
             ...prev,
@@ -46,22 +82,119 @@ const RobotManagement: React.FC = () => {
         }));
     };
 
+    const handleThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const { name, value } = e.target;
+        setRobotForm(prev => ({
+            ...prev,
+            answerThresholds: { ...prev.answerThresholds, [name]: parseFloat(value) || 0 },
+        }));
+    };
+
+    // One entry per line; blank lines are kept while typing and dropped on save.
+    const handleLinesChange = (field: 'fallbackMessages' | 'starterQuestions', value: string) => {
+        setRobotForm(prev => ({ ...prev, [field]: value.split('\n') }));
+    };
+
+    const handleHandoffRulesChange = (update: Partial<HandoffRules>) => {
+        setRobotForm(prev => ({ ...prev, handoffRules: { ...prev.handoffRules, ...update } }));
+    };
+
+    const handleScopeCategoryToggle = (categoryId: string) => {
+        setRobotForm(prev => {
+            const categoryIds = prev.knowledgeScope.categoryIds;
+            return {
+                ...prev,
+                knowledgeScope: {
+                    ...prev.knowledgeScope,
+                    categoryIds: categoryIds.includes(categoryId) ? categoryIds.filter(id => id !== categoryId) : [...categoryIds, categoryId],
+                },
+            };
+        });
+    };
+
+    // Published points each robot answers from itself, and those its fallback robots add.
+    const reachableCounts = useMemo(() => {
+        const published = getPublishedKnowledgePoints(knowledgePoints);
+        return new Map(robots.map(robot => {
+            const own = getRobotKnowledgePoints(robot, published, categories);
+            const reachable = new Set(getFallbackChain(robot, robots).flatMap(r => getRobotKnowledgePoints(r, published, categories).map(kp => kp.id)));
+            return [robot.id, { own: own.length, viaFallback: reachable.size - own.length }];
+        }));
+    }, [robots, knowledgePoints, categories]);
+
+    const tagSuggestions = useMemo(() => Array.from(new Set(knowledgePoints.flatMap(kp => kp.tags ?? []))).sort(), [knowledgePoints]);
+
+    const renderScopeCategories = (parentId: string | null = null, level = 0): React.ReactNode[] =>
+        categories
+            .filter(c => c.parentId === parentId)
+            .flatMap(c => [
+                <label key={c.id} className="flex items-center space-x-2 text-sm" style={{ paddingLeft: `${level * 1.25}rem` }}>
+                    <input type="checkbox" checked={robotForm.knowledgeScope.categoryIds.includes(c.id)} onChange={() => handleScopeCategoryToggle(c.id)} />
+                    <span>{c.name}</span>
+                </label>,
+                ...renderScopeCategories(c.id, level + 1),
+            ]);
+
     const handleSave = () => {
         if (!robotForm.name.trim() || !robotForm.apiIdentifier.trim()) {
             addToast('机器人名称和API标识符是必填项。', 'error');
             return;
         }
+        const { direct, clarify, margin } = robotForm.answerThresholds;
+        if ([direct, clarify, margin].some(v => v < 0 || v > 1) || clarify > direct) {
+            addToast('回答阈值必须在 0 到 1 之间，且澄清阈值不能高于直接回答阈值。', 'error');
+            return;
+        }
+        if (!Number.isInteger(robotForm.handoffRules.consecutiveNoAnswers) || robotForm.handoffRules.consecutiveNoAnswers < 0) {
+            addToast('连续未回答次数必须是不小于 0 的整数。', 'error');
+            return;
+        }
+        if (editingRobot && robotForm.fallbackRobotId && createsFallbackCycle(editingRobot.id, robotForm.fallbackRobotId, robots)) {
+            addToast('后备机器人不能最终又回退到当前机器人。', 'error');
+            return;
+        }
 
+        const robot = {
+            ...robotForm,
+            fallbackMessages: robotForm.fallbackMessages.map(m => m.trim()).filter(Boolean),
+            starterQuestions: robotForm.starterQuestions.map(q => q.trim()).filter(Boolean),
+            handoffRules: { ...robotForm.handoffRules, keywords: robotForm.handoffRules.keywords.map(k => k.trim()).filter(Boolean) },
+            knowledgeScope: { ...robotForm.knowledgeScope, tags: parseTags(tagsText) },
+        };
         if (editingRobot) {
-            updateRobot(editingRobot.id, robotForm);
+            updateRobot(editingRobot.id, robot);
             addToast('机器人更新成功！', 'success');
         } else {
-            addRobot(robotForm);
+            addRobot(robot);
             addToast('机器人创建成功！', 'success');
         }
         handleCloseModal();
     };
 
+    const handleExport = () => {
+        const dataToExport = { schemaVersion: DATA_VERSION, robots };
+        const blob = new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = 'robots_export.json';
+        a.click();
+        URL.revokeObjectURL(url);
+        addToast(`成功导出 ${robots.length} 个机器人的配置。`, 'success');
+    };
+
+    const handleWidgetEndpointChange = (value: string) => {
+        setWidgetEndpoint(value);
+        localStorage.setItem(WIDGET_ENDPOINT_KEY, value);
+    };
+
+    const embedSnippet = embedRobot ? buildEmbedSnippet(embedRobot, widgetEndpoint) : '';
+
+    const handleCopyEmbedSnippet = (snippet: string) => {
+        navigator.clipboard.writeText(snippet);
+        addToast('嵌入代码已复制到剪贴板。', 'success');
+    };
+
     const handleDelete = (id: string) => {
         if (window.confirm('您确定要删除这个机器人吗？')) {
             deleteRobot(id);
@@ -77,6 +210,7 @@ const RobotManagement: React.FC = () => {
                     <Button variant="secondary" onClick={() => setIsGuideModalOpen(true)}>
                         <InfoIcon className="w-5 h-5 mr-2" /> API 调用指引
                     </Button>
+                    <Button variant="secondary" onClick={handleExport} disabled={robots.length === 0}>导出配置</Button>
                     <Button onClick={() => handleOpenModal()}>
                         <PlusIcon className="w-5 h-5 mr-2" /> 新建机器人
                     </Button>
@@ -93,6 +227,7 @@ const RobotManagement: React.FC = () => {
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">头像</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">名称</th>
                             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">API 标识符</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">可回答知识点</th>
                             <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">操作</th>
                         </tr>
                     </thead>
@@ -110,9 +245,16 @@ const RobotManagement: React.FC = () => {
                                 </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{robot.name}</td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 font-mono">{robot.apiIdentifier}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                                    {reachableCounts.get(robot.id)?.own ?? 0} 个已发布
+                                    {(reachableCounts.get(robot.id)?.viaFallback ?? 0) > 0 && (
+                                        <span className="block text-xs">后备机器人另可回答 {reachableCounts.get(robot.id)!.viaFallback} 个</span>
+                                    )}
+                                </td>
                                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right space-x-2">
+                                    <Button variant="ghost" size="sm" onClick={() => setEmbedRobot(robot)} title="获取网页嵌入代码"><CodeIcon className="w-4 h-4" /></Button>
                                     <Button variant="ghost" size="sm" onClick={() => handleOpenModal(robot)}><EditIcon className="w-4 h-4" /></Button>
-                                    <Button variant="ghost" size="sm" onClick={() => handleDelete(robot.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>
+                                    {can('robot:delete') && <Button variant="ghost" size="sm" onClick={() => handleDelete(robot.id)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>}
                                 </td>
                             </tr>
                         ))}
@@ -139,12 +281,112 @@ const RobotManagement: React.FC = () => {
                      <div>
                         <label htmlFor="welcomeMessage" className="block text-sm font-medium">欢迎消息</label>
                         <textarea id="welcomeMessage" name="welcomeMessage" value={robotForm.welcomeMessage} onChange={handleFormChange} rows={3} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"></textarea>
+                    </div>
+                    <div>
+                        <label htmlFor="starterQuestions" className="block text-sm font-medium">开场推荐问题</label>
+                        <textarea id="starterQuestions" value={robotForm.starterQuestions.join('\n')} onChange={e => handleLinesChange('starterQuestions', e.target.value)} rows={3} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"></textarea>
+                        <p className="text-xs text-gray-500 mt-1">每行一个，显示在欢迎消息下方。留空则自动推荐知识范围内的前三个问题。</p>
+                    </div>
+                    <div>
+                        <label htmlFor="fallbackMessages" className="block text-sm font-medium">无答案回复</label>
+                        <textarea id="fallbackMessages" value={robotForm.fallbackMessages.join('\n')} onChange={e => handleLinesChange('fallbackMessages', e.target.value)} rows={3} placeholder={NO_ANSWER_TEXT} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"></textarea>
+                        <p className="text-xs text-gray-500 mt-1">每行一种说法，找不到答案时依次轮换使用。</p>
+                    </div>
+                    <div>
+                        <label htmlFor="goodbyeMessage" className="block text-sm font-medium">结束语</label>
+                        <input id="goodbyeMessage" name="goodbyeMessage" type="text" value={robotForm.goodbyeMessage} onChange={handleFormChange} placeholder={DEFAULT_GOODBYE_MESSAGE} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <div>
+                        <label htmlFor="handoffMessage" className="block text-sm font-medium">转人工提示</label>
+                        <input id="handoffMessage" name="handoffMessage" type="text" value={robotForm.handoffMessage} onChange={handleFormChange} placeholder={DEFAULT_HANDOFF_MESSAGE} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <p className="text-xs text-gray-500 mt-1">会话转给人工客服时发送给用户。</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">自动转人工</label>
+                        <div className="mt-1 space-y-2">
+                            <div>
+                                <label htmlFor="handoffKeywords" className="block text-xs text-gray-500">关键词 (每行一个，用户消息包含任一关键词时转人工)</label>
+                                <textarea id="handoffKeywords" value={robotForm.handoffRules.keywords.join('\n')} onChange={e => handleHandoffRulesChange({ keywords: e.target.value.split('\n') })} rows={2} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"></textarea>
+                            </div>
+                            <div>
+                                <label htmlFor="handoffNoAnswers" className="block text-xs text-gray-500">连续未回答次数 (0 表示不启用)</label>
+                                <input id="handoffNoAnswers" type="number" min={0} step={1} value={robotForm.handoffRules.consecutiveNoAnswers} onChange={e => handleHandoffRulesChange({ consecutiveNoAnswers: parseInt(e.target.value) || 0 })} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                            </div>
+                            <label className="flex items-center space-x-2 text-sm">
+                                <input type="checkbox" checked={robotForm.handoffRules.onNegativeFeedback} onChange={e => handleHandoffRulesChange({ onNegativeFeedback: e.target.checked })} />
+                                <span>用户对回答点“没有帮助”时转人工</span>
+                            </label>
+                        </div>
                     </div>
                      <div>
                         <label htmlFor="silenceThresholdDays" className="block text-sm font-medium">沉寂问题时间范围 (天)</label>
                         <input id="silenceThresholdDays" name="silenceThresholdDays" type="number" value={robotForm.silenceThresholdDays} onChange={handleFormChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
                         <p className="text-xs text-gray-500 mt-1">在“会话学习”中，用于确定一个知识点多久未被使用才算“沉寂”。</p>
                     </div>
+                    <div>
+                        <label htmlFor="answerMode" className="block text-sm font-medium">回答模式</label>
+                        <select id="answerMode" name="answerMode" value={robotForm.answerMode} onChange={handleFormChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="retrieval">检索回答 (直接返回匹配的知识点答案)</option>
+                            <option value="rag">生成式回答 (大模型基于检索到的知识点撰写答案)</option>
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">生成式回答使用“设置”中的大模型配置，答案会标注所引用的知识点编号；未检索到相关知识点时仍会拒答并记为未知问题。</p>
+                    </div>
+                    {robotForm.answerMode === 'rag' && (
+                        <div>
+                            <label htmlFor="systemPrompt" className="block text-sm font-medium">语气与人设</label>
+                            <textarea id="systemPrompt" name="systemPrompt" value={robotForm.systemPrompt} onChange={handleFormChange} rows={3} placeholder="例如：你是“小智”，说话亲切简洁，称呼用户为“您”。" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"></textarea>
+                            <p className="text-xs text-gray-500 mt-1">加在大模型指令的开头，只影响回答的语气；仍只能依据知识点回答并标注引用。</p>
+                        </div>
+                    )}
+                    <div>
+                        <label htmlFor="matcherType" className="block text-sm font-medium">检索方式</label>
+                        <select id="matcherType" name="matcherType" value={robotForm.matcherType} onChange={handleFormChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            <option value="bm25">关键词匹配 (BM25)</option>
+                            <option value="vector">语义向量匹配 (余弦相似度)</option>
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">语义向量使用“设置”中配置的向量模型；不同检索方式的得分分布不同，切换后请相应调整回答阈值。</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">回答阈值</label>
+                        <div className="grid grid-cols-3 gap-2 mt-1">
+                            {([
+                                ['direct', '直接回答 ≥'],
+                                ['clarify', '澄清反问 ≥'],
+                                ['margin', '相近分差 <'],
+                            ] as [keyof AnswerThresholds, string][]).map(([field, label]) => (
+                                <div key={field}>
+                                    <label htmlFor={`threshold-${field}`} className="block text-xs text-gray-500">{label}</label>
+                                    <input id={`threshold-${field}`} name={field} type="number" min={0} max={1} step={0.05} value={robotForm.answerThresholds[field]} onChange={handleThresholdChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">匹配得分 (0-1) 达到直接回答阈值时直接给出答案；介于两个阈值之间，或前几名得分相近时，机器人会反问“您是想问…”；低于澄清阈值则记为未知问题。</p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium">知识范围</label>
+                        <div className="mt-1 max-h-40 overflow-y-auto p-2 border rounded dark:border-gray-600 space-y-1">
+                            {categories.length > 0 ? renderScopeCategories() : <p className="text-sm text-gray-500">还没有分类。</p>}
+                        </div>
+                        <label htmlFor="scopeTags" className="block text-xs text-gray-500 mt-2">标签 (用逗号分隔)</label>
+                        <input id="scopeTags" type="text" list="scope-tag-suggestions" value={tagsText} onChange={e => setTagsText(e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <datalist id="scope-tag-suggestions">
+                            {tagSuggestions.map(tag => <option key={tag} value={tag} />)}
+                        </datalist>
+                        <p className="text-xs text-gray-500 mt-1">机器人只用所选分类 (含子分类) 或带有所填标签的知识点回答；都不选则可使用全部知识点。</p>
+                    </div>
+                    <div>
+                        <label htmlFor="fallbackRobotId" className="block text-sm font-medium">后备机器人</label>
+                        <select
+                            id="fallbackRobotId"
+                            value={robotForm.fallbackRobotId ?? ''}
+                            onChange={e => setRobotForm(prev => ({ ...prev, fallbackRobotId: e.target.value || null }))}
+                            className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"
+                        >
+                            <option value="">无</option>
+                            {robots.filter(r => r.id !== editingRobot?.id).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">本机器人在自己的知识范围内找不到答案时，改由后备机器人用它的知识范围回答。</p>
+                    </div>
                 </div>
                 <div className="mt-6 flex justify-end space-x-2">
                     <Button variant="secondary" onClick={handleCloseModal}>取消</Button>
@@ -152,6 +394,27 @@ const RobotManagement: React.FC = () => {
                 </div>
             </Modal>
             
+            <Modal
+                isOpen={!!embedRobot}
+                onClose={() => setEmbedRobot(null)}
+                title={`网页嵌入代码 - ${embedRobot?.name ?? ''}`}
+                size="lg"
+                footer={<div className="flex space-x-2">
+                    <Button variant="secondary" onClick={() => setEmbedRobot(null)}>关闭</Button>
+                    <Button onClick={() => handleCopyEmbedSnippet(embedSnippet)}><CopyIcon className="w-4 h-4 mr-2" /> 复制代码</Button>
+                </div>}
+            >
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="widgetEndpoint" className="block text-sm font-medium">聊天服务地址</label>
+                        <input id="widgetEndpoint" type="url" value={widgetEndpoint} onChange={e => handleWidgetEndpointChange(e.target.value)} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                        <p className="text-xs text-gray-500 mt-1">部署 <code>server</code> 目录中聊天服务的地址，聊天组件脚本也由该服务提供。</p>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">将以下代码粘贴到网页的 <code>&lt;/body&gt;</code> 标签之前，页面右下角将出现在线客服按钮：</p>
+                    <pre className="p-3 bg-gray-100 dark:bg-gray-900 rounded text-xs font-mono whitespace-pre-wrap break-all">{embedSnippet}</pre>
+                </div>
+            </Modal>
+
             <Modal 
                 isOpen={isGuideModalOpen} 
                 onClose={() => setIsGuideModalOpen(false)} 
@@ -162,14 +425,19 @@ const RobotManagement: React.FC = () => {
                 <div className="prose prose-sm dark:prose-invert max-w-none">
                     <h4>概述</h4>
                     <p>
-                        本指引将帮助您将知识库机器人集成到您自己的应用程序中。您需要创建一个后端服务，该服务读取从本系统导出的知识库数据，并提供一个HTTP API端点供您的客户端（如网站、移动应用）调用。
+                        本指引将帮助您将知识库机器人集成到您自己的应用程序中。项目的 <code>server</code> 目录提供了一个现成的后端服务，它读取从本系统导出的知识库数据，并提供一个HTTP API端点供您的客户端（如网站、移动应用）调用。
+                    </p>
+                    <p>
+                        请使用“知识库”页面的<strong>导出</strong>功能获取包含问题和分类的JSON文件，并使用本页的<strong>导出配置</strong>获取机器人配置；如需意图识别和槽位追问，还需在“意图管理”页面<strong>导出</strong>意图和实体。然后启动服务：
                     </p>
+                    <pre><code className="language-bash">{`cd server && npm install
+KB_FILES=knowledge_base_export.json,robots_export.json,intents_export.json npm start`}</code></pre>
                     <p>
-                        您可以使用“知识库”页面的<strong>导出</strong>功能来获取包含所有问题和分类的JSON文件，作为您后端服务的数据源。
+                        服务使用与本应用聊天界面相同的匹配逻辑和回答阈值，并将会话和未知问题记录到 <code>conversation_log.json</code>，可在“会话学习”页面导入。
                     </p>
                     
                     <h4>API 请求格式</h4>
-                    <p>您的后端服务应接收以下格式的HTTP POST请求：</p>
+                    <p>服务接收以下格式的HTTP POST请求：</p>
                     <ul>
                         <li><strong>Endpoint</strong>: <code>https://your-api-server.com/chat</code> (此为示例，请替换为您自己的URL)</li>
                         <li><strong>Method</strong>: <code>POST</code></li>
@@ -179,25 +447,31 @@ const RobotManagement: React.FC = () => {
                     <pre><code className="language-json">{JSON.stringify({
                         robotApiIdentifier: "用于识别机器人的唯一字符串",
                         userQuestion: "用户提出的问题",
-                        userId: "可选，用于追踪用户会话"
+                        userId: "可选，用于追踪用户会话",
+                        sessionId: "可选，传入上一次响应中的 sessionId 以继续同一会话"
                     }, null, 2)}</code></pre>
                     <p>
                         <code>robotApiIdentifier</code> 字段是必需的，它对应您在下方列表中设置的“API 标识符”，用于确定使用哪个机器人的身份和配置进行响应。
                     </p>
 
                     <h4>API 响应格式</h4>
-                    <p>您的服务在找到答案后，可以返回类似以下的JSON响应：</p>
+                    <p>找到答案时，服务返回类似以下的JSON响应：</p>
                     <pre><code className="language-json">{JSON.stringify({
+                        sessionId: "session-1700000000000-abcde",
+                        type: "answer",
                         answer: "从知识库中匹配到的答案HTML内容。",
+                        knowledgePointId: "kp-1",
                         relatedQuestions: [
                             { id: "kp-2", standardQuestion: "如何更新账单信息？" }
-                        ]
-                    }, null, 2)}</code></pre>
-                    <p>如果未找到答案，可以返回：</p>
-                     <pre><code className="language-json">{JSON.stringify({
-                        answer: "抱歉，我找不到您问题的答案。",
-                        relatedQuestions: []
+                        ],
+                        suggestions: [],
+                        clarificationOptions: []
                     }, null, 2)}</code></pre>
+                    <p>
+                        当匹配不够确定时，<code>type</code> 为 <code>clarify</code>，<code>suggestions</code> 中是候选问题，可让用户选择后再次提问；
+                        识别到带槽位的意图但缺少信息时，<code>type</code> 为 <code>prompt</code>，<code>answer</code> 是追问话术，<code>suggestions</code> 中是可选的值，请带上同一个 <code>sessionId</code> 继续对话；
+                        未找到答案时，<code>type</code> 为 <code>none</code>，<code>suggestions</code> 中是推荐的常见问题。
+                    </p>
 
                     <h4>代码示例</h4>
                     <h5>cURL</h5>
@@ -247,7 +521,7 @@ askRobot('退货政策是什么？');`}
                         </code>
                     </pre>
                      <p>
-                        <strong>重要提示</strong>: 您需要在后端服务中实现匹配逻辑（类似于本应用聊天界面中的<code>findBestMatch</code>函数），以根据<code>userQuestion</code>在导出的知识库数据中查找最合适的答案。
+                        <strong>重要提示</strong>: 服务只在启动时读取导出文件。更新知识库或机器人配置后，请重新导出并重启服务。检索增强（RAG）回答模式需要大模型配置，服务端始终使用检索模式回答。
                     </p>
                 </div>
             </Modal>
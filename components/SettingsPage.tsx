@@ -4,6 +4,7 @@ import { testApiConnection, getLlmConfig, setLlmConfig, chat } from '../services
 import { useToast } from '../contexts/ToastContext';
 import type { LlmConfig } from '../types';
 import { SendIcon } from './ui/Icons';
+import BackupRestore from './BackupRestore';
 
 type TestStatus = 'idle' | 'testing' | 'success' | 'error';
 type ChatMessage = { role: 'user' | 'assistant'; content: string };
@@ -113,7 +114,7 @@ const SettingsPage: React.FC = () => {
             <div className="w-full max-w-4xl space-y-8">
                 <div>
                     <h1 className="text-3xl font-bold mb-2">设置</h1>
-                    <p className="text-gray-600 dark:text-gray-400">配置AI服务连接参数并进行测试。</p>
+                    <p className="text-gray-600 dark:text-gray-400">配置AI服务连接参数并进行测试，备份和恢复知识库数据。</p>
                 </div>
 
                 {/* Configuration Section */}
@@ -141,6 +142,17 @@ const SettingsPage: React.FC = () => {
                             <input id="contextLength" name="contextLength" type="number" value={config.contextLength} onChange={handleConfigChange}
                                 className="mt-1 w-full input-field" />
                         </div>
+                        <div>
+                            <label htmlFor="embeddingModel" className="block text-sm font-medium">向量模型名称</label>
+                            <input id="embeddingModel" name="embeddingModel" type="text" value={config.embeddingModel} onChange={handleConfigChange}
+                                className="mt-1 w-full input-field" placeholder="例如: embedding-3, text-embedding-3-small" />
+                            <p className="mt-1 text-xs text-gray-500">留空则使用本地哈希向量，无需联网，用于语义搜索和向量匹配。</p>
+                        </div>
+                        <div>
+                            <label htmlFor="embeddingApiUrl" className="block text-sm font-medium">向量 API Endpoint</label>
+                            <input id="embeddingApiUrl" name="embeddingApiUrl" type="text" value={config.embeddingApiUrl} onChange={handleConfigChange}
+                                className="mt-1 w-full input-field" placeholder="留空则由上方 Endpoint 推导 (…/embeddings)" />
+                        </div>
                         <div className="flex items-center space-x-3">
                             <input id="streamMode" name="streamMode" type="checkbox" checked={config.streamMode} onChange={handleConfigChange}
                                 className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
@@ -221,6 +233,8 @@ const SettingsPage: React.FC = () => {
                         </div>
                     </div>
                 </div>
+
+                <BackupRestore onLlmConfigRestored={() => setConfig(getLlmConfig())} />
             </div>
              <style>{`.input-field { background-color: #f9fafb; border: 1px solid #d1d5db; border-radius: 0.375rem; padding: 0.5rem 0.75rem; font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; font-size: 0.875rem; } .dark .input-field { background-color: #374151; border-color: #4b5563; color: #d1d5db; } .input-field:focus { outline: 2px solid transparent; outline-offset: 2px; --tw-ring-color: #3b82f6; box-shadow: 0 0 0 2px var(--tw-ring-color); }`}</style>
         </div>
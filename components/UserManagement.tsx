@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Role, User } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { AuthError, ROLE_LABELS, ROLE_PERMISSIONS } from '../services/auth';
+import Button from './ui/Button';
+import Modal from './ui/Modal';
+import { PlusIcon, EditIcon, TrashIcon } from './ui/Icons';
+
+const ROLES: Role[] = ['admin', 'editor', 'reviewer', 'viewer'];
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+    admin: '拥有全部权限，包括机器人、设置和用户管理。',
+    editor: '编辑知识点、分类、实体和意图，处理冷启动和会话学习；知识点需提交审核后才能发布。',
+    reviewer: '审核并发布知识点，处理会话学习。',
+    viewer: '只能浏览知识库和使用聊天机器人。',
+};
+
+const emptyForm = { username: '', displayName: '', role: 'editor' as Role, password: '' };
+
+const UserManagement: React.FC = () => {
+    const { currentUser, userDirectory, refreshCurrentUser } = useAuth();
+    const { addToast } = useToast();
+    const [users, setUsers] = useState<User[]>([]);
+    const [isModalOpen, setIsModalOpen] = useState(false);
+    const [editingUser, setEditingUser] = useState<User | null>(null);
+    const [form, setForm] = useState(emptyForm);
+
+    const loadUsers = useCallback(() => {
+        userDirectory?.list()
+            .then(setUsers)
+            .catch(error => {
+                console.error("Failed to load users:", error);
+                addToast('加载用户列表失败。', 'error');
+            });
+    }, [userDirectory, addToast]);
+
+    useEffect(loadUsers, [loadUsers]);
+
+    if (!userDirectory) {
+        return (
+            <div className="p-6">
+                <h1 className="text-2xl font-bold mb-4">用户管理</h1>
+                <p className="text-gray-600 dark:text-gray-400">当前使用的认证服务不支持在本系统中管理用户，请在认证服务中管理。</p>
+            </div>
+        );
+    }
+
+    const handleOpenModal = (user: User | null = null) => {
+        setEditingUser(user);
+        setForm(user ? { username: user.username, displayName: user.displayName, role: user.role, password: '' } : emptyForm);
+        setIsModalOpen(true);
+    };
+
+    const handleFormChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        const { name, value } = e.target;
+        setForm(prev => ({ ...prev, [name]: value }));
+    };
+
+    const handleSave = async () => {
+        try {
+            if (editingUser) {
+                await userDirectory.update(editingUser.id, { displayName: form.displayName, role: form.role, password: form.password || undefined });
+                if (editingUser.id === currentUser.id) await refreshCurrentUser();
+                addToast('用户已更新。', 'success');
+            } else {
+                await userDirectory.create(form);
+                addToast('用户已创建。', 'success');
+            }
+            setIsModalOpen(false);
+            loadUsers();
+        } catch (error) {
+            console.error("Failed to save user:", error);
+            addToast(error instanceof AuthError ? error.message : '保存用户失败。', 'error');
+        }
+    };
+
+    const handleDelete = async (user: User) => {
+        if (user.id === currentUser.id) {
+            addToast('不能删除当前登录的用户。', 'error');
+            return;
+        }
+        if (!window.confirm(`您确定要删除用户 “${user.displayName}” 吗？`)) return;
+        try {
+            await userDirectory.remove(user.id);
+            addToast('用户已删除。', 'info');
+            loadUsers();
+        } catch (error) {
+            console.error("Failed to delete user:", error);
+            addToast(error instanceof AuthError ? error.message : '删除用户失败。', 'error');
+        }
+    };
+
+    return (
+        <div className="p-6 h-full flex flex-col">
+            <div className="flex justify-between items-center mb-4">
+                <h1 className="text-2xl font-bold">用户管理</h1>
+                <Button onClick={() => handleOpenModal()}>
+                    <PlusIcon className="w-5 h-5 mr-2" /> 新建用户
+                </Button>
+            </div>
+            <p className="mb-6 text-gray-600 dark:text-gray-400">
+                管理可以登录本系统的用户及其角色。角色决定用户可以看到的页面和可以执行的操作。
+            </p>
+
+            <div className="flex-grow overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-800">
+                        <tr>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">用户名</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">显示名称</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">角色</th>
+                            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">创建时间</th>
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
+                        {users.map(user => (
+                            <tr key={user.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono">{user.username}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{user.displayName}{user.id === currentUser.id && <span className="ml-2 text-xs text-gray-500">(当前用户)</span>}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{ROLE_LABELS[user.role]}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">{new Date(user.createdAt).toLocaleString()}</td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-right space-x-2">
+                                    <Button variant="ghost" size="sm" onClick={() => handleOpenModal(user)}><EditIcon className="w-4 h-4" /></Button>
+                                    <Button variant="ghost" size="sm" onClick={() => handleDelete(user)}><TrashIcon className="w-4 h-4 text-red-500" /></Button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingUser ? '编辑用户' : '新建用户'}>
+                <div className="space-y-4">
+                    <div>
+                        <label htmlFor="username" className="block text-sm font-medium">用户名</label>
+                        <input id="username" name="username" value={form.username} onChange={handleFormChange} disabled={!!editingUser} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600 disabled:opacity-50"/>
+                    </div>
+                    <div>
+                        <label htmlFor="displayName" className="block text-sm font-medium">显示名称</label>
+                        <input id="displayName" name="displayName" value={form.displayName} onChange={handleFormChange} placeholder="默认与用户名相同" className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                    <div>
+                        <label htmlFor="role" className="block text-sm font-medium">角色</label>
+                        <select id="role" name="role" value={form.role} onChange={handleFormChange} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600">
+                            {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[form.role]}（{ROLE_PERMISSIONS[form.role].length} 项权限）</p>
+                    </div>
+                    <div>
+                        <label htmlFor="password" className="block text-sm font-medium">{editingUser ? '新密码' : '密码'}</label>
+                        <input id="password" name="password" type="password" value={form.password} onChange={handleFormChange} autoComplete="new-password" placeholder={editingUser ? '留空则不修改' : ''} className="mt-1 w-full p-2 border rounded dark:bg-gray-700 dark:border-gray-600"/>
+                    </div>
+                </div>
+                <div className="mt-6 flex justify-end space-x-2">
+                    <Button variant="secondary" onClick={() => setIsModalOpen(false)}>取消</Button>
+                    <Button onClick={handleSave}>保存</Button>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+export default UserManagement;
@@ -0,0 +1,173 @@
+import React, { useState, useRef } from 'react';
+import { Entity, EntityAnnotation, IntentUtterance } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { EditIcon, TrashIcon, XIcon } from './ui/Icons';
+import Button from './ui/Button';
+import { annotateUtterance, findMisalignedAnnotations, realignAnnotations } from '../services/nlu';
+
+interface UtteranceAnnotatorProps {
+    utterance: IntentUtterance;
+    suggestions: EntityAnnotation[];
+    entities: Entity[]; // All entities that can be annotated, including the system entities
+    onChange: (utterance: IntentUtterance) => void;
+    onDelete: () => void;
+}
+
+// Converts a DOM position inside the text container to an offset in the utterance text.
+// Entity labels are rendered inside the container but are not part of the text, so they are skipped.
+const textOffset = (container: HTMLElement, node: Node, offset: number): number => {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    let position = 0;
+    for (let current = walker.nextNode(); current; current = walker.nextNode()) {
+        if (current.parentElement?.closest('[data-entity-label]')) continue;
+        if (current === node) return position + offset;
+        position += current.textContent?.length ?? 0;
+    }
+    // The position is on an element rather than a text node: count the text before it.
+    const before = document.createRange();
+    before.selectNodeContents(container);
+    before.setEnd(node, offset);
+    const fragment = before.cloneContents();
+    fragment.querySelectorAll('[data-entity-label]').forEach(label => label.remove());
+    return fragment.textContent?.length ?? 0;
+};
+
+const UtteranceAnnotator: React.FC<UtteranceAnnotatorProps> = ({ utterance, suggestions, entities, onChange, onDelete }) => {
+    const { addToast } = useToast();
+    const textRef = useRef<HTMLParagraphElement>(null);
+    const [selection, setSelection] = useState<{ start: number; end: number } | null>(null);
+    const [selectedEntityId, setSelectedEntityId] = useState(entities[0]?.id ?? '');
+    const [editText, setEditText] = useState<string | null>(null);
+
+    const misaligned = findMisalignedAnnotations(utterance);
+    const aligned = utterance.entities.filter(annotation => !misaligned.includes(annotation));
+    const entityName = (id: string) => entities.find(entity => entity.id === id)?.name ?? '（已删除的实体）';
+
+    const handleMouseUp = () => {
+        const container = textRef.current;
+        const domSelection = window.getSelection();
+        if (!container || !domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0) return;
+        const range = domSelection.getRangeAt(0);
+        if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return;
+
+        let start = textOffset(container, range.startContainer, range.startOffset);
+        let end = textOffset(container, range.endContainer, range.endOffset);
+        while (start < end && /\s/.test(utterance.text[start])) start++;
+        while (end > start && /\s/.test(utterance.text[end - 1])) end--;
+        if (start < end) setSelection({ start, end });
+    };
+
+    const handleAnnotate = () => {
+        if (!selection || !selectedEntityId) return;
+        const annotated = annotateUtterance({ ...utterance, entities: aligned }, selectedEntityId, selection.start, selection.end);
+        if (!annotated) {
+            addToast('所选文本与已有标注重叠，请先移除已有标注。', 'error');
+            return;
+        }
+        onChange({ ...annotated, entities: [...annotated.entities, ...misaligned] });
+        setSelection(null);
+        window.getSelection()?.removeAllRanges();
+    };
+
+    const handleRemove = (annotation: EntityAnnotation) => {
+        onChange({ ...utterance, entities: utterance.entities.filter(a => a !== annotation) });
+    };
+
+    const handleAccept = (suggestion: EntityAnnotation) => {
+        onChange({ ...utterance, entities: [...utterance.entities, suggestion].sort((a, b) => a.start - b.start) });
+    };
+
+    const handleCommitEdit = () => {
+        if (editText === null) return;
+        const text = editText.trim();
+        setEditText(null);
+        if (!text || text === utterance.text) return;
+        const { utterance: edited, dropped } = realignAnnotations(utterance, text);
+        onChange(edited);
+        if (dropped.length > 0) {
+            addToast(`修改后 ${dropped.length} 个实体标注与文本不再对应，已移除：${dropped.map(a => a.text).join('、')}`, 'info');
+        }
+    };
+
+    const spans = [
+        ...aligned.map(annotation => ({ annotation, suggested: false })),
+        ...suggestions.map(annotation => ({ annotation, suggested: true })),
+    ].sort((a, b) => a.annotation.start - b.annotation.start);
+
+    const renderText = () => {
+        const nodes: React.ReactNode[] = [];
+        let position = 0;
+        spans.forEach(({ annotation, suggested }, index) => {
+            nodes.push(utterance.text.slice(position, annotation.start));
+            const label = <sub data-entity-label className="ml-0.5 text-[10px] font-mono text-gray-600 dark:text-gray-300 select-none">{entityName(annotation.entityId)}</sub>;
+            nodes.push(suggested ? (
+                <mark key={index} onClick={() => handleAccept(annotation)} title="建议标注，点击采纳"
+                    className="bg-transparent dark:text-gray-100 border-b-2 border-dashed border-blue-400 cursor-pointer">
+                    {annotation.text}{label}
+                </mark>
+            ) : (
+                <mark key={index} title={entityName(annotation.entityId)} className="bg-blue-100 dark:bg-blue-800 dark:text-white rounded px-0.5">
+                    {annotation.text}{label}
+                </mark>
+            ));
+            position = annotation.end;
+        });
+        nodes.push(utterance.text.slice(position));
+        return nodes;
+    };
+
+    return (
+        <div className="bg-gray-100 dark:bg-gray-700/50 p-3 rounded-md">
+            <div className="flex items-center justify-between">
+                {editText !== null ? (
+                    <input type="text" value={editText} autoFocus onChange={e => setEditText(e.target.value)} onBlur={handleCommitEdit}
+                        onKeyDown={e => { if (e.key === 'Enter') handleCommitEdit(); if (e.key === 'Escape') setEditText(null); }}
+                        className="flex-grow mr-2 p-1 border rounded-md text-sm dark:bg-gray-700 dark:border-gray-600" />
+                ) : (
+                    <p ref={textRef} onMouseUp={handleMouseUp} className="text-sm leading-7">{renderText()}</p>
+                )}
+                <div className="flex items-center flex-shrink-0">
+                    <button onClick={() => setEditText(utterance.text)} title="编辑语料" className="p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-full">
+                        <EditIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={onDelete} title="删除语料" className="p-1 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full">
+                        <TrashIcon className="w-4 h-4 text-red-500" />
+                    </button>
+                </div>
+            </div>
+
+            {selection && editText === null && (
+                <div className="flex items-center space-x-2 mt-2 text-sm">
+                    <span>将 “{utterance.text.slice(selection.start, selection.end)}” 标注为</span>
+                    <select value={selectedEntityId} onChange={e => setSelectedEntityId(e.target.value)}
+                        className="p-1 border rounded-md dark:bg-gray-700 dark:border-gray-600">
+                        {entities.map(entity => <option key={entity.id} value={entity.id}>{entity.name}</option>)}
+                    </select>
+                    <Button size="sm" onClick={handleAnnotate} disabled={!selectedEntityId}>标注</Button>
+                    <Button size="sm" variant="ghost" onClick={() => setSelection(null)}>取消</Button>
+                </div>
+            )}
+
+            {utterance.entities.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                    {utterance.entities.map((annotation, index) => {
+                        const broken = misaligned.includes(annotation);
+                        return (
+                            <span key={index} title={broken ? '标注位置与语料文本不一致，请移除后重新标注' : undefined}
+                                className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full ${broken
+                                    ? 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200'
+                                    : 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-200'}`}>
+                                {annotation.text} · {entityName(annotation.entityId)}{broken && '（不一致）'}
+                                <button onClick={() => handleRemove(annotation)} className="ml-1 hover:text-red-600">
+                                    <XIcon className="w-3 h-3" />
+                                </button>
+                            </span>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UtteranceAnnotator;
@@ -0,0 +1,90 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { User } from '../types';
+import { getAuthProvider, hasPermission, Permission, UserDirectory } from '../services/auth';
+import LoginScreen from '../components/LoginScreen';
+
+interface AuthContextType {
+    currentUser: User;
+    can: (permission: Permission) => boolean;
+    logout: () => void;
+    refreshCurrentUser: () => Promise<void>;
+    userDirectory: UserDirectory | undefined;
+}
+
+// Only the user ID is remembered; the user itself is re-read so role changes apply on reload.
+const SESSION_KEY = 'auth_user_id';
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthContextProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [isRestoring, setIsRestoring] = useState(true);
+    const provider = getAuthProvider();
+
+    useEffect(() => {
+        const userId = localStorage.getItem(SESSION_KEY);
+        if (!userId) {
+            setIsRestoring(false);
+            return;
+        }
+        provider.getUser(userId)
+            .then(user => {
+                if (user) setCurrentUser(user); else localStorage.removeItem(SESSION_KEY);
+            })
+            .catch(error => console.error("Failed to restore login:", error))
+            .finally(() => setIsRestoring(false));
+    }, []);
+
+    const handleLogin = useCallback((user: User) => {
+        localStorage.setItem(SESSION_KEY, user.id);
+        setCurrentUser(user);
+    }, []);
+
+    const logout = useCallback(() => {
+        localStorage.removeItem(SESSION_KEY);
+        setCurrentUser(null);
+    }, []);
+
+    // Called after the current user edits their own account.
+    const refreshCurrentUser = useCallback(async () => {
+        if (!currentUser) return;
+        const user = await provider.getUser(currentUser.id);
+        if (user) setCurrentUser(user); else logout();
+    }, [currentUser, provider, logout]);
+
+    const can = useCallback((permission: Permission) => hasPermission(currentUser, permission), [currentUser]);
+
+    const value = useMemo(() => currentUser && ({
+        currentUser,
+        can,
+        logout,
+        refreshCurrentUser,
+        userDirectory: provider.users,
+    }), [currentUser, can, logout, refreshCurrentUser, provider]);
+
+    if (isRestoring) {
+        return (
+            <div className="flex h-screen items-center justify-center text-gray-500 dark:text-gray-400">
+                正在验证登录状态...
+            </div>
+        );
+    }
+
+    if (!value) {
+        return <LoginScreen provider={provider} onLogin={handleLogin} />;
+    }
+
+    return (
+        <AuthContext.Provider value={value}>
+            {children}
+        </AuthContext.Provider>
+    );
+};
+
+export const useAuth = (): AuthContextType => {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within an AuthContextProvider');
+    }
+    return context;
+};
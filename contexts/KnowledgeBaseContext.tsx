@@ -1,8 +1,41 @@
-import React, { createContext, useContext, ReactNode, useCallback, useMemo } from 'react';
-import useLocalStorage from '../hooks/useLocalStorage';
-import { Category, KnowledgePoint, ColdStartItem, ChatSession, UnansweredQuestion, Robot, Entity, Intent, EntityMember } from '../types';
-
+import React, { createContext, useContext, ReactNode, useCallback, useMemo, useEffect, useState } from 'react';
+import usePersistentCollection from '../hooks/usePersistentCollection';
+import { DEFAULT_ANSWER_THRESHOLDS, syncVectorIndex } from '../services/matcher';
+import { CollectionName, StoredRecord, StorageQuotaError } from '../services/storage';
+import { useStorage } from './StorageContext';
+import { useToast } from './ToastContext';
+import { useAuth } from './AuthContext';
+import { Permission } from '../services/auth';
+import { classifyChange, createBaselineRevision, createRevision, getRevisionsFor, snapshotsEqual, takeContent, takeSnapshot, RevisionAuthor, SCHEDULER_AUTHOR } from '../services/revisions';
+import { getNextScheduleChange, isExpired, MAX_TIMER_DELAY_MS } from '../services/schedule';
+import type { BackupCollections } from '../services/backup';
+import { DEFAULT_ORGANIZATION, copyToOrganization as buildOrganizationCopy } from '../services/organizations';
+import { getMessageBus, isHandoffOpen } from '../services/handoff';
+import { plainTextToHtml } from '../services/html';
+import { createNluEngine } from '../services/nlu';
+import { Category, KnowledgePoint, KnowledgePointContent, KnowledgePointRevision, PendingRevision, RevisionAction, ColdStartItem, ChatMessage, ChatSession, HandoffState, UnansweredQuestion, Robot, Entity, Intent, EntityMember, Organization, Unscoped } from '../types';
+
+// A knowledge point to import. Points from another knowledge base keep their id and authorship
+// so that references between them survive; new ones get both when they are saved.
+type ImportedKnowledgePoint = Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy' | 'organizationId'> & Partial<Pick<KnowledgePoint, 'id' | 'createdAt' | 'createdBy'>>;
+
+const ACTIVE_ORGANIZATION_KEY = 'active_organization_id';
+
+// The fields outside the reviewed content that still decide when and by which robots a point answers.
+const schedulesEqual = (a: KnowledgePoint, b: KnowledgePoint): boolean =>
+    a.effectiveFrom === b.effectiveFrom && a.expireAt === b.expireAt && (a.tags ?? []).join('\n') === (b.tags ?? []).join('\n');
+
+// Categories, knowledge points, robots, NLU data, sessions and unanswered questions are those
+// of the active organization. New records are added to it.
 interface KnowledgeBaseContextType {
+    organizations: Organization[];
+    activeOrganizationId: string;
+    setActiveOrganizationId: (id: string) => void;
+    addOrganization: (name: string) => Organization | undefined;
+    renameOrganization: (id: string, name: string) => void;
+    deleteOrganization: (id: string) => void;
+    copyToOrganization: (targetOrganizationId: string, knowledgePointIds: string[], intentIds: string[]) => { knowledgePoints: number; intents: number };
+    allCollections: BackupCollections; // Every organization, e.g. for backups
     categories: Category[];
     knowledgePoints: KnowledgePoint[];
     coldStartItems: ColdStartItem[];
@@ -11,45 +44,61 @@ interface KnowledgeBaseContextType {
     robots: Robot[];
     entities: Entity[];
     intents: Intent[];
+    knowledgePointRevisions: KnowledgePointRevision[];
     addCategory: (name: string, parentId?: string | null) => void;
     updateCategory: (id: string, name: string) => void;
     deleteCategory: (id: string) => void;
-    addKnowledgePoint: (kp: Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy'>) => void;
+    addKnowledgePoint: (kp: Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy' | 'organizationId'>, submitForReview?: boolean) => void;
     updateKnowledgePoint: (id:string, kp: Partial<KnowledgePoint>) => void;
+    submitForReview: (id: string, content: KnowledgePointContent, schedule?: Pick<KnowledgePoint, 'effectiveFrom' | 'expireAt' | 'tags'>) => void;
+    approveReview: (id: string, comment?: string) => void;
+    rejectReview: (id: string, comment: string) => void;
+    withdrawReview: (id: string) => void;
     deleteKnowledgePoint: (id: string) => void;
     transferKnowledgePoints: (kpIds: string[], targetCategoryId: string) => void;
-    setKnowledgePoints: React.Dispatch<React.SetStateAction<KnowledgePoint[]>>;
-    setCategories: React.Dispatch<React.SetStateAction<Category[]>>;
+    importKnowledgePoints: (
+        importedCategories: Unscoped<Category>[],
+        created: ImportedKnowledgePoint[],
+        updated: { id: string; update: Partial<KnowledgePoint> }[]
+    ) => { created: number; updated: number; submitted: number; scheduleKept: number };
+    getKnowledgePointRevisions: (kpId: string) => KnowledgePointRevision[];
+    restoreKnowledgePointRevision: (revisionId: string) => KnowledgePoint | undefined;
     addColdStartItems: (items: Omit<ColdStartItem, 'id'>[]) => void;
     deleteColdStartItem: (id: string) => void;
     getKnowledgePointById: (id: string) => KnowledgePoint | undefined;
     addChatSession: (session: ChatSession) => void;
     updateChatSession: (session: ChatSession) => void;
     getChatSessionById: (sessionId: string) => ChatSession | undefined;
+    takeOverSession: (sessionId: string) => void;
+    replyAsAgent: (sessionId: string, text: string) => void;
+    closeHandoff: (sessionId: string) => void;
     addUnansweredQuestion: (question: Omit<UnansweredQuestion, 'id'>) => void;
     deleteUnansweredQuestions: (ids: string[]) => void;
-    addRobot: (robot: Omit<Robot, 'id'>) => void;
+    importConversations: (sessions: ChatSession[], questions: UnansweredQuestion[]) => { sessions: number; questions: number };
+    addRobot: (robot: Omit<Robot, 'id' | 'organizationId'>) => void;
     updateRobot: (id: string, robotUpdate: Partial<Robot>) => void;
     deleteRobot: (id: string) => void;
-    addEntity: (entity: Omit<Entity, 'id'>) => void;
+    addEntity: (entity: Omit<Entity, 'id' | 'organizationId'>) => void;
     updateEntity: (id: string, entityUpdate: Partial<Entity>) => void;
     deleteEntity: (id: string) => void;
-    addIntent: (intent: Omit<Intent, 'id'>) => void;
+    addIntent: (intent: Omit<Intent, 'id' | 'organizationId'>) => void;
     updateIntent: (id: string, intentUpdate: Partial<Intent>) => void;
     deleteIntent: (id: string) => void;
+    importNluData: (entities: Unscoped<Entity>[], intents: Unscoped<Intent>[]) => void;
+    restoreCollections: (collections: Partial<BackupCollections>) => void;
 }
 
 const KnowledgeBaseContext = createContext<KnowledgeBaseContextType | undefined>(undefined);
 
 const demoCategories: Category[] = [
-    { id: 'cat-1', name: '通用', parentId: null },
-    { id: 'cat-2', name: '账单', parentId: null },
-    { id: 'cat-3', name: '技术支持', parentId: null },
-    { id: 'cat-4', name: '订阅', parentId: 'cat-2' },
+    { id: 'cat-1', name: '通用', parentId: null, organizationId: DEFAULT_ORGANIZATION.id },
+    { id: 'cat-2', name: '账单', parentId: null, organizationId: DEFAULT_ORGANIZATION.id },
+    { id: 'cat-3', name: '技术支持', parentId: null, organizationId: DEFAULT_ORGANIZATION.id },
+    { id: 'cat-4', name: '订阅', parentId: 'cat-2', organizationId: DEFAULT_ORGANIZATION.id },
 ];
 const demoKPs: KnowledgePoint[] = [
-    { id: 'kp-1', categoryId: 'cat-1', standardQuestion: '退货政策是什么？', similarQuestions: ['我如何退货？'], answer: '<div>我们的退货政策允许在购买后<strong>30天</strong>内退货。</div>', relatedQuestionIds: ['kp-2'], createdAt: new Date().toISOString(), status: 'published', createdBy: '系统管理员' },
-    { id: 'kp-2', categoryId: 'cat-2', standardQuestion: '如何更新账单信息？', similarQuestions: ['更改支付方式'], answer: '<div>您可以在<strong style="color: rgb(59, 130, 246);">账户设置</strong>页面更新您的账单信息。</div>', relatedQuestionIds: [], createdAt: new Date().toISOString(), status: 'draft', createdBy: '张三' },
+    { id: 'kp-1', categoryId: 'cat-1', standardQuestion: '退货政策是什么？', similarQuestions: ['我如何退货？'], answer: '<div>我们的退货政策允许在购买后<strong>30天</strong>内退货。</div>', relatedQuestionIds: ['kp-2'], createdAt: new Date().toISOString(), status: 'published', createdBy: '系统管理员', organizationId: DEFAULT_ORGANIZATION.id },
+    { id: 'kp-2', categoryId: 'cat-2', standardQuestion: '如何更新账单信息？', similarQuestions: ['更改支付方式'], answer: '<div>您可以在<strong style="color: rgb(59, 130, 246);">账户设置</strong>页面更新您的账单信息。</div>', relatedQuestionIds: [], createdAt: new Date().toISOString(), status: 'draft', createdBy: '张三', organizationId: DEFAULT_ORGANIZATION.id },
 ];
 const demoRobots: Robot[] = [
     {
@@ -57,32 +106,176 @@ const demoRobots: Robot[] = [
         name: '默认客服助手',
         avatar: 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0iY3VycmVudENvbG9yIiB3aWR0aD0iNDgiIGhlaWdodD0iNDgiPjxwYXRoIGQ9Ik0xMiAyQzYuNDg2IDIgMiA2LjQ4NiAyIDEyczQuNDg2IDEwIDEwIDEwIDEwLTQuNDg2IDEwLTEwUzE3LjUxNCAyIDEyIDJ6bTAgMThjLTQuNDE0IDAtOC0zLjU4Ni04LThzMy41ODYtOCA4LTggOCAzLjU4NiA4IDhTMTYuNDE0IDIwIDEyIDIwem0tMy01aDJ2LTJoLTJ2MnptNCAwaDJ2LTJoLTJ2MnptLTYtNEM4LjM5MyA5IDcgMTAuMjk4IDcgMTJzMS4zOTMgMyA0IDNoMnYtMkg5di0yaDR2M2MxLjYwNyAwIDMtMS4yOTggMy0zcy0xLjM5My0zLTMtM2gtNnYyaDJ6Ii8+PC9zdmc+',
         welcomeMessage: '您好！我是您的智能客服助手。我可以回答您关于我们产品和服务的问题。',
+        goodbyeMessage: '',
+        handoffMessage: '',
+        fallbackMessages: [],
+        starterQuestions: [],
+        systemPrompt: '',
         apiIdentifier: 'default-assistant-001',
-        silenceThresholdDays: 30
+        silenceThresholdDays: 30,
+        answerThresholds: DEFAULT_ANSWER_THRESHOLDS,
+        answerMode: 'retrieval',
+        matcherType: 'bm25',
+        knowledgeScope: { categoryIds: [], tags: [] },
+        fallbackRobotId: null,
+        handoffRules: { consecutiveNoAnswers: 3, keywords: ['转人工', '人工客服'], onNegativeFeedback: true },
+        organizationId: DEFAULT_ORGANIZATION.id,
     }
 ];
 
-export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [categories, setCategories] = useLocalStorage<Category[]>('kb_categories', demoCategories);
-    const [knowledgePoints, setKnowledgePoints] = useLocalStorage<KnowledgePoint[]>('kb_knowledge_points', demoKPs);
-    const [coldStartItems, setColdStartItems] = useLocalStorage<ColdStartItem[]>('kb_cold_start_items', []);
-    const [chatSessions, setChatSessions] = useLocalStorage<ChatSession[]>('kb_chat_sessions', []);
-    const [unansweredQuestions, setUnansweredQuestions] = useLocalStorage<UnansweredQuestion[]>('kb_unanswered_questions', []);
-    const [robots, setRobots] = useLocalStorage<Robot[]>('kb_robots', demoRobots);
-    const [entities, setEntities] = useLocalStorage<Entity[]>('kb_entities', []);
-    const [intents, setIntents] = useLocalStorage<Intent[]>('kb_intents', []);
+// Demo data for collections that have never been stored, passed to StorageProvider.
+export const DEFAULT_COLLECTIONS: Partial<Record<CollectionName, StoredRecord[]>> = {
+    organizations: [DEFAULT_ORGANIZATION],
+    categories: demoCategories,
+    knowledgePoints: demoKPs,
+    robots: demoRobots,
+};
 
+export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+    const { addToast } = useToast();
+    const { currentUser, can } = useAuth();
+    const storage = useStorage();
+
+    const handleStorageError = useCallback((error: unknown, operation: 'load' | 'save' = 'save') => {
+        console.error("Storage error:", error);
+        if (operation === 'load') {
+            addToast(`读取数据失败：${error instanceof Error ? error.message : '未知错误'}。部分数据无法显示，对这部分数据的修改将不会被保存。`, 'error');
+        } else if (error instanceof StorageQuotaError) {
+            addToast(error.message, 'error');
+        } else {
+            addToast(`保存数据失败：${error instanceof Error ? error.message : '未知错误'}`, 'error');
+        }
+    }, [addToast]);
+
+    const [categories, setCategories, categoriesLoaded] = usePersistentCollection<Category>(storage, 'categories', handleStorageError);
+    const [knowledgePoints, setKnowledgePoints, knowledgePointsLoaded] = usePersistentCollection<KnowledgePoint>(storage, 'knowledgePoints', handleStorageError);
+    const [coldStartItems, setColdStartItems, coldStartItemsLoaded] = usePersistentCollection<ColdStartItem>(storage, 'coldStartItems', handleStorageError);
+    const [chatSessions, setChatSessions, chatSessionsLoaded] = usePersistentCollection<ChatSession>(storage, 'chatSessions', handleStorageError);
+    const [unansweredQuestions, setUnansweredQuestions, unansweredQuestionsLoaded] = usePersistentCollection<UnansweredQuestion>(storage, 'unansweredQuestions', handleStorageError);
+    const [robots, setRobots, robotsLoaded] = usePersistentCollection<Robot>(storage, 'robots', handleStorageError);
+    const [entities, setEntities, entitiesLoaded] = usePersistentCollection<Entity>(storage, 'entities', handleStorageError);
+    const [intents, setIntents, intentsLoaded] = usePersistentCollection<Intent>(storage, 'intents', handleStorageError);
+    const [knowledgePointRevisions, setKnowledgePointRevisions, revisionsLoaded] = usePersistentCollection<KnowledgePointRevision>(storage, 'knowledgePointRevisions', handleStorageError);
+    const [organizations, setOrganizations, organizationsLoaded] = usePersistentCollection<Organization>(storage, 'organizations', handleStorageError);
+    const isLoaded = categoriesLoaded && knowledgePointsLoaded && coldStartItemsLoaded && chatSessionsLoaded
+        && unansweredQuestionsLoaded && robotsLoaded && entitiesLoaded && intentsLoaded && revisionsLoaded && organizationsLoaded;
+
+    // Databases from before organizations existed, and backups without them, have none; their
+    // records were migrated to the default organization.
+    useEffect(() => {
+        if (organizationsLoaded && organizations.length === 0) setOrganizations([DEFAULT_ORGANIZATION]);
+    }, [organizationsLoaded, organizations, setOrganizations]);
+
+    const [storedOrganizationId, setStoredOrganizationId] = useState(() => localStorage.getItem(ACTIVE_ORGANIZATION_KEY));
+    const activeOrganizationId = organizations.some(o => o.id === storedOrganizationId)
+        ? storedOrganizationId as string
+        : organizations[0]?.id ?? DEFAULT_ORGANIZATION.id;
+
+    const setActiveOrganizationId = useCallback((id: string) => {
+        localStorage.setItem(ACTIVE_ORGANIZATION_KEY, id);
+        setStoredOrganizationId(id);
+    }, []);
+
+    const scoped = useMemo(() => {
+        const inOrganization = <T extends { organizationId: string | null }>(records: T[]) => records.filter(r => r.organizationId === activeOrganizationId);
+        return {
+            categories: inOrganization(categories),
+            knowledgePoints: inOrganization(knowledgePoints),
+            chatSessions: inOrganization(chatSessions),
+            unansweredQuestions: inOrganization(unansweredQuestions),
+            robots: inOrganization(robots),
+            entities: inOrganization(entities),
+            intents: inOrganization(intents),
+        };
+    }, [activeOrganizationId, categories, knowledgePoints, chatSessions, unansweredQuestions, robots, entities, intents]);
+
+    // Keep question embeddings current after every knowledge point mutation or synonym edit.
+    // Only new or edited questions are embedded; vectors of removed questions are dropped.
+    useEffect(() => {
+        if (!isLoaded) return;
+        const normalizers = new Map<string, (text: string) => string>();
+        const getNormalizer = ({ organizationId }: KnowledgePoint) => {
+            let normalize = normalizers.get(organizationId);
+            if (!normalize) {
+                normalize = createNluEngine([], entities.filter(e => e.organizationId === organizationId)).normalizeSynonyms;
+                normalizers.set(organizationId, normalize);
+            }
+            return normalize;
+        };
+        syncVectorIndex(knowledgePoints, getNormalizer).catch(error => console.error("Failed to update vector index:", error));
+    }, [isLoaded, knowledgePoints, entities]);
+
+    // Components hide controls the user cannot use; this is the check that actually enforces it.
+    const requirePermission = useCallback((permission: Permission): boolean => {
+        if (can(permission)) return true;
+        addToast('您没有权限执行此操作。', 'error');
+        return false;
+    }, [can, addToast]);
+
+    // Revisions are append-only. A point with no history yet (created before history existed, or
+    // imported) gets a baseline of its previous state first, so the change itself can be diffed.
+    const recordRevisions = useCallback((changes: { before?: KnowledgePoint; after: KnowledgePoint; action: RevisionAction; details?: Pick<KnowledgePointRevision, 'restoredFromId' | 'comment'> }[], author: RevisionAuthor = currentUser) => {
+        if (changes.length === 0) return;
+        const tracked = new Set(knowledgePointRevisions.map(rev => rev.knowledgePointId));
+        const newRevisions = changes.flatMap(({ before, after, action, details }) => [
+            ...(before && !tracked.has(before.id) ? [createBaselineRevision(before)] : []),
+            createRevision(after, action, author, details),
+        ]);
+        setKnowledgePointRevisions(prev => [...prev, ...newRevisions]);
+    }, [knowledgePointRevisions, setKnowledgePointRevisions, currentUser]);
+
+    const recordChange = useCallback((before: KnowledgePoint, after: KnowledgePoint) => {
+        const beforeSnapshot = takeSnapshot(before);
+        const afterSnapshot = takeSnapshot(after);
+        if (!snapshotsEqual(beforeSnapshot, afterSnapshot)) {
+            recordRevisions([{ before, after, action: classifyChange(beforeSnapshot, afterSnapshot) }]);
+        }
+    }, [recordRevisions]);
+
+    const buildPendingRevision = useCallback((content: KnowledgePointContent): PendingRevision => ({
+        content: takeContent(content),
+        state: 'pending',
+        submittedById: currentUser.id,
+        submittedBy: currentUser.displayName,
+        submittedAt: new Date().toISOString(),
+    }), [currentUser]);
+
+    // The live content of a published point only changes through review, unless the user may publish.
+    const needsReview = useCallback((kp: KnowledgePoint) => kp.status === 'published' && !can('knowledge:publish'), [can]);
+
+    // Archives published points once they expire. The timer is re-armed for the next scheduled
+    // change whenever the points change. Chat answers check the dates themselves, so they are
+    // right even while the app (and this timer) is not running.
+    const [scheduleTick, setScheduleTick] = useState(0);
+    useEffect(() => {
+        if (!isLoaded) return;
+        const now = Date.now();
+        const expired = knowledgePoints.filter(kp => kp.status === 'published' && isExpired(kp, now));
+        if (expired.length > 0) {
+            const expiredIds = new Set(expired.map(kp => kp.id));
+            setKnowledgePoints(prev => prev.map(kp => expiredIds.has(kp.id) ? { ...kp, status: 'archived' } : kp));
+            recordRevisions(expired.map(kp => ({ before: kp, after: { ...kp, status: 'archived' }, action: 'status' as const })), SCHEDULER_AUTHOR);
+            return;
+        }
+        const next = getNextScheduleChange(knowledgePoints, now);
+        if (next === null) return;
+        const timer = setTimeout(() => setScheduleTick(tick => tick + 1), Math.min(next - now, MAX_TIMER_DELAY_MS));
+        return () => clearTimeout(timer);
+    }, [isLoaded, knowledgePoints, scheduleTick, setKnowledgePoints, recordRevisions]);
 
     const addCategory = useCallback((name: string, parentId: string | null = null) => {
-        const newCategory: Category = { id: `cat-${Date.now()}`, name, parentId };
+        if (!requirePermission('category:edit')) return;
+        const newCategory: Category = { id: `cat-${Date.now()}`, name, parentId, organizationId: activeOrganizationId };
         setCategories(prev => [...prev, newCategory]);
-    }, [setCategories]);
+    }, [setCategories, requirePermission, activeOrganizationId]);
 
     const updateCategory = useCallback((id: string, name: string) => {
+        if (!requirePermission('category:edit')) return;
         setCategories(prev => prev.map(c => c.id === id ? { ...c, name } : c));
-    }, [setCategories]);
+    }, [setCategories, requirePermission]);
 
     const deleteCategory = useCallback((id: string) => {
+        if (!requirePermission('category:delete')) return;
         const catsToDelete = new Set<string>([id]);
         const getSubCats = (parentId: string, allCategories: Category[]) => {
             allCategories.forEach(c => {
@@ -99,43 +292,247 @@ export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ child
             return currentCats.filter(c => !catsToDelete.has(c.id));
         });
         setKnowledgePoints(prev => prev.filter(kp => !catsToDelete.has(kp.categoryId)));
-    }, [setCategories, setKnowledgePoints]);
-
-    const addKnowledgePoint = useCallback((kp: Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy'>) => {
+        setRobots(prev => prev.map(r => (r.knowledgeScope.categoryIds.some(c => catsToDelete.has(c))
+            ? { ...r, knowledgeScope: { ...r.knowledgeScope, categoryIds: r.knowledgeScope.categoryIds.filter(c => !catsToDelete.has(c)) } }
+            : r)));
+    }, [setCategories, setKnowledgePoints, setRobots, requirePermission]);
+
+    const addKnowledgePoint = useCallback((kp: Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy' | 'organizationId'>, submitForReview = false) => {
+        if (!requirePermission('knowledge:edit')) return;
+        if (kp.status === 'published' && !requirePermission('knowledge:publish')) return;
         const newKp: KnowledgePoint = {
             id: `kp-${Date.now()}`,
             createdAt: new Date().toISOString(),
-            createdBy: '当前用户', // Mock user for now
+            createdBy: currentUser.displayName,
             ...kp,
+            ...(submitForReview ? { pendingRevision: buildPendingRevision(kp) } : {}),
+            organizationId: activeOrganizationId,
         };
         setKnowledgePoints(prev => [...prev, newKp]);
-    }, [setKnowledgePoints]);
+        recordRevisions([{ after: newKp, action: 'create' }]);
+    }, [setKnowledgePoints, currentUser, requirePermission, recordRevisions, buildPendingRevision, activeOrganizationId]);
 
     const updateKnowledgePoint = useCallback((id: string, kpUpdate: Partial<KnowledgePoint>) => {
-        setKnowledgePoints(prev => prev.map(kp => kp.id === id ? { ...kp, ...kpUpdate } : kp));
-    }, [setKnowledgePoints]);
+        if (!requirePermission('knowledge:edit')) return;
+        // Both publishing and taking a published point offline are reviewer decisions.
+        const existing = knowledgePoints.find(kp => kp.id === id);
+        const changesPublication = kpUpdate.status !== undefined && kpUpdate.status !== existing?.status
+            && (kpUpdate.status === 'published' || existing?.status === 'published');
+        // Rescheduling or retagging a live point decides when and by which robots customers are
+        // answered with it, so it is a reviewer decision too.
+        const changesSchedule = existing?.status === 'published' && !schedulesEqual(existing, { ...existing, ...kpUpdate });
+        if ((changesPublication || changesSchedule) && !requirePermission('knowledge:publish')) return;
+        if (!existing) return;
+        const updated = { ...existing, ...kpUpdate };
+        const contentChanged = !snapshotsEqual({ ...takeSnapshot(existing), status: updated.status }, takeSnapshot(updated));
+        if (contentChanged && needsReview(existing)) {
+            // Build on an earlier proposal, if any, so that it is extended rather than replaced.
+            const proposed = takeContent({ ...(existing.pendingRevision?.content ?? existing), ...kpUpdate });
+            setKnowledgePoints(prev => prev.map(kp => kp.id === id ? { ...kp, pendingRevision: buildPendingRevision(proposed) } : kp));
+            addToast('已发布的知识点需要审核后才会更新，您的修改已提交审核。', 'info');
+            return;
+        }
+        // Approving a proposal for an unpublished point would overwrite these edits, so it is withdrawn.
+        const { pendingRevision, ...withoutProposal } = updated;
+        const saved: KnowledgePoint = contentChanged && existing.status !== 'published' ? withoutProposal : updated;
+        setKnowledgePoints(prev => prev.map(kp => kp.id === id ? saved : kp));
+        recordChange(existing, saved);
+    }, [knowledgePoints, setKnowledgePoints, requirePermission, needsReview, buildPendingRevision, addToast, recordChange]);
+
+    const submitForReview = useCallback((id: string, content: KnowledgePointContent, schedule: Pick<KnowledgePoint, 'effectiveFrom' | 'expireAt' | 'tags'> = {}) => {
+        if (!requirePermission('knowledge:edit')) return;
+        const existing = knowledgePoints.find(kp => kp.id === id);
+        if (!existing) return;
+        const pendingRevision = buildPendingRevision(content);
+        // Unpublished points have no live version to protect, so the submitted draft (and its
+        // schedule and tags) is saved as well.
+        const submitted: KnowledgePoint = existing.status === 'published'
+            ? { ...existing, pendingRevision }
+            : { ...existing, ...pendingRevision.content, ...schedule, pendingRevision };
+        setKnowledgePoints(prev => prev.map(kp => kp.id === id ? submitted : kp));
+        recordChange(existing, submitted);
+    }, [knowledgePoints, setKnowledgePoints, requirePermission, buildPendingRevision, recordChange]);
+
+    const approveReview = useCallback((id: string, comment = '') => {
+        if (!requirePermission('knowledge:publish')) return;
+        const existing = knowledgePoints.find(kp => kp.id === id);
+        if (!existing?.pendingRevision) return;
+        const { pendingRevision, ...withoutProposal } = existing;
+        const approved: KnowledgePoint = {
+            ...withoutProposal,
+            ...takeContent(pendingRevision.content),
+            // The proposed category may have been deleted while the proposal waited.
+            categoryId: categories.some(c => c.id === pendingRevision.content.categoryId && c.organizationId === existing.organizationId) ? pendingRevision.content.categoryId : existing.categoryId,
+            status: 'published',
+        };
+        setKnowledgePoints(prev => prev.map(kp => kp.id === id ? approved : kp));
+        recordRevisions([{ before: existing, after: approved, action: 'approve', details: comment.trim() ? { comment: comment.trim() } : {} }]);
+    }, [knowledgePoints, categories, setKnowledgePoints, requirePermission, recordRevisions]);
+
+    const rejectReview = useCallback((id: string, comment: string) => {
+        if (!requirePermission('knowledge:publish')) return;
+        if (!comment.trim()) {
+            addToast('驳回时请填写原因。', 'error');
+            return;
+        }
+        const review = { state: 'rejected' as const, reviewedBy: currentUser.displayName, reviewedAt: new Date().toISOString(), reviewComment: comment.trim() };
+        setKnowledgePoints(prev => prev.map(kp => kp.id === id && kp.pendingRevision ? { ...kp, pendingRevision: { ...kp.pendingRevision, ...review } } : kp));
+    }, [setKnowledgePoints, currentUser, requirePermission, addToast]);
+
+    const withdrawReview = useCallback((id: string) => {
+        if (!requirePermission('knowledge:edit')) return;
+        setKnowledgePoints(prev => prev.map(kp => {
+            if (kp.id !== id) return kp;
+            const { pendingRevision, ...withoutProposal } = kp;
+            return withoutProposal;
+        }));
+    }, [setKnowledgePoints, requirePermission]);
 
     const deleteKnowledgePoint = useCallback((id: string) => {
+        if (!requirePermission('knowledge:delete')) return;
         setKnowledgePoints(prev => prev.filter(kp => kp.id !== id));
-    }, [setKnowledgePoints]);
+    }, [setKnowledgePoints, requirePermission]);
 
+    // The category is reviewed content and decides which robots answer with a point, so moving a
+    // published point is submitted for review like any other edit.
     const transferKnowledgePoints = useCallback((kpIds: string[], targetCategoryId: string) => {
-        setKnowledgePoints(prev => prev.map(kp => 
-            kpIds.includes(kp.id) ? { ...kp, categoryId: targetCategoryId } : kp
-        ));
-    }, [setKnowledgePoints]);
+        if (!requirePermission('knowledge:edit')) return;
+        const moving = knowledgePoints.filter(kp => kpIds.includes(kp.id) && kp.categoryId !== targetCategoryId);
+        const replacements = new Map<string, KnowledgePoint>();
+        const moved: KnowledgePoint[] = [];
+        moving.forEach(kp => {
+            if (needsReview(kp)) {
+                const proposed = takeContent({ ...(kp.pendingRevision?.content ?? kp), categoryId: targetCategoryId });
+                replacements.set(kp.id, { ...kp, pendingRevision: buildPendingRevision(proposed) });
+                return;
+            }
+            const after = { ...kp, categoryId: targetCategoryId };
+            replacements.set(kp.id, after);
+            moved.push(after);
+        });
+        setKnowledgePoints(prev => prev.map(kp => replacements.get(kp.id) ?? kp));
+        recordRevisions(moved.map(after => ({ before: moving.find(kp => kp.id === after.id)!, after, action: 'transfer' as const })));
+        if (moved.length < moving.length) {
+            addToast(`${moving.length - moved.length} 个已发布的知识点需要审核后才会转移，已提交审核。`, 'info');
+        }
+    }, [knowledgePoints, setKnowledgePoints, requirePermission, needsReview, buildPendingRevision, recordRevisions, addToast]);
+
+    // Bulk edits follow the rules of single edits: without the publish permission new points
+    // are drafts, publication states are kept, and changes to published points go to review.
+    const importKnowledgePoints = useCallback((
+        importedCategories: Unscoped<Category>[],
+        created: ImportedKnowledgePoint[],
+        updated: { id: string; update: Partial<KnowledgePoint> }[]
+    ) => {
+        const result = { created: 0, updated: 0, submitted: 0, scheduleKept: 0 };
+        if (!requirePermission('knowledge:edit')) return result;
+        if (importedCategories.length > 0 && !requirePermission('category:edit')) return result;
+        const canPublish = can('knowledge:publish');
+
+        const now = Date.now();
+        const newKps: KnowledgePoint[] = created.map((kp, index) => ({
+            ...kp,
+            id: kp.id ?? `kp-${now}-${index}`,
+            createdAt: kp.createdAt ?? new Date(now).toISOString(),
+            createdBy: kp.createdBy ?? currentUser.displayName,
+            status: kp.status === 'published' && !canPublish ? 'draft' : kp.status,
+            organizationId: activeOrganizationId,
+        }));
+
+        const replacements = new Map<string, KnowledgePoint>();
+        const changes: { before: KnowledgePoint; after: KnowledgePoint }[] = [];
+        updated.forEach(({ id, update }) => {
+            const existing = knowledgePoints.find(kp => kp.id === id && kp.organizationId === activeOrganizationId);
+            if (!existing) return;
+            const changesPublication = update.status !== undefined && update.status !== existing.status
+                && (update.status === 'published' || existing.status === 'published');
+            let allowed = changesPublication && !canPublish ? { ...update, status: existing.status } : update;
+            // As in updateKnowledgePoint, only publishers may reschedule or retag a live point.
+            if (existing.status === 'published' && !canPublish && !schedulesEqual(existing, { ...existing, ...allowed })) {
+                allowed = { ...allowed, effectiveFrom: existing.effectiveFrom, expireAt: existing.expireAt, tags: existing.tags };
+                result.scheduleKept++;
+            }
+            const next = { ...existing, ...allowed };
+            const contentChanged = !snapshotsEqual({ ...takeSnapshot(existing), status: next.status }, takeSnapshot(next));
+            if (contentChanged && needsReview(existing)) {
+                const proposed = takeContent({ ...(existing.pendingRevision?.content ?? existing), ...allowed });
+                replacements.set(id, { ...existing, pendingRevision: buildPendingRevision(proposed) });
+                result.submitted++;
+                return;
+            }
+            const { pendingRevision, ...withoutProposal } = next;
+            const saved: KnowledgePoint = contentChanged && existing.status !== 'published' ? withoutProposal : next;
+            const savedContentChanged = !snapshotsEqual(takeSnapshot(existing), takeSnapshot(saved));
+            if (!savedContentChanged && schedulesEqual(existing, saved)) return;
+            replacements.set(id, saved);
+            // Like single edits, schedule and tag changes are saved without a revision.
+            if (savedContentChanged) changes.push({ before: existing, after: saved });
+            result.updated++;
+        });
+
+        // Only categories of the active organization are replaced; the import assigns new ids
+        // to records whose id another organization uses.
+        const scopedCategories: Category[] = importedCategories.map(c => ({ ...c, organizationId: activeOrganizationId }));
+        const categoryReplacements = new Map(scopedCategories.map(c => [c.id, c]));
+        setCategories(prev => [
+            ...prev.map(c => c.organizationId === activeOrganizationId ? categoryReplacements.get(c.id) ?? c : c),
+            ...scopedCategories.filter(c => !prev.some(existing => existing.id === c.id)),
+        ]);
+        setKnowledgePoints(prev => [...prev.map(kp => replacements.get(kp.id) ?? kp), ...newKps]);
+        recordRevisions([
+            ...newKps.map(kp => ({ after: kp, action: 'create' as const })),
+            ...changes.map(({ before, after }) => ({ before, after, action: classifyChange(takeSnapshot(before), takeSnapshot(after)) })),
+        ]);
+        result.created = newKps.length;
+        return result;
+    }, [knowledgePoints, currentUser, can, setCategories, setKnowledgePoints, requirePermission, needsReview, buildPendingRevision, recordRevisions, activeOrganizationId]);
+
+    const getKnowledgePointRevisions = useCallback((kpId: string): KnowledgePointRevision[] => {
+        return getRevisionsFor(knowledgePointRevisions, kpId);
+    }, [knowledgePointRevisions]);
+
+    // Restoring brings back the content of an old revision as a new revision. The current status
+    // is kept, so restoring never publishes or takes a point offline by itself.
+    const restoreKnowledgePointRevision = useCallback((revisionId: string): KnowledgePoint | undefined => {
+        if (!requirePermission('knowledge:edit')) return undefined;
+        const revision = knowledgePointRevisions.find(rev => rev.id === revisionId);
+        const existing = revision && knowledgePoints.find(kp => kp.id === revision.knowledgePointId);
+        if (!revision || !existing) return undefined;
+        const categoryExists = categories.some(c => c.id === revision.snapshot.categoryId && c.organizationId === existing.organizationId);
+        const restored: KnowledgePoint = {
+            ...existing,
+            ...revision.snapshot,
+            similarQuestions: [...revision.snapshot.similarQuestions],
+            relatedQuestionIds: revision.snapshot.relatedQuestionIds.filter(relatedId => knowledgePoints.some(kp => kp.id === relatedId)),
+            categoryId: categoryExists ? revision.snapshot.categoryId : existing.categoryId,
+            status: existing.status,
+        };
+        if (needsReview(existing)) {
+            setKnowledgePoints(prev => prev.map(kp => kp.id === restored.id ? { ...kp, pendingRevision: buildPendingRevision(restored) } : kp));
+            addToast('已发布的知识点需要审核后才会更新，恢复的内容已提交审核。', 'info');
+            return restored;
+        }
+        // As with edits, a proposal for an unpublished point is withdrawn once its content changes.
+        const { pendingRevision, ...withoutProposal } = restored;
+        const saved: KnowledgePoint = existing.status === 'published' ? restored : withoutProposal;
+        setKnowledgePoints(prev => prev.map(kp => kp.id === saved.id ? saved : kp));
+        recordRevisions([{ before: existing, after: saved, action: 'restore', details: { restoredFromId: revision.id } }]);
+        return saved;
+    }, [knowledgePointRevisions, knowledgePoints, categories, setKnowledgePoints, requirePermission, needsReview, buildPendingRevision, addToast, recordRevisions]);
 
     const addColdStartItems = useCallback((items: Omit<ColdStartItem, 'id'>[]) => {
+        if (!requirePermission('coldStart:manage')) return;
         const newItems: ColdStartItem[] = items.map(item => ({
             id: `cs-${Date.now()}-${Math.random()}`,
             ...item
         }));
         setColdStartItems(prev => [...prev, ...newItems]);
-    }, [setColdStartItems]);
+    }, [setColdStartItems, requirePermission]);
 
     const deleteColdStartItem = useCallback((id: string) => {
+        if (!requirePermission('coldStart:manage')) return;
         setColdStartItems(prev => prev.filter(item => item.id !== id));
-    }, [setColdStartItems]);
+    }, [setColdStartItems, requirePermission]);
 
     const getKnowledgePointById = useCallback((id: string): KnowledgePoint | undefined => {
         return knowledgePoints.find(kp => kp.id === id);
@@ -153,6 +550,42 @@ export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ child
         return chatSessions.find(s => s.id === sessionId);
     }, [chatSessions]);
 
+    // The agent side of a handoff. The session is patched rather than replaced, as the customer's
+    // chat may be writing to it at the same time, and the customer learns of each change over the bus.
+    const updateHandoff = useCallback((sessionId: string, handoff: HandoffState) => {
+        setChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, handoff } : s));
+        getMessageBus().publish({ type: 'handoff', sessionId, handoff });
+    }, [setChatSessions]);
+
+    const takeOverSession = useCallback((sessionId: string) => {
+        if (!requirePermission('handoff:handle')) return;
+        const handoff = chatSessions.find(s => s.id === sessionId)?.handoff;
+        if (handoff?.status !== 'waiting') {
+            addToast('该会话已被其他客服接入或已结束。', 'info');
+            return;
+        }
+        updateHandoff(sessionId, { ...handoff, status: 'active', agentId: currentUser.id, agentName: currentUser.displayName, acceptedAt: new Date().toISOString() });
+    }, [chatSessions, currentUser, updateHandoff, requirePermission, addToast]);
+
+    const replyAsAgent = useCallback((sessionId: string, text: string) => {
+        if (!requirePermission('handoff:handle')) return;
+        const handoff = chatSessions.find(s => s.id === sessionId)?.handoff;
+        if (handoff?.status !== 'active' || handoff.agentId !== currentUser.id) {
+            addToast('只能回复您已接入的会话。', 'error');
+            return;
+        }
+        const message: ChatMessage = { id: `agent-${Date.now()}`, text: plainTextToHtml(text), sender: 'agent', senderName: currentUser.displayName };
+        setChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, message] } : s));
+        getMessageBus().publish({ type: 'message', sessionId, message });
+    }, [chatSessions, currentUser, setChatSessions, requirePermission, addToast]);
+
+    const closeHandoff = useCallback((sessionId: string) => {
+        if (!requirePermission('handoff:handle')) return;
+        const handoff = chatSessions.find(s => s.id === sessionId)?.handoff;
+        if (!isHandoffOpen(handoff)) return;
+        updateHandoff(sessionId, { ...handoff, status: 'closed', closedAt: new Date().toISOString() });
+    }, [chatSessions, updateHandoff, requirePermission]);
+
     const addUnansweredQuestion = useCallback((question: Omit<UnansweredQuestion, 'id'>) => {
         const newQuestion: UnansweredQuestion = {
             id: `uq-${Date.now()}`,
@@ -162,78 +595,208 @@ export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ child
     }, [setUnansweredQuestions]);
 
     const deleteUnansweredQuestions = useCallback((ids: string[]) => {
+        if (!requirePermission('conversations:manage')) return;
         const idSet = new Set(ids);
         setUnansweredQuestions(prev => prev.filter(q => !idSet.has(q.id)));
-    }, [setUnansweredQuestions]);
-
-    const addRobot = useCallback((robot: Omit<Robot, 'id'>) => {
+    }, [setUnansweredQuestions, requirePermission]);
+
+    // Records that are already present (matched by ID) are skipped, so re-importing a log is harmless.
+    const importConversations = useCallback((sessions: ChatSession[], questions: UnansweredQuestion[]) => {
+        if (!requirePermission('conversations:manage')) return { sessions: 0, questions: 0 };
+        const existingSessionIds = new Set(chatSessions.map(s => s.id));
+        const existingQuestionIds = new Set(unansweredQuestions.map(q => q.id));
+        const newSessions = sessions.filter(s => !existingSessionIds.has(s.id));
+        const newQuestions = questions.filter(q => !existingQuestionIds.has(q.id));
+        setChatSessions(prev => [...prev, ...newSessions]);
+        setUnansweredQuestions(prev => [...prev, ...newQuestions]);
+        return { sessions: newSessions.length, questions: newQuestions.length };
+    }, [chatSessions, unansweredQuestions, setChatSessions, setUnansweredQuestions, requirePermission]);
+
+    const addRobot = useCallback((robot: Omit<Robot, 'id' | 'organizationId'>) => {
+        if (!requirePermission('robot:edit')) return;
         const newRobot: Robot = {
             id: `robot-${Date.now()}`,
             ...robot,
+            organizationId: activeOrganizationId,
         };
         setRobots(prev => [...prev, newRobot]);
-    }, [setRobots]);
+    }, [setRobots, requirePermission, activeOrganizationId]);
 
     const updateRobot = useCallback((id: string, robotUpdate: Partial<Robot>) => {
+        if (!requirePermission('robot:edit')) return;
         setRobots(prev => prev.map(r => (r.id === id ? { ...r, ...robotUpdate } : r)));
-    }, [setRobots]);
+    }, [setRobots, requirePermission]);
 
     const deleteRobot = useCallback((id: string) => {
-        setRobots(prev => prev.filter(r => r.id !== id));
-    }, [setRobots]);
-
-    const addEntity = useCallback((entity: Omit<Entity, 'id'>) => {
-        const newEntity: Entity = { id: `ent-${Date.now()}`, ...entity };
+        if (!requirePermission('robot:delete')) return;
+        setRobots(prev => prev
+            .filter(r => r.id !== id)
+            .map(r => (r.fallbackRobotId === id ? { ...r, fallbackRobotId: null } : r)));
+    }, [setRobots, requirePermission]);
+
+    const addEntity = useCallback((entity: Omit<Entity, 'id' | 'organizationId'>) => {
+        if (!requirePermission('nlu:edit')) return;
+        const newEntity: Entity = { id: `ent-${Date.now()}`, ...entity, organizationId: activeOrganizationId };
         setEntities(prev => [...prev, newEntity]);
-    }, [setEntities]);
+    }, [setEntities, requirePermission, activeOrganizationId]);
 
     const updateEntity = useCallback((id: string, entityUpdate: Partial<Entity>) => {
+        if (!requirePermission('nlu:edit')) return;
         setEntities(prev => prev.map(e => (e.id === id ? { ...e, ...entityUpdate } : e)));
-    }, [setEntities]);
+    }, [setEntities, requirePermission]);
 
     const deleteEntity = useCallback((id: string) => {
+        if (!requirePermission('nlu:edit')) return;
         setEntities(prev => prev.filter(e => e.id !== id));
-    }, [setEntities]);
+    }, [setEntities, requirePermission]);
 
-    const addIntent = useCallback((intent: Omit<Intent, 'id'>) => {
-        const newIntent: Intent = { id: `int-${Date.now()}`, ...intent };
+    const addIntent = useCallback((intent: Omit<Intent, 'id' | 'organizationId'>) => {
+        if (!requirePermission('nlu:edit')) return;
+        const newIntent: Intent = { id: `int-${Date.now()}`, ...intent, organizationId: activeOrganizationId };
         setIntents(prev => [...prev, newIntent]);
-    }, [setIntents]);
+    }, [setIntents, requirePermission, activeOrganizationId]);
 
     const updateIntent = useCallback((id: string, intentUpdate: Partial<Intent>) => {
+        if (!requirePermission('nlu:edit')) return;
         setIntents(prev => prev.map(i => (i.id === id ? { ...i, ...intentUpdate } : i)));
-    }, [setIntents]);
+    }, [setIntents, requirePermission]);
 
     const deleteIntent = useCallback((id: string) => {
+        if (!requirePermission('nlu:edit')) return;
         setIntents(prev => prev.filter(i => i.id !== id));
-    }, [setIntents]);
+    }, [setIntents, requirePermission]);
+
+    // Records whose ID already exists in the active organization are replaced, the others are added to it.
+    const importNluData = useCallback((importedEntities: Unscoped<Entity>[], importedIntents: Unscoped<Intent>[]) => {
+        if (!requirePermission('nlu:edit')) return;
+        const upsert = <T extends { id: string; organizationId: string | null }>(prev: T[], imported: Omit<T, 'organizationId'>[]): T[] => {
+            const records = imported.map(r => ({ ...r, organizationId: activeOrganizationId }) as T);
+            const byId = new Map(records.map(r => [r.id, r]));
+            const existingIds = new Set(prev.filter(r => r.organizationId === activeOrganizationId).map(r => r.id));
+            return [...prev.map(r => existingIds.has(r.id) ? byId.get(r.id) ?? r : r), ...records.filter(r => !existingIds.has(r.id))];
+        };
+        setEntities(prev => upsert(prev, importedEntities));
+        setIntents(prev => upsert(prev, importedIntents));
+    }, [setEntities, setIntents, requirePermission, activeOrganizationId]);
+
+    // Replaces whole collections, e.g. from a backup. Collections that are not given are left as they are.
+    const restoreCollections = useCallback((collections: Partial<BackupCollections>) => {
+        if (!requirePermission('settings:manage')) return;
+        if (collections.categories) setCategories(collections.categories);
+        if (collections.knowledgePoints) setKnowledgePoints(collections.knowledgePoints);
+        if (collections.coldStartItems) setColdStartItems(collections.coldStartItems);
+        if (collections.chatSessions) setChatSessions(collections.chatSessions);
+        if (collections.unansweredQuestions) setUnansweredQuestions(collections.unansweredQuestions);
+        if (collections.robots) setRobots(collections.robots);
+        if (collections.entities) setEntities(collections.entities);
+        if (collections.intents) setIntents(collections.intents);
+        if (collections.knowledgePointRevisions) setKnowledgePointRevisions(collections.knowledgePointRevisions);
+        if (collections.organizations) setOrganizations(collections.organizations);
+    }, [requirePermission, setCategories, setKnowledgePoints, setColdStartItems, setChatSessions, setUnansweredQuestions, setRobots, setEntities, setIntents, setKnowledgePointRevisions, setOrganizations]);
+
+    const allCollections = useMemo((): BackupCollections => ({
+        categories, knowledgePoints, coldStartItems, chatSessions, unansweredQuestions, robots, entities, intents, knowledgePointRevisions, organizations,
+    }), [categories, knowledgePoints, coldStartItems, chatSessions, unansweredQuestions, robots, entities, intents, knowledgePointRevisions, organizations]);
+
+    const addOrganization = useCallback((name: string): Organization | undefined => {
+        if (!requirePermission('organizations:manage')) return undefined;
+        const organization: Organization = { id: `org-${Date.now()}`, name };
+        setOrganizations(prev => [...prev, organization]);
+        return organization;
+    }, [setOrganizations, requirePermission]);
+
+    const renameOrganization = useCallback((id: string, name: string) => {
+        if (!requirePermission('organizations:manage')) return;
+        setOrganizations(prev => prev.map(o => o.id === id ? { ...o, name } : o));
+    }, [setOrganizations, requirePermission]);
+
+    // Content is never deleted along with an organization, so only empty ones can be removed.
+    // Its conversation history goes with it.
+    const deleteOrganization = useCallback((id: string) => {
+        if (!requirePermission('organizations:manage')) return;
+        if (organizations.length <= 1) {
+            addToast('至少需要保留一个组织。', 'error');
+            return;
+        }
+        const hasContent = [categories, knowledgePoints, robots, entities, intents].some(records => records.some(r => r.organizationId === id));
+        if (hasContent) {
+            addToast('请先删除或复制走该组织的分类、知识点、机器人、实体和意图。', 'error');
+            return;
+        }
+        setOrganizations(prev => prev.filter(o => o.id !== id));
+        setChatSessions(prev => prev.filter(s => s.organizationId !== id));
+        setUnansweredQuestions(prev => prev.filter(q => q.organizationId !== id));
+    }, [organizations, categories, knowledgePoints, robots, entities, intents, setOrganizations, setChatSessions, setUnansweredQuestions, requirePermission, addToast]);
+
+    // Copies follow the rules of new points: without the publish permission they are drafts.
+    const copyToOrganization = useCallback((targetOrganizationId: string, knowledgePointIds: string[], intentIds: string[]) => {
+        const result = { knowledgePoints: 0, intents: 0 };
+        if (knowledgePointIds.length > 0 && !requirePermission('knowledge:edit')) return result;
+        if (intentIds.length > 0 && !requirePermission('nlu:edit')) return result;
+        const copy = buildOrganizationCopy(
+            scoped,
+            {
+                categories: categories.filter(c => c.organizationId === targetOrganizationId),
+                entities: entities.filter(e => e.organizationId === targetOrganizationId),
+            },
+            targetOrganizationId,
+            { knowledgePointIds, intentIds }
+        );
+        if (copy.categories.length > 0 && !requirePermission('category:edit')) return result;
+        const canPublish = can('knowledge:publish');
+        const createdAt = new Date().toISOString();
+        const newKps: KnowledgePoint[] = copy.knowledgePoints.map(kp => ({
+            ...kp,
+            createdAt,
+            createdBy: currentUser.displayName,
+            status: kp.status === 'published' && !canPublish ? 'draft' : kp.status,
+        }));
+        setCategories(prev => [...prev, ...copy.categories]);
+        setKnowledgePoints(prev => [...prev, ...newKps]);
+        setEntities(prev => [...prev, ...copy.entities]);
+        setIntents(prev => [...prev, ...copy.intents]);
+        recordRevisions(newKps.map(kp => ({ after: kp, action: 'create' as const })));
+        return { knowledgePoints: newKps.length, intents: copy.intents.length };
+    }, [scoped, categories, entities, currentUser, can, setCategories, setKnowledgePoints, setEntities, setIntents, requirePermission, recordRevisions]);
 
     const value = useMemo(() => ({
-        categories,
-        knowledgePoints,
+        organizations,
+        activeOrganizationId,
+        setActiveOrganizationId,
+        addOrganization,
+        renameOrganization,
+        deleteOrganization,
+        copyToOrganization,
+        allCollections,
+        ...scoped,
         coldStartItems,
-        chatSessions,
-        unansweredQuestions,
-        robots,
-        entities,
-        intents,
+        knowledgePointRevisions,
         addCategory,
         updateCategory,
         deleteCategory,
         addKnowledgePoint,
         updateKnowledgePoint,
+        submitForReview,
+        approveReview,
+        rejectReview,
+        withdrawReview,
         deleteKnowledgePoint,
         transferKnowledgePoints,
-        setKnowledgePoints,
-        setCategories,
+        importKnowledgePoints,
+        getKnowledgePointRevisions,
+        restoreKnowledgePointRevision,
         addColdStartItems,
         deleteColdStartItem,
         getKnowledgePointById,
         addChatSession,
         updateChatSession,
         getChatSessionById,
+        takeOverSession,
+        replyAsAgent,
+        closeHandoff,
         addUnansweredQuestion,
         deleteUnansweredQuestions,
+        importConversations,
         addRobot,
         updateRobot,
         deleteRobot,
@@ -243,15 +806,27 @@ export const KnowledgeBaseProvider: React.FC<{ children: ReactNode }> = ({ child
         addIntent,
         updateIntent,
         deleteIntent,
+        importNluData,
+        restoreCollections,
     }), [
-        categories, knowledgePoints, coldStartItems, chatSessions, unansweredQuestions, robots, entities, intents,
-        addCategory, updateCategory, deleteCategory, addKnowledgePoint, updateKnowledgePoint,
-        deleteKnowledgePoint, transferKnowledgePoints, setKnowledgePoints, setCategories,
+        organizations, activeOrganizationId, setActiveOrganizationId, addOrganization, renameOrganization, deleteOrganization,
+        copyToOrganization, allCollections, scoped, coldStartItems, knowledgePointRevisions, addCategory, updateCategory, deleteCategory, addKnowledgePoint, updateKnowledgePoint,
+        submitForReview, approveReview, rejectReview, withdrawReview,
+        deleteKnowledgePoint, transferKnowledgePoints, importKnowledgePoints, getKnowledgePointRevisions, restoreKnowledgePointRevision,
         addColdStartItems, deleteColdStartItem, getKnowledgePointById, addChatSession,
-        updateChatSession, getChatSessionById, addUnansweredQuestion, deleteUnansweredQuestions,
-        addRobot, updateRobot, deleteRobot, addEntity, updateEntity, deleteEntity, addIntent, updateIntent, deleteIntent,
+        updateChatSession, getChatSessionById, takeOverSession, replyAsAgent, closeHandoff, addUnansweredQuestion, deleteUnansweredQuestions,
+        importConversations, addRobot, updateRobot, deleteRobot, addEntity, updateEntity, deleteEntity, addIntent, updateIntent, deleteIntent, importNluData,
+        restoreCollections,
     ]);
 
+    if (!isLoaded) {
+        return (
+            <div className="flex h-screen items-center justify-center text-gray-500 dark:text-gray-400">
+                正在加载知识库...
+            </div>
+        );
+    }
+
     return (
         <KnowledgeBaseContext.Provider value={value}>
             {children}
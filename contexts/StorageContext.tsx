@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { CollectionName, StorageAdapter, StoredRecord, createMemoryAdapter, getStorageAdapter, initializeStorage, setStorageAdapter } from '../services/storage';
+import { useToast } from './ToastContext';
+
+const StorageContext = createContext<StorageAdapter | undefined>(undefined);
+
+// Opens storage before anything reads from it, including the login, so that every provider
+// below uses the same adapter, and the in-memory fallback applies to all of them.
+export const StorageProvider: React.FC<{ defaults: Partial<Record<CollectionName, StoredRecord[]>>; children: ReactNode }> = ({ defaults, children }) => {
+    const { addToast } = useToast();
+    const [storage, setStorage] = useState<StorageAdapter | null>(null);
+
+    useEffect(() => {
+        const preferred = getStorageAdapter();
+        initializeStorage(preferred, defaults)
+            .then(() => setStorage(preferred))
+            .catch(async (error) => {
+                // Keep the app usable for this visit even if IndexedDB is blocked or unavailable.
+                console.error("Storage error:", error);
+                addToast('无法打开本地数据库，本次修改将不会被保存。', 'error');
+                const fallback = createMemoryAdapter();
+                await initializeStorage(fallback, defaults);
+                setStorageAdapter(fallback);
+                setStorage(fallback);
+            });
+    }, []);
+
+    if (!storage) {
+        return (
+            <div className="flex h-screen items-center justify-center text-gray-500 dark:text-gray-400">
+                正在打开本地数据库...
+            </div>
+        );
+    }
+
+    return (
+        <StorageContext.Provider value={storage}>
+            {children}
+        </StorageContext.Provider>
+    );
+};
+
+export const useStorage = (): StorageAdapter => {
+    const context = useContext(StorageContext);
+    if (!context) {
+        throw new Error('useStorage must be used within a StorageProvider');
+    }
+    return context;
+};
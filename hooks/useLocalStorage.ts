@@ -1,50 +0,0 @@
-import { useState, useEffect, Dispatch, SetStateAction, useCallback } from 'react';
-
-function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
-    const [storedValue, setStoredValue] = useState<T>(() => {
-        if (typeof window === 'undefined') {
-            return initialValue;
-        }
-        try {
-            const item = window.localStorage.getItem(key);
-            return item ? JSON.parse(item) : initialValue;
-        } catch (error) {
-            console.error(error);
-            return initialValue;
-        }
-    });
-
-    const setValue: Dispatch<SetStateAction<T>> = useCallback((value) => {
-        try {
-            setStoredValue(currentStoredValue => {
-                const valueToStore = value instanceof Function ? value(currentStoredValue) : value;
-                if (typeof window !== 'undefined') {
-                    window.localStorage.setItem(key, JSON.stringify(valueToStore));
-                }
-                return valueToStore;
-            });
-        } catch (error) {
-            console.error(`Error setting localStorage key “${key}”:`, error);
-        }
-    }, [key]);
-
-    useEffect(() => {
-        const handleStorageChange = (e: StorageEvent) => {
-            if (e.key === key && e.newValue) {
-                try {
-                    setStoredValue(JSON.parse(e.newValue));
-                } catch (error) {
-                    console.error(`Error parsing new value for key “${key}” from storage:`, error);
-                }
-            }
-        };
-        if (typeof window !== 'undefined') {
-            window.addEventListener('storage', handleStorageChange);
-            return () => window.removeEventListener('storage', handleStorageChange);
-        }
-    }, [key]);
-
-    return [storedValue, setValue];
-}
-
-export default useLocalStorage;
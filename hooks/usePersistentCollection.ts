@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef, Dispatch, SetStateAction } from 'react';
+import { CollectionName, StorageAdapter, StoredRecord, diffCollection } from '../services/storage';
+
+/**
+ * Holds a collection in React state and mirrors every change to storage. Only records
+ * whose reference changed are written, and writes for a collection never overlap. A failed
+ * write is retried with the next change. If the collection cannot be read, it starts empty
+ * and is not written, so the stored records are not overwritten.
+ * @param storage The adapter to use, already initialized.
+ * @param name The collection to load and persist.
+ * @param onError Called when loading or saving fails.
+ * @returns The records, their setter, and whether the initial load has finished.
+ */
+function usePersistentCollection<T extends StoredRecord>(
+    storage: StorageAdapter,
+    name: CollectionName,
+    onError: (error: unknown, operation: 'load' | 'save') => void
+): [T[], Dispatch<SetStateAction<T[]>>, boolean] {
+    const [items, setItems] = useState<T[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    const [isReadOnly, setIsReadOnly] = useState(false);
+    const persistedRef = useRef<T[]>([]); // The records as last written successfully
+    const latestRef = useRef<T[]>([]);
+    const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+
+    useEffect(() => {
+        let cancelled = false;
+        storage.readCollection<T>(name)
+            .then(records => {
+                if (cancelled) return;
+                persistedRef.current = records;
+                setItems(records);
+                setIsLoaded(true);
+            })
+            .catch(error => {
+                if (cancelled) return;
+                onErrorRef.current(error, 'load');
+                setIsReadOnly(true);
+                setIsLoaded(true);
+            });
+        return () => { cancelled = true; };
+    }, [storage, name]);
+
+    useEffect(() => {
+        latestRef.current = items;
+        if (!isLoaded || isReadOnly || items === persistedRef.current) return;
+        // The diff is taken when the write runs, from what was last written successfully, so
+        // queued changes are written together and the changes of a failed write are retried.
+        writeQueueRef.current = writeQueueRef.current
+            .then(async () => {
+                const next = latestRef.current;
+                if (next === persistedRef.current) return;
+                await storage.writeChanges(name, diffCollection(persistedRef.current, next));
+                persistedRef.current = next;
+            })
+            .catch(error => onErrorRef.current(error, 'save'));
+    }, [storage, isLoaded, isReadOnly, items, name]);
+
+    return [items, setItems, isLoaded];
+}
+
+export default usePersistentCollection;
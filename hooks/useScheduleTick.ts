@@ -0,0 +1,26 @@
+import { useState, useEffect } from 'react';
+import { KnowledgePoint } from '../types';
+import { getNextScheduleChange, MAX_TIMER_DELAY_MS } from '../services/schedule';
+
+/**
+ * Returns a counter that increases whenever a published point's effective period starts or
+ * ends. Adding it to the dependencies of a memoized view of the live knowledge base makes
+ * the view refresh at those moments.
+ * @param knowledgePoints All knowledge points.
+ * @returns The tick count.
+ */
+function useScheduleTick(knowledgePoints: KnowledgePoint[]): number {
+    const [tick, setTick] = useState(0);
+
+    useEffect(() => {
+        const now = Date.now();
+        const next = getNextScheduleChange(knowledgePoints, now);
+        if (next === null) return;
+        const timer = setTimeout(() => setTick(prev => prev + 1), Math.min(next - now, MAX_TIMER_DELAY_MS));
+        return () => clearTimeout(timer);
+    }, [knowledgePoints, tick]);
+
+    return tick;
+}
+
+export default useScheduleTick;
@@ -0,0 +1,185 @@
+import type { ChatMessage, ChatSession, ClarificationOption, KnowledgePoint } from '../types';
+import { answerQueryWithFallback, answerWithDialogue, getNoAnswerText, getPublishedKnowledgePoints, getStarterQuestions, CLARIFICATION_TEXT, DEFAULT_GOODBYE_MESSAGE, DEFAULT_WELCOME_MESSAGE } from '../services/chatEngine';
+import { getFallbackChain } from '../services/robotScope';
+import { isOptionalString, isRecord, isString } from '../services/guards';
+import type { KnowledgeBase } from './knowledgeBase';
+import { appendMessages, ConversationLog } from './conversationLog';
+
+export interface ChatRequest {
+    robotApiIdentifier: string;
+    userQuestion: string;
+    userId?: string;
+    sessionId?: string; // Returned by a previous response to continue that conversation
+}
+
+export interface RelatedQuestion {
+    id: string;
+    standardQuestion: string;
+}
+
+export interface ChatResponse {
+    sessionId: string;
+    type: 'answer' | 'clarify' | 'prompt' | 'none';
+    answer: string; // HTML
+    knowledgePointId: string | null;
+    relatedQuestions: RelatedQuestion[];
+    suggestions: string[];
+    clarificationOptions: ClarificationOption[];
+}
+
+export interface RobotProfile {
+    name: string;
+    avatar: string;
+    welcomeMessage: string;
+    goodbyeMessage: string; // For clients to show when the customer ends the conversation
+    suggestions: string[];
+}
+
+/**
+ * An error with the HTTP status it should be reported with.
+ */
+export class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+    }
+}
+
+const toRelatedQuestion = (kp: KnowledgePoint): RelatedQuestion => ({ id: kp.id, standardQuestion: kp.standardQuestion });
+
+/**
+ * Validates the body of a chat request.
+ * @param body The parsed JSON body.
+ * @returns The typed request.
+ * @throws HttpError (400) if a required field is missing or has the wrong type.
+ */
+export const parseChatRequest = (body: unknown): ChatRequest => {
+    if (!isRecord(body)) throw new HttpError(400, '请求体必须是 JSON 对象。');
+    const { robotApiIdentifier, userQuestion, userId, sessionId } = body;
+    if (!isString(robotApiIdentifier) || !robotApiIdentifier) throw new HttpError(400, '缺少 robotApiIdentifier。');
+    if (!isString(userQuestion) || !userQuestion.trim()) throw new HttpError(400, '缺少 userQuestion。');
+    if (!isOptionalString(userId)) throw new HttpError(400, 'userId 必须是字符串。');
+    if (!isOptionalString(sessionId)) throw new HttpError(400, 'sessionId 必须是字符串。');
+    return {
+        robotApiIdentifier,
+        userQuestion: userQuestion.trim(),
+        userId,
+        sessionId,
+    };
+};
+
+/**
+ * Describes a robot for clients that render their own chat UI.
+ * @param knowledgeBase The loaded knowledge base.
+ * @param apiIdentifier The robot's API identifier.
+ * @returns The robot's public profile.
+ * @throws HttpError (404) if no robot has the identifier.
+ */
+export const getRobotProfile = (knowledgeBase: KnowledgeBase, apiIdentifier: string): RobotProfile => {
+    const robot = knowledgeBase.getRobot(apiIdentifier);
+    if (!robot) throw new HttpError(404, `未找到 API 标识符为 “${apiIdentifier}” 的机器人。`);
+    return {
+        name: robot.name,
+        avatar: robot.avatar,
+        welcomeMessage: robot.welcomeMessage || DEFAULT_WELCOME_MESSAGE,
+        goodbyeMessage: robot.goodbyeMessage || DEFAULT_GOODBYE_MESSAGE,
+        suggestions: getStarterQuestions(robot, getPublishedKnowledgePoints(knowledgeBase.getOrganization(robot.organizationId).getRobotKnowledge(robot).knowledgePoints)),
+    };
+};
+
+/**
+ * Answers one chat request and records it in the conversation log, exactly like a turn
+ * in the app's own chat interface.
+ * @param knowledgeBase The loaded knowledge base.
+ * @param log Where sessions and unanswered questions are recorded.
+ * @param request The validated request.
+ * @returns The JSON response.
+ * @throws HttpError (404) if no robot has the requested identifier.
+ */
+export const handleChat = async (knowledgeBase: KnowledgeBase, log: ConversationLog, request: ChatRequest): Promise<ChatResponse> => {
+    const robot = knowledgeBase.getRobot(request.robotApiIdentifier);
+    if (!robot) throw new HttpError(404, `未找到 API 标识符为 “${request.robotApiIdentifier}” 的机器人。`);
+
+    // A session ID from another robot, or one the log no longer has, starts a new session.
+    const existing = request.sessionId ? log.getSession(request.sessionId) : undefined;
+    let session: ChatSession = existing && existing.robotId === robot.id ? existing : {
+        id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        userId: request.userId || `user-${Math.random().toString(36).substr(2, 9)}`,
+        startTime: new Date().toISOString(),
+        robotId: robot.id,
+        organizationId: robot.organizationId,
+        messages: [],
+    };
+
+    const userMessage: ChatMessage = { id: `user-${Date.now()}`, text: request.userQuestion, sender: 'user' };
+    const organization = knowledgeBase.getOrganization(robot.organizationId);
+    const chain = getFallbackChain(robot, knowledgeBase.robots).map(organization.getRobotKnowledge);
+    const dialogue = answerWithDialogue(request.userQuestion, organization.nlu, session.dialogueState ?? null, chain[0].knowledgePoints);
+    session = { ...session, dialogueState: dialogue.dialogueState };
+    const reply = dialogue.reply ?? await answerQueryWithFallback(request.userQuestion, chain);
+
+    let response: ChatResponse;
+    let botMessage: ChatMessage;
+    const botMessageBase = { id: `bot-${Date.now()}`, sender: 'bot' as const, senderAvatar: robot.avatar };
+    if (reply.type === 'answer') {
+        botMessage = { ...botMessageBase, text: reply.text, relatedQuestions: reply.relatedQuestions };
+        response = {
+            sessionId: session.id,
+            type: 'answer',
+            answer: reply.text,
+            knowledgePointId: reply.knowledgePoint.id,
+            relatedQuestions: reply.relatedQuestions.map(toRelatedQuestion),
+            suggestions: [],
+            clarificationOptions: [],
+        };
+    } else if (reply.type === 'clarify') {
+        botMessage = { ...botMessageBase, text: CLARIFICATION_TEXT, clarificationOptions: reply.options };
+        response = {
+            sessionId: session.id,
+            type: 'clarify',
+            answer: CLARIFICATION_TEXT,
+            knowledgePointId: null,
+            relatedQuestions: [],
+            suggestions: reply.options.map(option => option.standardQuestion),
+            clarificationOptions: reply.options,
+        };
+    } else if (reply.type === 'prompt') {
+        botMessage = { ...botMessageBase, text: reply.text, suggestions: reply.suggestions };
+        response = {
+            sessionId: session.id,
+            type: 'prompt',
+            answer: reply.text,
+            knowledgePointId: null,
+            relatedQuestions: [],
+            suggestions: reply.suggestions,
+            clarificationOptions: [],
+        };
+    } else {
+        const text = getNoAnswerText(robot, session.messages.filter(m => m.sender === 'user').length + 1);
+        botMessage = { ...botMessageBase, text };
+        response = {
+            sessionId: session.id,
+            type: 'none',
+            answer: text,
+            knowledgePointId: null,
+            relatedQuestions: [],
+            suggestions: getStarterQuestions(robot, getPublishedKnowledgePoints(chain[0].knowledgePoints)),
+            clarificationOptions: [],
+        };
+        log.addUnansweredQuestion({
+            question: request.userQuestion,
+            sessionId: session.id,
+            userId: session.userId,
+            robotId: robot.id,
+            organizationId: robot.organizationId,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    session = appendMessages(session, userMessage, botMessage);
+    log.saveSession(session);
+    return response;
+};
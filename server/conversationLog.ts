@@ -0,0 +1,70 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { ChatMessage, ChatSession, UnansweredQuestion } from '../types';
+import { DATA_VERSION, migrateImport } from '../services/migrations';
+
+export interface ConversationLog {
+    getSession: (sessionId: string) => ChatSession | undefined;
+    saveSession: (session: ChatSession) => void;
+    addUnansweredQuestion: (question: Omit<UnansweredQuestion, 'id'>) => void;
+    flush: () => Promise<void>;
+}
+
+/**
+ * Opens the file the server records conversations in. The file has the same shape as the
+ * app's exports ({ schemaVersion, chatSessions, unansweredQuestions }), so it can be
+ * imported on the 会话学习 page as is.
+ * @param filePath Where the log is stored; it is created on the first write.
+ * @returns The conversation log.
+ */
+export const openConversationLog = async (filePath: string): Promise<ConversationLog> => {
+    const sessions = new Map<string, ChatSession>();
+    const unansweredQuestions: UnansweredQuestion[] = [];
+
+    try {
+        const data = migrateImport(JSON.parse(await readFile(filePath, 'utf8')), ['chatSessions', 'unansweredQuestions']);
+        (data.chatSessions as ChatSession[] | undefined)?.forEach(session => sessions.set(session.id, session));
+        unansweredQuestions.push(...(data.unansweredQuestions as UnansweredQuestion[] | undefined) ?? []);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    // Writes are serialized and go through a temporary file so a crash never leaves half a log.
+    let pendingWrite: Promise<void> = Promise.resolve();
+    const persist = () => {
+        const snapshot = JSON.stringify({
+            schemaVersion: DATA_VERSION,
+            chatSessions: Array.from(sessions.values()),
+            unansweredQuestions,
+        }, null, 2);
+        pendingWrite = pendingWrite
+            .then(async () => {
+                await writeFile(`${filePath}.tmp`, snapshot, 'utf8');
+                await rename(`${filePath}.tmp`, filePath);
+            })
+            .catch(error => console.error(`Failed to write conversation log “${filePath}”:`, error));
+    };
+
+    return {
+        getSession: (sessionId) => sessions.get(sessionId),
+        saveSession: (session) => {
+            sessions.set(session.id, session);
+            persist();
+        },
+        addUnansweredQuestion: (question) => {
+            unansweredQuestions.push({ id: `uq-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`, ...question });
+            persist();
+        },
+        flush: () => pendingWrite,
+    };
+};
+
+/**
+ * Appends messages to a session without mutating it.
+ * @param session The session to extend.
+ * @param messages The new messages.
+ * @returns The updated session.
+ */
+export const appendMessages = (session: ChatSession, ...messages: ChatMessage[]): ChatSession => ({
+    ...session,
+    messages: [...session.messages, ...messages],
+});
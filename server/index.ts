@@ -0,0 +1,108 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { loadKnowledgeBase } from './knowledgeBase';
+import { openConversationLog } from './conversationLog';
+import { getRobotProfile, handleChat, HttpError, parseChatRequest } from './chatHandler';
+import { MigrationError } from '../services/migrations';
+
+// Configuration comes from the environment so the server can run unchanged in a container.
+const PORT = Number(process.env.PORT) || 8787;
+const KB_FILES = (process.env.KB_FILES || 'knowledge_base_export.json').split(',').map(file => file.trim()).filter(Boolean);
+const CONVERSATION_LOG = process.env.CONVERSATION_LOG || 'conversation_log.json';
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+// Built by `npm run build:widget` in the repository root.
+const WIDGET_BUNDLE = process.env.WIDGET_BUNDLE || '../dist/widget/widget.js';
+const MAX_BODY_BYTES = 64 * 1024;
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, '请求体过大。'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch {
+            reject(new HttpError(400, '请求体不是有效的 JSON。'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const sendWidgetBundle = async (res: ServerResponse) => {
+    let bundle: Buffer;
+    try {
+        bundle = await readFile(WIDGET_BUNDLE);
+    } catch {
+        throw new HttpError(404, '聊天组件尚未构建，请在项目根目录运行 npm run build:widget。');
+    }
+    res.writeHead(200, { 'Content-Type': 'text/javascript; charset=utf-8', 'Cache-Control': 'public, max-age=300' });
+    res.end(bundle);
+};
+
+const main = async () => {
+    const knowledgeBase = await loadKnowledgeBase(KB_FILES);
+    const log = await openConversationLog(CONVERSATION_LOG);
+    console.log(`Loaded ${knowledgeBase.knowledgePoints.length} knowledge points and ${knowledgeBase.robots.length} robots from ${KB_FILES.join(', ')}`);
+    if (knowledgeBase.robots.length === 0) {
+        console.warn('No robots were loaded. Export the robot configuration from 机器人管理 and add it to KB_FILES.');
+    }
+
+    const server = createServer(async (req, res) => {
+        // The chat API is meant to be called from customer-facing pages on other origins.
+        res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+        const { pathname } = new URL(req.url || '/', 'http://localhost');
+        try {
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204);
+                res.end();
+            } else if (req.method === 'POST' && pathname === '/chat') {
+                sendJson(res, 200, await handleChat(knowledgeBase, log, parseChatRequest(await readJsonBody(req))));
+            } else if (req.method === 'GET' && pathname.startsWith('/robots/')) {
+                sendJson(res, 200, getRobotProfile(knowledgeBase, decodeURIComponent(pathname.slice('/robots/'.length))));
+            } else if (req.method === 'GET' && pathname === '/widget.js') {
+                await sendWidgetBundle(res);
+            } else if (req.method === 'GET' && pathname === '/health') {
+                sendJson(res, 200, { status: 'ok' });
+            } else {
+                throw new HttpError(404, '接口不存在。');
+            }
+        } catch (error) {
+            if (error instanceof HttpError) {
+                sendJson(res, error.status, { error: error.message });
+            } else {
+                console.error('Chat request failed:', error);
+                sendJson(res, 500, { error: '服务器内部错误。' });
+            }
+        }
+    });
+
+    server.listen(PORT, () => console.log(`Chat server listening on http://localhost:${PORT}`));
+
+    const shutdown = () => {
+        server.close();
+        log.flush().then(() => process.exit(0));
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+};
+
+main().catch(error => {
+    console.error('Failed to start chat server:', error instanceof MigrationError ? `${error.message}\n${error.errors.join('\n')}` : error);
+    process.exit(1);
+});
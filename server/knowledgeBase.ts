@@ -0,0 +1,132 @@
+import { readFile } from 'node:fs/promises';
+import type { Category, Entity, Intent, KnowledgePoint, Robot } from '../types';
+import { migrateImport, MigrationError } from '../services/migrations';
+import { createMatcher, Matcher } from '../services/matcher';
+import { getPublishedKnowledgePoints, RobotKnowledge } from '../services/chatEngine';
+import { getRobotKnowledgePoints } from '../services/robotScope';
+import { getNextScheduleChange } from '../services/schedule';
+import { createNluEngine, NluEngine } from '../services/nlu';
+
+// What the robots of an organization answer from: its knowledge points and NLU data.
+export interface OrganizationKnowledge {
+    knowledgePoints: KnowledgePoint[];
+    nlu: NluEngine;
+    getRobotKnowledge: (robot: Robot) => RobotKnowledge;
+}
+
+export interface KnowledgeBase {
+    categories: Category[];
+    knowledgePoints: KnowledgePoint[];
+    robots: Robot[];
+    getRobot: (apiIdentifier: string) => Robot | undefined;
+    getOrganization: (organizationId: string) => OrganizationKnowledge;
+}
+
+// Later files win when the same record ID appears in more than one export.
+const mergeById = <T extends { id: string }>(target: Map<string, T>, records: T[] | undefined) => {
+    records?.forEach(record => target.set(record.id, record));
+};
+
+/**
+ * Builds the answering data of one organization.
+ * @param knowledgePoints The organization's knowledge points.
+ * @param categories The organization's categories, which robot scopes refer to.
+ * @param intents The organization's intents.
+ * @param entities The organization's entities.
+ * @returns The points, the NLU engine and the scoped points and cached matcher of each robot.
+ */
+const createOrganizationKnowledge = (knowledgePoints: KnowledgePoint[], categories: Category[], intents: Intent[], entities: Entity[]): OrganizationKnowledge => {
+    // Matchers are built lazily, one per robot, over the points in the robot's scope. A matcher
+    // is rebuilt once a point's effective period starts or ends, as the live set changes then.
+    const matchers = new Map<string, { matcher: Matcher; validUntil: number | null }>();
+    const scopedPoints = new Map<string, KnowledgePoint[]>();
+    const nlu = createNluEngine(intents, entities);
+    return {
+        knowledgePoints,
+        nlu,
+        getRobotKnowledge: (robot) => {
+            const inScope = scopedPoints.get(robot.id) ?? getRobotKnowledgePoints(robot, knowledgePoints, categories);
+            scopedPoints.set(robot.id, inScope);
+            return {
+                robot,
+                knowledgePoints: inScope,
+                getMatcher: () => {
+                    const now = Date.now();
+                    let cached = matchers.get(robot.id);
+                    if (!cached || (cached.validUntil !== null && now >= cached.validUntil)) {
+                        cached = {
+                            matcher: createMatcher(getPublishedKnowledgePoints(inScope, now), robot.matcherType, nlu.normalizeSynonyms),
+                            validUntil: getNextScheduleChange(inScope, now),
+                        };
+                        matchers.set(robot.id, cached);
+                    }
+                    return cached.matcher;
+                },
+            };
+        },
+    };
+};
+
+/**
+ * Loads one or more exports from the app (the knowledge base export and the robot
+ * configuration export, optionally the intent export) and runs them through the same migrations as the app's own imports.
+ * @param files Paths to the JSON exports.
+ * @returns The merged knowledge base with robot lookup and the answering data of each organization.
+ * @throws MigrationError if a file is from a newer version or contains invalid records.
+ */
+export const loadKnowledgeBase = async (files: string[]): Promise<KnowledgeBase> => {
+    const categories = new Map<string, Category>();
+    const knowledgePoints = new Map<string, KnowledgePoint>();
+    const robots = new Map<string, Robot>();
+    const entities = new Map<string, Entity>();
+    const intents = new Map<string, Intent>();
+
+    for (const file of files) {
+        let data: unknown;
+        try {
+            data = JSON.parse(await readFile(file, 'utf8'));
+        } catch (error) {
+            throw new Error(`无法读取知识库文件 “${file}”：${error instanceof Error ? error.message : error}`);
+        }
+        try {
+            const imported = migrateImport(data, ['categories', 'knowledgePoints', 'robots', 'entities', 'intents']);
+            mergeById(categories, imported.categories as Category[] | undefined);
+            mergeById(knowledgePoints, imported.knowledgePoints as KnowledgePoint[] | undefined);
+            mergeById(robots, imported.robots as Robot[] | undefined);
+            mergeById(entities, imported.entities as Entity[] | undefined);
+            mergeById(intents, imported.intents as Intent[] | undefined);
+        } catch (error) {
+            if (error instanceof MigrationError) {
+                throw new MigrationError(`${file}: ${error.message}`, error.errors);
+            }
+            throw error;
+        }
+    }
+
+    const allKnowledgePoints = Array.from(knowledgePoints.values());
+    const allCategories = Array.from(categories.values());
+    const allIntents = Array.from(intents.values());
+    const allEntities = Array.from(entities.values());
+    const robotsByApiIdentifier = new Map(Array.from(robots.values()).map(robot => [robot.apiIdentifier, robot]));
+    const organizations = new Map<string, OrganizationKnowledge>();
+
+    return {
+        categories: allCategories,
+        knowledgePoints: allKnowledgePoints,
+        robots: Array.from(robots.values()),
+        getRobot: (apiIdentifier) => robotsByApiIdentifier.get(apiIdentifier),
+        getOrganization: (organizationId) => {
+            let organization = organizations.get(organizationId);
+            if (!organization) {
+                organization = createOrganizationKnowledge(
+                    allKnowledgePoints.filter(kp => kp.organizationId === organizationId),
+                    allCategories.filter(c => c.organizationId === organizationId),
+                    allIntents.filter(i => i.organizationId === organizationId),
+                    allEntities.filter(e => e.organizationId === organizationId)
+                );
+                organizations.set(organizationId, organization);
+            }
+            return organization;
+        },
+    };
+};
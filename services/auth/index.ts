@@ -0,0 +1,29 @@
+import type { AuthProvider } from './types';
+import { createLocalAuthProvider } from './localAuthProvider';
+
+export { AuthError } from './types';
+export type { AuthProvider, NewUser, UserDirectory, UserUpdate } from './types';
+export { ROLE_LABELS, ROLE_PERMISSIONS, hasPermission } from './permissions';
+export type { Permission } from './permissions';
+export { createLocalAuthProvider } from './localAuthProvider';
+
+let provider: AuthProvider | null = null;
+
+/**
+ * Gets the auth provider shared by the app, creating the local provider on first use.
+ * @returns The shared provider.
+ */
+export const getAuthProvider = (): AuthProvider => {
+    if (!provider) {
+        provider = createLocalAuthProvider();
+    }
+    return provider;
+};
+
+/**
+ * Replaces the shared auth provider, e.g. with one backed by a company directory.
+ * @param next The provider to use from now on.
+ */
+export const setAuthProvider = (next: AuthProvider) => {
+    provider = next;
+};
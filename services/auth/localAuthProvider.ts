@@ -0,0 +1,97 @@
+import type { User } from '../../types';
+import { getStorageAdapter } from '../storage';
+import { AuthError, AuthProvider, NewUser, UserUpdate } from './types';
+
+// Users live in the storage key/value store rather than a collection, so they are never
+// part of knowledge base exports.
+const USERS_KEY = 'auth:users';
+const PBKDF2_ITERATIONS = 100000;
+const MIN_PASSWORD_LENGTH = 6;
+
+interface StoredUser extends User {
+    passwordHash: string; // Hex-encoded PBKDF2-SHA256
+    salt: string; // Hex-encoded
+}
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string): Uint8Array => new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const hashPassword = async (password: string, salt: Uint8Array): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256);
+    return toHex(new Uint8Array(bits));
+};
+
+const withPassword = async <T extends object>(user: T, password: string): Promise<T & Pick<StoredUser, 'passwordHash' | 'salt'>> => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new AuthError(`密码至少需要 ${MIN_PASSWORD_LENGTH} 个字符。`);
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    return { ...user, salt: toHex(salt), passwordHash: await hashPassword(password, salt) };
+};
+
+const toUser = ({ passwordHash, salt, ...user }: StoredUser): User => user;
+
+/**
+ * Creates an auth provider backed by a user list in local storage. Enough for a single
+ * team sharing one deployment; swap in another AuthProvider for SSO.
+ * @returns The provider, including user administration.
+ */
+export const createLocalAuthProvider = (): AuthProvider => {
+    const readUsers = async (): Promise<StoredUser[]> => (await getStorageAdapter().readValue<StoredUser[]>(USERS_KEY)) ?? [];
+    const writeUsers = (users: StoredUser[]) => getStorageAdapter().writeValue(USERS_KEY, users);
+
+    return {
+        authenticate: async (username, password) => {
+            const user = (await readUsers()).find(u => u.username === username.trim());
+            // Hash even for unknown users so response time does not reveal which usernames exist.
+            const hash = await hashPassword(password, user ? fromHex(user.salt) : new Uint8Array(16));
+            if (!user || hash !== user.passwordHash) {
+                throw new AuthError('用户名或密码错误。');
+            }
+            return toUser(user);
+        },
+        getUser: async (id) => {
+            const user = (await readUsers()).find(u => u.id === id);
+            return user ? toUser(user) : null;
+        },
+        users: {
+            list: async () => (await readUsers()).map(toUser),
+            create: async ({ password, ...input }: NewUser) => {
+                const users = await readUsers();
+                const username = input.username.trim();
+                if (!username) throw new AuthError('用户名不能为空。');
+                if (users.some(u => u.username === username)) throw new AuthError(`用户名 “${username}” 已存在。`);
+                const user = await withPassword({
+                    id: `user-${Date.now()}`,
+                    username,
+                    displayName: input.displayName.trim() || username,
+                    role: input.role,
+                    createdAt: new Date().toISOString(),
+                }, password);
+                await writeUsers([...users, user]);
+                return toUser(user);
+            },
+            update: async (id, { password, ...update }: UserUpdate) => {
+                const users = await readUsers();
+                const existing = users.find(u => u.id === id);
+                if (!existing) throw new AuthError('用户不存在。');
+                if (existing.role === 'admin' && update.role && update.role !== 'admin' && users.filter(u => u.role === 'admin').length === 1) {
+                    throw new AuthError('至少需要保留一名管理员。');
+                }
+                let updated: StoredUser = { ...existing, ...update };
+                if (password) updated = await withPassword(updated, password);
+                await writeUsers(users.map(u => u.id === id ? updated : u));
+                return toUser(updated);
+            },
+            remove: async (id) => {
+                const users = await readUsers();
+                const existing = users.find(u => u.id === id);
+                if (existing?.role === 'admin' && users.filter(u => u.role === 'admin').length === 1) {
+                    throw new AuthError('至少需要保留一名管理员。');
+                }
+                await writeUsers(users.filter(u => u.id !== id));
+            },
+        },
+    };
+};
@@ -0,0 +1,47 @@
+import type { Role, User } from '../../types';
+
+export type Permission =
+    | 'knowledge:view'
+    | 'knowledge:edit' // Create and edit knowledge points, and move them between categories
+    | 'knowledge:publish' // Set or change the 'published' status
+    | 'knowledge:delete'
+    | 'category:edit'
+    | 'category:delete'
+    | 'coldStart:manage'
+    | 'nlu:edit' // Entities and intents
+    | 'conversations:manage' // Unanswered questions, history and conversation imports
+    | 'robot:edit'
+    | 'robot:delete'
+    | 'chat:use'
+    | 'handoff:handle' // Take over chat sessions as a human agent
+    | 'settings:manage'
+    | 'organizations:manage' // Create, rename and delete organizations
+    | 'users:manage';
+
+export const ROLE_LABELS: Record<Role, string> = {
+    admin: '管理员',
+    editor: '编辑',
+    reviewer: '审核员',
+    viewer: '访客',
+};
+
+const VIEWER_PERMISSIONS: Permission[] = ['knowledge:view', 'chat:use'];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    viewer: VIEWER_PERMISSIONS,
+    editor: [...VIEWER_PERMISSIONS, 'knowledge:edit', 'knowledge:delete', 'category:edit', 'coldStart:manage', 'nlu:edit', 'conversations:manage', 'handoff:handle'],
+    reviewer: [...VIEWER_PERMISSIONS, 'knowledge:edit', 'knowledge:publish', 'conversations:manage', 'handoff:handle'],
+    admin: [
+        ...VIEWER_PERMISSIONS, 'knowledge:edit', 'knowledge:publish', 'knowledge:delete', 'category:edit', 'category:delete',
+        'coldStart:manage', 'nlu:edit', 'conversations:manage', 'handoff:handle', 'robot:edit', 'robot:delete', 'settings:manage', 'organizations:manage', 'users:manage',
+    ],
+};
+
+/**
+ * Checks whether a user's role grants a permission.
+ * @param user The user, or null when nobody is logged in.
+ * @param permission The permission to check.
+ * @returns True if the action is allowed.
+ */
+export const hasPermission = (user: Pick<User, 'role'> | null, permission: Permission): boolean =>
+    !!user && ROLE_PERMISSIONS[user.role].includes(permission);
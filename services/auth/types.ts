@@ -0,0 +1,46 @@
+import type { Role, User } from '../../types';
+
+export interface NewUser {
+    username: string;
+    displayName: string;
+    role: Role;
+    password: string;
+}
+
+export type UserUpdate = Partial<Pick<User, 'displayName' | 'role'>> & { password?: string };
+
+export interface UserDirectory {
+    list(): Promise<User[]>;
+    create(user: NewUser): Promise<User>;
+    update(id: string, update: UserUpdate): Promise<User>;
+    remove(id: string): Promise<void>;
+}
+
+export interface AuthProvider {
+    /**
+     * Checks a username and password.
+     * @returns The authenticated user.
+     * @throws AuthError if the credentials are wrong.
+     */
+    authenticate(username: string, password: string): Promise<User>;
+    /**
+     * Looks up a user by ID, e.g. to restore a login after a reload.
+     * @returns The user, or null if it no longer exists.
+     */
+    getUser(id: string): Promise<User | null>;
+    /**
+     * User administration. Only providers that own their user store offer it; users of
+     * external providers (SSO, LDAP...) are managed there.
+     */
+    users?: UserDirectory;
+}
+
+/**
+ * Thrown when credentials are wrong or a user cannot be created or changed.
+ */
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
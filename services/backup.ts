@@ -0,0 +1,193 @@
+import type { Category, ChatSession, ColdStartItem, Entity, Intent, KnowledgePoint, KnowledgePointRevision, LlmConfig, Organization, Robot, UnansweredQuestion } from '../types';
+import { COLLECTION_NAMES, CollectionName } from './storage';
+import { DATA_VERSION, MigrationError, migrateImport } from './migrations';
+import { isRecord, isString } from './guards';
+import { SYSTEM_ENTITIES } from './nlu/systemEntities';
+
+// Identifies backup files, so that an export of a single collection is not restored as a
+// backup that happens to leave everything else empty.
+export const BACKUP_FORMAT = 'knowledge-base-backup';
+
+export interface BackupCollections {
+    categories: Category[];
+    knowledgePoints: KnowledgePoint[];
+    coldStartItems: ColdStartItem[];
+    chatSessions: ChatSession[];
+    unansweredQuestions: UnansweredQuestion[];
+    robots: Robot[];
+    entities: Entity[];
+    intents: Intent[];
+    knowledgePointRevisions: KnowledgePointRevision[];
+    organizations: Organization[];
+}
+
+export const COLLECTION_LABELS: Record<CollectionName, string> = {
+    categories: '分类',
+    knowledgePoints: '知识点',
+    coldStartItems: '冷启动条目',
+    chatSessions: '会话记录',
+    unansweredQuestions: '未解决问题',
+    robots: '机器人',
+    entities: '实体',
+    intents: '意图',
+    knowledgePointRevisions: '知识点修订历史',
+    organizations: '组织',
+};
+
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    createdAt: string; // ISO string
+    collections: BackupCollections;
+    llmConfig: Partial<LlmConfig>; // Without apiKey unless the backup was made with it
+}
+
+export interface RestorableBackup {
+    createdAt: string | null;
+    collections: BackupCollections; // Upgraded to DATA_VERSION; collections missing from the file are empty
+    missingCollections: CollectionName[];
+    llmConfig: Partial<LlmConfig> | null;
+}
+
+export interface IntegrityIssue {
+    collection: CollectionName;
+    severity: 'error' | 'warning'; // Errors make the data unusable; warnings are references the app tolerates
+    message: string;
+}
+
+const LLM_CONFIG_TYPES: Record<keyof LlmConfig, 'string' | 'number' | 'boolean'> = {
+    apiUrl: 'string',
+    apiKey: 'string',
+    modelName: 'string',
+    contextLength: 'number',
+    streamMode: 'boolean',
+    thinking: 'boolean',
+    embeddingModel: 'string',
+    embeddingApiUrl: 'string',
+};
+
+/**
+ * Collects every collection and the AI service configuration into one backup.
+ * @param collections All records of the knowledge base.
+ * @param llmConfig The AI service configuration.
+ * @param includeApiKey Whether the API key is written to the file.
+ * @returns The backup, ready to be saved as JSON.
+ */
+export const createBackup = (collections: BackupCollections, llmConfig: LlmConfig, includeApiKey: boolean): Backup => {
+    const { apiKey, ...withoutKey } = llmConfig;
+    return {
+        format: BACKUP_FORMAT,
+        schemaVersion: DATA_VERSION,
+        createdAt: new Date().toISOString(),
+        collections,
+        llmConfig: includeApiKey ? llmConfig : withoutKey,
+    };
+};
+
+/**
+ * Reads a backup file and upgrades its records to the current version.
+ * @param data The parsed file.
+ * @returns The records of every collection and the AI service configuration, if any.
+ * @throws MigrationError if the file is not a backup, is from a newer version or has invalid records.
+ */
+export const readBackup = (data: unknown): RestorableBackup => {
+    if (!isRecord(data) || data.format !== BACKUP_FORMAT || !isRecord(data.collections)) {
+        throw new MigrationError('文件不是知识库备份。', []);
+    }
+    const upgraded = migrateImport({ ...data.collections, schemaVersion: data.schemaVersion }, [...COLLECTION_NAMES]);
+    const collections = Object.fromEntries(COLLECTION_NAMES.map(name => [name, upgraded[name] ?? []])) as unknown as BackupCollections;
+
+    const rawConfig = isRecord(data.llmConfig) ? data.llmConfig : null;
+    const llmConfig = rawConfig && Object.fromEntries(
+        (Object.keys(LLM_CONFIG_TYPES) as (keyof LlmConfig)[])
+            .filter(key => typeof rawConfig[key] === LLM_CONFIG_TYPES[key])
+            .map(key => [key, rawConfig[key]])
+    ) as Partial<LlmConfig>;
+
+    return {
+        createdAt: isString(data.createdAt) ? data.createdAt : null,
+        collections,
+        missingCollections: COLLECTION_NAMES.filter(name => upgraded[name] === undefined),
+        llmConfig,
+    };
+};
+
+const MAX_LISTED_IDS = 5;
+
+/**
+ * Checks that the records of a knowledge base fit together: ids are unique within each
+ * collection, and references between collections point to existing records.
+ * @param collections The records to check, e.g. a backup merged with the collections that are kept.
+ * @returns The problems found; empty if there are none.
+ */
+export const checkIntegrity = (collections: BackupCollections): IntegrityIssue[] => {
+    const issues: IntegrityIssue[] = [];
+    const report = (collection: CollectionName, severity: IntegrityIssue['severity'], ids: string[], problem: string) => {
+        if (ids.length === 0) return;
+        const listed = ids.slice(0, MAX_LISTED_IDS).join('、');
+        const more = ids.length > MAX_LISTED_IDS ? ` 等 ${ids.length} 条` : '';
+        issues.push({ collection, severity, message: `${problem}：${listed}${more}` });
+    };
+
+    COLLECTION_NAMES.forEach(name => {
+        const seen = new Set<string>();
+        const duplicates = new Set<string>();
+        collections[name].forEach(record => (seen.has(record.id) ? duplicates.add(record.id) : seen.add(record.id)));
+        report(name, 'error', Array.from(duplicates), 'ID 重复');
+    });
+
+    const categoryById = new Map(collections.categories.map(c => [c.id, c]));
+    const kpIds = new Set(collections.knowledgePoints.map(kp => kp.id));
+    const entityIds = new Set([...collections.entities, ...SYSTEM_ENTITIES].map(e => e.id));
+    const robotIds = new Set(collections.robots.map(r => r.id));
+    const organizationIds = new Set(collections.organizations.map(o => o.id));
+
+    report('categories', 'warning',
+        collections.categories.filter(c => c.parentId !== null && !categoryById.has(c.parentId)).map(c => c.id),
+        '上级分类不存在');
+    report('categories', 'warning',
+        collections.categories.filter(category => {
+            const visited = new Set<string>();
+            for (let current: Category | undefined = category; current; current = current.parentId === null ? undefined : categoryById.get(current.parentId)) {
+                if (visited.has(current.id)) return true;
+                visited.add(current.id);
+            }
+            return false;
+        }).map(c => c.id),
+        '上级分类形成循环');
+
+    report('knowledgePoints', 'warning',
+        collections.knowledgePoints.filter(kp => !categoryById.has(kp.categoryId)).map(kp => kp.id),
+        '分类不存在');
+    report('knowledgePoints', 'warning',
+        collections.knowledgePoints.filter(kp => kp.relatedQuestionIds.some(id => !kpIds.has(id))).map(kp => kp.id),
+        '关联问题不存在');
+
+    report('intents', 'warning',
+        collections.intents.filter(i => i.knowledgePointId !== null && !kpIds.has(i.knowledgePointId)).map(i => i.id),
+        '关联的知识点不存在');
+    report('intents', 'warning',
+        collections.intents.filter(i => i.slots.some(slot => !entityIds.has(slot.entityId))
+            || i.utterances.some(u => u.entities.some(a => !entityIds.has(a.entityId)))).map(i => i.id),
+        '槽位或标注引用的实体不存在');
+
+    report('chatSessions', 'warning',
+        collections.chatSessions.filter(s => s.robotId !== null && !robotIds.has(s.robotId)).map(s => s.id),
+        '所属机器人不存在');
+    report('robots', 'warning',
+        collections.robots.filter(r => r.knowledgeScope.categoryIds.some(id => !categoryById.has(id))).map(r => r.id),
+        '知识范围中的分类不存在');
+    report('robots', 'warning',
+        collections.robots.filter(r => r.fallbackRobotId !== null && !robotIds.has(r.fallbackRobotId)).map(r => r.id),
+        '后备机器人不存在');
+
+    // An empty organization list is valid: the default organization is created on load.
+    if (organizationIds.size > 0) {
+        (['categories', 'knowledgePoints', 'robots', 'entities', 'intents', 'chatSessions', 'unansweredQuestions'] as const).forEach(name => {
+            const records: { id: string; organizationId: string | null }[] = collections[name];
+            report(name, 'warning', records.filter(r => r.organizationId !== null && !organizationIds.has(r.organizationId)).map(r => r.id), '所属组织不存在');
+        });
+    }
+
+    return issues;
+};
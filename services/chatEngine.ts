@@ -0,0 +1,201 @@
+import type { ClarificationOption, DialogueState, KnowledgePoint, Robot } from '../types';
+import { createMatcher, resolveAnswer, CLARIFICATION_LIMIT, Matcher, MatchResult } from './matcher';
+import { advanceDialogue, getSlotSuggestions, renderSlotAnswer, NluEngine } from './nlu';
+import { plainTextToHtml } from './html';
+import { isWithinSchedule } from './schedule';
+
+export const NO_ANSWER_TEXT = '抱歉，我找不到您问题的答案。请尝试换一种问法。';
+export const CLARIFICATION_TEXT = '您是想问以下哪个问题？';
+export const DEFAULT_WELCOME_MESSAGE = '您好！我是您的智能客服助手。';
+export const DEFAULT_GOODBYE_MESSAGE = '感谢您的咨询，再见！';
+export const DEFAULT_HANDOFF_MESSAGE = '正在为您转接人工客服，请稍候。';
+
+// Offered as suggestions when the knowledge base is still empty.
+const FALLBACK_STARTER_QUESTIONS = ['退货政策是什么？', '如何更新账单信息？'];
+
+export type ChatReply =
+    | { type: 'answer'; knowledgePoint: KnowledgePoint; text: string; relatedQuestions: KnowledgePoint[] } // text is HTML
+    | { type: 'clarify'; options: ClarificationOption[] }
+    | { type: 'prompt'; text: string; suggestions: string[] } // Asks for a missing slot; text is HTML
+    | { type: 'none' };
+
+/**
+ * Checks whether a knowledge point may answer customers: it is published and inside its
+ * effective period.
+ * @param kp The knowledge point.
+ * @param now The current time, in milliseconds.
+ * @returns True if the point is live.
+ */
+export const isPublishedNow = (kp: KnowledgePoint, now: number = Date.now()): boolean =>
+    kp.status === 'published' && isWithinSchedule(kp, now);
+
+/**
+ * Filters a knowledge base down to the points that may answer customers.
+ * @param knowledgePoints All knowledge points.
+ * @param now The current time, in milliseconds.
+ * @returns Only the published knowledge points that are in effect.
+ */
+export const getPublishedKnowledgePoints = (knowledgePoints: KnowledgePoint[], now: number = Date.now()): KnowledgePoint[] =>
+    knowledgePoints.filter(kp => isPublishedNow(kp, now));
+
+/**
+ * Picks the questions suggested when a conversation starts: the robot's own list if it has
+ * one, otherwise the first of its knowledge points.
+ * @param robot The robot.
+ * @param knowledgePoints The published knowledge points in the robot's scope.
+ * @returns The curated questions, or up to three standard questions.
+ */
+export const getStarterQuestions = (robot: Robot, knowledgePoints: KnowledgePoint[]): string[] => {
+    const curated = robot.starterQuestions.map(q => q.trim()).filter(Boolean);
+    if (curated.length > 0) return curated;
+    const starterQuestions = knowledgePoints.slice(0, 3).map(kp => kp.standardQuestion);
+    return starterQuestions.length > 0 ? starterQuestions : FALLBACK_STARTER_QUESTIONS;
+};
+
+/**
+ * Picks the reply for a question the robot cannot answer. A robot with several variants
+ * rotates through them, so that a customer who keeps missing does not read the same line.
+ * @param robot The robot.
+ * @param turn The number of customer messages in the session, counting the unanswered one.
+ * @returns The reply as HTML.
+ */
+export const getNoAnswerText = (robot: Robot, turn: number): string => {
+    const variants = robot.fallbackMessages.map(m => m.trim()).filter(Boolean);
+    return variants.length > 0 ? plainTextToHtml(variants[Math.max(turn - 1, 0) % variants.length]) : NO_ANSWER_TEXT;
+};
+
+/**
+ * Searches with the robot's matcher, degrading to BM25 if it fails (e.g. an unreachable
+ * embeddings API), so retrieval problems never break a conversation.
+ * @param matcher The robot's matcher.
+ * @param knowledgePoints The published knowledge points the matcher was built from.
+ * @param query The customer's question.
+ * @param limit The maximum number of results.
+ * @returns The ranked matches.
+ */
+export const searchKnowledge = async (
+    matcher: Matcher,
+    knowledgePoints: KnowledgePoint[],
+    query: string,
+    limit: number
+): Promise<MatchResult[]> => {
+    try {
+        return await matcher.search(query, limit);
+    } catch (error) {
+        console.error("Matcher failed, falling back to BM25:", error);
+        return createMatcher(knowledgePoints, 'bm25').search(query, limit);
+    }
+};
+
+/**
+ * Resolves a knowledge point's related question IDs, skipping deleted and unpublished points.
+ * @param kp The answered knowledge point.
+ * @param knowledgePoints All knowledge points.
+ * @returns The related knowledge points that may be shown to customers.
+ */
+export const findRelatedQuestions = (kp: KnowledgePoint, knowledgePoints: KnowledgePoint[]): KnowledgePoint[] => {
+    const byId = new Map(knowledgePoints.map(point => [point.id, point]));
+    return kp.relatedQuestionIds
+        .map(id => byId.get(id))
+        .filter((related): related is KnowledgePoint => !!related && isPublishedNow(related));
+};
+
+/**
+ * Answers a question from the knowledge base by retrieval, applying the robot's thresholds.
+ * This is the logic shared by the in-app chat and the HTTP chat server.
+ * @param query The customer's question.
+ * @param robot The robot answering.
+ * @param matcher A matcher over the published knowledge points.
+ * @param knowledgePoints All knowledge points, used to resolve related questions.
+ * @returns A direct answer, clarification options, or no answer.
+ */
+export const answerQuery = async (
+    query: string,
+    robot: Robot,
+    matcher: Matcher,
+    knowledgePoints: KnowledgePoint[]
+): Promise<ChatReply> => {
+    const published = getPublishedKnowledgePoints(knowledgePoints);
+    const decision = resolveAnswer(await searchKnowledge(matcher, published, query, CLARIFICATION_LIMIT + 1), robot.answerThresholds);
+
+    switch (decision.type) {
+        case 'answer':
+            return {
+                type: 'answer',
+                knowledgePoint: decision.match.knowledgePoint,
+                text: decision.match.knowledgePoint.answer,
+                relatedQuestions: findRelatedQuestions(decision.match.knowledgePoint, knowledgePoints),
+            };
+        case 'clarify':
+            return {
+                type: 'clarify',
+                options: decision.candidates.map(candidate => ({
+                    knowledgePointId: candidate.knowledgePoint.id,
+                    standardQuestion: candidate.knowledgePoint.standardQuestion,
+                    score: candidate.score,
+                })),
+            };
+        default:
+            return { type: 'none' };
+    }
+};
+
+/**
+ * Runs the NLU step before retrieval: recognizes an intent, asks for its missing slots one
+ * at a time, and answers from the intent's knowledge point once they are filled.
+ * @param query The customer's message.
+ * @param nlu The NLU engine built from the intents and entities.
+ * @param dialogueState The session's dialogue state after the previous turn.
+ * @param knowledgePoints All knowledge points.
+ * @returns A prompt or an answer, or no reply when the message is left to retrieval, with the session's next dialogue state.
+ */
+export const answerWithDialogue = (
+    query: string,
+    nlu: NluEngine,
+    dialogueState: DialogueState | null,
+    knowledgePoints: KnowledgePoint[]
+): { reply: ChatReply | null; dialogueState: DialogueState | null } => {
+    const turn = advanceDialogue(nlu, dialogueState, query, getPublishedKnowledgePoints(knowledgePoints));
+
+    switch (turn.type) {
+        case 'prompt':
+            return {
+                reply: { type: 'prompt', text: plainTextToHtml(turn.slot.prompt), suggestions: getSlotSuggestions(turn.slot, nlu.entities) },
+                dialogueState: turn.state,
+            };
+        case 'complete':
+            return {
+                reply: {
+                    type: 'answer',
+                    knowledgePoint: turn.knowledgePoint,
+                    text: renderSlotAnswer(turn.knowledgePoint.answer, turn.intent, turn.slotValues),
+                    relatedQuestions: findRelatedQuestions(turn.knowledgePoint, knowledgePoints),
+                },
+                dialogueState: null,
+            };
+        default:
+            return { reply: null, dialogueState: null };
+    }
+};
+
+// What one robot of a fallback chain answers from.
+export interface RobotKnowledge {
+    robot: Robot;
+    knowledgePoints: KnowledgePoint[]; // The points in the robot's scope
+    getMatcher: () => Matcher; // Called only when the robot is asked, so fallback matchers are built on demand
+}
+
+/**
+ * Answers a question by retrieval, asking each robot of a fallback chain in turn until one
+ * finds an answer or a clarification in its own scope.
+ * @param query The customer's question.
+ * @param chain The robot the customer talks to, followed by its fallbacks.
+ * @returns The first reply that is not 'none', or 'none' if no robot could answer.
+ */
+export const answerQueryWithFallback = async (query: string, chain: RobotKnowledge[]): Promise<ChatReply> => {
+    for (const { robot, knowledgePoints, getMatcher } of chain) {
+        const reply = await answerQuery(query, robot, getMatcher(), knowledgePoints);
+        if (reply.type !== 'none') return reply;
+    }
+    return { type: 'none' };
+};
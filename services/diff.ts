@@ -0,0 +1,100 @@
+export interface DiffPart {
+    type: 'equal' | 'added' | 'removed';
+    value: string;
+}
+
+// Above this many DP cells (after trimming the common prefix and suffix) the diff falls back
+// to "everything removed, everything added" instead of freezing the page.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Splits text into diff units: HTML tags, words of Latin letters or digits, runs of
+ * whitespace, and single characters for everything else (so Chinese diffs per character).
+ * @param text The text or HTML source.
+ * @returns The tokens, which concatenate back to the input.
+ */
+export const tokenizeForDiff = (text: string): string[] => text.match(/<[^>]*>|[A-Za-z0-9_]+|\s+|[\s\S]/g) || [];
+
+const mergeParts = (parts: DiffPart[]): DiffPart[] => parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+        last.value += part.value;
+    } else {
+        merged.push({ ...part });
+    }
+    return merged;
+}, []);
+
+/**
+ * Computes a longest-common-subsequence diff between two token lists.
+ * @param before The old tokens.
+ * @param after The new tokens.
+ * @returns The parts in order, with adjacent parts of the same type merged.
+ */
+export const diffTokens = (before: string[], after: string[]): DiffPart[] => {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix
+        && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    const head: DiffPart[] = prefix > 0 ? [{ type: 'equal', value: before.slice(0, prefix).join('') }] : [];
+    const tail: DiffPart[] = suffix > 0 ? [{ type: 'equal', value: before.slice(before.length - suffix).join('') }] : [];
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return mergeParts([...head, { type: 'removed', value: a.join('') }, { type: 'added', value: b.join('') }, ...tail]);
+    }
+
+    // lengths[i][j] is the LCS length of a[i..] and b[j..].
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: DiffPart[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            middle.push({ type: 'equal', value: a[i] });
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            middle.push({ type: 'removed', value: a[i++] });
+        } else {
+            middle.push({ type: 'added', value: b[j++] });
+        }
+    }
+    while (i < a.length) middle.push({ type: 'removed', value: a[i++] });
+    while (j < b.length) middle.push({ type: 'added', value: b[j++] });
+
+    return mergeParts([...head, ...middle, ...tail]).filter(part => part.value.length > 0);
+};
+
+/**
+ * Diffs two strings by words, tags and characters.
+ * @param before The old text.
+ * @param after The new text.
+ * @returns The diff parts.
+ */
+export const diffText = (before: string, after: string): DiffPart[] => diffTokens(tokenizeForDiff(before), tokenizeForDiff(after));
+
+/**
+ * Compares two lists as sets, keeping the order of each list.
+ * @param before The old items.
+ * @param after The new items.
+ * @returns The items only in `before`, only in `after`, and in both.
+ */
+export const diffLists = (before: string[], after: string[]): { removed: string[]; added: string[]; kept: string[] } => {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+    return {
+        removed: before.filter(item => !afterSet.has(item)),
+        added: after.filter(item => !beforeSet.has(item)),
+        kept: after.filter(item => beforeSet.has(item)),
+    };
+};
@@ -1,4 +1,5 @@
-import type { LlmConfig } from '../types';
+import type { LlmConfig, KnowledgePoint } from '../types';
+import { isNumber, isRecord, recordsOf, UnknownRecord } from './guards';
 
 const DEFAULT_LLM_CONFIG: LlmConfig = {
   apiUrl: 'https://open.bigmodel.cn/api/paas/v4/chat/completions',
@@ -7,8 +8,13 @@ const DEFAULT_LLM_CONFIG: LlmConfig = {
   contextLength: 32768,
   streamMode: true,
   thinking: false,
+  embeddingModel: '',
+  embeddingApiUrl: '',
 };
 
+// Inputs per request to the embeddings endpoint; most providers cap a batch at 64 or more.
+const EMBEDDING_BATCH_SIZE = 32;
+
 
 /**
  * Gets the full LLM configuration from local storage, merging with defaults.
@@ -126,6 +132,62 @@ async function callChatCompletions(messages: { role: string; content: string }[]
     }
 }
 
+/**
+ * Gets the embeddings endpoint, deriving it from the chat completions URL when not configured.
+ * @param config The LLM configuration.
+ * @returns The URL of the OpenAI-compatible embeddings endpoint.
+ */
+function getEmbeddingsUrl(config: LlmConfig): string {
+    if (config.embeddingApiUrl.trim()) {
+        return config.embeddingApiUrl.trim();
+    }
+    return config.apiUrl.replace(/\/chat\/completions\/?$/, '/embeddings');
+}
+
+/**
+ * Calls the OpenAI-compatible embeddings API, batching large inputs.
+ * @param inputs The texts to embed.
+ * @returns One vector per input, in the same order.
+ * @throws An error if the API call fails or the response is invalid.
+ */
+export async function callEmbeddings(inputs: string[]): Promise<number[][]> {
+    const config = getLlmConfig();
+    try {
+        validateHeaders(config); // Validate before making the request
+        const vectors: number[][] = [];
+        for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = inputs.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const response = await fetch(getEmbeddingsUrl(config), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${config.apiKey}`,
+                },
+                body: JSON.stringify({ model: config.embeddingModel, input: batch }),
+            });
+
+            if (!response.ok) {
+                const errorBody = await response.text();
+                throw new Error(`Embeddings request failed with status ${response.status}: ${errorBody}`);
+            }
+
+            const data: unknown = await response.json();
+            // Results carry an index and are not guaranteed to come back in input order.
+            const indexOf = (item: UnknownRecord) => isNumber(item.index) ? item.index : 0;
+            const embeddings = (isRecord(data) ? recordsOf(data.data) : [])
+                .sort((a, b) => indexOf(a) - indexOf(b))
+                .map(item => item.embedding);
+            if (embeddings.length !== batch.length || !embeddings.every((e): e is number[] => Array.isArray(e) && e.every(isNumber))) {
+                throw new Error('Invalid response structure from embeddings API');
+            }
+            vectors.push(...embeddings);
+        }
+        return vectors;
+    } catch (error) {
+        throw handleApiError(error);
+    }
+}
+
 /**
  * Tests the connection to the AI API endpoint and provides detailed feedback.
  * @returns A success message.
@@ -186,11 +248,13 @@ export const testApiConnection = async (): Promise<string> => {
  * Performs a chat completion, supporting both streaming and non-streaming modes.
  * @param messages The chat history.
  * @param onDelta A callback function to handle streaming text chunks.
+ * @param maxTokens Overrides the completion budget, which defaults to the configured context length.
  * @returns For non-streaming, the full response text. For streaming, void.
  */
 export const chat = async (
-    messages: { role: 'user' | 'assistant'; content: string }[],
-    onDelta: (chunk: string) => void
+    messages: { role: 'system' | 'user' | 'assistant'; content: string }[],
+    onDelta: (chunk: string) => void,
+    maxTokens?: number
 ): Promise<string | void> => {
     const config = getLlmConfig();
     try {
@@ -204,7 +268,7 @@ export const chat = async (
             model: config.modelName,
             messages: messages,
             stream: config.streamMode,
-            max_tokens: config.contextLength
+            max_tokens: maxTokens ?? config.contextLength
         };
 
         if (config.thinking) {
@@ -328,4 +392,96 @@ ${docContent}`
         console.error("Error generating Q&A pairs from document:", error);
         throw error; // Propagate error to UI
     }
-};
\ No newline at end of file
+};
+
+// Tokens kept free for the system prompt and the generated answer when packing RAG context.
+const RAG_ANSWER_TOKENS = 1024;
+
+/**
+ * Roughly estimates the token count of a text. CJK characters are counted as one token
+ * each and other text as one token per four characters, which errs on the safe side
+ * for the tokenizers of common Chinese models.
+ */
+function estimateTokens(text: string): number {
+    const cjkChars = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+    return cjkChars + Math.ceil((text.length - cjkChars) / 4);
+}
+
+function stripHtml(html: string): string {
+    return html
+        .replace(/<(br|\/p|\/div|\/li)[^>]*>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Packs knowledge points into a context block, in the given order, until the token budget runs out.
+ * @returns The context text and the IDs of the knowledge points that fit.
+ */
+function packKnowledgeContext(knowledgePoints: KnowledgePoint[], budget: number): { context: string; ids: string[] } {
+    const blocks: string[] = [];
+    const ids: string[] = [];
+    let used = 0;
+    for (const kp of knowledgePoints) {
+        const block = `[${kp.id}]\n问题：${kp.standardQuestion}\n答案：${stripHtml(kp.answer)}`;
+        const cost = estimateTokens(block);
+        if (used + cost > budget) break;
+        blocks.push(block);
+        ids.push(kp.id);
+        used += cost;
+    }
+    return { context: blocks.join('\n\n'), ids };
+}
+
+/**
+ * Generates an answer grounded on retrieved knowledge points, citing the IDs it used.
+ * @param question The customer's question.
+ * @param knowledgePoints Retrieved knowledge points, most relevant first.
+ * @param onDelta A callback function to handle streaming text chunks.
+ * @param persona The robot's tone and persona instructions, if any.
+ * @returns The full answer text and the IDs of the provided knowledge points it cites.
+ * @throws An error if no knowledge point fits in the context or the API call fails.
+ */
+export const generateGroundedAnswer = async (
+    question: string,
+    knowledgePoints: KnowledgePoint[],
+    onDelta: (chunk: string) => void,
+    persona = ''
+): Promise<{ text: string; citedIds: string[] }> => {
+    // The persona only sets the tone; the grounding and citation rules come after it so they still apply.
+    const systemPrompt = (persona.trim() ? `${persona.trim()}\n\n` : '')
+        + '你是一名客服助手。只能根据下面提供的知识条目回答用户的问题，不要编造条目中没有的信息。'
+        + '每句引用了条目内容的话后面，用方括号标注所依据条目的编号，例如 [kp-1]。'
+        + '如果这些条目不足以回答问题，请直接回答“抱歉，我无法根据现有知识回答这个问题。”';
+
+    const config = getLlmConfig();
+    const budget = config.contextLength - RAG_ANSWER_TOKENS - estimateTokens(systemPrompt) - estimateTokens(question);
+    const { context, ids } = packKnowledgeContext(knowledgePoints, budget);
+    if (ids.length === 0) {
+        throw new Error('上下文长度不足以容纳任何知识条目，请在“设置”中调大上下文长度。');
+    }
+
+    const messages: { role: 'system' | 'user'; content: string }[] = [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `知识条目：\n\n${context}\n\n用户问题：${question}` },
+    ];
+
+    let text = '';
+    const response = await chat(messages, (delta) => {
+        text += delta;
+        onDelta(delta);
+    }, RAG_ANSWER_TOKENS);
+    if (typeof response === 'string') {
+        text = response;
+    }
+
+    const cited = new Set(Array.from(text.matchAll(/\[([^\[\]\s]+)\]/g), match => match[1]));
+    return { text, citedIds: ids.filter(id => cited.has(id)) };
+};
@@ -0,0 +1,30 @@
+// Type guards for data from outside the app, such as files, storage and request bodies, which
+// is typed `unknown` until these checks have narrowed it.
+
+// A parsed JSON object whose fields have not been checked yet.
+export type UnknownRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is UnknownRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+export const isString = (value: unknown): value is string => typeof value === 'string';
+export const isOptionalString = (value: unknown): value is string | undefined => value === undefined || isString(value);
+export const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && !Number.isNaN(value);
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+export const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+    isString(value) && (options as readonly string[]).includes(value);
+
+/**
+ * Checks that a value is an array of objects that all pass a check.
+ * @param value The value to check.
+ * @param isItem The check for each item.
+ * @returns True if the value is such an array.
+ */
+export const isArrayOf = (value: unknown, isItem: (item: UnknownRecord) => boolean): boolean =>
+    Array.isArray(value) && value.every(item => isRecord(item) && isItem(item));
+
+/**
+ * Keeps the objects of a parsed array and drops everything else.
+ * @param value The value, expected to be an array.
+ * @returns The object items; empty if the value is not an array.
+ */
+export const recordsOf = (value: unknown): UnknownRecord[] => Array.isArray(value) ? value.filter(isRecord) : [];
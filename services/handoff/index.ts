@@ -0,0 +1,38 @@
+import type { ChatSession } from '../../types';
+import { createLocalMessageBus, MessageBus } from './messageBus';
+
+export { createLocalMessageBus } from './messageBus';
+export type { HandoffEvent, HandoffListener, MessageBus } from './messageBus';
+export { HANDOFF_REASON_LABELS, countTrailingNoAnswers, hasReachedNoAnswerLimit, isHandoffOpen, matchesHandoffKeyword, requestHandoff } from './rules';
+
+let bus: MessageBus | null = null;
+
+/**
+ * Gets the message bus shared by the chat and the agent console, creating the in-process
+ * bus on first use.
+ * @returns The shared bus.
+ */
+export const getMessageBus = (): MessageBus => {
+    if (!bus) {
+        bus = createLocalMessageBus();
+    }
+    return bus;
+};
+
+/**
+ * Replaces the shared message bus, e.g. with one that reaches agents on other machines.
+ * @param next The bus to use from now on.
+ */
+export const setMessageBus = (next: MessageBus) => {
+    bus = next;
+};
+
+/**
+ * Lists the sessions waiting for an agent, longest waiting first.
+ * @param sessions All chat sessions.
+ * @returns The waiting sessions.
+ */
+export const getHandoffQueue = (sessions: ChatSession[]): ChatSession[] =>
+    sessions
+        .filter(session => session.handoff?.status === 'waiting')
+        .sort((a, b) => a.handoff!.requestedAt.localeCompare(b.handoff!.requestedAt));
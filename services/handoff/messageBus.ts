@@ -0,0 +1,44 @@
+import type { ChatMessage, HandoffState } from '../../types';
+
+// What the customer's chat and the agent console tell each other about a session.
+export type HandoffEvent =
+    | { type: 'handoff'; sessionId: string; handoff: HandoffState } // Requested, taken over or closed
+    | { type: 'message'; sessionId: string; message: ChatMessage }; // Sent by the customer or the agent
+
+export type HandoffListener = (event: HandoffEvent) => void;
+
+/**
+ * Carries handoff events between the customer's chat and the agents. The app uses an
+ * in-process bus; a deployment with agents on other machines would provide one backed by a
+ * real transport such as a WebSocket.
+ */
+export interface MessageBus {
+    publish: (event: HandoffEvent) => void;
+    subscribe: (listener: HandoffListener) => () => void; // Returns the unsubscribe function
+}
+
+/**
+ * Creates a bus that delivers events synchronously to the listeners in this page.
+ * @returns The bus.
+ */
+export const createLocalMessageBus = (): MessageBus => {
+    const listeners = new Set<HandoffListener>();
+    return {
+        publish: (event) => {
+            // A failing listener must not keep the event from the others.
+            Array.from(listeners).forEach(listener => {
+                try {
+                    listener(event);
+                } catch (error) {
+                    console.error("Handoff listener failed:", error);
+                }
+            });
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+};
@@ -0,0 +1,69 @@
+import type { ChatMessage, HandoffReason, HandoffRules, HandoffState } from '../../types';
+
+export const HANDOFF_REASON_LABELS: Record<HandoffReason, string> = {
+    keyword: '用户要求转人工',
+    noAnswers: '连续未能回答',
+    negativeFeedback: '用户差评',
+};
+
+/**
+ * Checks whether a customer message asks for a human, ignoring case and spaces.
+ * @param rules The robot's handoff rules.
+ * @param text The customer's message.
+ * @returns True if the message contains one of the handoff keywords.
+ */
+export const matchesHandoffKeyword = (rules: HandoffRules, text: string): boolean => {
+    const normalize = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+    const message = normalize(text);
+    return rules.keywords.some(keyword => normalize(keyword) !== '' && message.includes(normalize(keyword)));
+};
+
+/**
+ * Counts the bot replies at the end of a conversation that found no answer. The customer's
+ * messages in between are skipped; any other bot reply ends the run.
+ * @param messages The conversation, oldest first.
+ * @returns The number of unanswered questions in a row.
+ */
+export const countTrailingNoAnswers = (messages: Pick<ChatMessage, 'sender' | 'unanswered'>[]): number => {
+    let count = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i];
+        if (message.sender === 'user') continue;
+        if (message.sender !== 'bot' || !message.unanswered) break;
+        count++;
+    }
+    return count;
+};
+
+/**
+ * Checks whether the bot has now missed often enough in a row to hand the session off.
+ * @param rules The robot's handoff rules.
+ * @param messages The conversation, including the latest reply.
+ * @returns True if the rule is on and the limit is reached.
+ */
+export const hasReachedNoAnswerLimit = (rules: HandoffRules, messages: Pick<ChatMessage, 'sender' | 'unanswered'>[]): boolean =>
+    rules.consecutiveNoAnswers > 0 && countTrailingNoAnswers(messages) >= rules.consecutiveNoAnswers;
+
+/**
+ * Checks whether a session is with a human, or waiting for one, so the bot must stay silent.
+ * @param handoff The session's handoff state.
+ * @returns True while the handoff is waiting or active.
+ */
+export const isHandoffOpen = (handoff: HandoffState | null | undefined): handoff is HandoffState =>
+    !!handoff && handoff.status !== 'closed';
+
+/**
+ * Starts a handoff; the session joins the end of the queue.
+ * @param reason Why the session is handed off.
+ * @param now The current time.
+ * @returns The waiting handoff state.
+ */
+export const requestHandoff = (reason: HandoffReason, now: Date = new Date()): HandoffState => ({
+    status: 'waiting',
+    reason,
+    requestedAt: now.toISOString(),
+    agentId: null,
+    agentName: null,
+    acceptedAt: null,
+    closedAt: null,
+});
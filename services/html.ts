@@ -0,0 +1,19 @@
+/**
+ * Escapes text for insertion into HTML.
+ * @param text The plain text.
+ * @returns The escaped text.
+ */
+export const escapeHtml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Converts untrusted plain text (LLM output, prompts typed by editors) to the HTML that
+ * chat messages are rendered as.
+ * @param text The plain text.
+ * @returns The escaped HTML, with line breaks kept.
+ */
+export const plainTextToHtml = (text: string): string => escapeHtml(text).replace(/\n/g, '<br>');
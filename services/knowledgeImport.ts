@@ -0,0 +1,227 @@
+import type { Category, KnowledgePoint } from '../types';
+
+// How an item in the file compares with the current knowledge base. An item is orphaned
+// when it refers to a category that is neither in the file nor in the knowledge base.
+export type ImportItemStatus = 'new' | 'changed' | 'identical' | 'orphaned';
+
+// 'keep' leaves the knowledge base as it is: a new item is not imported and an existing one
+// is not changed. 'overwrite' writes the item under its own id, and 'duplicate' under a new id.
+export type ImportResolution = 'keep' | 'overwrite' | 'duplicate';
+
+export interface ImportDiffItem<T> {
+    incoming: T;
+    existing?: T; // The record with the same id in the knowledge base
+    status: ImportItemStatus;
+    notes: string[]; // Changed fields and missing references
+}
+
+export interface KnowledgeImportDiff {
+    categories: ImportDiffItem<Category>[];
+    knowledgePoints: ImportDiffItem<KnowledgePoint>[];
+}
+
+export interface KnowledgeImportResolutions {
+    categories: Record<string, ImportResolution>; // By incoming id
+    knowledgePoints: Record<string, ImportResolution>;
+}
+
+export interface KnowledgeImportResult {
+    categories: Category[]; // Added, or replacing the category with the same id
+    created: KnowledgePoint[];
+    updated: { id: string; update: Partial<KnowledgePoint> }[];
+    remappedIds: { from: string; to: string; name: string }[]; // Items imported as duplicates or under an id another organization uses
+    adjustments: string[]; // References that had to be changed or dropped
+}
+
+interface KnowledgeBaseData {
+    categories: Category[];
+    knowledgePoints: KnowledgePoint[];
+}
+
+const KNOWLEDGE_POINT_FIELDS: { key: keyof KnowledgePoint; label: string }[] = [
+    { key: 'standardQuestion', label: '标准问题' },
+    { key: 'similarQuestions', label: '相似问题' },
+    { key: 'answer', label: '答案' },
+    { key: 'categoryId', label: '分类' },
+    { key: 'relatedQuestionIds', label: '关联问题' },
+    { key: 'status', label: '状态' },
+    { key: 'effectiveFrom', label: '生效时间' },
+    { key: 'expireAt', label: '失效时间' },
+    { key: 'tags', label: '标签' },
+];
+
+// A list field that is missing, like the tags of points from older files, counts as empty.
+const valuesEqual = (a: unknown, b: unknown): boolean =>
+    Array.isArray(a) || Array.isArray(b) ? ((a ?? []) as unknown[]).join('\n') === ((b ?? []) as unknown[]).join('\n') : a === b;
+
+/**
+ * Compares the records of an imported file with the current knowledge base by id.
+ * @param incoming The categories and knowledge points in the file.
+ * @param current The current knowledge base.
+ * @returns One item per record in the file, with its status and what differs.
+ */
+export const diffKnowledgeImport = (incoming: KnowledgeBaseData, current: KnowledgeBaseData): KnowledgeImportDiff => {
+    const knownCategoryIds = new Set([...incoming.categories, ...current.categories].map(c => c.id));
+    const knownKpIds = new Set([...incoming.knowledgePoints, ...current.knowledgePoints].map(kp => kp.id));
+
+    const categories = incoming.categories.map((category): ImportDiffItem<Category> => {
+        const existing = current.categories.find(c => c.id === category.id);
+        const notes: string[] = [];
+        if (existing && existing.name !== category.name) notes.push(`名称：${existing.name} → ${category.name}`);
+        if (existing && existing.parentId !== category.parentId) notes.push('上级分类已变更');
+        const orphaned = category.parentId !== null && !knownCategoryIds.has(category.parentId);
+        if (orphaned) notes.push(`上级分类 ${category.parentId} 不存在`);
+        const status = orphaned ? 'orphaned' : !existing ? 'new' : notes.length > 0 ? 'changed' : 'identical';
+        return { incoming: category, existing, status, notes };
+    });
+
+    const knowledgePoints = incoming.knowledgePoints.map((kp): ImportDiffItem<KnowledgePoint> => {
+        const existing = current.knowledgePoints.find(k => k.id === kp.id);
+        const changedFields = existing ? KNOWLEDGE_POINT_FIELDS.filter(({ key }) => !valuesEqual(existing[key], kp[key])) : [];
+        const notes = changedFields.length > 0 ? [`修改了${changedFields.map(f => f.label).join('、')}`] : [];
+        const orphaned = !knownCategoryIds.has(kp.categoryId);
+        if (orphaned) notes.push(`分类 ${kp.categoryId} 不存在`);
+        const dangling = kp.relatedQuestionIds.filter(id => !knownKpIds.has(id)).length;
+        if (dangling > 0) notes.push(`${dangling} 个关联问题不存在`);
+        const status = orphaned ? 'orphaned' : !existing ? 'new' : changedFields.length > 0 ? 'changed' : 'identical';
+        return { incoming: kp, existing, status, notes };
+    });
+
+    return { categories, knowledgePoints };
+};
+
+/**
+ * The resolution an item starts with: new and changed items are imported, identical ones are
+ * left alone, and orphaned ones are imported only if they do not replace an existing record.
+ * @param item The diff item.
+ * @returns The default resolution.
+ */
+export const getDefaultResolution = (item: ImportDiffItem<Category | KnowledgePoint>): ImportResolution => {
+    if (item.status === 'identical') return 'keep';
+    if (item.status === 'orphaned' && item.existing) return 'keep';
+    return 'overwrite';
+};
+
+/**
+ * Works out what importing the file with the chosen resolutions would write. Items imported
+ * as duplicates get new ids, and references to them from other imported items follow. A
+ * category whose parent is not imported is placed at the top level, a knowledge point whose
+ * category is not imported goes to the fallback category, and related questions that do not
+ * exist afterwards are dropped.
+ * @param diff The diff of the file against the knowledge base.
+ * @param resolutions The resolution of every item, by incoming id.
+ * @param current The current knowledge base.
+ * @param fallbackCategoryId Where knowledge points without a category go; if null they are not imported.
+ * @param reservedIds Ids used by other organizations. New items with one of them are imported under a new id.
+ * @returns The records to write and every reference that was changed.
+ */
+export const buildKnowledgeImport = (
+    diff: KnowledgeImportDiff,
+    resolutions: KnowledgeImportResolutions,
+    current: KnowledgeBaseData,
+    fallbackCategoryId: string | null,
+    reservedIds: Set<string> = new Set()
+): KnowledgeImportResult => {
+    const result: KnowledgeImportResult = { categories: [], created: [], updated: [], remappedIds: [], adjustments: [] };
+    const now = Date.now();
+    let generated = 0;
+    const newId = (prefix: string) => `${prefix}-${now}-${generated++}`;
+
+    // Where each incoming category id points after the import; ids of categories that are not
+    // imported and do not exist are left out.
+    const categoryIds = new Map<string, string>();
+    const writtenCategories: Category[] = [];
+    diff.categories.forEach(({ incoming, existing }) => {
+        const resolution = resolutions.categories[incoming.id] ?? 'keep';
+        if (resolution === 'keep') {
+            if (existing) categoryIds.set(incoming.id, incoming.id);
+            return;
+        }
+        const id = resolution === 'duplicate' || (!existing && reservedIds.has(incoming.id)) ? newId('cat') : incoming.id;
+        if (id !== incoming.id) result.remappedIds.push({ from: incoming.id, to: id, name: incoming.name });
+        categoryIds.set(incoming.id, id);
+        writtenCategories.push({ ...incoming, id });
+    });
+
+    const currentCategoryIds = new Set(current.categories.map(c => c.id));
+    const resolveCategory = (id: string) => categoryIds.get(id) ?? (currentCategoryIds.has(id) ? id : undefined);
+
+    const finalCategories = new Map(current.categories.map(c => [c.id, c]));
+    writtenCategories.forEach(category => {
+        let parentId = category.parentId === null ? null : resolveCategory(category.parentId) ?? null;
+        if (category.parentId !== null && parentId === null) {
+            result.adjustments.push(`分类“${category.name}”的上级分类不存在或未导入，已放到顶层`);
+        }
+        // Overwriting parents can close a loop with categories already in the knowledge base.
+        const visited = new Set([category.id]);
+        for (let ancestor = parentId; ancestor !== null; ancestor = finalCategories.get(ancestor)?.parentId ?? null) {
+            if (visited.has(ancestor)) {
+                result.adjustments.push(`分类“${category.name}”的上级分类会形成循环，已放到顶层`);
+                parentId = null;
+                break;
+            }
+            visited.add(ancestor);
+        }
+        const saved = { ...category, parentId };
+        finalCategories.set(saved.id, saved);
+        result.categories.push(saved);
+    });
+
+    // Decide which knowledge points are written before resolving related questions, so that
+    // links to points that end up skipped are dropped.
+    const kpIds = new Map<string, string>();
+    const writtenKps: { incoming: KnowledgePoint; existing?: KnowledgePoint; id: string; categoryId: string }[] = [];
+    diff.knowledgePoints.forEach(({ incoming, existing }) => {
+        const resolution = resolutions.knowledgePoints[incoming.id] ?? 'keep';
+        if (resolution === 'keep') {
+            if (existing) kpIds.set(incoming.id, incoming.id);
+            return;
+        }
+        let categoryId = resolveCategory(incoming.categoryId);
+        if (!categoryId) {
+            if (!fallbackCategoryId) {
+                result.adjustments.push(`知识点“${incoming.standardQuestion}”的分类不存在或未导入，已跳过`);
+                if (existing) kpIds.set(incoming.id, incoming.id);
+                return;
+            }
+            categoryId = fallbackCategoryId;
+            result.adjustments.push(`知识点“${incoming.standardQuestion}”的分类不存在或未导入，已放入默认分类`);
+        }
+        const id = resolution === 'duplicate' || (!existing && reservedIds.has(incoming.id)) ? newId('kp') : incoming.id;
+        if (id !== incoming.id) result.remappedIds.push({ from: incoming.id, to: id, name: incoming.standardQuestion });
+        kpIds.set(incoming.id, id);
+        writtenKps.push({ incoming, existing: resolution === 'overwrite' ? existing : undefined, id, categoryId });
+    });
+
+    const currentKpIds = new Set(current.knowledgePoints.map(kp => kp.id));
+    writtenKps.forEach(({ incoming, existing, id, categoryId }) => {
+        const resolved = incoming.relatedQuestionIds
+            .map(relatedId => kpIds.get(relatedId) ?? (currentKpIds.has(relatedId) ? relatedId : undefined))
+            .filter((relatedId): relatedId is string => relatedId !== undefined && relatedId !== id);
+        const relatedQuestionIds = Array.from(new Set(resolved));
+        const dropped = incoming.relatedQuestionIds.length - resolved.length;
+        if (dropped > 0) result.adjustments.push(`知识点“${incoming.standardQuestion}”移除了 ${dropped} 个不存在的关联问题`);
+
+        const { pendingRevision, ...content } = incoming;
+        if (existing) {
+            result.updated.push({
+                id,
+                update: {
+                    categoryId,
+                    standardQuestion: content.standardQuestion,
+                    similarQuestions: content.similarQuestions,
+                    answer: content.answer,
+                    relatedQuestionIds,
+                    status: content.status,
+                    effectiveFrom: content.effectiveFrom,
+                    expireAt: content.expireAt,
+                    tags: content.tags,
+                },
+            });
+        } else {
+            result.created.push({ ...content, id, categoryId, relatedQuestionIds });
+        }
+    });
+
+    return result;
+};
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createBm25Ranker } from './bm25Matcher';
+import { DEFAULT_ANSWER_THRESHOLDS } from './decision';
+
+const QUESTIONS = ['退货政策是什么', '我如何退货', '如何更新账单信息', '更改支付方式', '如何申请退款', '订单发货时间', '忘记密码怎么办', '发票怎么开', '退款多久到账', '会员如何续费'];
+const rank = createBm25Ranker(QUESTIONS, question => question, question => [question]);
+const topScore = (query: string) => rank(query, 1)[0]?.score ?? 0;
+
+test('a verbatim question scores 1', () => {
+    assert.equal(topScore('退货政策是什么'), 1);
+});
+
+test('one- and two-character queries are not answered directly', () => {
+    for (const query of ['退', '款', '退款', '账单']) {
+        assert.ok(topScore(query) < DEFAULT_ANSWER_THRESHOLDS.direct, `“${query}” scored ${topScore(query)}`);
+    }
+});
+
+test('a longer query that contains a question still matches it', () => {
+    const [best] = rank('我想问一下怎么申请退款呢', 1);
+    assert.equal(best.text, '如何申请退款');
+    assert.ok(best.score >= DEFAULT_ANSWER_THRESHOLDS.clarify);
+});
@@ -0,0 +1,120 @@
+import type { KnowledgePoint } from '../../types';
+import type { Matcher, MatchResult } from './types';
+import { tokenize } from './normalize';
+
+export interface Bm25Options {
+    k1?: number;
+    b?: number;
+    normalize?: (text: string) => string; // Rewrites indexed texts and queries before tokenizing
+}
+
+interface TermDocument {
+    termFreqs: Map<string, number>;
+    length: number;
+}
+
+interface TextDocument<T> extends TermDocument {
+    item: T;
+    text: string;
+    selfScore: number; // The document's score against itself
+}
+
+export interface RankedItem<T> {
+    item: T;
+    score: number; // Normalized to [0, 1]
+    text: string; // The text of the item that scored best
+}
+
+const toTermDocument = (text: string): TermDocument => {
+    const terms = tokenize(text);
+    const termFreqs = new Map<string, number>();
+    terms.forEach(term => termFreqs.set(term, (termFreqs.get(term) || 0) + 1));
+    return { termFreqs, length: terms.length };
+};
+
+/**
+ * Creates a BM25 ranker over character n-grams. Every text of an item is indexed as its
+ * own document, and an item scores as its best text. Raw BM25 scores are divided by the
+ * geometric mean of the query's and the document's scores against themselves, so a verbatim
+ * match scores 1 regardless of corpus size, and a query much shorter than the text it
+ * matches (such as a single character) scores low however well its few terms match.
+ * @param items The items to index.
+ * @param getId Identifies an item, so that its texts are ranked together.
+ * @param getTexts The texts an item is matched by.
+ * @param options BM25 tuning parameters.
+ * @returns A function ranking the items against a query, best first.
+ */
+export const createBm25Ranker = <T>(
+    items: T[],
+    getId: (item: T) => string,
+    getTexts: (item: T) => string[],
+    options: Bm25Options = {}
+): ((query: string, limit: number) => RankedItem<T>[]) => {
+    const { k1 = 1.2, b = 0.75, normalize = (text: string) => text } = options;
+
+    const documents: TextDocument<T>[] = items.flatMap(item =>
+        getTexts(item)
+            .filter(text => text.trim())
+            .map(text => ({ item, text, ...toTermDocument(normalize(text)), selfScore: 0 }))
+    );
+
+    const docFreqs = new Map<string, number>();
+    documents.forEach(doc => {
+        doc.termFreqs.forEach((_, term) => docFreqs.set(term, (docFreqs.get(term) || 0) + 1));
+    });
+    const avgLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+
+    const idf = (term: string): number => {
+        const df = docFreqs.get(term) || 0;
+        return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+    };
+
+    const score = (queryTerms: string[], doc: TermDocument): number => {
+        return queryTerms.reduce((sum, term) => {
+            const tf = doc.termFreqs.get(term) || 0;
+            if (tf === 0) return sum;
+            const lengthNorm = 1 - b + b * (doc.length / avgLength);
+            return sum + idf(term) * (tf * (k1 + 1)) / (tf + k1 * lengthNorm);
+        }, 0);
+    };
+
+    documents.forEach(doc => { doc.selfScore = score(Array.from(doc.termFreqs.keys()), doc); });
+
+    return (query, limit) => {
+        const queryDoc = toTermDocument(normalize(query));
+        const queryTerms = Array.from(queryDoc.termFreqs.keys());
+        const selfScore = score(queryTerms, queryDoc);
+        if (selfScore === 0) return [];
+
+        const best = new Map<string, RankedItem<T>>();
+        documents.forEach(doc => {
+            if (doc.selfScore === 0) return;
+            const normalized = Math.min(1, score(queryTerms, doc) / Math.sqrt(selfScore * doc.selfScore));
+            if (normalized <= 0) return;
+            const id = getId(doc.item);
+            const current = best.get(id);
+            if (!current || normalized > current.score) {
+                best.set(id, { item: doc.item, score: normalized, text: doc.text });
+            }
+        });
+
+        return Array.from(best.values())
+            .sort((a, c) => c.score - a.score)
+            .slice(0, limit);
+    };
+};
+
+/**
+ * Creates a BM25 matcher over character n-grams. Every standard and similar question
+ * is indexed as its own document, and a knowledge point scores as its best question.
+ * @param knowledgePoints The knowledge points to index. Callers decide which statuses to include.
+ * @param options BM25 tuning parameters.
+ * @returns A matcher over the given knowledge points.
+ */
+export const createBm25Matcher = (knowledgePoints: KnowledgePoint[], options: Bm25Options = {}): Matcher => {
+    const rank = createBm25Ranker(knowledgePoints, kp => kp.id, kp => [kp.standardQuestion, ...kp.similarQuestions], options);
+    const search = (query: string, limit: number): MatchResult[] =>
+        rank(query, limit).map(({ item, score, text }) => ({ knowledgePoint: item, score, matchedQuestion: text }));
+
+    return { search: async (query, limit = 5) => search(query, limit) };
+};
@@ -0,0 +1,40 @@
+import type { AnswerThresholds } from '../../types';
+import type { MatchResult } from './types';
+
+export const DEFAULT_ANSWER_THRESHOLDS: AnswerThresholds = {
+    direct: 0.75,
+    clarify: 0.4,
+    margin: 0.1,
+};
+
+// At most this many candidates are offered in a clarification turn.
+export const CLARIFICATION_LIMIT = 3;
+
+export type AnswerDecision =
+    | { type: 'answer'; match: MatchResult }
+    | { type: 'clarify'; candidates: MatchResult[] }
+    | { type: 'none' };
+
+/**
+ * Decides whether ranked matches are confident enough to answer, need a clarification
+ * turn, or should be treated as unanswered.
+ * @param results Matcher results sorted by descending score.
+ * @param thresholds The answering robot's thresholds.
+ * @returns The decision, with the candidates to offer when clarifying.
+ */
+export const resolveAnswer = (results: MatchResult[], thresholds: AnswerThresholds): AnswerDecision => {
+    const [top, runnerUp] = results;
+    if (!top || top.score < thresholds.clarify) {
+        return { type: 'none' };
+    }
+
+    const isAmbiguous = !!runnerUp && runnerUp.score >= thresholds.clarify && top.score - runnerUp.score < thresholds.margin;
+    if (top.score >= thresholds.direct && !isAmbiguous) {
+        return { type: 'answer', match: top };
+    }
+
+    const candidates = results
+        .filter(result => result.score >= thresholds.clarify)
+        .slice(0, CLARIFICATION_LIMIT);
+    return { type: 'clarify', candidates };
+};
@@ -0,0 +1,70 @@
+import { callEmbeddings, getLlmConfig } from '../geminiService';
+import { tokenize } from './normalize';
+
+export interface Embedder {
+    id: string; // Vectors from embedders with different ids are not comparable
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASHING_DIMENSIONS = 256;
+
+// 32-bit FNV-1a, so the same term always lands in the same bucket on every machine.
+const fnv1a = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Embeds text by hashing its n-gram terms into a fixed number of signed buckets.
+ * Deterministic and offline, so it backs tests and setups without an embeddings API.
+ * @param text The text to embed.
+ * @returns An L2-normalized vector, or a zero vector when the text has no terms.
+ */
+export const hashingEmbed = (text: string): number[] => {
+    const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+    tokenize(text).forEach(term => {
+        const hash = fnv1a(term);
+        const sign = (hash >>> 16) & 1 ? -1 : 1;
+        // Single Han characters are weaker evidence than bigrams and whole words.
+        const weight = Array.from(term).length === 1 ? 0.5 : 1;
+        vector[hash % HASHING_DIMENSIONS] += sign * weight;
+    });
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+};
+
+/**
+ * Computes the cosine similarity of two vectors.
+ * @returns A value in [-1, 1], or 0 when either vector is zero or the lengths differ.
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export const hashingEmbedder: Embedder = {
+    id: `hashing-${HASHING_DIMENSIONS}`,
+    embed: async (texts) => texts.map(hashingEmbed),
+};
+
+/**
+ * Gets the embedder selected in the LLM settings.
+ * @returns The API-backed embedder when an embedding model is configured, otherwise the hashing embedder.
+ */
+export const getEmbedder = (): Embedder => {
+    const { embeddingModel } = getLlmConfig();
+    if (!embeddingModel.trim()) {
+        return hashingEmbedder;
+    }
+    return { id: `remote:${embeddingModel.trim()}`, embed: callEmbeddings };
+};
@@ -0,0 +1,33 @@
+import type { KnowledgePoint, MatcherType } from '../../types';
+import type { Matcher } from './types';
+import { createBm25Matcher } from './bm25Matcher';
+import { createVectorMatcher } from './vectorMatcher';
+
+export type { Matcher, MatchResult } from './types';
+export type { Bm25Options, RankedItem } from './bm25Matcher';
+export { createBm25Matcher, createBm25Ranker } from './bm25Matcher';
+export { normalizeText, tokenize } from './normalize';
+export { createVectorMatcher } from './vectorMatcher';
+export { syncVectorIndex } from './vectorIndex';
+export { hashingEmbed, hashingEmbedder, cosineSimilarity, getEmbedder } from './embedder';
+export type { Embedder } from './embedder';
+export type { MatcherType } from '../../types';
+export { DEFAULT_ANSWER_THRESHOLDS, CLARIFICATION_LIMIT, resolveAnswer } from './decision';
+export type { AnswerDecision } from './decision';
+
+/**
+ * Creates the retrieval engine shared by the chat, the unanswered-question triage and exports.
+ * @param knowledgePoints The knowledge points to index.
+ * @param type Which matcher implementation to use.
+ * @param normalize Rewrites text before scoring, e.g. entity synonyms to their canonical values.
+ * @returns A matcher over the given knowledge points.
+ */
+export const createMatcher = (knowledgePoints: KnowledgePoint[], type: MatcherType = 'bm25', normalize?: (text: string) => string): Matcher => {
+    switch (type) {
+        case 'vector':
+            return createVectorMatcher(knowledgePoints, normalize);
+        case 'bm25':
+        default:
+            return createBm25Matcher(knowledgePoints, { normalize });
+    }
+};
@@ -0,0 +1,51 @@
+// Han characters carry meaning on their own, so they are indexed as character n-grams.
+// Everything else that is a letter or a digit (Latin, kana, Hangul...) is kept as whole words.
+const TOKEN_REGEX = /\p{Script=Han}+|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu;
+const HAN_REGEX = /^\p{Script=Han}/u;
+// Particles and question words that appear in almost every customer question. They are
+// treated as separators inside Han runs so they neither score nor form bigrams.
+const STOP_CHARS = new Set(Array.from('的了吗呢吧啊呀么什怎如何我你您是'));
+
+/**
+ * Normalizes text before matching: folds full-width characters to half-width,
+ * lowercases, and replaces punctuation and symbols with spaces.
+ * @param text The raw text.
+ * @returns The normalized text.
+ */
+export const normalizeText = (text: string): string => {
+    return text
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[\p{P}\p{S}\s]+/gu, ' ')
+        .trim();
+};
+
+/**
+ * Splits text into index terms: character unigrams and bigrams for Han runs,
+ * whole words for everything else.
+ * @param text The raw text.
+ * @returns The list of terms, with repetitions.
+ */
+export const tokenize = (text: string): string[] => {
+    const terms: string[] = [];
+    const runs = normalizeText(text).match(TOKEN_REGEX) || [];
+    runs.forEach(run => {
+        if (!HAN_REGEX.test(run)) {
+            terms.push(run);
+            return;
+        }
+        let previous: string | null = null;
+        Array.from(run).forEach(char => {
+            if (STOP_CHARS.has(char)) {
+                previous = null;
+                return;
+            }
+            terms.push(char);
+            if (previous) {
+                terms.push(previous + char);
+            }
+            previous = char;
+        });
+    });
+    return terms;
+};
@@ -0,0 +1,18 @@
+import type { KnowledgePoint } from '../../types';
+
+export interface MatchResult {
+  knowledgePoint: KnowledgePoint;
+  score: number; // Normalized to 0..1, 1 means the query matches a question exactly
+  matchedQuestion: string; // The standard or similar question that produced the score
+}
+
+export interface Matcher {
+  /**
+   * Ranks knowledge points against a free-text query.
+   * @param query The raw user input.
+   * @param limit The maximum number of results to return.
+   * @returns Results sorted by descending score, at most one per knowledge point.
+   * Asynchronous because some implementations embed the query through an API.
+   */
+  search(query: string, limit?: number): Promise<MatchResult[]>;
+}
@@ -0,0 +1,103 @@
+import type { KnowledgePoint } from '../../types';
+import { Embedder, getEmbedder } from './embedder';
+import { getStorageAdapter } from '../storage';
+
+interface StoredVectorIndex {
+    embedderId: string;
+    vectors: Record<string, number[]>; // Keyed by question text, so identical questions share a vector
+}
+
+const STORAGE_KEY = 'vectorIndex';
+
+let index: StoredVectorIndex | null = null;
+
+const loadIndex = async (embedderId: string): Promise<StoredVectorIndex> => {
+    if (index && index.embedderId === embedderId) {
+        return index;
+    }
+    try {
+        const stored = await getStorageAdapter().readValue<StoredVectorIndex>(STORAGE_KEY);
+        // Vectors from another embedder live in a different space and cannot be reused.
+        index = stored && stored.embedderId === embedderId ? stored : { embedderId, vectors: {} };
+    } catch (e) {
+        console.error("Failed to load vector index from storage", e);
+        index = { embedderId, vectors: {} };
+    }
+    return index;
+};
+
+const saveIndex = async (current: StoredVectorIndex) => {
+    try {
+        await getStorageAdapter().writeValue(STORAGE_KEY, current);
+    } catch (e) {
+        console.error("Failed to save vector index to storage", e);
+    }
+};
+
+// Four decimals keep cosine scores stable while roughly halving the stored size.
+const roundVector = (vector: number[]): number[] => vector.map(v => Math.round(v * 1e4) / 1e4);
+
+const collectQuestions = (knowledgePoints: KnowledgePoint[], getNormalizer: (kp: KnowledgePoint) => (text: string) => string): string[] => {
+    return Array.from(new Set(
+        knowledgePoints.flatMap(kp => {
+            const questions = [kp.standardQuestion, ...kp.similarQuestions].filter(q => q.trim());
+            const normalize = getNormalizer(kp);
+            return [...questions, ...questions.map(normalize)];
+        })
+    ));
+};
+
+/**
+ * Gets vectors for the given texts, embedding and persisting only the ones not indexed yet.
+ * @param texts The question texts to look up.
+ * @param embedder The embedder to use; defaults to the one selected in the settings.
+ * @returns A map from text to vector.
+ */
+export const getQuestionVectors = async (texts: string[], embedder: Embedder = getEmbedder()): Promise<Map<string, number[]>> => {
+    const current = await loadIndex(embedder.id);
+    const missing = Array.from(new Set(texts.filter(text => !current.vectors[text])));
+    if (missing.length > 0) {
+        const vectors = await embedder.embed(missing);
+        missing.forEach((text, i) => { current.vectors[text] = roundVector(vectors[i]); });
+        await saveIndex(current);
+    }
+    return new Map(texts.map(text => [text, current.vectors[text]]));
+};
+
+// Runs of syncVectorIndex, chained so that an older run never prunes what a newer one embedded.
+let pendingSync: Promise<void> = Promise.resolve();
+let latestSyncId = 0;
+
+const runSync = async (knowledgePoints: KnowledgePoint[], getNormalizer: (kp: KnowledgePoint) => (text: string) => string): Promise<void> => {
+    const embedder = getEmbedder();
+    const questions = collectQuestions(knowledgePoints, getNormalizer);
+    await getQuestionVectors(questions, embedder);
+
+    const current = await loadIndex(embedder.id);
+    const live = new Set(questions);
+    const stale = Object.keys(current.vectors).filter(text => !live.has(text));
+    if (stale.length > 0) {
+        stale.forEach(text => { delete current.vectors[text]; });
+        await saveIndex(current);
+    }
+};
+
+/**
+ * Brings the index in line with the knowledge base: embeds new or edited questions, as
+ * written and as the chat matcher normalizes them, and drops all other vectors. Unchanged
+ * questions are not re-embedded. Calls run one after another; a call still waiting when a
+ * newer one is made is skipped.
+ * @param knowledgePoints Every knowledge point in the knowledge base.
+ * @param getNormalizer The synonym rewriting that applies to a point, e.g. that of its organization.
+ */
+export const syncVectorIndex = (
+    knowledgePoints: KnowledgePoint[],
+    getNormalizer: (kp: KnowledgePoint) => (text: string) => string = () => text => text
+): Promise<void> => {
+    const syncId = ++latestSyncId;
+    const run = pendingSync
+        .catch(() => undefined)
+        .then(() => syncId === latestSyncId ? runSync(knowledgePoints, getNormalizer) : undefined);
+    pendingSync = run;
+    return run;
+};
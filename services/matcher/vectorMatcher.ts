@@ -0,0 +1,48 @@
+import type { KnowledgePoint } from '../../types';
+import type { Matcher, MatchResult } from './types';
+import { cosineSimilarity, getEmbedder } from './embedder';
+import { getQuestionVectors } from './vectorIndex';
+
+/**
+ * Creates a matcher that ranks knowledge points by the cosine similarity between the
+ * query embedding and their question embeddings from the persisted vector index.
+ * Negative similarities are clamped to 0 so scores share the 0..1 range of other matchers.
+ * @param knowledgePoints The knowledge points to search. Callers decide which statuses to include.
+ * @param normalize Rewrites the query and the questions before embedding, like the BM25 matcher.
+ * @returns A matcher over the given knowledge points.
+ */
+export const createVectorMatcher = (knowledgePoints: KnowledgePoint[], normalize: (text: string) => string = text => text): Matcher => {
+    const search = async (query: string, limit = 5): Promise<MatchResult[]> => {
+        if (!query.trim() || knowledgePoints.length === 0) return [];
+
+        const embedder = getEmbedder();
+        const pairs = knowledgePoints.flatMap(kp =>
+            [kp.standardQuestion, ...kp.similarQuestions]
+                .filter(question => question.trim())
+                .map(question => ({ kp, question, normalized: normalize(question) }))
+        );
+        // The index is keyed by the normalized text, so changed rewriting rules embed the new text.
+        const [[queryVector], vectors] = await Promise.all([
+            embedder.embed([normalize(query)]),
+            getQuestionVectors(pairs.map(p => p.normalized), embedder),
+        ]);
+
+        const best = new Map<string, MatchResult>();
+        pairs.forEach(({ kp, question, normalized }) => {
+            const vector = vectors.get(normalized);
+            if (!vector) return;
+            const score = Math.max(0, cosineSimilarity(queryVector, vector));
+            if (score <= 0) return;
+            const current = best.get(kp.id);
+            if (!current || score > current.score) {
+                best.set(kp.id, { knowledgePoint: kp, score, matchedQuestion: question });
+            }
+        });
+
+        return Array.from(best.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    };
+
+    return { search };
+};
@@ -0,0 +1,308 @@
+import type { CollectionName } from './storage/types';
+import { isArrayOf, isBoolean, isNumber, isOneOf, isOptionalString, isRecord, isString, isStringArray, UnknownRecord } from './guards';
+
+// The version of the data shape described by types.ts. Bump it together with a new
+// entry in MIGRATIONS whenever a persisted type gains, renames or reshapes a field.
+export const DATA_VERSION = 9;
+
+type RecordMigration = (record: UnknownRecord) => UnknownRecord;
+
+interface Migration {
+    version: number; // The version records have after this step
+    description: string;
+    migrate: Partial<Record<CollectionName, RecordMigration>>;
+}
+
+// Steps run in order from the version the data was saved with. Never edit or remove
+// a released step: data saved at any older version must still upgrade correctly.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Backfill fields added after the first release',
+        migrate: {
+            categories: (c) => ({ parentId: null, ...c }),
+            knowledgePoints: (kp) => ({
+                similarQuestions: [],
+                relatedQuestionIds: [],
+                createdAt: new Date(0).toISOString(),
+                status: 'published',
+                createdBy: '未知',
+                ...kp,
+            }),
+            chatSessions: (s) => ({ robotId: null, messages: [], ...s }),
+            unansweredQuestions: (q) => ({ robotId: null, ...q }),
+            robots: (r) => ({ avatar: '', welcomeMessage: '', silenceThresholdDays: 30, ...r }),
+            entities: (e) => ({ description: '', type: 'enum', members: [], regex: null, ...e }),
+            intents: (i) => ({ description: '', utterances: [], ...i }),
+        },
+    },
+    {
+        version: 2,
+        description: 'Robots gain answer thresholds, answer mode and matcher type',
+        migrate: {
+            robots: (r) => ({
+                answerThresholds: { direct: 0.75, clarify: 0.4, margin: 0.1 },
+                answerMode: 'retrieval',
+                matcherType: 'bm25',
+                ...r,
+            }),
+        },
+    },
+    {
+        version: 3,
+        description: 'Intents gain slots and a linked knowledge point',
+        migrate: {
+            intents: (i) => ({ slots: [], knowledgePointId: null, ...i }),
+        },
+    },
+    {
+        version: 4,
+        description: 'Entity members gain synonyms and a canonical value; entities gain normalization rules',
+        migrate: {
+            entities: (e) => ({
+                normalization: { ignoreCase: true, foldWidth: true },
+                ...e,
+                members: Array.isArray(e.members) ? e.members.map((m: unknown) => (isRecord(m) ? { synonyms: [], canonicalValue: null, ...m } : m)) : e.members,
+            }),
+        },
+    },
+    {
+        version: 5,
+        description: 'Intent utterances become objects carrying entity annotations',
+        migrate: {
+            intents: (i) => ({
+                ...i,
+                utterances: Array.isArray(i.utterances)
+                    ? i.utterances.map((u: unknown) => (typeof u === 'string' ? { text: u, entities: [] } : u))
+                    : i.utterances,
+            }),
+        },
+    },
+    {
+        version: 6,
+        description: 'Records belong to an organization; existing data goes to the default one',
+        migrate: {
+            // The id of DEFAULT_ORGANIZATION in services/organizations, spelled out so that this step never changes.
+            categories: (c) => ({ organizationId: 'org-default', ...c }),
+            knowledgePoints: (kp) => ({ organizationId: 'org-default', ...kp }),
+            chatSessions: (s) => ({ ...s, organizationId: typeof s.organizationId === 'string' ? s.organizationId : 'org-default' }),
+            unansweredQuestions: (q) => ({ ...q, organizationId: typeof q.organizationId === 'string' ? q.organizationId : 'org-default' }),
+            robots: (r) => ({ organizationId: 'org-default', ...r }),
+            entities: (e) => ({ organizationId: 'org-default', ...e }),
+            intents: (i) => ({ organizationId: 'org-default', ...i }),
+        },
+    },
+    {
+        version: 7,
+        description: 'Robots get a knowledge scope, unrestricted for existing robots, and an optional fallback robot',
+        migrate: {
+            robots: (r) => ({ knowledgeScope: { categoryIds: [], tags: [] }, fallbackRobotId: null, ...r }),
+        },
+    },
+    {
+        version: 8,
+        description: 'Robots get goodbye, handoff and no-answer messages, curated starter questions and an LLM system prompt',
+        migrate: {
+            robots: (r) => ({ goodbyeMessage: '', handoffMessage: '', fallbackMessages: [], starterQuestions: [], systemPrompt: '', ...r }),
+        },
+    },
+    {
+        version: 9,
+        description: 'Robots get handoff rules; customers asking for a human are handed off, the other rules start off',
+        migrate: {
+            robots: (r) => ({ handoffRules: { consecutiveNoAnswers: 0, keywords: ['转人工', '人工客服'], onNegativeFeedback: false }, ...r }),
+        },
+    },
+];
+
+// Each validator returns the names of the fields that do not have the expected shape.
+const VALIDATORS: Record<CollectionName, (record: UnknownRecord) => string[]> = {
+    categories: (c) => [
+        !isString(c.name) && 'name',
+        !(c.parentId === null || isString(c.parentId)) && 'parentId',
+        !isString(c.organizationId) && 'organizationId',
+    ].filter(isString),
+    knowledgePoints: (kp) => [
+        !isString(kp.categoryId) && 'categoryId',
+        !isString(kp.standardQuestion) && 'standardQuestion',
+        !isStringArray(kp.similarQuestions) && 'similarQuestions',
+        !isString(kp.answer) && 'answer',
+        !isStringArray(kp.relatedQuestionIds) && 'relatedQuestionIds',
+        !isString(kp.createdAt) && 'createdAt',
+        !isOneOf(kp.status, ['published', 'draft', 'archived']) && 'status',
+        !isString(kp.createdBy) && 'createdBy',
+        !isOptionalString(kp.effectiveFrom) && 'effectiveFrom',
+        !isOptionalString(kp.expireAt) && 'expireAt',
+        kp.tags !== undefined && !isStringArray(kp.tags) && 'tags',
+        kp.pendingRevision !== undefined && !(isRecord(kp.pendingRevision) && isOneOf(kp.pendingRevision.state, ['pending', 'rejected'])
+            && isRecord(kp.pendingRevision.content) && isString(kp.pendingRevision.content.standardQuestion)
+            && isString(kp.pendingRevision.content.answer)) && 'pendingRevision',
+        !isString(kp.organizationId) && 'organizationId',
+    ].filter(isString),
+    coldStartItems: (item) => [
+        !isString(item.generatedQuestion) && 'generatedQuestion',
+        !isString(item.generatedAnswer) && 'generatedAnswer',
+    ].filter(isString),
+    chatSessions: (s) => [
+        !isString(s.userId) && 'userId',
+        !isString(s.startTime) && 'startTime',
+        !isArrayOf(s.messages, m => isString(m.id) && isString(m.text) && isOneOf(m.sender, ['user', 'bot', 'agent'])) && 'messages',
+        s.handoff != null && !(isRecord(s.handoff) && isOneOf(s.handoff.status, ['waiting', 'active', 'closed'])
+            && isOneOf(s.handoff.reason, ['keyword', 'noAnswers', 'negativeFeedback']) && isString(s.handoff.requestedAt)) && 'handoff',
+        !isString(s.organizationId) && 'organizationId',
+    ].filter(isString),
+    unansweredQuestions: (q) => [
+        !isString(q.question) && 'question',
+        !isString(q.sessionId) && 'sessionId',
+        !isString(q.timestamp) && 'timestamp',
+        !isString(q.organizationId) && 'organizationId',
+    ].filter(isString),
+    robots: (r) => [
+        !isString(r.name) && 'name',
+        !isString(r.apiIdentifier) && 'apiIdentifier',
+        !isNumber(r.silenceThresholdDays) && 'silenceThresholdDays',
+        !(isRecord(r.answerThresholds) && isNumber(r.answerThresholds.direct) && isNumber(r.answerThresholds.clarify) && isNumber(r.answerThresholds.margin)) && 'answerThresholds',
+        !isOneOf(r.answerMode, ['retrieval', 'rag']) && 'answerMode',
+        !isOneOf(r.matcherType, ['bm25', 'vector']) && 'matcherType',
+        !isString(r.goodbyeMessage) && 'goodbyeMessage',
+        !isString(r.handoffMessage) && 'handoffMessage',
+        !isStringArray(r.fallbackMessages) && 'fallbackMessages',
+        !isStringArray(r.starterQuestions) && 'starterQuestions',
+        !isString(r.systemPrompt) && 'systemPrompt',
+        !(isRecord(r.handoffRules) && isNumber(r.handoffRules.consecutiveNoAnswers) && isStringArray(r.handoffRules.keywords)
+            && isBoolean(r.handoffRules.onNegativeFeedback)) && 'handoffRules',
+        !(isRecord(r.knowledgeScope) && isStringArray(r.knowledgeScope.categoryIds) && isStringArray(r.knowledgeScope.tags)) && 'knowledgeScope',
+        !(r.fallbackRobotId === null || isString(r.fallbackRobotId)) && 'fallbackRobotId',
+        !isString(r.organizationId) && 'organizationId',
+    ].filter(isString),
+    entities: (e) => [
+        !isString(e.name) && 'name',
+        !isOneOf(e.type, ['enum', 'regex']) && 'type',
+        !isArrayOf(e.members, m => isString(m.id) && isString(m.value)
+            && isStringArray(m.synonyms) && (m.canonicalValue === null || isString(m.canonicalValue))) && 'members',
+        !(e.regex === null || isString(e.regex)) && 'regex',
+        !(isRecord(e.normalization) && isBoolean(e.normalization.ignoreCase) && isBoolean(e.normalization.foldWidth)) && 'normalization',
+        !isString(e.organizationId) && 'organizationId',
+    ].filter(isString),
+    intents: (i) => [
+        !isString(i.name) && 'name',
+        !isArrayOf(i.utterances, u => isString(u.text)
+            && isArrayOf(u.entities, a => isString(a.entityId) && isNumber(a.start) && isNumber(a.end) && isString(a.text))) && 'utterances',
+        !isArrayOf(i.slots, slot => isString(slot.id) && isString(slot.name)
+            && isString(slot.entityId) && isBoolean(slot.required) && isString(slot.prompt)) && 'slots',
+        !(i.knowledgePointId === null || isString(i.knowledgePointId)) && 'knowledgePointId',
+        !isString(i.organizationId) && 'organizationId',
+    ].filter(isString),
+    knowledgePointRevisions: (r) => [
+        !isString(r.knowledgePointId) && 'knowledgePointId',
+        !isOneOf(r.action, ['baseline', 'create', 'update', 'transfer', 'status', 'restore', 'approve']) && 'action',
+        !(isRecord(r.snapshot) && isString(r.snapshot.standardQuestion) && isString(r.snapshot.answer) && isStringArray(r.snapshot.similarQuestions)) && 'snapshot',
+        !isString(r.author) && 'author',
+        !isString(r.timestamp) && 'timestamp',
+    ].filter(isString),
+    organizations: (o) => [
+        !isString(o.name) && 'name',
+    ].filter(isString),
+};
+
+/**
+ * Thrown when records cannot be brought to the current version. `errors` lists one
+ * human-readable problem per invalid record.
+ */
+export class MigrationError extends Error {
+    errors: string[];
+
+    constructor(message: string, errors: string[]) {
+        super(message);
+        this.name = 'MigrationError';
+        this.errors = errors;
+    }
+}
+
+/**
+ * Upgrades one record from the version it was saved with to DATA_VERSION.
+ * @param name The collection the record belongs to.
+ * @param record The raw record.
+ * @param fromVersion The version the record was saved with; 0 for data saved before versioning.
+ * @returns The upgraded record.
+ */
+export const upgradeRecord = <T>(name: CollectionName, record: object, fromVersion: number): T =>
+    MIGRATIONS
+        .filter(m => m.version > fromVersion && m.migrate[name])
+        .reduce((current, step) => step.migrate[name]!(current), record as UnknownRecord) as T;
+
+/**
+ * Checks a record against the current shape of its type.
+ * @param name The collection the record belongs to.
+ * @param record The record to check, already upgraded to DATA_VERSION.
+ * @returns The names of invalid fields; empty if the record is valid.
+ */
+export const validateRecord = (name: CollectionName, record: unknown): string[] => {
+    if (!isRecord(record)) return ['record'];
+    return [!isString(record.id) && 'id', ...VALIDATORS[name](record)].filter(isString);
+};
+
+/**
+ * Upgrades and validates records of one collection.
+ * @param name The collection the records belong to.
+ * @param records The raw records.
+ * @param fromVersion The version the records were saved with.
+ * @returns The valid upgraded records and a description of every record that was rejected.
+ */
+export const migrateRecords = <T>(name: CollectionName, records: unknown[], fromVersion: number): { records: T[]; errors: string[] } => {
+    const migrated: T[] = [];
+    const errors: string[] = [];
+
+    records.forEach((raw, index) => {
+        const record = isRecord(raw) ? upgradeRecord<UnknownRecord>(name, raw, fromVersion) : raw;
+        const invalidFields = validateRecord(name, record);
+        if (invalidFields.length > 0) {
+            const label = isRecord(record) && isString(record.id) ? ` (${record.id})` : '';
+            errors.push(`${name}[${index}]${label}: 字段无效 ${invalidFields.join(', ')}`);
+            return;
+        }
+        // The validator has checked the record against T.
+        migrated.push(record as T);
+    });
+
+    return { records: migrated, errors };
+};
+
+/**
+ * Runs an imported JSON file through the same migrations as stored data.
+ * @param data The parsed file. Files without `schemaVersion` are treated as version 0.
+ * @param collections The collections the caller accepts from the file.
+ * @returns The upgraded records of every accepted collection present in the file.
+ * @throws MigrationError if the file is from a newer version or any record is invalid.
+ */
+export const migrateImport = (
+    data: unknown,
+    collections: CollectionName[]
+): Partial<Record<CollectionName, unknown[]>> => {
+    if (!isRecord(data)) {
+        throw new MigrationError('文件内容不是有效的知识库数据。', []);
+    }
+    const fromVersion = isNumber(data.schemaVersion) ? data.schemaVersion : 0;
+    if (fromVersion > DATA_VERSION) {
+        throw new MigrationError(`文件的数据版本 (${fromVersion}) 高于当前应用支持的版本 (${DATA_VERSION})，请先升级应用。`, []);
+    }
+
+    const result: Partial<Record<CollectionName, unknown[]>> = {};
+    const errors: string[] = [];
+    collections.forEach(name => {
+        const records = data[name];
+        if (records === undefined) return;
+        if (!Array.isArray(records)) {
+            errors.push(`${name}: 应为数组`);
+            return;
+        }
+        const migrated = migrateRecords(name, records, fromVersion);
+        result[name] = migrated.records;
+        errors.push(...migrated.errors);
+    });
+
+    if (errors.length > 0) {
+        throw new MigrationError(`文件中有 ${errors.length} 条记录无效。`, errors);
+    }
+    return result;
+};
@@ -0,0 +1,107 @@
+import type { EntityAnnotation, IntentUtterance } from '../../types';
+import type { EntityMatch } from './entityExtractor';
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }): boolean =>
+    a.start < b.end && a.end > b.start;
+
+/**
+ * Lists the annotations of an utterance that no longer line up with its text: spans out of
+ * range, spans whose text differs from the one annotated, and spans overlapping an earlier one.
+ * @param utterance The utterance.
+ * @returns The misaligned annotations; empty if all of them line up.
+ */
+export const findMisalignedAnnotations = (utterance: IntentUtterance): EntityAnnotation[] =>
+    utterance.entities.filter((annotation, index) =>
+        annotation.start < 0
+        || annotation.end <= annotation.start
+        || annotation.end > utterance.text.length
+        || utterance.text.slice(annotation.start, annotation.end) !== annotation.text
+        || utterance.entities.slice(0, index).some(other => overlaps(other, annotation)));
+
+/**
+ * Adds an annotation to an utterance, keeping the annotations in text order.
+ * @param utterance The utterance.
+ * @param entityId The entity the span holds a value of.
+ * @param start The start offset of the span.
+ * @param end The end offset of the span.
+ * @returns The updated utterance, or null if the span is empty or overlaps an existing annotation.
+ */
+export const annotateUtterance = (utterance: IntentUtterance, entityId: string, start: number, end: number): IntentUtterance | null => {
+    if (start >= end || start < 0 || end > utterance.text.length) return null;
+    const annotation = { entityId, start, end, text: utterance.text.slice(start, end) };
+    if (utterance.entities.some(other => overlaps(other, annotation))) return null;
+    return { ...utterance, entities: [...utterance.entities, annotation].sort((a, b) => a.start - b.start) };
+};
+
+const findNearest = (text: string, search: string, position: number): number => {
+    let nearest = -1;
+    for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + 1)) {
+        if (nearest === -1 || Math.abs(index - position) < Math.abs(nearest - position)) nearest = index;
+    }
+    return nearest;
+};
+
+/**
+ * Moves the annotations of an utterance along with an edit of its text. The edit is taken
+ * to be the single changed stretch between the common prefix and suffix of the two texts:
+ * annotations before it keep their offsets and those after it shift. An annotation the edit
+ * touches moves to the nearest occurrence of its text, and is dropped if there is none.
+ * @param utterance The utterance before the edit.
+ * @param text The edited text.
+ * @returns The edited utterance and the annotations that no longer apply.
+ */
+export const realignAnnotations = (utterance: IntentUtterance, text: string): { utterance: IntentUtterance; dropped: EntityAnnotation[] } => {
+    const previous = utterance.text;
+    let prefix = 0;
+    while (prefix < previous.length && prefix < text.length && previous[prefix] === text[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < previous.length - prefix && suffix < text.length - prefix
+        && previous[previous.length - 1 - suffix] === text[text.length - 1 - suffix]) suffix++;
+    const editEnd = previous.length - suffix;
+    const delta = text.length - previous.length;
+
+    const kept: EntityAnnotation[] = [];
+    const dropped: EntityAnnotation[] = [];
+    utterance.entities.forEach(annotation => {
+        if (annotation.end <= prefix) {
+            kept.push(annotation);
+        } else if (annotation.start >= editEnd) {
+            kept.push({ ...annotation, start: annotation.start + delta, end: annotation.end + delta });
+        } else {
+            const start = findNearest(text, annotation.text, annotation.start);
+            if (start === -1) dropped.push(annotation);
+            else kept.push({ ...annotation, start, end: start + annotation.text.length });
+        }
+    });
+    // A moved annotation may now overlap another one; the first in text order wins.
+    const entities: EntityAnnotation[] = [];
+    kept.sort((a, b) => a.start - b.start).forEach(annotation => {
+        if (entities.some(other => overlaps(other, annotation))) dropped.push(annotation);
+        else entities.push(annotation);
+    });
+    return { utterance: { text, entities }, dropped };
+};
+
+/**
+ * Proposes annotations for an utterance from the entity values the extractor recognizes
+ * in it, such as enum members and regex matches, leaving out spans already annotated.
+ * @param utterance The utterance.
+ * @param extract Finds the entity values in a text.
+ * @returns The suggested annotations, in text order.
+ */
+export const suggestAnnotations = (utterance: IntentUtterance, extract: (text: string) => EntityMatch[]): EntityAnnotation[] =>
+    extract(utterance.text)
+        .filter(match => !utterance.entities.some(other => overlaps(other, match)))
+        .map(match => ({ entityId: match.entityId, start: match.start, end: match.end, text: match.text }));
+
+/**
+ * Lists the spans of an utterance holding entity values: its annotations together with the
+ * values the extractor recognizes outside them.
+ * @param utterance The utterance.
+ * @param extract Finds the entity values in a text.
+ * @returns The spans, in text order.
+ */
+export const getEntitySpans = (utterance: IntentUtterance, extract: (text: string) => EntityMatch[]): EntityAnnotation[] => [
+    ...utterance.entities.filter(annotation => utterance.text.slice(annotation.start, annotation.end) === annotation.text),
+    ...suggestAnnotations(utterance, extract),
+].sort((a, b) => a.start - b.start);
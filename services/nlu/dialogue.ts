@@ -0,0 +1,124 @@
+import type { DialogueState, Entity, Intent, IntentSlot, KnowledgePoint } from '../../types';
+import { escapeHtml } from '../html';
+import type { EntityMatch } from './entityExtractor';
+import type { NluEngine } from './index';
+
+// After this many unanswered prompts for the same slot the bot gives up on the intent.
+export const MAX_SLOT_ATTEMPTS = 2;
+// How many enum members are offered as suggestions with a prompt.
+const SLOT_SUGGESTION_LIMIT = 5;
+
+export type DialogueTurn =
+    | { type: 'prompt'; intent: Intent; slot: IntentSlot; state: DialogueState }
+    | { type: 'complete'; intent: Intent; knowledgePoint: KnowledgePoint; slotValues: Record<string, string> }
+    | { type: 'none' };
+
+/**
+ * Assigns entity values from a message to the slots that are still empty. The slot the
+ * bot just asked for is filled first; the others take the remaining values in order.
+ * @param intent The intent being collected.
+ * @param slotValues The values collected so far, by slot ID.
+ * @param matches The entity values in the message.
+ * @param pendingSlotId The slot the last prompt asked for, if any.
+ * @returns The updated values, by slot ID.
+ */
+export const fillSlots = (
+    intent: Intent,
+    slotValues: Record<string, string>,
+    matches: EntityMatch[],
+    pendingSlotId: string | null
+): Record<string, string> => {
+    const filled = { ...slotValues };
+    const unused = [...matches];
+    const ordered = [...intent.slots].sort((a, b) => Number(b.id === pendingSlotId) - Number(a.id === pendingSlotId));
+    ordered.forEach(slot => {
+        if (filled[slot.id]) return;
+        const index = unused.findIndex(match => match.entityId === slot.entityId);
+        if (index === -1) return;
+        filled[slot.id] = unused[index].value;
+        unused.splice(index, 1);
+    });
+    return filled;
+};
+
+const continueIntent = (
+    intent: Intent,
+    slotValues: Record<string, string>,
+    previous: DialogueState | null,
+    knowledgePoints: KnowledgePoint[]
+): DialogueTurn => {
+    const knowledgePoint = knowledgePoints.find(kp => kp.id === intent.knowledgePointId);
+    if (!knowledgePoint) return { type: 'none' };
+
+    const missing = intent.slots.find(slot => slot.required && !slotValues[slot.id]);
+    if (missing) {
+        const askedBefore = previous?.intentId === intent.id && previous.pendingSlotId === missing.id;
+        return {
+            type: 'prompt',
+            intent,
+            slot: missing,
+            state: { intentId: intent.id, slotValues, pendingSlotId: missing.id, attempts: askedBefore ? previous.attempts + 1 : 0 },
+        };
+    }
+
+    const valuesByName = Object.fromEntries(intent.slots.filter(slot => slotValues[slot.id]).map(slot => [slot.name, slotValues[slot.id]]));
+    return { type: 'complete', intent, knowledgePoint, slotValues: valuesByName };
+};
+
+/**
+ * Runs one turn of slot filling. A message either continues the intent the bot is
+ * collecting slots for, starts a new intent, or is left to knowledge retrieval.
+ * @param nlu The NLU engine.
+ * @param state The dialogue state after the previous turn, or null.
+ * @param message The customer's message.
+ * @param knowledgePoints The published knowledge points; intents linked to any other point are ignored.
+ * @returns A prompt for the next missing slot, the completed intent, or 'none'.
+ */
+export const advanceDialogue = (
+    nlu: NluEngine,
+    state: DialogueState | null,
+    message: string,
+    knowledgePoints: KnowledgePoint[]
+): DialogueTurn => {
+    const matches = nlu.extractEntities(message);
+    const prediction = nlu.classifyIntent(message);
+    const current = state ? nlu.intents.find(intent => intent.id === state.intentId) : undefined;
+
+    // A message that clearly expresses another intent switches to it.
+    if (current && state && (!prediction || prediction.intent.id === current.id)) {
+        const slotValues = fillSlots(current, state.slotValues, matches, state.pendingSlotId);
+        const gotValue = Object.keys(slotValues).length > Object.keys(state.slotValues).length;
+        if (gotValue || state.attempts + 1 < MAX_SLOT_ATTEMPTS) {
+            return continueIntent(current, slotValues, gotValue ? null : state, knowledgePoints);
+        }
+        // The customer keeps answering something else, so treat the message as a new question.
+    }
+
+    if (!prediction) return { type: 'none' };
+    return continueIntent(prediction.intent, fillSlots(prediction.intent, {}, matches, null), null, knowledgePoints);
+};
+
+/**
+ * Picks values to offer as quick replies with a slot prompt.
+ * @param slot The slot being asked for.
+ * @param entities All entities.
+ * @returns A few members of the slot's entity, or nothing for regex entities.
+ */
+export const getSlotSuggestions = (slot: IntentSlot, entities: Entity[]): string[] => {
+    const entity = entities.find(e => e.id === slot.entityId);
+    return entity?.type === 'enum' ? entity.members.slice(0, SLOT_SUGGESTION_LIMIT).map(m => m.value) : [];
+};
+
+/**
+ * Fills the {slotName} placeholders in a linked knowledge point's answer. Placeholders of
+ * optional slots the customer did not fill are removed.
+ * @param answer The answer HTML.
+ * @param intent The completed intent.
+ * @param slotValues The collected values, by slot name.
+ * @returns The answer HTML with the values inserted.
+ */
+export const renderSlotAnswer = (answer: string, intent: Intent, slotValues: Record<string, string>): string =>
+    intent.slots.reduce(
+        (html, slot) => html.split(`{${slot.name}}`).join(escapeHtml(slotValues[slot.name] ?? '')),
+        answer
+    );
@@ -0,0 +1,160 @@
+import type { Entity, EntityMember, EntityNormalization } from '../../types';
+import { SYSTEM_EXTRACTORS, SystemEntityValue } from './systemEntities';
+
+export interface EntityMatch {
+    entityId: string;
+    memberId: string | null; // The matched member of an enum entity; null for other entities
+    value: string; // The member's canonical value for enum entities, the matched text for regex entities, the normalized value for system entities
+    structured?: SystemEntityValue; // Only for system entities
+    text: string; // The text as written in the message
+    start: number;
+    end: number;
+}
+
+interface Alias {
+    text: string; // Folded with the entity's normalization
+    member: EntityMember;
+}
+
+interface CompiledEntity {
+    entity: Entity;
+    aliases: Alias[]; // Longest first, so "上海浦东" wins over "上海"
+    regex: RegExp | null;
+}
+
+/**
+ * Folds full-width ASCII characters and the ideographic space to their half-width forms,
+ * one character for one, so offsets in the folded text are offsets in the original.
+ * @param text The text.
+ * @returns The folded text.
+ */
+export const foldWidth = (text: string): string => text.replace(/[！-～　]/g, char =>
+    char === '　' ? ' ' : String.fromCharCode(char.charCodeAt(0) - 0xFEE0));
+
+// Lowercases character by character, skipping the few characters whose lowercase form is longer.
+const lowercaseInPlace = (text: string): string =>
+    text.replace(/[\s\S]/g, char => {
+        const lower = char.toLowerCase();
+        return lower.length === char.length ? lower : char;
+    });
+
+/**
+ * Applies an entity's normalization rules to a text without changing its length.
+ * @param text The text.
+ * @param normalization The entity's rules.
+ * @returns The normalized text.
+ */
+export const foldEntityText = (text: string, normalization: EntityNormalization): string => {
+    const folded = normalization.foldWidth ? foldWidth(text) : text;
+    return normalization.ignoreCase ? lowercaseInPlace(folded) : folded;
+};
+
+/**
+ * The value reported when a member or one of its synonyms is recognized.
+ * @param member The enum member.
+ * @returns Its canonical value, or its value if it has none.
+ */
+export const getCanonicalValue = (member: EntityMember): string => member.canonicalValue || member.value;
+
+const compileRegex = (entity: Entity): RegExp | null => {
+    if (entity.type !== 'regex' || !entity.regex) return null;
+    try {
+        return new RegExp(entity.regex, entity.normalization.ignoreCase ? 'gi' : 'g');
+    } catch (error) {
+        console.error(`Ignoring invalid regex of entity “${entity.name}”:`, error);
+        return null;
+    }
+};
+
+const compileAliases = (entity: Entity): Alias[] => {
+    if (entity.type !== 'enum') return [];
+    return entity.members
+        .flatMap(member => [member.value, ...member.synonyms]
+            .filter(alias => alias.trim())
+            .map(alias => ({ text: foldEntityText(alias, entity.normalization), member })))
+        .sort((a, b) => b.text.length - a.text.length);
+};
+
+const overlaps = (claimed: EntityMatch[], start: number, end: number): boolean =>
+    claimed.some(match => start < match.end && end > match.start);
+
+/**
+ * Creates an extractor that finds entity values in a message. Enum entities match their
+ * members and synonyms and regex entities match their pattern, both after applying the
+ * entity's normalization rules; system entities run their built-in parser. Enum members
+ * are matched first, longer aliases before shorter ones, then regexes, then system
+ * entities, and a span of the message is never claimed by two matches.
+ * @param entities The entities to look for.
+ * @returns A function listing the entity values in a message, in message order. Relative
+ *   dates are resolved against `now`, which defaults to the current time.
+ */
+export const createEntityExtractor = (entities: Entity[]): ((text: string, now?: number) => EntityMatch[]) => {
+    const compiled: CompiledEntity[] = entities.map(entity => ({
+        entity,
+        aliases: compileAliases(entity),
+        regex: compileRegex(entity),
+    }));
+
+    return (text, now = Date.now()) => {
+        const matches: EntityMatch[] = [];
+
+        compiled.forEach(({ entity, aliases }) => {
+            if (aliases.length === 0) return;
+            const folded = foldEntityText(text, entity.normalization);
+            aliases.forEach(({ text: alias, member }) => {
+                for (let start = folded.indexOf(alias); start !== -1; start = folded.indexOf(alias, start + alias.length)) {
+                    const end = start + alias.length;
+                    if (overlaps(matches, start, end)) continue;
+                    matches.push({ entityId: entity.id, memberId: member.id, value: getCanonicalValue(member), text: text.slice(start, end), start, end });
+                }
+            });
+        });
+
+        compiled.forEach(({ entity, regex }) => {
+            if (!regex) return;
+            // Case is handled by the regex flag; only the width is folded here.
+            const folded = entity.normalization.foldWidth ? foldWidth(text) : text;
+            regex.lastIndex = 0;
+            for (let found = regex.exec(folded); found; found = regex.exec(folded)) {
+                // An empty match would never advance past this position.
+                if (found[0].length === 0) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                const start = found.index;
+                const end = start + found[0].length;
+                if (overlaps(matches, start, end)) continue;
+                matches.push({ entityId: entity.id, memberId: null, value: found[0], text: text.slice(start, end), start, end });
+            }
+        });
+
+        const widthFolded = foldWidth(text);
+        compiled.forEach(({ entity }) => {
+            const extract = entity.type === 'system' ? SYSTEM_EXTRACTORS[entity.id] : undefined;
+            extract?.(widthFolded, now).forEach(({ start, end, value, structured }) => {
+                if (overlaps(matches, start, end)) return;
+                matches.push({ entityId: entity.id, memberId: null, value, structured, text: text.slice(start, end), start, end });
+            });
+        });
+
+        return matches.sort((a, b) => a.start - b.start);
+    };
+};
+
+/**
+ * Creates a function that rewrites every recognized enum member or synonym in a text to
+ * its canonical value, so that "ip15 多少钱" and "iPhone15 多少钱" score alike in retrieval.
+ * @param extract Finds the entity values in a text.
+ * @returns The rewriting function.
+ */
+export const createSynonymNormalizer = (extract: (text: string) => EntityMatch[]): ((text: string) => string) => (text) => {
+    let normalized = '';
+    let position = 0;
+    extract(text)
+        .filter(match => match.memberId !== null)
+        .forEach(match => {
+            normalized += `${text.slice(position, match.start)}${match.value}`;
+            position = match.end;
+        });
+    return normalized + text.slice(position);
+};
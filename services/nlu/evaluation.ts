@@ -0,0 +1,110 @@
+import type { Intent } from '../../types';
+import type { EntityMatch } from './entityExtractor';
+import { maskUtterance, predictIntent } from './intentClassifier';
+import { trainIntentModel } from './intentModel';
+
+export interface IntentMetrics {
+    intentId: string;
+    support: number; // Utterances labeled with the intent
+    precision: number;
+    recall: number;
+    f1: number;
+}
+
+export interface SuspectUtterance {
+    utterance: string;
+    intentId: string; // The intent it is labeled with
+    predictedIntentId: string;
+    predictedScore: number;
+    labeledScore: number; // The score of the labeled intent for the same utterance
+}
+
+export interface EvaluationReport {
+    folds: number;
+    total: number;
+    accuracy: number;
+    macroF1: number;
+    intentIds: string[]; // The order of the confusion matrix rows and columns
+    confusion: number[][]; // [actual][predicted]; the extra last column counts utterances matching no intent
+    perIntent: IntentMetrics[];
+    suspects: SuspectUtterance[]; // Most suspicious first
+    sparseIntentIds: string[]; // Intents with fewer utterances than folds, whose figures are unreliable
+}
+
+export const DEFAULT_FOLDS = 5;
+// A held-out utterance is reported as possibly mislabeled when another intent outscores its own by this much.
+const SUSPECT_MARGIN = 0.05;
+
+const ratio = (numerator: number, denominator: number): number => (denominator === 0 ? 0 : numerator / denominator);
+
+/**
+ * Estimates how well the intent classifier separates the intents with stratified k-fold
+ * cross-validation: each intent's utterances are dealt round-robin into the folds, and
+ * every fold is predicted by a model trained on the others. Folds are deterministic, so
+ * the report only changes when the utterances do.
+ * @param intents The intents with their utterances.
+ * @param extract Finds the entity values in a text, masked exactly as at chat time.
+ * @param folds The number of folds.
+ * @returns The report, or null if fewer than two intents have utterances.
+ */
+export const crossValidateIntents = (
+    intents: Intent[],
+    extract: (text: string) => EntityMatch[],
+    folds: number = DEFAULT_FOLDS
+): EvaluationReport | null => {
+    const evaluated = intents.filter(intent => intent.utterances.length > 0);
+    if (evaluated.length < 2) return null;
+
+    const intentIds = evaluated.map(intent => intent.id);
+    const indexOf = new Map(intentIds.map((id, index) => [id, index]));
+    const examples = evaluated.flatMap(intent => intent.utterances.map((utterance, i) => ({
+        utterance: utterance.text,
+        text: maskUtterance(utterance, extract),
+        intentId: intent.id,
+        fold: i % folds,
+    })));
+
+    const confusion = intentIds.map(() => new Array(intentIds.length + 1).fill(0));
+    const suspects: SuspectUtterance[] = [];
+
+    for (let fold = 0; fold < folds; fold++) {
+        const held = examples.filter(example => example.fold === fold);
+        if (held.length === 0) continue;
+        const model = trainIntentModel(examples.filter(example => example.fold !== fold));
+
+        held.forEach(example => {
+            const actual = indexOf.get(example.intentId)!;
+            const best = predictIntent(model, example.text);
+            confusion[actual][best ? indexOf.get(best.intentId)! : intentIds.length]++;
+
+            if (best && best.intentId !== example.intentId) {
+                const labeledScore = model.predict(example.text).find(s => s.intentId === example.intentId)?.score ?? 0;
+                if (best.score - labeledScore >= SUSPECT_MARGIN) {
+                    suspects.push({ utterance: example.utterance, intentId: example.intentId, predictedIntentId: best.intentId, predictedScore: best.score, labeledScore });
+                }
+            }
+        });
+    }
+
+    const perIntent = intentIds.map((intentId, i) => {
+        const truePositives = confusion[i][i];
+        const support = confusion[i].reduce((sum, n) => sum + n, 0);
+        const predicted = confusion.reduce((sum, row) => sum + row[i], 0);
+        const precision = ratio(truePositives, predicted);
+        const recall = ratio(truePositives, support);
+        return { intentId, support, precision, recall, f1: ratio(2 * precision * recall, precision + recall) };
+    });
+    const correct = intentIds.reduce((sum, _, i) => sum + confusion[i][i], 0);
+
+    return {
+        folds,
+        total: examples.length,
+        accuracy: ratio(correct, examples.length),
+        macroF1: perIntent.reduce((sum, m) => sum + m.f1, 0) / perIntent.length,
+        intentIds,
+        confusion,
+        perIntent,
+        suspects: suspects.sort((a, b) => (b.predictedScore - b.labeledScore) - (a.predictedScore - a.labeledScore)),
+        sparseIntentIds: evaluated.filter(intent => intent.utterances.length < folds).map(intent => intent.id),
+    };
+};
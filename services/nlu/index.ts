@@ -0,0 +1,46 @@
+import type { Entity, Intent } from '../../types';
+import { createEntityExtractor, createSynonymNormalizer, EntityMatch } from './entityExtractor';
+import { createIntentClassifier, IntentPrediction } from './intentClassifier';
+import { withSystemEntities } from './systemEntities';
+
+export type { EntityMatch } from './entityExtractor';
+export type { IntentPrediction } from './intentClassifier';
+export type { DialogueTurn } from './dialogue';
+export { createEntityExtractor, createSynonymNormalizer, foldEntityText, foldWidth, getCanonicalValue } from './entityExtractor';
+export { createIntentClassifier, maskEntities, maskUtterance, predictIntent, INTENT_CONFIDENCE_THRESHOLD } from './intentClassifier';
+export { annotateUtterance, findMisalignedAnnotations, getEntitySpans, realignAnnotations, suggestAnnotations } from './annotations';
+export type { IntentModel, IntentScore, TrainingExample } from './intentModel';
+export { trainIntentModel } from './intentModel';
+export type { EvaluationReport, IntentMetrics, SuspectUtterance } from './evaluation';
+export { crossValidateIntents, DEFAULT_FOLDS } from './evaluation';
+export type { SystemEntityValue } from './systemEntities';
+export { parseChineseNumber, withSystemEntities, SYSTEM_ENTITIES, SYSTEM_ENTITY_EXAMPLES } from './systemEntities';
+export { advanceDialogue, fillSlots, getSlotSuggestions, renderSlotAnswer, MAX_SLOT_ATTEMPTS } from './dialogue';
+
+export interface NluEngine {
+    intents: Intent[];
+    entities: Entity[]; // Including the system entities
+    extractEntities: (text: string) => EntityMatch[];
+    classifyIntent: (text: string) => IntentPrediction | null;
+    normalizeSynonyms: (text: string) => string; // Applied by the chat matcher before scoring
+}
+
+/**
+ * Builds the NLU step of the chat pipeline from the intents and entities edited on the
+ * 意图管理 and 实体管理 pages.
+ * @param intents The intents. Only intents linked to a knowledge point can answer.
+ * @param entities The user-defined entities; the system entities are added.
+ * @returns The NLU engine.
+ */
+export const createNluEngine = (intents: Intent[], entities: Entity[]): NluEngine => {
+    const answerable = intents.filter(intent => intent.knowledgePointId && intent.utterances.length > 0);
+    const allEntities = withSystemEntities(entities);
+    const extractEntities = createEntityExtractor(allEntities);
+    return {
+        intents: answerable,
+        entities: allEntities,
+        extractEntities,
+        classifyIntent: createIntentClassifier(answerable, extractEntities),
+        normalizeSynonyms: createSynonymNormalizer(extractEntities),
+    };
+};
@@ -0,0 +1,80 @@
+import type { Intent, IntentUtterance } from '../../types';
+import { getEntitySpans } from './annotations';
+import type { EntityMatch } from './entityExtractor';
+import { trainIntentModel, IntentModel, IntentScore, TrainingExample } from './intentModel';
+
+export interface IntentPrediction {
+    intent: Intent;
+    score: number; // Cosine similarity with the intent's centroid, in [0, 1]
+}
+
+// Below this score a message is not considered to express any intent.
+export const INTENT_CONFIDENCE_THRESHOLD = 0.3;
+
+/**
+ * Removes the entity values from a text, so that "去北京的机票" and "去上海的机票" look the
+ * same to the classifier and a bare value such as "上海" expresses no intent.
+ * @param text The text.
+ * @param matches The spans of the entity values in it, in text order.
+ * @returns The text with every value replaced by a space.
+ */
+export const maskEntities = (text: string, matches: { start: number; end: number }[]): string => {
+    let masked = '';
+    let position = 0;
+    matches.forEach(match => {
+        masked += `${text.slice(position, match.start)} `;
+        position = match.end;
+    });
+    return masked + text.slice(position);
+};
+
+/**
+ * Masks the entity values in an utterance: the annotated spans, which the extractor may not
+ * recognize yet, and the values it does recognize elsewhere in the text.
+ * @param utterance The utterance.
+ * @param extract Finds the entity values in a text.
+ * @returns The utterance text with every value replaced by a space.
+ */
+export const maskUtterance = (utterance: IntentUtterance, extract: (text: string) => EntityMatch[]): string =>
+    maskEntities(utterance.text, getEntitySpans(utterance, extract));
+
+/**
+ * Lists the utterances of intents as training examples, with entity values masked.
+ * @param intents The intents.
+ * @param extract Finds the entity values in a text.
+ * @returns One example per utterance.
+ */
+export const toTrainingExamples = (intents: Intent[], extract: (text: string) => EntityMatch[]): TrainingExample[] =>
+    intents.flatMap(intent => intent.utterances.map(utterance => ({ text: maskUtterance(utterance, extract), intentId: intent.id })));
+
+/**
+ * Picks the best intent for a message, or none if the model is not confident enough.
+ * @param model The trained model.
+ * @param maskedText The message with entity values masked.
+ * @returns The best intent's score, or null.
+ */
+export const predictIntent = (model: IntentModel, maskedText: string): IntentScore | null => {
+    const [best] = model.predict(maskedText);
+    return best && best.score >= INTENT_CONFIDENCE_THRESHOLD ? best : null;
+};
+
+/**
+ * Creates a classifier that picks the intent a message expresses, using a model trained
+ * from the intents' utterances.
+ * @param intents The intents to choose from.
+ * @param extract Finds the entity values in a text, which are masked in utterances and messages.
+ * @returns A function returning the best intent, or null if none reaches INTENT_CONFIDENCE_THRESHOLD.
+ */
+export const createIntentClassifier = (
+    intents: Intent[],
+    extract: (text: string) => EntityMatch[]
+): ((text: string) => IntentPrediction | null) => {
+    const model = trainIntentModel(toTrainingExamples(intents, extract));
+    const byId = new Map(intents.map(intent => [intent.id, intent]));
+
+    return (text) => {
+        const best = predictIntent(model, maskEntities(text, extract(text)));
+        const intent = best && byId.get(best.intentId);
+        return intent ? { intent, score: best.score } : null;
+    };
+};
@@ -0,0 +1,79 @@
+import { tokenize } from '../matcher';
+
+export interface TrainingExample {
+    text: string;
+    intentId: string;
+}
+
+export interface IntentScore {
+    intentId: string;
+    score: number; // Cosine similarity with the intent's centroid, in [0, 1]
+}
+
+export interface IntentModel {
+    intentIds: string[];
+    predict: (text: string) => IntentScore[]; // Every trained intent, best first
+}
+
+type SparseVector = Map<string, number>;
+
+const normalizeVector = (vector: SparseVector): SparseVector => {
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return vector;
+    return new Map(Array.from(vector, ([term, value]) => [term, value / norm]));
+};
+
+const dot = (a: SparseVector, b: SparseVector): number => {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let sum = 0;
+    small.forEach((value, term) => {
+        sum += value * (large.get(term) || 0);
+    });
+    return sum;
+};
+
+const countTerms = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    tokenize(text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+    return counts;
+};
+
+/**
+ * Trains a nearest-centroid classifier over TF-IDF vectors of the same character n-grams
+ * the knowledge matcher uses. Training involves no randomness, so the same utterances
+ * always give the same model.
+ * @param examples The labeled utterances.
+ * @returns The trained model.
+ */
+export const trainIntentModel = (examples: TrainingExample[]): IntentModel => {
+    const documents = examples.map(example => ({ intentId: example.intentId, counts: countTerms(example.text) }));
+
+    const docFreqs = new Map<string, number>();
+    documents.forEach(doc => doc.counts.forEach((_, term) => docFreqs.set(term, (docFreqs.get(term) || 0) + 1)));
+    // Smoothed IDF. Terms never seen in training carry no evidence for any intent and are dropped.
+    const idf = (term: string): number => Math.log((1 + documents.length) / (1 + docFreqs.get(term)!)) + 1;
+    const vectorize = (counts: Map<string, number>): SparseVector => normalizeVector(new Map(
+        Array.from(counts)
+            .filter(([term]) => docFreqs.has(term))
+            .map(([term, count]) => [term, (1 + Math.log(count)) * idf(term)])
+    ));
+
+    const sums = new Map<string, SparseVector>();
+    documents.forEach(doc => {
+        const sum = sums.get(doc.intentId) ?? new Map<string, number>();
+        vectorize(doc.counts).forEach((value, term) => sum.set(term, (sum.get(term) || 0) + value));
+        sums.set(doc.intentId, sum);
+    });
+    const centroids = Array.from(sums, ([intentId, sum]) => ({ intentId, vector: normalizeVector(sum) }));
+
+    return {
+        intentIds: centroids.map(c => c.intentId),
+        predict: (text) => {
+            const vector = vectorize(countTerms(text));
+            if (vector.size === 0) return [];
+            return centroids
+                .map(({ intentId, vector: centroid }) => ({ intentId, score: Math.max(0, Math.min(1, dot(vector, centroid))) }))
+                .sort((a, b) => b.score - a.score || a.intentId.localeCompare(b.intentId));
+        },
+    };
+};
@@ -0,0 +1,276 @@
+import type { Entity } from '../../types';
+
+export type SystemEntityValue =
+    | { kind: 'date'; date: string } // YYYY-MM-DD in local time
+    | { kind: 'amount'; amount: number; currency: string } // ISO 4217 code
+    | { kind: 'mobile'; number: string } // 11 digits, without the country code
+    | { kind: 'email'; address: string }
+    | { kind: 'idNumber'; number: string; birthDate: string }
+    | { kind: 'orderId'; id: string };
+
+export interface SystemEntityMatch {
+    start: number;
+    end: number;
+    value: string; // Normalized, e.g. "2024-05-01" or "3000元"; used as the slot value
+    structured: SystemEntityValue;
+}
+
+type SystemExtractor = (text: string, now: number) => SystemEntityMatch[];
+
+const CHINESE_DIGITS: Record<string, number> = { 零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 };
+const CHINESE_UNITS: Record<string, number> = { 十: 10, 百: 100, 千: 1000 };
+const CHINESE_SECTIONS: Record<string, number> = { 万: 1e4, 亿: 1e8 };
+
+// A number written with Arabic digits or Chinese numerals, as used inside the patterns below.
+const NUMBER = '\\d+(?:\\.\\d+)?|[零〇一二两三四五六七八九十百千万亿]+';
+
+/**
+ * Parses a number written with Arabic digits, Chinese numerals ("三千五百", "十二") or
+ * Chinese digits read one by one ("二〇二四").
+ * @param text The number.
+ * @returns The value, or null if the text is not a number.
+ */
+export const parseChineseNumber = (text: string): number | null => {
+    if (/^\d+(?:\.\d+)?$/.test(text)) return Number(text);
+    const chars = Array.from(text);
+    if (chars.length === 0) return null;
+    if (chars.length > 1 && chars.every(char => char in CHINESE_DIGITS)) {
+        return Number(chars.map(char => CHINESE_DIGITS[char]).join(''));
+    }
+
+    let total = 0;
+    let section = 0;
+    let digit = 0;
+    for (const char of chars) {
+        if (char in CHINESE_DIGITS) {
+            digit = CHINESE_DIGITS[char];
+        } else if (char in CHINESE_UNITS) {
+            // "十二" omits the leading 一.
+            section += (digit || 1) * CHINESE_UNITS[char];
+            digit = 0;
+        } else if (char in CHINESE_SECTIONS) {
+            total += (section + digit) * CHINESE_SECTIONS[char];
+            section = 0;
+            digit = 0;
+        } else {
+            return null;
+        }
+    }
+    return total + section + digit;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDate = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Builds a local date, rejecting overflow such as 2月30日.
+const makeDate = (year: number, month: number, day: number): Date | null => {
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const startOfDay = (now: number): Date => {
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+const addToDate = (date: Date, amount: number, unit: 'day' | 'week' | 'month' | 'year'): Date => {
+    const result = new Date(date);
+    if (unit === 'day') result.setDate(result.getDate() + amount);
+    if (unit === 'week') result.setDate(result.getDate() + amount * 7);
+    if (unit === 'month') result.setMonth(result.getMonth() + amount);
+    if (unit === 'year') result.setFullYear(result.getFullYear() + amount);
+    return result;
+};
+
+const RELATIVE_DAYS: Record<string, number> = { 大前天: -3, 前天: -2, 昨天: -1, 昨日: -1, 今天: 0, 今日: 0, 明天: 1, 明日: 1, 后天: 2, 大后天: 3 };
+const RELATIVE_YEARS: Record<string, number> = { 前年: -2, 去年: -1, 今年: 0, 明年: 1 };
+const RELATIVE_WEEKS: Record<string, number> = { 上上: -2, 上: -1, 上个: -1, 本: 0, 这: 0, 这个: 0, 下: 1, 下个: 1, 下下: 2 };
+const WEEKDAYS: Record<string, number> = { 一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 日: 7, 天: 7, 1: 1, 2: 2, 3: 3, 4: 4, 5: 5, 6: 6, 7: 7 };
+const OFFSET_UNITS: Record<string, 'day' | 'week' | 'month' | 'year'> = { 天: 'day', 日: 'day', 周: 'week', 星期: 'week', 礼拜: 'week', 月: 'month', 年: 'year' };
+
+// Date patterns, most specific first; a span claimed by one is not matched again by a later one.
+const DATE_RULES: { pattern: RegExp; resolve: (match: RegExpExecArray, today: Date) => Date | null }[] = [
+    {
+        pattern: /(\d{4})\s*[-/.年]\s*(\d{1,2})\s*[-/.月]\s*(\d{1,2})\s*[日号]?/g,
+        resolve: (m) => makeDate(Number(m[1]), Number(m[2]), Number(m[3])),
+    },
+    {
+        pattern: new RegExp(`(前年|去年|今年|明年)?(${NUMBER})月(${NUMBER})[日号]`, 'g'),
+        resolve: (m, today) => {
+            const month = parseChineseNumber(m[2]);
+            const day = parseChineseNumber(m[3]);
+            if (month === null || day === null) return null;
+            return makeDate(today.getFullYear() + (m[1] ? RELATIVE_YEARS[m[1]] : 0), month, day);
+        },
+    },
+    {
+        pattern: /大前天|前天|昨天|昨日|今天|今日|明天|明日|大后天|后天/g,
+        resolve: (m, today) => addToDate(today, RELATIVE_DAYS[m[0]], 'day'),
+    },
+    {
+        pattern: new RegExp(`(${NUMBER})\\s*个?\\s*(天|日|周|星期|礼拜|月|年)\\s*[以之]?(前|后)`, 'g'),
+        resolve: (m, today) => {
+            const amount = parseChineseNumber(m[1]);
+            if (amount === null || !Number.isInteger(amount)) return null;
+            return addToDate(today, m[3] === '前' ? -amount : amount, OFFSET_UNITS[m[2]]);
+        },
+    },
+    {
+        pattern: /(上上|上个|上|下下|下个|下|本|这个|这)?(?:周|星期|礼拜)([一二三四五六日天1-7])/g,
+        resolve: (m, today) => {
+            // Weeks start on Monday.
+            const weekday = today.getDay() || 7;
+            const monday = addToDate(today, 1 - weekday, 'day');
+            return addToDate(monday, (m[1] ? RELATIVE_WEEKS[m[1]] : 0) * 7 + WEEKDAYS[m[2]] - 1, 'day');
+        },
+    },
+];
+
+const CURRENCIES: Record<string, { code: string; label: string }> = {
+    '¥': { code: 'CNY', label: '元' }, '￥': { code: 'CNY', label: '元' }, 元: { code: 'CNY', label: '元' },
+    块: { code: 'CNY', label: '元' }, 块钱: { code: 'CNY', label: '元' }, 人民币: { code: 'CNY', label: '元' }, rmb: { code: 'CNY', label: '元' },
+    $: { code: 'USD', label: '美元' }, 美元: { code: 'USD', label: '美元' }, 美金: { code: 'USD', label: '美元' },
+    欧元: { code: 'EUR', label: '欧元' }, 港币: { code: 'HKD', label: '港币' }, 港元: { code: 'HKD', label: '港币' },
+    日元: { code: 'JPY', label: '日元' }, 英镑: { code: 'GBP', label: '英镑' },
+};
+const MULTIPLIERS: Record<string, number> = { 千: 1e3, 万: 1e4, 亿: 1e8 };
+
+const AMOUNT_PATTERNS = [
+    /([¥￥$])\s*(\d+(?:\.\d+)?)\s*([千万亿])?/g,
+    new RegExp(`(${NUMBER})\\s*([千万亿])?\\s*(块钱|块|元|人民币|rmb|美元|美金|欧元|港币|港元|日元|英镑)`, 'gi'),
+];
+
+// Rounds away floating point noise such as 1.1 * 10000.
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const ID_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const ID_CHECK_CODES = '10X98765432';
+
+const collect = (pattern: RegExp, text: string, toMatch: (match: RegExpExecArray) => SystemEntityMatch | null): SystemEntityMatch[] => {
+    const results: SystemEntityMatch[] = [];
+    pattern.lastIndex = 0;
+    for (let found = pattern.exec(text); found; found = pattern.exec(text)) {
+        const match = toMatch(found);
+        if (match && !results.some(r => match.start < r.end && match.end > r.start)) results.push(match);
+    }
+    return results;
+};
+
+const extractDates: SystemExtractor = (text, now) => {
+    const today = startOfDay(now);
+    return DATE_RULES.reduce<SystemEntityMatch[]>((matches, rule) => [
+        ...matches,
+        ...collect(rule.pattern, text, found => {
+            const start = found.index;
+            const end = start + found[0].length;
+            if (matches.some(m => start < m.end && end > m.start)) return null;
+            const date = rule.resolve(found, today);
+            if (!date) return null;
+            const formatted = formatDate(date);
+            return { start, end, value: formatted, structured: { kind: 'date', date: formatted } };
+        }),
+    ], []);
+};
+
+const extractAmounts: SystemExtractor = (text) => {
+    const [symbolPattern, unitPattern] = AMOUNT_PATTERNS;
+    const toMatch = (found: RegExpExecArray, number: string, multiplier: string | undefined, currencyKey: string): SystemEntityMatch | null => {
+        const parsed = parseChineseNumber(number);
+        const currency = CURRENCIES[currencyKey.toLowerCase()];
+        if (parsed === null || !currency) return null;
+        const amount = roundAmount(parsed * (multiplier ? MULTIPLIERS[multiplier] : 1));
+        return {
+            start: found.index,
+            end: found.index + found[0].length,
+            value: `${amount}${currency.label}`,
+            structured: { kind: 'amount', amount, currency: currency.code },
+        };
+    };
+    const bySymbol = collect(symbolPattern, text, found => toMatch(found, found[2], found[3], found[1]));
+    const byUnit = collect(unitPattern, text, found => {
+        // "三块蛋糕" counts pieces; only "3块", "三块钱" and amounts with a magnitude such as "三万块" are money.
+        if (found[3] === '块' && !/^\d/.test(found[1]) && !found[2] && !/[千万亿]/.test(found[1])) return null;
+        const match = toMatch(found, found[1], found[2], found[3]);
+        return match && !bySymbol.some(m => match.start < m.end && match.end > m.start) ? match : null;
+    });
+    return [...bySymbol, ...byUnit];
+};
+
+const extractMobiles: SystemExtractor = (text) =>
+    collect(/(?<!\d)(?:\+?86[-\s]?)?(1[3-9]\d)[-\s]?(\d{4})[-\s]?(\d{4})(?!\d)/g, text, found => {
+        const number = `${found[1]}${found[2]}${found[3]}`;
+        return { start: found.index, end: found.index + found[0].length, value: number, structured: { kind: 'mobile', number } };
+    });
+
+const extractEmails: SystemExtractor = (text) =>
+    collect(/[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g, text, found => {
+        const address = found[0].toLowerCase();
+        return { start: found.index, end: found.index + found[0].length, value: address, structured: { kind: 'email', address } };
+    });
+
+const extractIdNumbers: SystemExtractor = (text) =>
+    collect(/(?<![0-9A-Za-z])\d{6}(\d{4})(\d{2})(\d{2})\d{3}[\dXx](?![0-9A-Za-z])/g, text, found => {
+        const number = found[0].toUpperCase();
+        const sum = ID_WEIGHTS.reduce((acc, weight, i) => acc + weight * Number(number[i]), 0);
+        const birth = makeDate(Number(found[1]), Number(found[2]), Number(found[3]));
+        if (ID_CHECK_CODES[sum % 11] !== number[17] || !birth) return null;
+        return {
+            start: found.index,
+            end: found.index + found[0].length,
+            value: number,
+            structured: { kind: 'idNumber', number, birthDate: formatDate(birth) },
+        };
+    });
+
+// Order numbers differ between shops, so any 10 to 32 letters and digits with at least 8 digits qualify.
+const extractOrderIds: SystemExtractor = (text) =>
+    collect(/(?<![0-9A-Za-z])(?=(?:[A-Za-z-]*\d){8})[A-Za-z0-9-]{10,32}(?![0-9A-Za-z-])/g, text, found => {
+        const id = found[0].toUpperCase();
+        return { start: found.index, end: found.index + found[0].length, value: id, structured: { kind: 'orderId', id } };
+    });
+
+const systemEntity = (id: string, name: string, description: string): Entity => ({
+    id,
+    name,
+    description,
+    type: 'system',
+    members: [],
+    regex: null,
+    normalization: { ignoreCase: true, foldWidth: true },
+    organizationId: null,
+});
+
+// Listed in the order they claim text: an email's digits are never read as an order number.
+export const SYSTEM_ENTITIES: Entity[] = [
+    systemEntity('sys-email', 'sys_email', '电子邮箱地址，统一为小写。'),
+    systemEntity('sys-id-number', 'sys_id_number', '18 位居民身份证号码，校验位正确时识别，并给出出生日期。'),
+    systemEntity('sys-mobile', 'sys_mobile', '中国大陆手机号，如 139 1234 5678、+86 13912345678，统一为 11 位数字。'),
+    systemEntity('sys-date', 'sys_date', '日期，如 2024-05-01、五月一号、昨天、3天前、下周二，统一为 YYYY-MM-DD。'),
+    systemEntity('sys-amount', 'sys_amount', '带单位的金额，如 ¥99、三千五百元、1.5万块、20美元，给出数值和币种。'),
+    systemEntity('sys-order-id', 'sys_order_id', '订单号：10 到 32 位、至少含 8 位数字的字母数字串，统一为大写。'),
+];
+
+export const SYSTEM_ENTITY_EXAMPLES: Record<string, string> = {
+    'sys-email': 'service@example.com',
+    'sys-id-number': '11010519491231002X',
+    'sys-mobile': '139 1234 5678',
+    'sys-date': '3天前、下周二、五月一号',
+    'sys-amount': '¥99、三千五百元',
+    'sys-order-id': 'DD202405010001',
+};
+
+export const SYSTEM_EXTRACTORS: Record<string, SystemExtractor> = {
+    'sys-email': extractEmails,
+    'sys-id-number': extractIdNumbers,
+    'sys-mobile': extractMobiles,
+    'sys-date': extractDates,
+    'sys-amount': extractAmounts,
+    'sys-order-id': extractOrderIds,
+};
+
+/**
+ * Adds the built-in system entities to the user-defined ones.
+ * @param entities The entities edited on the 实体管理 page.
+ * @returns All entities that can be extracted and used in slots.
+ */
+export const withSystemEntities = (entities: Entity[]): Entity[] => [...entities, ...SYSTEM_ENTITIES];
@@ -0,0 +1,73 @@
+import type { Entity, EntityMember, Intent, Unscoped } from '../../types';
+import { SYSTEM_ENTITIES } from '../nlu';
+
+// Intents and entities read from another tool's training data. IDs are fresh; annotations
+// and slots refer to entities of the same dataset or to system entities.
+export interface NluDataset {
+    intents: Unscoped<Intent>[];
+    entities: Unscoped<Entity>[];
+    warnings: string[]; // Parts of the source that could not be converted
+}
+
+let sequence = 0;
+// Converters create many records within the same millisecond, so a counter keeps IDs unique.
+export const newId = (prefix: string): string => `${prefix}-${Date.now()}-${sequence++}`;
+
+/**
+ * Creates an entity with the defaults of the entity editor.
+ * @param name The entity name.
+ * @param fields The type and, for enum or regex entities, the members or the pattern.
+ * @returns The entity.
+ */
+export const createEntity = (name: string, fields: Partial<Unscoped<Entity>> = {}): Unscoped<Entity> => ({
+    id: newId('ent'),
+    name,
+    description: '',
+    type: 'enum',
+    members: [],
+    regex: null,
+    normalization: { ignoreCase: true, foldWidth: true },
+    ...fields,
+});
+
+export const createMember = (value: string, synonyms: string[] = []): EntityMember => ({
+    id: newId('mem'),
+    value,
+    synonyms,
+    canonicalValue: null,
+});
+
+/**
+ * Finds the entity a converted annotation or slot refers to by name, creating an empty enum
+ * entity the first time a name is seen. Names of system entities resolve to them.
+ * @param dataset The dataset being built.
+ * @param name The entity name used by the source.
+ * @returns The entity ID.
+ */
+export const resolveEntityId = (dataset: NluDataset, name: string): string => {
+    const system = SYSTEM_ENTITIES.find(entity => entity.name === name);
+    if (system) return system.id;
+    let entity = dataset.entities.find(e => e.name === name);
+    if (!entity) {
+        entity = createEntity(name);
+        dataset.entities.push(entity);
+    }
+    return entity.id;
+};
+
+/**
+ * Adds a value to an enum entity of the dataset, or synonyms to a value it already has.
+ * @param entity The entity.
+ * @param value The value.
+ * @param synonyms Other ways of writing it.
+ */
+export const addMember = (entity: Unscoped<Entity>, value: string, synonyms: string[] = []) => {
+    const member = entity.members.find(m => m.value === value);
+    if (!member) {
+        entity.members.push(createMember(value, synonyms.filter(s => s !== value)));
+        return;
+    }
+    synonyms.forEach(synonym => {
+        if (synonym !== value && !member.synonyms.includes(synonym)) member.synonyms.push(synonym);
+    });
+};
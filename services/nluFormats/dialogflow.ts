@@ -0,0 +1,241 @@
+import type { Entity, EntityAnnotation, Intent, IntentSlot, Unscoped } from '../../types';
+import { withSystemEntities } from '../nlu';
+import { addMember, createEntity, newId, NluDataset, resolveEntityId } from './dataset';
+import { readZip, writeZip } from '../zip';
+import { isRecord, isString, isStringArray, recordsOf, UnknownRecord } from '../guards';
+
+// Dialogflow system entities with a counterpart among ours.
+const SYSTEM_ENTITY_MAP: Record<string, string> = {
+    '@sys.date': 'sys-date',
+    '@sys.date-time': 'sys-date',
+    '@sys.phone-number': 'sys-mobile',
+    '@sys.email': 'sys-email',
+    '@sys.unit-currency': 'sys-amount',
+};
+
+const EXPORT_LANGUAGE = 'zh-cn';
+
+const parseJson = (files: Map<string, string>, path: string): unknown => {
+    try {
+        return JSON.parse(files.get(path)!);
+    } catch {
+        throw new Error(`${path} 不是有效的 JSON。`);
+    }
+};
+
+// Agent, entity and intent definitions are objects; anything else is read as an empty one.
+const parseObject = (files: Map<string, string>, path: string): UnknownRecord => {
+    const value = parseJson(files, path);
+    return isRecord(value) ? value : {};
+};
+
+// Prefers Chinese, then the agent's default language, then whatever the export contains.
+const pickLanguage = (files: Map<string, string>, agentLanguage: unknown): string | null => {
+    const languages = new Set<string>();
+    files.forEach((_, path) => {
+        const match = path.match(/_(?:usersays|entries)_([A-Za-z-]+)\.json$/);
+        if (match) languages.add(match[1]);
+    });
+    const available = Array.from(languages);
+    return available.find(lang => lang.toLowerCase() === 'zh-cn')
+        ?? available.find(lang => lang.toLowerCase().startsWith('zh'))
+        ?? available.find(lang => lang === agentLanguage)
+        ?? available[0]
+        ?? null;
+};
+
+/**
+ * Converts a Dialogflow ES agent export (the ZIP from 导出代理) to intents and entities.
+ * Parameters of an intent become slots; system entities without a counterpart here are
+ * dropped with a warning.
+ * @param buffer The ZIP file.
+ * @returns The converted dataset.
+ */
+export const parseDialogflowAgent = async (buffer: ArrayBuffer): Promise<NluDataset> => {
+    const zipped = await readZip(buffer);
+    // Agent exports are sometimes zipped inside a top-level folder.
+    const agentPath = Array.from(zipped.keys()).find(path => /(^|\/)agent\.json$/.test(path));
+    if (!agentPath) throw new Error('压缩包中没有 agent.json，不是 Dialogflow 代理导出文件。');
+    const root = agentPath.slice(0, -'agent.json'.length);
+    const files = new Map(Array.from(zipped).filter(([path]) => path.startsWith(root)).map(([path, content]) => [path.slice(root.length), content]));
+
+    const agent = parseObject(files, 'agent.json');
+    const language = pickLanguage(files, agent.language);
+    const dataset: NluDataset = { intents: [], entities: [], warnings: [] };
+    const unsupported = new Set<string>();
+
+    const entityIdOf = (dataType: string): string | null => {
+        if (dataType.startsWith('@sys.')) {
+            if (SYSTEM_ENTITY_MAP[dataType]) return SYSTEM_ENTITY_MAP[dataType];
+            unsupported.add(dataType);
+            return null;
+        }
+        return resolveEntityId(dataset, dataType.replace(/^@/, ''));
+    };
+
+    files.forEach((_, path) => {
+        const match = path.match(/^entities\/([^/]+)\.json$/);
+        if (!match || /_entries_[A-Za-z-]+$/.test(match[1])) return;
+        const definition = parseObject(files, path);
+        const name = isString(definition.name) ? definition.name : match[1];
+        const entries = language ? files.get(`entities/${match[1]}_entries_${language}.json`) : undefined;
+        const list = (entries ? recordsOf(parseJson(files, `entities/${match[1]}_entries_${language}.json`)) : [])
+            .flatMap(entry => isString(entry.value) ? [{ value: entry.value, synonyms: isStringArray(entry.synonyms) ? entry.synonyms : [] }] : []);
+
+        if (definition.isRegexp) {
+            const patterns = list.map(entry => entry.value).filter(Boolean);
+            const regex = patterns.length === 1 ? patterns[0] : patterns.map(p => `(?:${p})`).join('|');
+            dataset.entities.push(createEntity(name, { type: 'regex', regex: regex || null }));
+            return;
+        }
+        const entity = createEntity(name);
+        list.forEach(entry => addMember(entity, entry.value, entry.synonyms));
+        dataset.entities.push(entity);
+    });
+
+    files.forEach((_, path) => {
+        const match = path.match(/^intents\/([^/]+)\.json$/);
+        if (!match || /_usersays_[A-Za-z-]+$/.test(match[1])) return;
+        const definition = parseObject(files, path);
+        const name = isString(definition.name) ? definition.name : match[1];
+        if (definition.fallbackIntent) {
+            dataset.warnings.push(`已跳过兜底意图 “${name}”。`);
+            return;
+        }
+
+        const intent: Unscoped<Intent> = { id: newId('int'), name, description: '', utterances: [], slots: [], knowledgePointId: null };
+        const parameters = recordsOf(recordsOf(definition.responses)[0]?.parameters);
+        parameters.forEach(parameter => {
+            if (!isString(parameter.dataType) || !isString(parameter.name)) return;
+            const entityId = entityIdOf(parameter.dataType);
+            if (!entityId) return;
+            const prompts = recordsOf(parameter.prompts);
+            const prompt = prompts.find(p => p.lang === language) ?? prompts[0];
+            const slot: IntentSlot = {
+                id: newId('slot'),
+                name: parameter.name.replace(/[^a-zA-Z0-9_]/g, '_'),
+                entityId,
+                required: !!parameter.required,
+                prompt: isString(prompt?.value) ? prompt.value : '',
+            };
+            intent.slots.push(slot);
+        });
+
+        const userSays = language ? files.get(`intents/${match[1]}_usersays_${language}.json`) : undefined;
+        const examples = userSays ? recordsOf(parseJson(files, `intents/${match[1]}_usersays_${language}.json`)) : [];
+        examples.forEach(example => {
+            let text = '';
+            const entities: EntityAnnotation[] = [];
+            recordsOf(example.data).forEach(part => {
+                const partText = isString(part.text) ? part.text : '';
+                const start = text.length;
+                text += partText;
+                if (!partText || !isString(part.meta)) return;
+                const entityId = entityIdOf(part.meta);
+                if (!entityId) return;
+                const entity = dataset.entities.find(e => e.id === entityId);
+                if (entity?.type === 'enum' && !entity.members.some(m => m.value === partText || m.synonyms.includes(partText))) addMember(entity, partText);
+                entities.push({ entityId, start, end: text.length, text: partText });
+            });
+            if (text.trim() && !intent.utterances.some(u => u.text === text)) intent.utterances.push({ text, entities });
+        });
+
+        dataset.intents.push(intent);
+    });
+
+    if (unsupported.size > 0) {
+        dataset.warnings.push(`以下系统实体没有对应的内置实体，相关标注和槽位已忽略：${Array.from(unsupported).join('、')}`);
+    }
+    return dataset;
+};
+
+// Dialogflow entity names only allow letters, digits, "-" and "_".
+const toDialogflowName = (name: string, index: number): string =>
+    /^[A-Za-z0-9_-]+$/.test(name) ? name : `entity_${index + 1}`;
+
+// File names must not contain path separators or characters most file systems reject.
+const toFileName = (name: string): string => name.replace(/[\\/:*?"<>|]/g, '_');
+
+/**
+ * Packs intents and entities as a Dialogflow ES agent export that can be restored with
+ * 导入代理. Slots become required or optional parameters with their prompt; system
+ * entities without a Dialogflow counterpart are exported as text (@sys.any).
+ * @param intents The intents.
+ * @param entities The user-defined entities.
+ * @returns The ZIP file.
+ */
+export const formatDialogflowAgent = (intents: Intent[], entities: Entity[]): Blob => {
+    const files = new Map<string, string>();
+    const write = (path: string, data: unknown) => files.set(path, JSON.stringify(data, null, 2));
+
+    const dialogflowNames = new Map(entities.map((entity, index) => [entity.id, toDialogflowName(entity.name, index)]));
+    const systemTypes = new Map(withSystemEntities([]).map(entity => [
+        entity.id,
+        Object.keys(SYSTEM_ENTITY_MAP).find(key => SYSTEM_ENTITY_MAP[key] === entity.id) ?? '@sys.any',
+    ]));
+    const dataTypeOf = (entityId: string) => systemTypes.get(entityId) ?? (dialogflowNames.has(entityId) ? `@${dialogflowNames.get(entityId)}` : '@sys.any');
+
+    write('package.json', { version: '1.0.0' });
+    write('agent.json', { description: '', language: EXPORT_LANGUAGE, supportedLanguages: [], enableOnePlatformApi: true });
+
+    entities.forEach(entity => {
+        const name = dialogflowNames.get(entity.id)!;
+        write(`entities/${name}.json`, {
+            id: entity.id,
+            name,
+            isOverridable: true,
+            isEnum: false,
+            isRegexp: entity.type === 'regex',
+            automatedExpansion: false,
+            allowFuzzyExtraction: false,
+        });
+        const entries = entity.type === 'regex'
+            ? (entity.regex ? [{ value: entity.regex, synonyms: [entity.regex] }] : [])
+            : entity.members.map(member => ({ value: member.canonicalValue || member.value, synonyms: [member.value, ...member.synonyms] }));
+        write(`entities/${name}_entries_${EXPORT_LANGUAGE}.json`, entries);
+    });
+
+    intents.forEach(intent => {
+        const fileName = toFileName(intent.name);
+        write(`intents/${fileName}.json`, {
+            id: intent.id,
+            name: intent.name,
+            auto: true,
+            contexts: [],
+            responses: [{
+                resetContexts: false,
+                affectedContexts: [],
+                parameters: intent.slots.map(slot => ({
+                    id: slot.id,
+                    name: slot.name,
+                    required: slot.required,
+                    dataType: dataTypeOf(slot.entityId),
+                    value: `$${slot.name}`,
+                    prompts: slot.prompt ? [{ lang: EXPORT_LANGUAGE, value: slot.prompt }] : [],
+                    isList: false,
+                })),
+                messages: [],
+            }],
+            priority: 500000,
+            webhookUsed: false,
+            fallbackIntent: false,
+            events: [],
+        });
+        write(`intents/${fileName}_usersays_${EXPORT_LANGUAGE}.json`, intent.utterances.map((utterance, index) => {
+            const data: object[] = [];
+            let position = 0;
+            utterance.entities
+                .filter(a => utterance.text.slice(a.start, a.end) === a.text)
+                .forEach(a => {
+                    if (a.start > position) data.push({ text: utterance.text.slice(position, a.start), userDefined: false });
+                    const slot = intent.slots.find(s => s.entityId === a.entityId);
+                    data.push({ text: a.text, alias: slot?.name ?? dataTypeOf(a.entityId).replace(/^@(sys\.)?/, ''), meta: dataTypeOf(a.entityId), userDefined: true });
+                    position = a.end;
+                });
+            if (position < utterance.text.length) data.push({ text: utterance.text.slice(position), userDefined: false });
+            return { id: `${intent.id}-${index}`, data, isTemplate: false, count: 0, updated: 0 };
+        }));
+    });
+
+    return writeZip(files);
+};
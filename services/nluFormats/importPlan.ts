@@ -0,0 +1,122 @@
+import type { Entity, EntityMember, Intent, Unscoped } from '../../types';
+import type { NluDataset } from './dataset';
+
+export type ImportAction = 'create' | 'merge' | 'unchanged' | 'conflict';
+
+export interface ImportItem<T> {
+    incoming: T;
+    existing: T | null; // The record with the same name, if any
+    action: ImportAction;
+    result: T | null; // What will be written; null for 'unchanged' and 'conflict'
+    notes: string[]; // What a merge adds, or why the item conflicts
+}
+
+export interface ImportPlan {
+    entities: ImportItem<Unscoped<Entity>>[];
+    intents: ImportItem<Unscoped<Intent>>[];
+    warnings: string[];
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const mergeMembers = (existing: EntityMember[], incoming: EntityMember[], notes: string[]): EntityMember[] => {
+    const members = existing.map(member => ({ ...member, synonyms: [...member.synonyms] }));
+    incoming.forEach(member => {
+        const match = members.find(m => m.value === member.value);
+        if (!match) {
+            members.push(member);
+            notes.push(`新增成员 “${member.value}”`);
+            return;
+        }
+        const added = member.synonyms.filter(s => s !== match.value && !match.synonyms.includes(s));
+        if (added.length > 0) {
+            match.synonyms.push(...added);
+            notes.push(`成员 “${match.value}” 新增同义词 ${added.join('、')}`);
+        }
+    });
+    return members;
+};
+
+const planEntity = (incoming: Unscoped<Entity>, existing: Unscoped<Entity> | undefined): ImportItem<Unscoped<Entity>> => {
+    if (!existing) return { incoming, existing: null, action: 'create', result: incoming, notes: [] };
+    if (existing.type !== incoming.type) {
+        return { incoming, existing, action: 'conflict', result: null, notes: [`类型不同：现有为 ${existing.type}，导入为 ${incoming.type}`] };
+    }
+    if (incoming.type === 'regex') {
+        return existing.regex === incoming.regex
+            ? { incoming, existing, action: 'unchanged', result: null, notes: [] }
+            : { incoming, existing, action: 'conflict', result: null, notes: [`正则表达式不同：现有为 ${existing.regex}，导入为 ${incoming.regex}`] };
+    }
+    const notes: string[] = [];
+    const members = mergeMembers(existing.members, incoming.members, notes);
+    return notes.length > 0
+        ? { incoming, existing, action: 'merge', result: { ...existing, members }, notes }
+        : { incoming, existing, action: 'unchanged', result: null, notes: [] };
+};
+
+// Points the annotations and slots of an incoming intent at the entities they will end up as.
+const remapEntities = (intent: Unscoped<Intent>, entityIds: Map<string, string>): Unscoped<Intent> => ({
+    ...intent,
+    utterances: intent.utterances.map(u => ({ ...u, entities: u.entities.map(a => ({ ...a, entityId: entityIds.get(a.entityId) ?? a.entityId })) })),
+    slots: intent.slots.map(slot => ({ ...slot, entityId: entityIds.get(slot.entityId) ?? slot.entityId })),
+});
+
+const planIntent = (incoming: Unscoped<Intent>, existing: Unscoped<Intent> | undefined): ImportItem<Unscoped<Intent>> => {
+    if (!existing) return { incoming, existing: null, action: 'create', result: incoming, notes: [] };
+
+    const notes: string[] = [];
+    const clashing = incoming.slots.filter(slot => existing.slots.some(s => s.name === slot.name && s.entityId !== slot.entityId));
+    if (clashing.length > 0) {
+        return { incoming, existing, action: 'conflict', result: null, notes: clashing.map(slot => `槽位 “${slot.name}” 的实体不同`) };
+    }
+
+    const utterances = incoming.utterances.filter(u => !existing.utterances.some(e => e.text === u.text));
+    if (utterances.length > 0) notes.push(`新增 ${utterances.length} 条语料`);
+    const slots = incoming.slots.filter(slot => !existing.slots.some(s => s.name === slot.name));
+    if (slots.length > 0) notes.push(`新增槽位 ${slots.map(slot => slot.name).join('、')}`);
+
+    return notes.length > 0
+        ? { incoming, existing, action: 'merge', result: { ...existing, utterances: [...existing.utterances, ...utterances], slots: [...existing.slots, ...slots] }, notes }
+        : { incoming, existing, action: 'unchanged', result: null, notes: [] };
+};
+
+/**
+ * Works out what importing a dataset would do, without changing anything. Records are
+ * matched by name, ignoring case: new ones are created, and existing ones gain the members,
+ * synonyms, utterances and slots they lack. An entity of another type or with another
+ * regex, or an intent whose slot of the same name collects another entity, is a conflict
+ * and is left untouched.
+ * @param dataset The converted training data.
+ * @param current The current intents and entities.
+ * @returns The plan, with one item per incoming intent and entity.
+ */
+export const planNluImport = (dataset: NluDataset, current: { intents: Intent[]; entities: Entity[] }): ImportPlan => {
+    const entities = dataset.entities.map(incoming =>
+        planEntity(incoming, current.entities.find(e => sameName(e.name, incoming.name))));
+
+    // Annotations and slots of merged or conflicting entities point at the existing entity.
+    const entityIds = new Map<string, string>(entities
+        .filter(item => item.existing)
+        .map(item => [item.incoming.id, item.existing!.id]));
+
+    const intents = dataset.intents.map(intent => {
+        const incoming = remapEntities(intent, entityIds);
+        return planIntent(incoming, current.intents.find(i => sameName(i.name, incoming.name)));
+    });
+
+    return {
+        entities,
+        intents,
+        warnings: dataset.warnings,
+    };
+};
+
+/**
+ * Lists the records an import plan writes.
+ * @param plan The plan.
+ * @returns The entities and intents to create or replace, matched by ID.
+ */
+export const getPlannedRecords = (plan: ImportPlan): { entities: Unscoped<Entity>[]; intents: Unscoped<Intent>[] } => ({
+    entities: plan.entities.flatMap(item => (item.result ? [item.result] : [])),
+    intents: plan.intents.flatMap(item => (item.result ? [item.result] : [])),
+});
@@ -0,0 +1,5 @@
+export type { NluDataset } from './dataset';
+export type { ImportAction, ImportItem, ImportPlan } from './importPlan';
+export { planNluImport, getPlannedRecords } from './importPlan';
+export { parseRasaNlu, formatRasaNlu } from './rasa';
+export { parseDialogflowAgent, formatDialogflowAgent } from './dialogflow';
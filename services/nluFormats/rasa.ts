@@ -0,0 +1,228 @@
+import type { Entity, EntityAnnotation, Intent, Unscoped } from '../../types';
+import { withSystemEntities } from '../nlu';
+import { addMember, createEntity, newId, NluDataset, resolveEntityId } from './dataset';
+
+interface RasaItem {
+    kind: string; // intent, synonym, regex or lookup
+    name: string;
+    examples: string[];
+}
+
+const unquote = (value: string): string => {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2) {
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            return trimmed.slice(1, -1);
+        }
+    }
+    if (trimmed.startsWith("'") && trimmed.endsWith("'") && trimmed.length >= 2) return trimmed.slice(1, -1).replace(/''/g, "'");
+    return trimmed.replace(/\s+#.*$/, '');
+};
+
+const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+/**
+ * Reads the `nlu:` section of a Rasa training data file. Only the YAML that Rasa itself
+ * writes is understood: a list of items whose `examples` is a block scalar of "- " lines.
+ * @param yaml The file content.
+ * @returns The items in file order.
+ */
+const parseRasaItems = (yaml: string): RasaItem[] => {
+    const lines = yaml.replace(/\r\n?/g, '\n').split('\n');
+    const items: RasaItem[] = [];
+    let inNlu = false;
+    let current: RasaItem | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+        if (indentOf(line) === 0 && !line.startsWith('-')) {
+            inNlu = /^nlu\s*:/.test(line);
+            current = null;
+            continue;
+        }
+        if (!inNlu) continue;
+
+        const itemStart = line.match(/^\s*-\s+(intent|synonym|regex|lookup)\s*:\s*(.*)$/);
+        if (itemStart) {
+            current = { kind: itemStart[1], name: unquote(itemStart[2]), examples: [] };
+            items.push(current);
+            continue;
+        }
+
+        const property = line.match(/^(\s*)(examples)\s*:\s*(.*)$/);
+        if (property && current) {
+            const value = property[3].trim();
+            if (value.startsWith('|') || value.startsWith('>')) {
+                const propertyIndent = property[1].length;
+                while (i + 1 < lines.length && (!lines[i + 1].trim() || indentOf(lines[i + 1]) > propertyIndent)) {
+                    i++;
+                    const example = lines[i].trim().match(/^-\s*(.*)$/);
+                    if (example && example[1]) current.examples.push(example[1].trim());
+                }
+            }
+        }
+    }
+    return items;
+};
+
+// Matches "[text](entity)", "[text](entity:value)" and "[text]{"entity": "name", "value": "canonical"}".
+const ANNOTATION_PATTERN = /\[([^\]]+)\](?:\(([^)]+)\)|(\{[^}]*\}))/g;
+
+interface ParsedExample {
+    text: string;
+    annotations: { start: number; end: number; text: string; entity: string; value: string | null }[];
+}
+
+const parseExample = (example: string): ParsedExample => {
+    let text = '';
+    let position = 0;
+    const annotations: ParsedExample['annotations'] = [];
+    for (const match of example.matchAll(ANNOTATION_PATTERN)) {
+        text += example.slice(position, match.index);
+        position = match.index! + match[0].length;
+        let entity = '';
+        let value: string | null = null;
+        if (match[2]) {
+            [entity, value = null] = match[2].split(':') as [string, string?];
+        } else {
+            try {
+                const data = JSON.parse(match[3]);
+                entity = typeof data.entity === 'string' ? data.entity : '';
+                value = typeof data.value === 'string' ? data.value : null;
+            } catch {
+                entity = '';
+            }
+        }
+        const start = text.length;
+        text += match[1];
+        if (entity) annotations.push({ start, end: text.length, text: match[1], entity: entity.trim(), value });
+    }
+    return { text: text + example.slice(position), annotations };
+};
+
+/**
+ * Converts a Rasa NLU training data file (nlu.yml) to intents and entities. Lookup tables
+ * become enum entities, regexes become regex entities, synonyms become synonyms of the enum
+ * members they name, and entities annotated in examples without a lookup table or regex
+ * become enum entities of the annotated values.
+ * @param yaml The file content.
+ * @returns The converted dataset.
+ */
+export const parseRasaNlu = (yaml: string): NluDataset => {
+    const items = parseRasaItems(yaml);
+    const dataset: NluDataset = { intents: [], entities: [], warnings: [] };
+    if (items.length === 0) throw new Error('文件中没有找到 Rasa NLU 训练数据（nlu: 下的 intent、synonym、regex 或 lookup）。');
+
+    items.filter(item => item.kind === 'regex').forEach(item => {
+        const patterns = item.examples.filter(pattern => {
+            try {
+                new RegExp(pattern);
+                return true;
+            } catch {
+                dataset.warnings.push(`正则 “${item.name}” 中的表达式 ${pattern} 无效，已忽略。`);
+                return false;
+            }
+        });
+        if (patterns.length === 0) return;
+        const regex = patterns.length === 1 ? patterns[0] : patterns.map(p => `(?:${p})`).join('|');
+        dataset.entities.push(createEntity(item.name, { type: 'regex', regex }));
+    });
+
+    items.filter(item => item.kind === 'lookup').forEach(item => {
+        const entity = dataset.entities.find(e => e.name === item.name) ?? createEntity(item.name);
+        if (entity.type !== 'enum') {
+            dataset.warnings.push(`“${item.name}” 同时定义了正则和查找表，已忽略查找表。`);
+            return;
+        }
+        if (!dataset.entities.includes(entity)) dataset.entities.push(entity);
+        item.examples.forEach(value => addMember(entity, value));
+    });
+
+    items.filter(item => item.kind === 'intent').forEach(item => {
+        const intent: Unscoped<Intent> = { id: newId('int'), name: item.name, description: '', utterances: [], slots: [], knowledgePointId: null };
+        item.examples.forEach(example => {
+            const parsed = parseExample(example);
+            if (!parsed.text.trim() || intent.utterances.some(u => u.text === parsed.text)) return;
+            const entities: EntityAnnotation[] = parsed.annotations.map(annotation => {
+                const entityId = resolveEntityId(dataset, annotation.entity);
+                const entity = dataset.entities.find(e => e.id === entityId);
+                if (entity?.type === 'enum') addMember(entity, annotation.value ?? annotation.text, [annotation.text]);
+                return { entityId, start: annotation.start, end: annotation.end, text: annotation.text };
+            });
+            intent.utterances.push({ text: parsed.text, entities });
+        });
+        dataset.intents.push(intent);
+    });
+
+    items.filter(item => item.kind === 'synonym').forEach(item => {
+        const forms = [item.name, ...item.examples];
+        const owners = dataset.entities.filter(e => e.type === 'enum' && e.members.some(m => forms.includes(m.value)));
+        if (owners.length === 0) {
+            dataset.warnings.push(`同义词 “${item.name}” 没有对应的实体成员，已忽略。`);
+            return;
+        }
+        owners.forEach(entity => {
+            // Annotated synonyms were added as members of their own; fold them into the canonical value.
+            const folded = entity.members.filter(m => m.value !== item.name && forms.includes(m.value));
+            entity.members = entity.members.filter(m => !folded.includes(m));
+            addMember(entity, item.name, [...item.examples, ...folded.flatMap(m => [m.value, ...m.synonyms])]);
+        });
+    });
+
+    return dataset;
+};
+
+const PLAIN_SCALAR = /^[\p{L}\p{N}_-]+$/u;
+const scalar = (value: string): string => (PLAIN_SCALAR.test(value) ? value : JSON.stringify(value));
+
+const formatExample = (text: string, annotations: EntityAnnotation[], entityName: (id: string) => string): string => {
+    let result = '';
+    let position = 0;
+    annotations
+        .filter(a => text.slice(a.start, a.end) === a.text)
+        .forEach(a => {
+            result += `${text.slice(position, a.start)}[${a.text}](${entityName(a.entityId)})`;
+            position = a.end;
+        });
+    return (result + text.slice(position)).replace(/\s*\n\s*/g, ' ');
+};
+
+const block = (header: string, examples: string[]): string =>
+    [header, '  examples: |', ...examples.map(example => `    - ${example}`)].join('\n');
+
+/**
+ * Writes intents and entities as a Rasa NLU training data file. Enum entities become lookup
+ * tables plus one synonym item per member with synonyms; regex entities become regexes.
+ * Slots and linked knowledge points have no place in NLU data and are left out.
+ * @param intents The intents.
+ * @param entities The user-defined entities.
+ * @returns The content of nlu.yml.
+ */
+export const formatRasaNlu = (intents: Intent[], entities: Entity[]): string => {
+    const allEntities = withSystemEntities(entities);
+    const entityName = (id: string) => allEntities.find(e => e.id === id)?.name ?? id;
+    const items: string[] = [];
+
+    intents.filter(intent => intent.utterances.length > 0).forEach(intent => {
+        items.push(block(`- intent: ${scalar(intent.name)}`, intent.utterances.map(u => formatExample(u.text, u.entities, entityName))));
+    });
+    entities.forEach(entity => {
+        if (entity.type === 'regex' && entity.regex) {
+            items.push(block(`- regex: ${scalar(entity.name)}`, [entity.regex]));
+        }
+        if (entity.type === 'enum' && entity.members.length > 0) {
+            items.push(block(`- lookup: ${scalar(entity.name)}`, entity.members.map(m => m.value)));
+            entity.members.forEach(member => {
+                const canonical = member.canonicalValue || member.value;
+                const forms = [member.value, ...member.synonyms].filter(form => form !== canonical);
+                if (forms.length > 0) items.push(block(`- synonym: ${scalar(canonical)}`, forms));
+            });
+        }
+    });
+
+    return ['version: "3.1"', '', 'nlu:', ...items, ''].join('\n');
+};
@@ -0,0 +1,121 @@
+import type { Category, Entity, Intent, KnowledgePoint, Organization } from '../types';
+import { SYSTEM_ENTITIES } from './nlu';
+
+// Data from before organizations existed belongs to this one. Migration 6 spells out its id.
+export const DEFAULT_ORGANIZATION: Organization = { id: 'org-default', name: '默认组织' };
+
+interface OrganizationData {
+    categories: Category[];
+    knowledgePoints: KnowledgePoint[];
+    entities: Entity[];
+    intents: Intent[];
+}
+
+export interface OrganizationCopy {
+    categories: Category[]; // Categories the target organization did not have yet
+    knowledgePoints: KnowledgePoint[];
+    entities: Entity[]; // Entities the copied intents need that the target organization did not have
+    intents: Intent[];
+}
+
+/**
+ * Copies knowledge points and intents into another organization. Everything copied gets a
+ * new id. The category path of each point is recreated in the target, reusing categories
+ * with the same name under the same parent. Related questions and intent answers follow the
+ * points that are copied along and are dropped otherwise. Entities are matched by name and
+ * copied when the target has none by that name; system entities are shared.
+ * @param source The records of the organization to copy from.
+ * @param target The records of the organization to copy to.
+ * @param targetOrganizationId The organization to copy to.
+ * @param selection The ids of the knowledge points and intents to copy.
+ * @returns The records to add to the target organization.
+ */
+export const copyToOrganization = (
+    source: OrganizationData,
+    target: Pick<OrganizationData, 'categories' | 'entities'>,
+    targetOrganizationId: string,
+    selection: { knowledgePointIds: string[]; intentIds: string[] }
+): OrganizationCopy => {
+    const result: OrganizationCopy = { categories: [], knowledgePoints: [], entities: [], intents: [] };
+    const now = Date.now();
+    let generated = 0;
+    const newId = (prefix: string) => `${prefix}-${now}-${generated++}`;
+
+    const sourceCategories = new Map(source.categories.map(c => [c.id, c]));
+    const targetCategories = [...target.categories];
+    const categoryIds = new Map<string, string | undefined>();
+    const copyCategory = (id: string): string | null => {
+        // A category that is still being copied is its own ancestor; the cycle is cut there.
+        if (categoryIds.has(id)) return categoryIds.get(id) ?? null;
+        const category = sourceCategories.get(id);
+        if (!category) return null;
+        categoryIds.set(id, undefined);
+        const parentId = category.parentId === null ? null : copyCategory(category.parentId);
+        let match = targetCategories.find(c => c.name === category.name && c.parentId === parentId);
+        if (!match) {
+            match = { id: newId('cat'), name: category.name, parentId, organizationId: targetOrganizationId };
+            targetCategories.push(match);
+            result.categories.push(match);
+        }
+        categoryIds.set(id, match.id);
+        return match.id;
+    };
+
+    const selectedKpIds = new Set(selection.knowledgePointIds);
+    const kpIds = new Map(source.knowledgePoints.filter(kp => selectedKpIds.has(kp.id)).map(kp => [kp.id, newId('kp')]));
+    source.knowledgePoints.forEach(kp => {
+        const id = kpIds.get(kp.id);
+        const categoryId = id && copyCategory(kp.categoryId);
+        if (!id || !categoryId) return;
+        const { pendingRevision, ...content } = kp;
+        result.knowledgePoints.push({
+            ...content,
+            id,
+            categoryId,
+            relatedQuestionIds: kp.relatedQuestionIds.map(relatedId => kpIds.get(relatedId)).filter((relatedId): relatedId is string => !!relatedId),
+            organizationId: targetOrganizationId,
+        });
+    });
+
+    const sourceEntities = new Map(source.entities.map(e => [e.id, e]));
+    const systemEntityIds = new Set(SYSTEM_ENTITIES.map(e => e.id));
+    const targetEntities = [...target.entities];
+    const entityIds = new Map<string, string>();
+    const copyEntity = (id: string): string => {
+        if (systemEntityIds.has(id)) return id;
+        const copied = entityIds.get(id);
+        if (copied) return copied;
+        const entity = sourceEntities.get(id);
+        // A dangling reference stays dangling, as it was in the source.
+        if (!entity) return id;
+        let match = targetEntities.find(e => e.name === entity.name);
+        if (!match) {
+            match = {
+                ...entity,
+                id: newId('ent'),
+                organizationId: targetOrganizationId,
+            };
+            targetEntities.push(match);
+            result.entities.push(match);
+        }
+        entityIds.set(id, match.id);
+        return match.id;
+    };
+
+    const selectedIntentIds = new Set(selection.intentIds);
+    source.intents.filter(intent => selectedIntentIds.has(intent.id)).forEach(intent => {
+        result.intents.push({
+            ...intent,
+            id: newId('int'),
+            utterances: intent.utterances.map(u => ({
+                ...u,
+                entities: u.entities.map(annotation => ({ ...annotation, entityId: copyEntity(annotation.entityId) })),
+            })),
+            slots: intent.slots.map(slot => ({ ...slot, entityId: copyEntity(slot.entityId) })),
+            knowledgePointId: intent.knowledgePointId === null ? null : kpIds.get(intent.knowledgePointId) ?? null,
+            organizationId: targetOrganizationId,
+        });
+    });
+
+    return result;
+};
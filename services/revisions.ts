@@ -0,0 +1,115 @@
+import { KnowledgePoint, KnowledgePointContent, KnowledgePointRevision, KnowledgePointSnapshot, RevisionAction, User } from '../types';
+
+export type RevisionAuthor = Pick<User, 'displayName'> & { id: string | null };
+
+// Credited with changes the app makes on its own, such as archiving expired points.
+export const SCHEDULER_AUTHOR: RevisionAuthor = { id: null, displayName: '定时任务' };
+
+export const REVISION_ACTION_LABELS: Record<RevisionAction, string> = {
+    baseline: '初始版本',
+    create: '创建',
+    update: '修改',
+    transfer: '转移分类',
+    status: '状态变更',
+    restore: '恢复',
+    approve: '审核通过',
+};
+
+/**
+ * Copies the content fields of a knowledge point, leaving out its status.
+ * @param kp The knowledge point.
+ * @returns A copy of its content.
+ */
+export const takeContent = (kp: KnowledgePointContent): KnowledgePointContent => ({
+    standardQuestion: kp.standardQuestion,
+    similarQuestions: [...kp.similarQuestions],
+    answer: kp.answer,
+    categoryId: kp.categoryId,
+    relatedQuestionIds: [...kp.relatedQuestionIds],
+});
+
+/**
+ * Captures the content of a knowledge point that revision history tracks.
+ * @param kp The knowledge point.
+ * @returns A copy of its editable fields.
+ */
+export const takeSnapshot = (kp: KnowledgePoint): KnowledgePointSnapshot => ({ ...takeContent(kp), status: kp.status });
+
+/**
+ * Compares two snapshots field by field.
+ * @param a The first snapshot.
+ * @param b The second snapshot.
+ * @returns True if they hold the same content.
+ */
+export const snapshotsEqual = (a: KnowledgePointSnapshot, b: KnowledgePointSnapshot): boolean =>
+    a.standardQuestion === b.standardQuestion
+    && a.answer === b.answer
+    && a.categoryId === b.categoryId
+    && a.status === b.status
+    && a.similarQuestions.join('\n') === b.similarQuestions.join('\n')
+    && a.relatedQuestionIds.join('\n') === b.relatedQuestionIds.join('\n');
+
+/**
+ * Names the kind of change between two versions of a knowledge point.
+ * @param before The snapshot before the change.
+ * @param after The snapshot after the change.
+ * @returns 'status' or 'transfer' when only that field changed, otherwise 'update'.
+ */
+export const classifyChange = (before: KnowledgePointSnapshot, after: KnowledgePointSnapshot): RevisionAction => {
+    if (snapshotsEqual({ ...before, status: after.status }, after)) return 'status';
+    if (snapshotsEqual({ ...before, categoryId: after.categoryId }, after)) return 'transfer';
+    return 'update';
+};
+
+let revisionCounter = 0;
+
+/**
+ * Builds a revision recording a knowledge point's content after a change.
+ * @param kp The knowledge point as it is after the change.
+ * @param action The kind of change.
+ * @param author The user who made the change, or the scheduler.
+ * @param details The restored revision for restores, or the reviewer's comment for approvals.
+ * @returns The new revision.
+ */
+export const createRevision = (
+    kp: KnowledgePoint,
+    action: RevisionAction,
+    author: RevisionAuthor,
+    details: Pick<KnowledgePointRevision, 'restoredFromId' | 'comment'> = {},
+): KnowledgePointRevision => ({
+    id: `rev-${Date.now()}-${revisionCounter++}`,
+    knowledgePointId: kp.id,
+    action,
+    snapshot: takeSnapshot(kp),
+    authorId: author.id,
+    author: author.displayName,
+    timestamp: new Date().toISOString(),
+    ...details,
+});
+
+/**
+ * Builds the revision that stands for a point's state before its first recorded change,
+ * attributed to whoever created it.
+ * @param kp The knowledge point as it is before the change.
+ * @returns The baseline revision.
+ */
+export const createBaselineRevision = (kp: KnowledgePoint): KnowledgePointRevision => ({
+    id: `rev-${Date.now()}-${revisionCounter++}`,
+    knowledgePointId: kp.id,
+    action: 'baseline',
+    snapshot: takeSnapshot(kp),
+    authorId: null,
+    author: kp.createdBy,
+    timestamp: kp.createdAt,
+});
+
+/**
+ * Lists a knowledge point's revisions, newest first.
+ * @param revisions All stored revisions.
+ * @param kpId The knowledge point ID.
+ * @returns The point's revisions.
+ */
+export const getRevisionsFor = (revisions: KnowledgePointRevision[], kpId: string): KnowledgePointRevision[] =>
+    revisions
+        .filter(rev => rev.knowledgePointId === kpId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id.localeCompare(a.id));
@@ -0,0 +1,86 @@
+import type { Category, KnowledgePoint, Robot, RobotKnowledgeScope } from '../types';
+
+/**
+ * Reads tags typed as a comma-separated list, accepting full-width commas.
+ * @param text The typed list.
+ * @returns The distinct, trimmed tags.
+ */
+export const parseTags = (text: string): string[] =>
+    Array.from(new Set(text.split(/[,，]/).map(tag => tag.trim()).filter(Boolean)));
+
+/**
+ * Checks whether a scope restricts anything; a robot with an empty scope answers from the
+ * whole knowledge base of its organization.
+ * @param scope The robot's scope.
+ * @returns True if the scope names categories or tags.
+ */
+export const isScopeRestricted = (scope: RobotKnowledgeScope): boolean =>
+    scope.categoryIds.length > 0 || scope.tags.length > 0;
+
+/**
+ * Expands the categories of a scope with all their subcategories.
+ * @param categoryIds The bound categories.
+ * @param categories All categories.
+ * @returns The IDs of the bound categories and everything below them.
+ */
+export const expandCategoryIds = (categoryIds: string[], categories: Category[]): Set<string> => {
+    const expanded = new Set<string>();
+    const pending = [...categoryIds];
+    while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (expanded.has(id)) continue;
+        expanded.add(id);
+        categories.forEach(c => c.parentId === id && pending.push(c.id));
+    }
+    return expanded;
+};
+
+/**
+ * Filters knowledge points down to the ones a robot may answer from: those in a bound
+ * category subtree or carrying a bound tag.
+ * @param robot The robot.
+ * @param knowledgePoints The knowledge points of the robot's organization.
+ * @param categories The categories of the robot's organization.
+ * @returns The points in the robot's scope, or all of them if the scope is empty.
+ */
+export const getRobotKnowledgePoints = (robot: Robot, knowledgePoints: KnowledgePoint[], categories: Category[]): KnowledgePoint[] => {
+    const scope = robot.knowledgeScope;
+    if (!isScopeRestricted(scope)) return knowledgePoints;
+    const categoryIds = expandCategoryIds(scope.categoryIds, categories);
+    return knowledgePoints.filter(kp => categoryIds.has(kp.categoryId) || (kp.tags ?? []).some(tag => scope.tags.includes(tag)));
+};
+
+/**
+ * Lists the robots that try to answer a question, in order: the robot itself, then its
+ * fallback robot, that robot's fallback, and so on. Fallbacks in another organization or
+ * that were deleted end the chain, and a robot is never asked twice.
+ * @param robot The robot the customer talks to.
+ * @param robots All robots.
+ * @returns The chain, starting with the robot.
+ */
+export const getFallbackChain = (robot: Robot, robots: Robot[]): Robot[] => {
+    const chain = [robot];
+    for (let id = robot.fallbackRobotId; id !== null;) {
+        const next = robots.find(r => r.id === id && r.organizationId === robot.organizationId);
+        if (!next || chain.includes(next)) break;
+        chain.push(next);
+        id = next.fallbackRobotId;
+    }
+    return chain;
+};
+
+/**
+ * Checks whether giving a robot a fallback would lead back to the robot itself.
+ * @param robotId The robot being edited.
+ * @param fallbackRobotId The proposed fallback.
+ * @param robots All robots.
+ * @returns True if following the fallbacks from the proposed one reaches the robot.
+ */
+export const createsFallbackCycle = (robotId: string, fallbackRobotId: string, robots: Robot[]): boolean => {
+    const visited = new Set<string>();
+    for (let id: string | null = fallbackRobotId; id !== null && !visited.has(id); id = robots.find(r => r.id === id)?.fallbackRobotId ?? null) {
+        if (id === robotId) return true;
+        visited.add(id);
+    }
+    return false;
+};
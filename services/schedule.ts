@@ -0,0 +1,60 @@
+import type { KnowledgePoint } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Browsers overflow timers longer than about 24.8 days, so long waits are split into steps.
+export const MAX_TIMER_DELAY_MS = DAY_MS;
+
+type Schedule = Pick<KnowledgePoint, 'effectiveFrom' | 'expireAt'>;
+
+/**
+ * Checks whether the current time falls inside a knowledge point's effective period.
+ * Missing dates leave that end of the period open.
+ * @param kp The knowledge point.
+ * @param now The time to check, in milliseconds.
+ * @returns True if the point is in effect.
+ */
+export const isWithinSchedule = (kp: Schedule, now: number = Date.now()): boolean =>
+    (!kp.effectiveFrom || Date.parse(kp.effectiveFrom) <= now)
+    && (!kp.expireAt || now < Date.parse(kp.expireAt));
+
+/**
+ * Checks whether a knowledge point's expiry time has passed.
+ * @param kp The knowledge point.
+ * @param now The time to check, in milliseconds.
+ * @returns True if the point has expired.
+ */
+export const isExpired = (kp: Schedule, now: number = Date.now()): boolean =>
+    !!kp.expireAt && Date.parse(kp.expireAt) <= now;
+
+/**
+ * Checks whether a knowledge point expires within the given number of days. Points that
+ * have already expired are not included.
+ * @param kp The knowledge point.
+ * @param days The number of days to look ahead.
+ * @param now The current time, in milliseconds.
+ * @returns True if the expiry time falls in that window.
+ */
+export const isExpiringWithin = (kp: Schedule, days: number, now: number = Date.now()): boolean => {
+    if (!kp.expireAt) return false;
+    const expireAt = Date.parse(kp.expireAt);
+    return expireAt > now && expireAt <= now + days * DAY_MS;
+};
+
+/**
+ * Finds the next moment at which a published point starts or stops being in effect.
+ * @param knowledgePoints All knowledge points.
+ * @param now The current time, in milliseconds.
+ * @returns The time of the next change in milliseconds, or null if nothing is scheduled.
+ */
+export const getNextScheduleChange = (knowledgePoints: KnowledgePoint[], now: number = Date.now()): number | null => {
+    let next: number | null = null;
+    knowledgePoints.forEach(kp => {
+        if (kp.status !== 'published') return;
+        [kp.effectiveFrom, kp.expireAt].forEach(date => {
+            const time = date ? Date.parse(date) : NaN;
+            if (time > now && (next === null || time < next)) next = time;
+        });
+    });
+    return next;
+};
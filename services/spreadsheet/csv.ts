@@ -0,0 +1,69 @@
+// Spreadsheet tools run a cell starting with one of these as a formula.
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/**
+ * Parses CSV text as written by Excel and most spreadsheet tools: fields may be quoted, and
+ * quoted fields may contain the delimiter, doubled quotes and line breaks. The delimiter is
+ * a comma, or a tab or semicolon if the first line has more of those. The apostrophe that
+ * formatCsv puts before formula-like cells is removed.
+ * @param text The file content.
+ * @returns The rows, each a list of cell texts. Blank lines are kept, so that row numbers match the file.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const content = text.replace(/^﻿/, '');
+    const firstLine = content.slice(0, content.search(/\r?\n|$/));
+    const delimiter = [',', '\t', ';'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.map(cells => cells.map(cell => (cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell)));
+};
+
+const quoteField = (value: string): string => {
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes rows as CSV. A byte order mark is added so that Excel detects UTF-8 and shows
+ * Chinese text correctly. Cells that would start a formula are prefixed with an apostrophe,
+ * which Excel shows as text; parseCsv removes it again.
+ * @param rows The rows, each a list of cell texts.
+ * @returns The file content.
+ */
+export const formatCsv = (rows: string[][]): string =>
+    `﻿${rows.map(row => row.map(quoteField).join(',')).join('\r\n')}\r\n`;
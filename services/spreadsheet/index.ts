@@ -0,0 +1,13 @@
+export { parseCsv, formatCsv } from './csv';
+export { columnLetters, readXlsx, writeXlsx } from './xlsx';
+export type { ColumnMapping, DuplicateMode, KnowledgeField, KnowledgeImportPlan, KnowledgeRow, RowError } from './knowledgeSheet';
+export {
+    formatKnowledgeRows,
+    getCategoryPath,
+    guessColumnMapping,
+    parseKnowledgeRows,
+    planKnowledgeImport,
+    CATEGORY_PATH_SEPARATOR,
+    DEFAULT_SIMILAR_QUESTION_DELIMITER,
+    KNOWLEDGE_FIELD_LABELS,
+} from './knowledgeSheet';
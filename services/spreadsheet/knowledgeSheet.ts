@@ -0,0 +1,235 @@
+import type { Category, KnowledgePoint, Unscoped } from '../../types';
+import { plainTextToHtml } from '../html';
+
+export type KnowledgeField = 'categoryPath' | 'standardQuestion' | 'similarQuestions' | 'answer' | 'status';
+
+// Column headers written on export; also recognized, with the aliases, when guessing a mapping.
+export const KNOWLEDGE_FIELD_LABELS: Record<KnowledgeField, string> = {
+    categoryPath: '分类',
+    standardQuestion: '标准问题',
+    similarQuestions: '相似问题',
+    answer: '答案',
+    status: '状态',
+};
+
+const FIELD_ALIASES: Record<KnowledgeField, string[]> = {
+    categoryPath: ['分类', '分类路径', '类别', 'category'],
+    standardQuestion: ['标准问题', '问题', 'question', 'standard question'],
+    similarQuestions: ['相似问题', '相似问法', '扩展问题', 'similar questions'],
+    answer: ['答案', '回答', 'answer'],
+    status: ['状态', 'status'],
+};
+
+const STATUS_VALUES: Record<string, KnowledgePoint['status']> = {
+    'published': 'published', '已发布': 'published', '发布': 'published',
+    'draft': 'draft', '草稿': 'draft',
+    'archived': 'archived', '已归档': 'archived', '归档': 'archived',
+};
+
+const STATUS_LABELS: Record<KnowledgePoint['status'], string> = { published: '已发布', draft: '草稿', archived: '已归档' };
+
+export const CATEGORY_PATH_SEPARATOR = '/';
+export const DEFAULT_SIMILAR_QUESTION_DELIMITER = '|';
+
+// The column of each field, or null if the file has none.
+export type ColumnMapping = Record<KnowledgeField, number | null>;
+
+export type DuplicateMode = 'skip' | 'overwrite' | 'merge';
+
+export interface KnowledgeRow {
+    rowNumber: number; // 1-based, as shown by spreadsheet tools
+    categoryPath: string[];
+    standardQuestion: string;
+    similarQuestions: string[];
+    answer: string; // HTML
+    status?: KnowledgePoint['status']; // Absent if the cell is blank or there is no status column
+}
+
+export interface RowError {
+    rowNumber: number;
+    message: string;
+}
+
+/**
+ * Guesses which column holds each field from the header row.
+ * @param header The cells of the first row.
+ * @returns The mapping; fields with no recognizable header are null.
+ */
+export const guessColumnMapping = (header: string[]): ColumnMapping => {
+    const normalized = header.map(cell => cell.trim().toLowerCase());
+    const find = (field: KnowledgeField) => {
+        const index = normalized.findIndex(cell => FIELD_ALIASES[field].includes(cell));
+        return index === -1 ? null : index;
+    };
+    return {
+        categoryPath: find('categoryPath'),
+        standardQuestion: find('standardQuestion'),
+        similarQuestions: find('similarQuestions'),
+        answer: find('answer'),
+        status: find('status'),
+    };
+};
+
+// Cells that already contain markup are kept; plain text is escaped with its line breaks kept.
+const toAnswerHtml = (text: string): string => (/<[a-z][^>]*>/i.test(text) ? text : plainTextToHtml(text));
+
+/**
+ * Reads and validates the knowledge points in spreadsheet rows. A row is rejected if it has
+ * no category, question or answer, has an unknown status, or repeats the question of an
+ * earlier row.
+ * @param rows The rows of the file.
+ * @param mapping The column of each field.
+ * @param options Whether the first row is a header, and the delimiter between similar questions.
+ * @returns The valid rows and one error per rejected row.
+ */
+export const parseKnowledgeRows = (
+    rows: string[][],
+    mapping: ColumnMapping,
+    options: { hasHeader: boolean; similarQuestionDelimiter: string }
+): { rows: KnowledgeRow[]; errors: RowError[] } => {
+    const parsed: KnowledgeRow[] = [];
+    const errors: RowError[] = [];
+    const seen = new Map<string, number>();
+    const cell = (row: string[], field: KnowledgeField) => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    rows.forEach((row, index) => {
+        if ((options.hasHeader && index === 0) || row.every(value => value.trim() === '')) return;
+        const rowNumber = index + 1;
+        const problems: string[] = [];
+
+        const categoryPath = cell(row, 'categoryPath').split(CATEGORY_PATH_SEPARATOR).map(part => part.trim()).filter(Boolean);
+        if (categoryPath.length === 0) problems.push('分类为空');
+        const standardQuestion = cell(row, 'standardQuestion');
+        if (!standardQuestion) problems.push('标准问题为空');
+        const answer = cell(row, 'answer');
+        if (!answer) problems.push('答案为空');
+        const statusText = cell(row, 'status');
+        const status = statusText ? STATUS_VALUES[statusText.toLowerCase()] : undefined;
+        if (statusText && !status) problems.push(`状态 “${statusText}” 无效，应为 已发布、草稿 或 已归档`);
+        const earlier = standardQuestion ? seen.get(standardQuestion) : undefined;
+        if (earlier !== undefined) problems.push(`与第 ${earlier} 行的标准问题重复`);
+
+        if (problems.length > 0) {
+            errors.push({ rowNumber, message: problems.join('；') });
+            return;
+        }
+        seen.set(standardQuestion, rowNumber);
+        const delimiter = options.similarQuestionDelimiter;
+        const similarText = cell(row, 'similarQuestions');
+        const similarQuestions = (delimiter ? similarText.split(delimiter) : [similarText])
+            .map(q => q.trim())
+            .filter(q => q && q !== standardQuestion);
+        parsed.push({
+            rowNumber,
+            categoryPath,
+            standardQuestion,
+            similarQuestions: Array.from(new Set(similarQuestions)),
+            answer: toAnswerHtml(answer),
+            status,
+        });
+    });
+
+    return { rows: parsed, errors };
+};
+
+/**
+ * The path of a category from the root, e.g. ["账单", "订阅"].
+ * @param categoryId The category.
+ * @param categories All categories.
+ * @returns The names from the root down to the category.
+ */
+export const getCategoryPath = (categoryId: string, categories: Category[]): string[] => {
+    const path: string[] = [];
+    const visited = new Set<string>();
+    for (let category = categories.find(c => c.id === categoryId); category && !visited.has(category.id); category = categories.find(c => c.id === category!.parentId)) {
+        visited.add(category.id);
+        path.unshift(category.name);
+    }
+    return path;
+};
+
+export interface KnowledgeImportPlan {
+    newCategories: Unscoped<Category>[]; // Parents before children
+    created: (Omit<KnowledgePoint, 'id' | 'createdAt' | 'createdBy' | 'organizationId'> & { rowNumber: number })[];
+    updated: { rowNumber: number; id: string; update: Partial<KnowledgePoint> }[];
+    skipped: RowError[]; // Rows whose question exists, when duplicates are skipped or nothing would change
+}
+
+/**
+ * Works out what importing validated rows would do. Missing categories along each path are
+ * created. A row whose standard question matches an existing point is skipped, overwrites
+ * the point's category, answer, similar questions and status, or is merged into it, which
+ * only adds the similar questions it lacks. A row without a status keeps the existing
+ * point's status, or creates a draft.
+ * @param rows The validated rows.
+ * @param knowledgePoints The existing points.
+ * @param categories The existing categories.
+ * @param duplicateMode What to do with rows whose question already exists.
+ * @returns The plan.
+ */
+export const planKnowledgeImport = (
+    rows: KnowledgeRow[],
+    knowledgePoints: KnowledgePoint[],
+    categories: Category[],
+    duplicateMode: DuplicateMode
+): KnowledgeImportPlan => {
+    const allCategories: Unscoped<Category>[] = [...categories];
+    const plan: KnowledgeImportPlan = { newCategories: [], created: [], updated: [], skipped: [] };
+
+    const resolveCategory = (path: string[]): string => {
+        let parentId: string | null = null;
+        path.forEach(name => {
+            let category = allCategories.find(c => c.parentId === parentId && c.name === name);
+            if (!category) {
+                category = { id: `cat-${Date.now()}-${plan.newCategories.length}`, name, parentId };
+                allCategories.push(category);
+                plan.newCategories.push(category);
+            }
+            parentId = category.id;
+        });
+        return parentId!;
+    };
+
+    rows.forEach(row => {
+        const existing = knowledgePoints.find(kp => kp.standardQuestion.trim() === row.standardQuestion);
+        if (existing && duplicateMode === 'skip') {
+            plan.skipped.push({ rowNumber: row.rowNumber, message: '标准问题已存在，已跳过' });
+            return;
+        }
+        if (existing && duplicateMode === 'merge') {
+            const added = row.similarQuestions.filter(q => !existing.similarQuestions.includes(q) && q !== existing.standardQuestion);
+            if (added.length === 0) plan.skipped.push({ rowNumber: row.rowNumber, message: '标准问题已存在，没有新的相似问题' });
+            else plan.updated.push({ rowNumber: row.rowNumber, id: existing.id, update: { similarQuestions: [...existing.similarQuestions, ...added] } });
+            return;
+        }
+
+        const categoryId = resolveCategory(row.categoryPath);
+        const content = { categoryId, standardQuestion: row.standardQuestion, similarQuestions: row.similarQuestions, answer: row.answer };
+        if (existing) plan.updated.push({ rowNumber: row.rowNumber, id: existing.id, update: row.status ? { ...content, status: row.status } : content });
+        else plan.created.push({ ...content, status: row.status ?? 'draft', relatedQuestionIds: [], rowNumber: row.rowNumber });
+    });
+
+    return plan;
+};
+
+/**
+ * Lays out knowledge points as spreadsheet rows, with a header row, in the shape that
+ * parseKnowledgeRows reads back.
+ * @param knowledgePoints The points to export.
+ * @param categories All categories.
+ * @param similarQuestionDelimiter The delimiter between similar questions.
+ * @returns The rows.
+ */
+export const formatKnowledgeRows = (knowledgePoints: KnowledgePoint[], categories: Category[], similarQuestionDelimiter = DEFAULT_SIMILAR_QUESTION_DELIMITER): string[][] => [
+    (Object.keys(KNOWLEDGE_FIELD_LABELS) as KnowledgeField[]).map(field => KNOWLEDGE_FIELD_LABELS[field]),
+    ...knowledgePoints.map(kp => [
+        getCategoryPath(kp.categoryId, categories).join(CATEGORY_PATH_SEPARATOR),
+        kp.standardQuestion,
+        kp.similarQuestions.join(similarQuestionDelimiter),
+        kp.answer,
+        STATUS_LABELS[kp.status],
+    ]),
+];
@@ -0,0 +1,113 @@
+import { escapeHtml } from '../html';
+import { readZip, writeZip } from '../zip';
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// The text of a shared or inline string, which may be split into formatted runs.
+const stringText = (element: Element): string =>
+    Array.from(element.getElementsByTagNameNS(SPREADSHEET_NS, 't'))
+        // Phonetic hints (rPh) repeat the reading of East Asian text and are not part of the value.
+        .filter(t => t.parentElement?.localName !== 'rPh' && t.parentElement?.parentElement?.localName !== 'rPh')
+        .map(t => t.textContent ?? '')
+        .join('');
+
+// Converts a column reference such as "C" or "AA" to a zero-based index.
+const columnIndex = (letters: string): number =>
+    letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Converts a zero-based column index to its reference, such as "C" or "AA".
+export const columnLetters = (index: number): string => {
+    let letters = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+    return letters;
+};
+
+/**
+ * Reads the first worksheet of an Excel workbook (.xlsx). Cells are read as the text they
+ * hold; formulas give their last calculated value and dates their serial number.
+ * @param buffer The workbook file.
+ * @returns The rows, each a list of cell texts. Blank rows are kept, so that row numbers match the sheet.
+ */
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+    const files = await readZip(buffer);
+
+    const workbook = files.get('xl/workbook.xml');
+    const relationships = files.get('xl/_rels/workbook.xml.rels');
+    if (!workbook || !relationships) throw new Error('不是有效的 Excel (.xlsx) 文件。');
+    const firstSheet = parseXml(workbook).getElementsByTagNameNS(SPREADSHEET_NS, 'sheet')[0];
+    const relationId = firstSheet?.getAttributeNS(RELATIONSHIPS_NS, 'id');
+    const target = Array.from(parseXml(relationships).getElementsByTagName('Relationship'))
+        .find(rel => rel.getAttribute('Id') === relationId)?.getAttribute('Target');
+    if (!target) throw new Error('Excel 文件中没有工作表。');
+    const sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    const sheet = files.get(sheetPath);
+    if (!sheet) throw new Error('Excel 文件中没有工作表。');
+
+    const sharedStringsXml = files.get('xl/sharedStrings.xml');
+    const sharedStrings = sharedStringsXml
+        ? Array.from(parseXml(sharedStringsXml).getElementsByTagNameNS(SPREADSHEET_NS, 'si')).map(stringText)
+        : [];
+
+    const rows: string[][] = [];
+    Array.from(parseXml(sheet).getElementsByTagNameNS(SPREADSHEET_NS, 'row')).forEach(rowElement => {
+        const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1;
+        while (rows.length < rowNumber - 1) rows.push([]);
+        const row: string[] = [];
+        Array.from(rowElement.getElementsByTagNameNS(SPREADSHEET_NS, 'c')).forEach(cell => {
+            const reference = cell.getAttribute('r')?.match(/^[A-Z]+/)?.[0];
+            const index = reference ? columnIndex(reference) : row.length;
+            const type = cell.getAttribute('t');
+            const value = cell.getElementsByTagNameNS(SPREADSHEET_NS, 'v')[0]?.textContent ?? '';
+            let text: string;
+            if (type === 's') text = sharedStrings[Number(value)] ?? '';
+            else if (type === 'inlineStr') text = stringText(cell);
+            else if (type === 'b') text = value === '1' ? 'TRUE' : 'FALSE';
+            else text = value;
+            while (row.length < index) row.push('');
+            row[index] = text;
+        });
+        rows.push(row);
+    });
+    return rows;
+};
+
+/**
+ * Writes rows as a single-sheet Excel workbook (.xlsx). All cells are stored as text.
+ * @param rows The rows, each a list of cell texts.
+ * @param sheetName The worksheet name.
+ * @returns The workbook file.
+ */
+export const writeXlsx = (rows: string[][], sheetName: string): Blob => {
+    // XML 1.0 cannot hold most control characters, not even escaped.
+    const cellXml = (value: string) => escapeHtml(value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, ''));
+    const sheetRows = rows.map((row, r) => `<row r="${r + 1}">${row.map((value, c) =>
+        `<c r="${columnLetters(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${cellXml(value)}</t></is></c>`).join('')}</row>`).join('');
+
+    const files = new Map<string, string>([
+        ['[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+            + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+            + '<Default Extension="xml" ContentType="application/xml"/>'
+            + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+            + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+            + '</Types>'],
+        ['_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+            + '</Relationships>'],
+        ['xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">`
+            + `<sheets><sheet name="${cellXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+            + '</workbook>'],
+        ['xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+            + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+            + '</Relationships>'],
+        ['xl/worksheets/sheet1.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+            + `<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows}</sheetData></worksheet>`],
+    ]);
+    return writeZip(files);
+};
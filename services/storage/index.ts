@@ -0,0 +1,134 @@
+import { COLLECTION_NAMES, CollectionChanges, CollectionName, StorageAdapter, StoredRecord } from './types';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createMemoryAdapter } from './memoryAdapter';
+import { DATA_VERSION, upgradeRecord, validateRecord } from '../migrations';
+
+export { COLLECTION_NAMES, StorageQuotaError } from './types';
+export type { CollectionChanges, CollectionName, StorageAdapter, StoredRecord } from './types';
+export { createIndexedDbAdapter, SCHEMA_VERSION } from './indexedDbAdapter';
+export { createMemoryAdapter } from './memoryAdapter';
+
+// Where each collection lived before the move to IndexedDB. Newer collections never did.
+const LEGACY_LOCAL_STORAGE_KEYS: Partial<Record<CollectionName, string>> = {
+    categories: 'kb_categories',
+    knowledgePoints: 'kb_knowledge_points',
+    coldStartItems: 'kb_cold_start_items',
+    chatSessions: 'kb_chat_sessions',
+    unansweredQuestions: 'kb_unanswered_questions',
+    robots: 'kb_robots',
+    entities: 'kb_entities',
+    intents: 'kb_intents',
+};
+// Caches that are rebuilt on demand and are simply dropped during the migration.
+const LEGACY_CACHE_KEYS = ['kb_vector_index'];
+
+const INITIALIZED_KEY = 'meta:initializedAt';
+const DATA_VERSION_KEY = 'meta:dataVersion';
+
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Gets the storage adapter shared by the app, creating an IndexedDB adapter on first use.
+ * @returns The shared adapter.
+ */
+export const getStorageAdapter = (): StorageAdapter => {
+    if (!adapter) {
+        adapter = typeof indexedDB !== 'undefined' ? createIndexedDbAdapter() : createMemoryAdapter();
+    }
+    return adapter;
+};
+
+/**
+ * Replaces the shared storage adapter, e.g. with an in-memory one in tests.
+ * @param next The adapter to use from now on.
+ */
+export const setStorageAdapter = (next: StorageAdapter) => {
+    adapter = next;
+};
+
+/**
+ * Computes the changes that turn one version of a collection into another. Records are
+ * compared by reference, which matches the immutable updates used throughout the app.
+ * @param previous The collection as last persisted.
+ * @param next The collection to persist.
+ * @returns The records to put and the IDs to delete.
+ */
+export const diffCollection = <T extends StoredRecord>(previous: T[], next: T[]): CollectionChanges<T> => {
+    const previousById = new Map(previous.map(record => [record.id, record]));
+    const nextIds = new Set(next.map(record => record.id));
+    return {
+        put: next.filter(record => previousById.get(record.id) !== record),
+        delete: previous.filter(record => !nextIds.has(record.id)).map(record => record.id),
+        order: next.map(record => record.id),
+    };
+};
+
+const readLegacyCollection = (key: string): StoredRecord[] | null => {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : null;
+    } catch (error) {
+        console.error(`Failed to parse legacy localStorage key “${key}”:`, error);
+        return null;
+    }
+};
+
+/**
+ * Prepares storage for first use. On a fresh database, data from the old localStorage
+ * keys is copied over once and the keys are removed to free their quota; collections
+ * without old data are seeded with the given defaults. Stored records are then upgraded
+ * to the current DATA_VERSION.
+ * @param storage The adapter to initialize.
+ * @param defaults Demo data for collections that have never been stored.
+ * @throws StorageQuotaError if the migrated data does not fit.
+ */
+export const initializeStorage = async (
+    storage: StorageAdapter,
+    defaults: Partial<Record<CollectionName, StoredRecord[]>>
+): Promise<void> => {
+    if (!(await storage.readValue<string>(INITIALIZED_KEY))) {
+        // The demo data is always current, but legacy data predates versioning.
+        let hasLegacyData = false;
+        for (const name of COLLECTION_NAMES) {
+            const legacyKey = LEGACY_LOCAL_STORAGE_KEYS[name];
+            const legacy = legacyKey ? readLegacyCollection(legacyKey) : null;
+            hasLegacyData = hasLegacyData || legacy !== null;
+            await storage.writeChanges(name, diffCollection([], legacy ?? defaults[name] ?? []));
+        }
+        await storage.writeValue(DATA_VERSION_KEY, hasLegacyData ? 0 : DATA_VERSION);
+        await storage.writeValue(INITIALIZED_KEY, new Date().toISOString());
+
+        // Only remove the old keys once everything is safely in the new storage.
+        if (typeof localStorage !== 'undefined') {
+            [...Object.values(LEGACY_LOCAL_STORAGE_KEYS), ...LEGACY_CACHE_KEYS].forEach(key => key && localStorage.removeItem(key));
+        }
+    }
+
+    await upgradeStoredData(storage);
+};
+
+/**
+ * Runs pending migrations over every stored collection and records the new data version.
+ * Records that still fail validation afterwards are kept and logged rather than dropped,
+ * so that no user data is lost to a migration bug.
+ * @param storage The adapter holding the data.
+ */
+const upgradeStoredData = async (storage: StorageAdapter): Promise<void> => {
+    // Databases created before versioning have no version key and may hold legacy data.
+    const fromVersion = (await storage.readValue<number>(DATA_VERSION_KEY)) ?? 0;
+    if (fromVersion >= DATA_VERSION) return;
+
+    for (const name of COLLECTION_NAMES) {
+        const records = await storage.readCollection(name);
+        const upgraded = records.map(record => upgradeRecord<StoredRecord>(name, record, fromVersion));
+        upgraded.forEach(record => {
+            const invalidFields = validateRecord(name, record);
+            if (invalidFields.length > 0) {
+                console.error(`Stored ${name} record “${record.id}” is invalid after migration:`, invalidFields);
+            }
+        });
+        await storage.writeChanges(name, diffCollection([], upgraded));
+    }
+    await storage.writeValue(DATA_VERSION_KEY, DATA_VERSION);
+};
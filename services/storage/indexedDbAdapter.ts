@@ -0,0 +1,106 @@
+import { CollectionChanges, CollectionName, StorageAdapter, StorageQuotaError, StoredRecord } from './types';
+
+export const DATABASE_NAME = 'knowledge_base';
+
+// Bump SCHEMA_VERSION and add a step to SCHEMA_UPGRADES whenever object stores or indexes change.
+// Steps run in order from the version found on disk, so every step must stay in place forever.
+export const SCHEMA_VERSION = 3;
+
+const VALUES_STORE = 'values';
+const orderKey = (name: CollectionName) => `order:${name}`;
+
+const SCHEMA_UPGRADES: Record<number, (db: IDBDatabase) => void> = {
+    1: (db) => {
+        // Listed explicitly: later collections are created by their own steps.
+        ['categories', 'knowledgePoints', 'coldStartItems', 'chatSessions', 'unansweredQuestions', 'robots', 'entities', 'intents']
+            .forEach(name => db.createObjectStore(name, { keyPath: 'id' }));
+        db.createObjectStore(VALUES_STORE);
+    },
+    2: (db) => {
+        db.createObjectStore('knowledgePointRevisions', { keyPath: 'id' });
+    },
+    3: (db) => {
+        db.createObjectStore('organizations', { keyPath: 'id' });
+    },
+};
+
+const toStorageError = (error: DOMException | null): Error => {
+    if (error?.name === 'QuotaExceededError') {
+        return new StorageQuotaError();
+    }
+    return error ?? new Error('IndexedDB 操作失败。');
+};
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+            SCHEMA_UPGRADES[version](request.result);
+        }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+    request.onblocked = () => reject(new Error('知识库数据库正被其他标签页占用，请关闭其他标签页后刷新。'));
+});
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(toStorageError(request.error));
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+});
+
+/**
+ * Creates a storage adapter backed by IndexedDB. Each collection is an object store keyed
+ * by record ID, so a change only rewrites the records that actually changed.
+ * @param name The database name.
+ * @returns The adapter. The database is opened lazily on first use.
+ */
+export const createIndexedDbAdapter = (name: string = DATABASE_NAME): StorageAdapter => {
+    let database: Promise<IDBDatabase> | null = null;
+    const getDatabase = () => {
+        if (!database) {
+            database = openDatabase(name);
+            database.catch(() => { database = null; });
+        }
+        return database;
+    };
+
+    return {
+        readCollection: async <T extends StoredRecord>(collection: CollectionName): Promise<T[]> => {
+            const db = await getDatabase();
+            const tx = db.transaction([collection, VALUES_STORE], 'readonly');
+            const [records, order] = await Promise.all([
+                requestToPromise(tx.objectStore(collection).getAll() as IDBRequest<T[]>),
+                requestToPromise(tx.objectStore(VALUES_STORE).get(orderKey(collection)) as IDBRequest<string[] | undefined>),
+            ]);
+            // Object stores return records sorted by key, so restore the order they were saved in.
+            const position = new Map((order || []).map((id, i) => [id, i]));
+            return records.sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+        },
+        writeChanges: async <T extends StoredRecord>(collection: CollectionName, changes: CollectionChanges<T>) => {
+            const db = await getDatabase();
+            const tx = db.transaction([collection, VALUES_STORE], 'readwrite');
+            const store = tx.objectStore(collection);
+            changes.delete.forEach(id => store.delete(id));
+            changes.put.forEach(record => store.put(record));
+            tx.objectStore(VALUES_STORE).put(changes.order, orderKey(collection));
+            await transactionDone(tx);
+        },
+        readValue: async <T>(key: string): Promise<T | undefined> => {
+            const db = await getDatabase();
+            const tx = db.transaction(VALUES_STORE, 'readonly');
+            return requestToPromise(tx.objectStore(VALUES_STORE).get(key) as IDBRequest<T | undefined>);
+        },
+        writeValue: async (key, value) => {
+            const db = await getDatabase();
+            const tx = db.transaction(VALUES_STORE, 'readwrite');
+            tx.objectStore(VALUES_STORE).put(value, key);
+            await transactionDone(tx);
+        },
+    };
+};
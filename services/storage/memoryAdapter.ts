@@ -0,0 +1,37 @@
+import type { CollectionChanges, CollectionName, StorageAdapter, StoredRecord } from './types';
+
+/**
+ * Creates a storage adapter that keeps everything in memory. Used in tests and as a
+ * fallback when IndexedDB is unavailable, in which case nothing survives a reload.
+ * @returns A fresh, empty adapter.
+ */
+export const createMemoryAdapter = (): StorageAdapter => {
+    const collections = new Map<CollectionName, { records: Map<string, StoredRecord>; order: string[] }>();
+    const values = new Map<string, unknown>();
+
+    const getCollection = (name: CollectionName) => {
+        let collection = collections.get(name);
+        if (!collection) {
+            collection = { records: new Map(), order: [] };
+            collections.set(name, collection);
+        }
+        return collection;
+    };
+
+    return {
+        readCollection: async <T extends StoredRecord>(name: CollectionName): Promise<T[]> => {
+            const { records, order } = getCollection(name);
+            return order.map(id => records.get(id)).filter((r): r is StoredRecord => !!r) as T[];
+        },
+        writeChanges: async <T extends StoredRecord>(name: CollectionName, changes: CollectionChanges<T>) => {
+            const collection = getCollection(name);
+            changes.delete.forEach(id => collection.records.delete(id));
+            changes.put.forEach(record => collection.records.set(record.id, record));
+            collection.order = [...changes.order];
+        },
+        readValue: async <T>(key: string) => values.get(key) as T | undefined,
+        writeValue: async (key, value) => {
+            values.set(key, value);
+        },
+    };
+};
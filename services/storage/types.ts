@@ -0,0 +1,55 @@
+export const COLLECTION_NAMES = [
+    'categories',
+    'knowledgePoints',
+    'coldStartItems',
+    'chatSessions',
+    'unansweredQuestions',
+    'robots',
+    'entities',
+    'intents',
+    'knowledgePointRevisions',
+    'organizations',
+] as const;
+
+export type CollectionName = typeof COLLECTION_NAMES[number];
+
+export interface StoredRecord {
+    id: string;
+}
+
+export interface CollectionChanges<T extends StoredRecord> {
+    put: T[]; // Records that are new or changed
+    delete: string[]; // IDs of records that were removed
+    order: string[]; // Every remaining ID, in display order
+}
+
+export interface StorageAdapter {
+    /**
+     * Reads every record of a collection in the order it was last written.
+     * @param name The collection to read.
+     * @returns The records, or an empty array for a collection that was never written.
+     */
+    readCollection<T extends StoredRecord>(name: CollectionName): Promise<T[]>;
+    /**
+     * Applies a set of changes to a collection atomically.
+     * @throws StorageQuotaError if the browser refuses to store more data.
+     */
+    writeChanges<T extends StoredRecord>(name: CollectionName, changes: CollectionChanges<T>): Promise<void>;
+    /** Reads a standalone value such as metadata or a cache. */
+    readValue<T>(key: string): Promise<T | undefined>;
+    /**
+     * Writes a standalone value.
+     * @throws StorageQuotaError if the browser refuses to store more data.
+     */
+    writeValue(key: string, value: unknown): Promise<void>;
+}
+
+/**
+ * Thrown when the browser's storage quota is exhausted. The message is shown to the user as is.
+ */
+export class StorageQuotaError extends Error {
+    constructor(message = '浏览器存储空间已满，最近的修改未能保存。请导出并清理历史会话后重试。') {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
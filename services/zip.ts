@@ -0,0 +1,121 @@
+// A minimal ZIP reader and writer, enough for agent exports and spreadsheets: the reader
+// handles stored and deflated entries, the writer stores entries uncompressed.
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+// 1980-01-01, the earliest date ZIP can record; entries carry no meaningful modification time.
+const DOS_DATE = (1 << 5) | 1;
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+const inflateRaw = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the files of a ZIP archive as text.
+ * @param buffer The archive.
+ * @returns The content of every file, by path. Directories are left out.
+ */
+export const readZip = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+
+    // The end of central directory record is at least 22 bytes from the end, before an optional comment.
+    let eocd = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+        if (view.getUint32(i, true) === 0x06054B50) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) throw new Error('不是有效的 ZIP 文件。');
+
+    const files = new Map<string, string>();
+    const count = view.getUint16(eocd + 10, true);
+    let entry = view.getUint32(eocd + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(entry, true) !== 0x02014B50) throw new Error('ZIP 文件的目录已损坏。');
+        const method = view.getUint16(entry + 10, true);
+        const compressedSize = view.getUint32(entry + 20, true);
+        const nameLength = view.getUint16(entry + 28, true);
+        const extraLength = view.getUint16(entry + 30, true);
+        const commentLength = view.getUint16(entry + 32, true);
+        const localHeader = view.getUint32(entry + 42, true);
+        const name = decoder.decode(bytes.subarray(entry + 46, entry + 46 + nameLength));
+        entry += 46 + nameLength + extraLength + commentLength;
+        if (name.endsWith('/')) continue;
+
+        const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) files.set(name, decoder.decode(data));
+        else if (method === 8) files.set(name, decoder.decode(await inflateRaw(data)));
+        else throw new Error(`不支持 ZIP 文件 ${name} 的压缩方式。`);
+    }
+    return files;
+};
+
+/**
+ * Packs text files into an uncompressed ZIP archive.
+ * @param files The content of every file, by path.
+ * @returns The archive.
+ */
+export const writeZip = (files: Map<string, string>): Blob => {
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach((content, path) => {
+        const name = encoder.encode(path);
+        const data = encoder.encode(content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034B50, true);
+        local.setUint16(4, 20, true); // Version needed to extract
+        local.setUint16(6, 0x0800, true); // File names are UTF-8
+        local.setUint16(12, DOS_DATE, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        localParts.push(new Uint8Array(local.buffer), name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014B50, true);
+        central.setUint16(4, 20, true); // Version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(14, DOS_DATE, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, files.size, true);
+    end.setUint16(10, files.size, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
@@ -1,7 +1,17 @@
+// A business unit with its own knowledge base, robots and NLU data.
+export interface Organization {
+  id: string;
+  name: string;
+}
+
+// A record as read from a file or built by an editor, before the knowledge base assigns it to an organization.
+export type Unscoped<T extends { organizationId: unknown }> = Omit<T, 'organizationId'>;
+
 export interface Category {
   id: string;
   name: string;
   parentId: string | null;
+  organizationId: string;
 }
 
 export interface KnowledgePoint {
@@ -14,6 +24,46 @@ export interface KnowledgePoint {
   createdAt: string; // ISO string
   status: 'published' | 'draft' | 'archived';
   createdBy: string;
+  effectiveFrom?: string; // ISO string; a published point only answers from this time on
+  expireAt?: string; // ISO string; the point is archived automatically at this time
+  pendingRevision?: PendingRevision; // Changes submitted for review, if any
+  tags?: string[]; // Free labels, e.g. for binding robots to points across categories
+  organizationId: string;
+}
+
+// The editable content of a knowledge point, as captured in each revision.
+export type KnowledgePointSnapshot = Pick<KnowledgePoint, 'standardQuestion' | 'similarQuestions' | 'answer' | 'categoryId' | 'relatedQuestionIds' | 'status'>;
+
+// The content a reviewer approves; the status is decided by the review itself.
+export type KnowledgePointContent = Omit<KnowledgePointSnapshot, 'status'>;
+
+// Proposed content waiting for a reviewer. The point's own fields are what the chatbot serves,
+// so a published point keeps answering with its live version until the proposal is approved.
+export interface PendingRevision {
+  content: KnowledgePointContent;
+  state: 'pending' | 'rejected';
+  submittedById: string;
+  submittedBy: string; // Display name at the time of submission
+  submittedAt: string; // ISO string
+  reviewedBy?: string;
+  reviewedAt?: string; // ISO string
+  reviewComment?: string; // Required when rejecting
+}
+
+// 'baseline' captures a point as it was before its first recorded change, for points created
+// before revision history existed.
+export type RevisionAction = 'baseline' | 'create' | 'update' | 'transfer' | 'status' | 'restore' | 'approve';
+
+export interface KnowledgePointRevision {
+  id: string;
+  knowledgePointId: string;
+  action: RevisionAction;
+  snapshot: KnowledgePointSnapshot; // The point's content after this change
+  authorId: string | null; // null for baselines, whose author predates user accounts
+  author: string; // Display name at the time of the change
+  timestamp: string; // ISO string
+  restoredFromId?: string; // For 'restore', the revision whose content was restored
+  comment?: string; // For 'approve', the reviewer's comment
 }
 
 export interface ColdStartItem {
@@ -23,13 +73,26 @@ export interface ColdStartItem {
   generatedAnswer: string;
 }
 
+export interface ClarificationOption {
+  knowledgePointId: string;
+  standardQuestion: string;
+  score: number;
+}
+
 export interface ChatMessage {
   id: string;
   text: string;
-  sender: 'user' | 'bot';
+  sender: 'user' | 'bot' | 'agent'; // 'agent' is a human who took the session over
   senderAvatar?: string;
+  senderName?: string; // The agent's display name at the time of the reply
+  knowledgePointId?: string; // The knowledge point a bot answer came from
+  unanswered?: boolean; // Set on bot replies that found no answer
+  feedback?: 'helpful' | 'unhelpful'; // The customer's rating of a bot answer
   relatedQuestions?: KnowledgePoint[];
   suggestions?: string[];
+  clarificationOptions?: ClarificationOption[]; // "您是想问…" candidates offered to the user
+  selectedClarificationId?: string; // The knowledge point the user picked from clarificationOptions
+  citedKnowledgePointIds?: string[]; // Knowledge points an LLM-generated answer was grounded on
 }
 
 export interface ChatSession {
@@ -38,7 +101,24 @@ export interface ChatSession {
   startTime: string; // ISO string for sorting/display
   messages: ChatMessage[];
   robotId: string | null;
-  organizationId?: string; // For future filtering
+  organizationId: string; // The organization that was active when the session started
+  dialogueState?: DialogueState | null; // Set while the bot is asking for slot values
+  handoff?: HandoffState | null; // Set once the session was passed to a human agent
+}
+
+// Why a session was passed to a human agent.
+export type HandoffReason = 'keyword' | 'noAnswers' | 'negativeFeedback';
+
+// A session waits in the queue until an agent takes it over; while it is waiting or active the
+// bot stays silent. Once closed, by the agent or by the customer giving up, the bot answers again.
+export interface HandoffState {
+  status: 'waiting' | 'active' | 'closed';
+  reason: HandoffReason;
+  requestedAt: string; // ISO string
+  agentId: string | null;
+  agentName: string | null; // Display name at the time of the takeover
+  acceptedAt: string | null; // ISO string
+  closedAt: string | null; // ISO string
 }
 
 export interface UnansweredQuestion {
@@ -48,7 +128,7 @@ export interface UnansweredQuestion {
   sessionId: string;
   timestamp: string; // ISO string
   robotId: string | null;
-  organizationId?: string; // For future filtering
+  organizationId: string; // The organization of the session the question came from
 }
 
 export interface ToastMessage {
@@ -64,6 +144,34 @@ export interface LlmConfig {
   contextLength: number;
   streamMode: boolean;
   thinking: boolean;
+  embeddingModel: string; // Empty means the local hashing embedding is used instead of the API
+  embeddingApiUrl: string; // Empty means it is derived from apiUrl
+}
+
+export interface AnswerThresholds {
+  direct: number; // Top score at or above this is answered directly
+  clarify: number; // Top score between this and `direct` asks "您是想问…"; below it there is no answer
+  margin: number; // A runner-up within this distance of the top score also triggers clarification
+}
+
+// 'bm25' scores character n-gram overlap; 'vector' uses cosine similarity of question embeddings.
+export type MatcherType = 'bm25' | 'vector';
+
+// 'retrieval' replies with the matched answer verbatim; 'rag' has the LLM write an answer from the top matches.
+export type AnswerMode = 'retrieval' | 'rag';
+
+// The knowledge points a robot answers from. A point is in scope if it is in one of the
+// categories (or their subcategories) or has one of the tags; with neither, every point is.
+export interface RobotKnowledgeScope {
+  categoryIds: string[];
+  tags: string[];
+}
+
+// When a robot passes a session to a human agent on its own.
+export interface HandoffRules {
+  consecutiveNoAnswers: number; // Hand off after this many unanswered questions in a row; 0 turns the rule off
+  keywords: string[]; // Hand off when a customer message contains one of these, e.g. "转人工"
+  onNegativeFeedback: boolean; // Hand off when the customer marks an answer as unhelpful
 }
 
 export interface Robot {
@@ -71,27 +179,91 @@ export interface Robot {
   name: string;
   avatar: string; // URL to an image
   welcomeMessage: string;
+  goodbyeMessage: string; // Sent when the conversation is ended; empty uses the default
+  handoffMessage: string; // Sent when the conversation is passed to a human agent; empty uses the default
+  fallbackMessages: string[]; // No-answer replies, used in turn; empty uses the default
+  starterQuestions: string[]; // Suggested when a conversation starts; empty picks from the robot's knowledge
+  systemPrompt: string; // Tone and persona for the LLM answer mode, added to its instructions
   apiIdentifier: string; // The unique key for HTTP requests
   silenceThresholdDays: number; // For silent question management
+  answerThresholds: AnswerThresholds;
+  answerMode: AnswerMode;
+  matcherType: MatcherType;
+  knowledgeScope: RobotKnowledgeScope;
+  fallbackRobotId: string | null; // Answers, from its own scope, what this robot finds no answer for
+  handoffRules: HandoffRules;
+  organizationId: string;
+}
+
+export type Role = 'admin' | 'editor' | 'reviewer' | 'viewer';
+
+export interface User {
+  id: string;
+  username: string; // Login name, unique
+  displayName: string; // Shown in createdBy and other attributions
+  role: Role;
+  createdAt: string; // ISO string
 }
 
 export interface EntityMember {
   id: string;
   value: string;
+  synonyms: string[]; // Other ways customers write the value, e.g. "苹果15" for "iPhone15"
+  canonicalValue: string | null; // Reported for the value and every synonym instead of `value`
+}
+
+// How an entity's text is compared with messages. Both rules keep text lengths unchanged.
+export interface EntityNormalization {
+  ignoreCase: boolean;
+  foldWidth: boolean; // Treat full-width letters, digits and punctuation as half-width
 }
 
 export interface Entity {
   id: string;
   name: string;
   description: string;
-  type: 'enum' | 'regex';
+  type: 'enum' | 'regex' | 'system'; // 'system' entities are built in and never stored
   members: EntityMember[];
   regex: string | null;
+  normalization: EntityNormalization;
+  organizationId: string | null; // null for system entities, which every organization shares
+}
+
+export interface IntentSlot {
+  id: string;
+  name: string; // Referenced as {name} in the linked knowledge point's answer
+  entityId: string;
+  required: boolean;
+  prompt: string; // Asked when a required slot has no value yet
+}
+
+// Marks where an entity value appears in an utterance, e.g. "iPhone15" in "我想退iPhone15".
+export interface EntityAnnotation {
+  entityId: string;
+  start: number;
+  end: number;
+  text: string; // The annotated text, kept to check the offsets still line up after the utterance is edited
+}
+
+export interface IntentUtterance {
+  text: string;
+  entities: EntityAnnotation[]; // In text order, never overlapping
 }
 
 export interface Intent {
   id: string;
   name: string;
   description: string;
-  utterances: string[];
+  utterances: IntentUtterance[];
+  slots: IntentSlot[];
+  knowledgePointId: string | null; // Answers the intent once its required slots are filled
+  organizationId: string;
+}
+
+// The intent a conversation is collecting slot values for.
+export interface DialogueState {
+  intentId: string;
+  slotValues: Record<string, string>; // Slot ID -> extracted value
+  pendingSlotId: string; // The slot the last prompt asked for
+  attempts: number; // Prompts for the pending slot that went unanswered
 }
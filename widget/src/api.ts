@@ -0,0 +1,37 @@
+import type { ChatResponse, RobotProfile } from '../../server/chatHandler';
+
+export type { ChatResponse, RobotProfile, RelatedQuestion } from '../../server/chatHandler';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(url, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(body?.error || `请求失败 (${response.status})`);
+    }
+    return body as T;
+};
+
+/**
+ * Fetches the robot's name, avatar, welcome message and starter questions.
+ * @param endpoint The chat server's base URL.
+ * @param apiIdentifier The robot's API identifier.
+ * @returns The robot's public profile.
+ */
+export const fetchRobotProfile = (endpoint: string, apiIdentifier: string): Promise<RobotProfile> =>
+    request<RobotProfile>(`${endpoint}/robots/${encodeURIComponent(apiIdentifier)}`);
+
+/**
+ * Sends one question to the chat server.
+ * @param endpoint The chat server's base URL.
+ * @param body The robot, question and optional session to continue.
+ * @returns The server's answer.
+ */
+export const sendQuestion = (
+    endpoint: string,
+    body: { robotApiIdentifier: string; userQuestion: string; userId: string; sessionId: string | null }
+): Promise<ChatResponse> =>
+    request<ChatResponse>(`${endpoint}/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, sessionId: body.sessionId ?? undefined }),
+    });
@@ -0,0 +1,32 @@
+import { mountWidget, WidgetConfig } from './widget';
+
+export type { WidgetConfig } from './widget';
+
+/**
+ * Mounts the chat widget. Use this when the embed snippet's data attributes are not enough,
+ * e.g. to mount it only after the visitor has logged in.
+ * @param config The robot and chat server to talk to.
+ * @returns A function that removes the widget again.
+ */
+export const init = (config: WidgetConfig): (() => void) => {
+    if (!config.robot) throw new Error('KbWidget: robot is required');
+    return mountWidget({ ...config, endpoint: config.endpoint.replace(/\/+$/, '') });
+};
+
+// Auto-mount from the embed snippet:
+// <script src=".../widget.js" data-robot="<apiIdentifier>" data-endpoint="https://..." async></script>
+// data-endpoint defaults to the origin the script was loaded from, i.e. the chat server.
+const script = document.currentScript as HTMLScriptElement | null;
+if (script?.dataset.robot) {
+    const config: WidgetConfig = {
+        robot: script.dataset.robot,
+        endpoint: script.dataset.endpoint || new URL(script.src).origin,
+        title: script.dataset.title,
+    };
+    const start = () => init(config);
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', start);
+    } else {
+        start();
+    }
+}
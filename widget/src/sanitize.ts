@@ -0,0 +1,61 @@
+// Answers are authored as rich text in KnowledgeEditor, but the widget runs on customer
+// pages, so only formatting markup survives. Anything not listed here is unwrapped.
+const ALLOWED_TAGS = new Set([
+    'a', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i',
+    'img', 'li', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'th',
+    'thead', 'tr', 'u', 'ul', 'video', 'source',
+]);
+// These are removed together with their content.
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'form', 'input', 'button', 'textarea', 'select', 'link', 'meta', 'template', 'svg', 'math']);
+const ALLOWED_ATTRIBUTES = new Set(['href', 'src', 'alt', 'title', 'style', 'controls', 'width', 'height', 'colspan', 'rowspan', 'align']);
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL = /^(https?:|mailto:|tel:|data:image\/(png|gif|jpe?g|webp);|\/|#)/i;
+// Inline styles may carry colors and alignment, but not URLs, scripts or positioning tricks.
+const UNSAFE_STYLE = /url\s*\(|expression\s*\(|javascript:|position\s*:|@import/i;
+
+const sanitizeNode = (node: Node, document: Document): Node | DocumentFragment | null => {
+    if (node.nodeType === Node.TEXT_NODE) return document.createTextNode(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return null;
+
+    const children = document.createDocumentFragment();
+    element.childNodes.forEach(child => {
+        const clean = sanitizeNode(child, document);
+        if (clean) children.appendChild(clean);
+    });
+    if (!ALLOWED_TAGS.has(tag)) return children;
+
+    const clean = document.createElement(tag);
+    Array.from(element.attributes).forEach(({ name, value }) => {
+        const attribute = name.toLowerCase();
+        if (!ALLOWED_ATTRIBUTES.has(attribute)) return;
+        if (URL_ATTRIBUTES.has(attribute) && !SAFE_URL.test(value.trim())) return;
+        if (attribute === 'style' && UNSAFE_STYLE.test(value)) return;
+        clean.setAttribute(attribute, value);
+    });
+    if (tag === 'a') {
+        clean.setAttribute('target', '_blank');
+        clean.setAttribute('rel', 'noopener noreferrer');
+    }
+    clean.appendChild(children);
+    return clean;
+};
+
+/**
+ * Parses answer HTML without executing it and keeps only safe formatting markup.
+ * @param html The untrusted HTML.
+ * @returns A fragment that can be inserted into the page.
+ */
+export const sanitizeHtml = (html: string): DocumentFragment => {
+    // A document from DOMParser is inert: scripts do not run and images do not load.
+    const parsed = new DOMParser().parseFromString(html, 'text/html');
+    const fragment = document.createDocumentFragment();
+    parsed.body.childNodes.forEach(child => {
+        const clean = sanitizeNode(child, document);
+        if (clean) fragment.appendChild(clean);
+    });
+    return fragment;
+};
@@ -0,0 +1,55 @@
+import type { RelatedQuestion } from './api';
+
+export interface WidgetMessage {
+    sender: 'user' | 'bot';
+    text: string; // HTML for bot messages, plain text for user messages
+    relatedQuestions?: RelatedQuestion[];
+    suggestions?: string[];
+}
+
+export interface WidgetState {
+    userId: string;
+    sessionId: string | null;
+    messages: WidgetMessage[];
+    isOpen: boolean;
+}
+
+// Older messages are dropped so a long conversation cannot fill the host page's storage.
+const MAX_STORED_MESSAGES = 50;
+
+const storageKey = (apiIdentifier: string) => `kb_widget_${apiIdentifier}`;
+
+/**
+ * Restores the conversation from a previous page load, or starts a new one.
+ * @param apiIdentifier The robot's API identifier; each robot keeps its own session.
+ * @returns The widget state.
+ */
+export const loadState = (apiIdentifier: string): WidgetState => {
+    try {
+        const stored = localStorage.getItem(storageKey(apiIdentifier));
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to restore chat widget session", e);
+    }
+    return {
+        userId: `user-${Math.random().toString(36).substr(2, 9)}`,
+        sessionId: null,
+        messages: [],
+        isOpen: false,
+    };
+};
+
+/**
+ * Saves the conversation so it survives page reloads and navigation.
+ * @param apiIdentifier The robot's API identifier.
+ * @param state The widget state.
+ */
+export const saveState = (apiIdentifier: string, state: WidgetState) => {
+    try {
+        const trimmed = { ...state, messages: state.messages.slice(-MAX_STORED_MESSAGES) };
+        localStorage.setItem(storageKey(apiIdentifier), JSON.stringify(trimmed));
+    } catch (e) {
+        // Storage can be full or disabled (e.g. private browsing); the chat still works for this page.
+        console.error("Failed to save chat widget session", e);
+    }
+};
@@ -0,0 +1,41 @@
+// The widget renders inside a shadow root, so these rules neither leak into nor inherit
+// from the host page's stylesheets.
+export const WIDGET_STYLES = `
+:host { all: initial; }
+* { box-sizing: border-box; font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; }
+.launcher {
+    position: fixed; right: 24px; bottom: 24px; z-index: 2147483000;
+    width: 56px; height: 56px; border: none; border-radius: 50%;
+    background: #2563eb; color: #fff; cursor: pointer;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.2); display: flex; align-items: center; justify-content: center;
+}
+.launcher:hover { background: #1d4ed8; }
+.launcher svg { width: 28px; height: 28px; }
+.panel {
+    position: fixed; right: 24px; bottom: 92px; z-index: 2147483000;
+    width: 360px; max-width: calc(100vw - 32px); height: 520px; max-height: calc(100vh - 120px);
+    display: flex; flex-direction: column; overflow: hidden;
+    background: #fff; color: #111827; border-radius: 12px; box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+}
+.panel[hidden] { display: none; }
+.header { display: flex; align-items: center; gap: 8px; padding: 12px 16px; background: #2563eb; color: #fff; }
+.header img { width: 32px; height: 32px; border-radius: 50%; background: #fff; object-fit: cover; }
+.header .title { flex: 1; font-size: 15px; font-weight: 600; }
+.header button { background: none; border: none; color: #fff; font-size: 20px; cursor: pointer; line-height: 1; }
+.messages { flex: 1; overflow-y: auto; padding: 16px; display: flex; flex-direction: column; gap: 12px; background: #f9fafb; }
+.message { max-width: 85%; padding: 8px 12px; border-radius: 8px; font-size: 14px; line-height: 1.5; word-wrap: break-word; }
+.message.user { align-self: flex-end; background: #2563eb; color: #fff; white-space: pre-wrap; }
+.message.bot { align-self: flex-start; background: #e5e7eb; color: #111827; }
+.message.bot img, .message.bot video { max-width: 100%; height: auto; }
+.message.bot p { margin: 0 0 4px; }
+.chips { display: flex; flex-direction: column; align-items: flex-start; gap: 4px; margin-top: 8px; }
+.chips .label { font-size: 12px; color: #6b7280; }
+.chip { background: #fff; border: 1px solid #bfdbfe; color: #1d4ed8; border-radius: 999px; padding: 4px 10px; font-size: 13px; cursor: pointer; text-align: left; }
+.chip:hover { background: #eff6ff; }
+.typing { align-self: flex-start; color: #6b7280; font-size: 13px; }
+.composer { display: flex; gap: 8px; padding: 12px; border-top: 1px solid #e5e7eb; background: #fff; }
+.composer input { flex: 1; padding: 8px 12px; border: 1px solid #d1d5db; border-radius: 8px; font-size: 14px; outline: none; }
+.composer input:focus { border-color: #2563eb; }
+.composer button { padding: 8px 14px; border: none; border-radius: 8px; background: #2563eb; color: #fff; font-size: 14px; cursor: pointer; }
+.composer button:disabled { background: #93c5fd; cursor: not-allowed; }
+`;
@@ -0,0 +1,170 @@
+import { fetchRobotProfile, sendQuestion, RobotProfile } from './api';
+import { sanitizeHtml } from './sanitize';
+import { loadState, saveState, WidgetMessage, WidgetState } from './session';
+import { WIDGET_STYLES } from './styles';
+
+export interface WidgetConfig {
+    robot: string; // The robot's apiIdentifier
+    endpoint: string; // Base URL of the chat server, without a trailing slash
+    title?: string; // Overrides the robot's name in the header
+}
+
+const CHAT_ICON = '<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor" stroke-width="2"><path stroke-linecap="round" stroke-linejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>';
+const ERROR_TEXT = '抱歉，服务暂时不可用，请稍后再试。';
+
+const createElement = <K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string): HTMLElementTagNameMap[K] => {
+    const element = document.createElement(tag);
+    if (className) element.className = className;
+    if (text !== undefined) element.textContent = text;
+    return element;
+};
+
+/**
+ * Mounts the chat widget (a floating button and a chat panel) on the current page.
+ * @param config The robot and chat server to talk to.
+ * @returns A function that removes the widget again.
+ */
+export const mountWidget = (config: WidgetConfig): (() => void) => {
+    const state: WidgetState = loadState(config.robot);
+    let profile: RobotProfile | null = null;
+    let isSending = false;
+
+    const host = createElement('div');
+    host.setAttribute('data-kb-widget', config.robot);
+    const root = host.attachShadow({ mode: 'open' });
+    const style = createElement('style');
+    style.textContent = WIDGET_STYLES;
+
+    const launcher = createElement('button', 'launcher');
+    launcher.setAttribute('aria-label', '打开在线客服');
+    launcher.innerHTML = CHAT_ICON;
+
+    const panel = createElement('div', 'panel');
+    panel.setAttribute('role', 'dialog');
+    const header = createElement('div', 'header');
+    const avatar = createElement('img');
+    avatar.alt = '';
+    const title = createElement('div', 'title', config.title || '在线客服');
+    const closeButton = createElement('button', undefined, '×');
+    closeButton.setAttribute('aria-label', '关闭');
+    header.append(avatar, title, closeButton);
+
+    const messageList = createElement('div', 'messages');
+    const composer = createElement('form', 'composer');
+    const input = createElement('input');
+    input.placeholder = '请输入您的问题...';
+    const sendButton = createElement('button', undefined, '发送');
+    sendButton.type = 'submit';
+    composer.append(input, sendButton);
+    panel.append(header, messageList, composer);
+    root.append(style, launcher, panel);
+
+    const persist = () => saveState(config.robot, state);
+
+    const renderChips = (label: string, questions: string[]): HTMLElement => {
+        const chips = createElement('div', 'chips');
+        chips.appendChild(createElement('span', 'label', label));
+        questions.forEach(question => {
+            const chip = createElement('button', 'chip', question);
+            chip.type = 'button';
+            chip.addEventListener('click', () => ask(question));
+            chips.appendChild(chip);
+        });
+        return chips;
+    };
+
+    const renderMessage = (message: WidgetMessage): HTMLElement => {
+        const bubble = createElement('div', `message ${message.sender}`);
+        if (message.sender === 'user') {
+            bubble.textContent = message.text;
+            return bubble;
+        }
+        bubble.appendChild(sanitizeHtml(message.text));
+        if (message.relatedQuestions && message.relatedQuestions.length > 0) {
+            bubble.appendChild(renderChips('相关问题：', message.relatedQuestions.map(q => q.standardQuestion)));
+        }
+        if (message.suggestions && message.suggestions.length > 0) {
+            bubble.appendChild(renderChips('您可以试试：', message.suggestions));
+        }
+        return bubble;
+    };
+
+    const render = () => {
+        panel.hidden = !state.isOpen;
+        if (profile) {
+            avatar.src = profile.avatar;
+            avatar.hidden = !profile.avatar;
+            title.textContent = config.title || profile.name;
+        }
+
+        messageList.replaceChildren();
+        // The welcome message is rendered from the profile rather than stored, so it stays current.
+        if (profile) {
+            messageList.appendChild(renderMessage({ sender: 'bot', text: profile.welcomeMessage, suggestions: state.messages.length === 0 ? profile.suggestions : [] }));
+        }
+        state.messages.forEach(message => messageList.appendChild(renderMessage(message)));
+        if (isSending) messageList.appendChild(createElement('div', 'typing', '正在输入...'));
+        messageList.scrollTop = messageList.scrollHeight;
+
+        sendButton.disabled = isSending;
+    };
+
+    const ask = async (question: string) => {
+        const text = question.trim();
+        if (!text || isSending) return;
+        state.messages.push({ sender: 'user', text });
+        input.value = '';
+        isSending = true;
+        persist();
+        render();
+
+        try {
+            const response = await sendQuestion(config.endpoint, {
+                robotApiIdentifier: config.robot,
+                userQuestion: text,
+                userId: state.userId,
+                sessionId: state.sessionId,
+            });
+            state.sessionId = response.sessionId;
+            state.messages.push({
+                sender: 'bot',
+                text: response.answer,
+                relatedQuestions: response.relatedQuestions,
+                suggestions: response.suggestions,
+            });
+        } catch (error) {
+            console.error("Chat widget request failed:", error);
+            state.messages.push({ sender: 'bot', text: ERROR_TEXT });
+        } finally {
+            isSending = false;
+            persist();
+            render();
+        }
+    };
+
+    const setOpen = (isOpen: boolean) => {
+        state.isOpen = isOpen;
+        persist();
+        render();
+        if (isOpen) input.focus();
+    };
+
+    launcher.addEventListener('click', () => setOpen(!state.isOpen));
+    closeButton.addEventListener('click', () => setOpen(false));
+    composer.addEventListener('submit', (event) => {
+        event.preventDefault();
+        ask(input.value);
+    });
+
+    document.body.appendChild(host);
+    render();
+
+    fetchRobotProfile(config.endpoint, config.robot)
+        .then(result => {
+            profile = result;
+            render();
+        })
+        .catch(error => console.error("Failed to load chat widget robot profile:", error));
+
+    return () => host.remove();
+};
@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the embeddable chat widget as a single self-contained script, separately from the
+// admin app. The chat server serves the result at /widget.js.
+export default defineConfig({
+    build: {
+        outDir: path.resolve(__dirname, '../dist/widget'),
+        emptyOutDir: true,
+        lib: {
+            entry: path.resolve(__dirname, 'src/index.ts'),
+            name: 'KbWidget',
+            formats: ['iife'],
+            fileName: () => 'widget.js',
+        },
+    },
+});